@@ -8,10 +8,16 @@ import StagePrompts from './components/StagePrompts';
 import Dashboard from './components/Dashboard';
 import Onboarding, { shouldShowOnboarding, resetOnboarding } from './components/Onboarding';
 import ModelConfigModal from './components/ModelConfig';
-import { ProjectState } from './types';
-import { Save, CheckCircle, X } from 'lucide-react';
-import { saveProjectToDB } from './services/storageService';
-import { setGlobalApiKey } from './services/aiService';
+import ProjectHistoryModal from './components/ProjectHistoryModal';
+import JobQueuePanel from './components/JobQueuePanel';
+import { ProjectState, GenerationJob } from './types';
+import { Save, CheckCircle, X, Lock, CloudOff } from 'lucide-react';
+import { saveProjectToDB, loadProjectFromDB, createProjectSnapshot } from './services/storageService';
+import { SyncConflictError, isProjectUnsynced } from './services/syncService';
+import { requestProjectLock, subscribeTabMessages, supportsProjectLocks, ProjectLock } from './services/tabSyncService';
+import { createUndoHistory, isUndoableChange, recordUndoStep, undoProject, redoProject, getActiveUndoGroup, UndoHistory } from './services/undoHistoryService';
+import { setGlobalApiKey, resumeVideoTask } from './services/aiService';
+import { recoverProjectJobs, listGenerationJobs, subscribeGenerationJobs, isActiveJobStatus } from './services/jobQueueService';
 import { setLogCallback, clearLogCallback } from './services/renderLogService';
 import { useAlert } from './components/GlobalAlert';
 import logoImg from './logo.png';
@@ -27,7 +33,33 @@ function App() {
   const [showOnboarding, setShowOnboarding] = useState(false);
   const [showModelConfig, setShowModelConfig] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showJobs, setShowJobs] = useState(false);
+  const [activeJobCount, setActiveJobCount] = useState(0);
+  // 恢复快照后递增，强制重新挂载当前阶段以同步其本地编辑状态
+  const [restoreCount, setRestoreCount] = useState(0);
   
+  // 撤销/重做历史（只在 ref 中维护，按钮可用状态单独存为 state）
+  const undoHistoryRef = useRef<UndoHistory>(createUndoHistory());
+  const lastProjectRef = useRef<ProjectState | null>(null);
+  const isApplyingHistoryRef = useRef(false);
+  // 最近一次 updateProject 调用时打开的撤销分组，状态变更记录历史时使用
+  const pendingUndoGroupRef = useRef<number | null>(null);
+  const [undoAvailability, setUndoAvailability] = useState({ canUndo: false, canRedo: false });
+
+  // 团队同步冲突提示进行中，避免自动保存重复弹窗
+  const syncConflictRef = useRef(false);
+  // 用户选择稍后处理冲突的项目，重新获取服务器版本前自动保存不再提示
+  const deferredSyncConflictRef = useRef<string | null>(null);
+
+  // 多标签页：项目已在其他标签页编辑时当前标签页只读
+  const [isReadOnly, setIsReadOnly] = useState(false);
+  const isReadOnlyRef = useRef(false);
+  const projectLockRef = useRef<ProjectLock | null>(null);
+  const projectRef = useRef<ProjectState | null>(null);
+  const readOnlyPromptRef = useRef(false);
+  projectRef.current = project;
+
   // Ref to hold debounce timer
   const saveTimeoutRef = useRef<any>(null);
   const hideStatusTimeoutRef = useRef<any>(null);
@@ -147,19 +179,258 @@ function App() {
     return () => clearLogCallback();
   }, [project?.id]); // Re-setup when project changes
 
+  // 记录撤销历史：对比上一次的项目状态，忽略导航与日志等非内容变化
+  useEffect(() => {
+    const prev = lastProjectRef.current;
+    lastProjectRef.current = project;
+    if (!project || !prev || prev.id !== project.id) {
+      undoHistoryRef.current = createUndoHistory();
+    } else if (isApplyingHistoryRef.current) {
+      isApplyingHistoryRef.current = false;
+    } else if (isUndoableChange(prev, project)) {
+      undoHistoryRef.current = recordUndoStep(undoHistoryRef.current, prev, pendingUndoGroupRef.current);
+    }
+    pendingUndoGroupRef.current = null;
+    setUndoAvailability({
+      canUndo: undoHistoryRef.current.past.length > 0,
+      canRedo: undoHistoryRef.current.future.length > 0,
+    });
+  }, [project]);
+
+  /**
+   * 团队同步冲突：可加载服务器版本（当前的本地修改先保存为快照）或用本地版本覆盖服务器
+   * 选择稍后处理后，自动保存不再提示，直到重新获取服务器版本；explicit 为 true（如退出项目）时始终提示
+   */
+  const handleSyncConflict = (explicit: boolean) => {
+    setSaveStatus('unsaved');
+    const current = projectRef.current;
+    if (!current || syncConflictRef.current) return;
+    if (!explicit && deferredSyncConflictRef.current === current.id) return;
+    syncConflictRef.current = true;
+    showAlert(`「${current.title}」已被其他成员修改并保存到同步服务器，本地修改暂未同步。\n\n加载服务器版本时，当前的本地修改会先保存为快照，可在版本历史中找回；覆盖服务器版本会丢弃其他成员的修改。`, {
+      title: '同步冲突',
+      type: 'warning',
+      showCancel: true,
+      confirmText: '加载服务器版本',
+      secondaryText: '覆盖服务器版本',
+      cancelText: '稍后处理',
+      onConfirm: async () => {
+        const local = projectRef.current;
+        if (!local) return;
+        try {
+          await createProjectSnapshot(local, '同步冲突前的本地版本', 'manual');
+          const latest = await loadProjectFromDB(local.id);
+          setProject(prev => prev && prev.id === latest.id ? { ...latest, stage: prev.stage } : prev);
+          setRestoreCount(count => count + 1);
+          deferredSyncConflictRef.current = null;
+        } catch (e) {
+          console.error('Failed to load server version', e);
+          showAlert(`加载服务器版本失败: ${e instanceof Error ? e.message : '未知错误'}`, { type: 'error' });
+        } finally {
+          syncConflictRef.current = false;
+        }
+      },
+      onSecondary: async () => {
+        const local = projectRef.current;
+        if (!local) return;
+        try {
+          await saveProjectToDB(local, { force: true });
+          deferredSyncConflictRef.current = null;
+          setSaveStatus('saved');
+        } catch (e) {
+          console.error('Failed to overwrite server version', e);
+          showAlert(`覆盖服务器版本失败: ${e instanceof Error ? e.message : '未知错误'}`, { type: 'error' });
+        } finally {
+          syncConflictRef.current = false;
+        }
+      },
+      onCancel: () => {
+        deferredSyncConflictRef.current = current.id;
+        syncConflictRef.current = false;
+      }
+    });
+  };
+
+  /** 保存项目，遇到同步冲突时提示用户并返回 false */
+  const saveCurrentProject = async (target: ProjectState, explicit: boolean = false): Promise<boolean> => {
+    try {
+      await saveProjectToDB(target);
+      return true;
+    } catch (e) {
+      if (e instanceof SyncConflictError) {
+        handleSyncConflict(explicit);
+        return false;
+      }
+      throw e;
+    }
+  };
+
+  /**
+   * 从存储重新加载项目（其他标签页保存了新的修改），其他标签页的修改不计入本标签页的撤销历史
+   */
+  const reloadProject = async (id: string) => {
+    try {
+      const latest = await loadProjectFromDB(id);
+      lastProjectRef.current = null;
+      if (deferredSyncConflictRef.current === id) deferredSyncConflictRef.current = null;
+      setProject(prev => prev && prev.id === id ? { ...latest, stage: prev.stage } : prev);
+      setRestoreCount(count => count + 1);
+    } catch (e) {
+      console.error('Failed to reload project', e);
+    }
+  };
+
+  /**
+   * 将恢复的异步视频任务结果写回镜头；任务失败或被取消时标记为失败
+   */
+  const applyRecoveredVideo = (job: GenerationJob, videoUrl?: string) => {
+    const shotId = job.target?.id;
+    setProject(prev => {
+      if (!prev || prev.id !== job.projectId) return prev;
+      return {
+        ...prev,
+        shots: prev.shots.map(s => s.id === shotId && s.interval
+          ? { ...s, interval: videoUrl ? { ...s.interval, videoUrl, status: 'completed' } : { ...s.interval, status: 'failed' } }
+          : s)
+      };
+    });
+  };
+
+  /**
+   * 恢复上次关闭页面时中断的生成任务：异步视频任务凭远程任务 ID 继续查询，其余标记为失败
+   */
+  const recoverJobs = async (projectId: string) => {
+    const resumed = await recoverProjectJobs(projectId, (job, signal) =>
+      job.kind === 'video' && job.target?.type === 'video' && job.remoteTask ? resumeVideoTask(job.remoteTask, signal) : undefined
+    );
+    resumed.forEach(({ job, result }) => {
+      result.then(
+        url => applyRecoveredVideo(job, url as string),
+        e => {
+          console.error('恢复视频任务失败', e);
+          applyRecoveredVideo(job);
+        }
+      );
+    });
+  };
+
+  // 项目编辑锁：同一项目只允许一个标签页编辑
+  useEffect(() => {
+    const projectId = project?.id;
+    if (!projectId) return;
+
+    const setReadOnly = (value: boolean) => {
+      isReadOnlyRef.current = value;
+      setIsReadOnly(value);
+    };
+    const lock = requestProjectLock(projectId, {
+      onAcquired: () => {
+        // 从只读转为编辑方时，先载入对方交出前保存的最新版本
+        if (isReadOnlyRef.current) reloadProject(projectId);
+        setReadOnly(false);
+        recoverJobs(projectId);
+      },
+      onReadOnly: () => setReadOnly(true),
+      onTakeoverRequested: async () => {
+        if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
+        try {
+          if (projectRef.current) await saveProjectToDB(projectRef.current);
+        } catch (e) {
+          console.error('Save before handover failed', e);
+        }
+        lock.handOver();
+        showAlert('该项目已在其他标签页中接管编辑，当前标签页转为只读。', { type: 'info' });
+      },
+    });
+    projectLockRef.current = lock;
+
+    return () => {
+      lock.release();
+      projectLockRef.current = null;
+      setReadOnly(false);
+    };
+  }, [project?.id]);
+
+  // 其他标签页保存了当前项目：只读时同步最新内容；不支持编辑锁的浏览器中提示可能的覆盖
+  useEffect(() => {
+    const projectId = project?.id;
+    if (!projectId) return;
+    return subscribeTabMessages(message => {
+      if (message.type !== 'project-saved' || message.projectId !== projectId) return;
+      if (isReadOnlyRef.current) {
+        reloadProject(projectId);
+      } else if (!supportsProjectLocks()) {
+        showAlert('该项目已在其他标签页中保存了新的修改，继续在此编辑会覆盖对方的修改。是否加载最新版本？', {
+          type: 'warning',
+          showCancel: true,
+          confirmText: '加载最新版本',
+          cancelText: '继续编辑',
+          onConfirm: () => reloadProject(projectId),
+        });
+      }
+    });
+  }, [project?.id]);
+
+  // 侧边栏显示当前项目进行中的生成任务数量
+  useEffect(() => {
+    const projectId = project?.id;
+    if (!projectId) return;
+    let cancelled = false;
+    const refresh = () => {
+      listGenerationJobs(projectId)
+        .then(jobs => {
+          if (!cancelled) setActiveJobCount(jobs.filter(job => isActiveJobStatus(job.status)).length);
+        })
+        .catch(e => console.error('加载生成任务失败', e));
+    };
+    refresh();
+    const unsubscribe = subscribeGenerationJobs(projectId, refresh);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+      setActiveJobCount(0);
+    };
+  }, [project?.id]);
+
+  const handleTakeOver = () => {
+    projectLockRef.current?.takeOver();
+  };
+
+  /** 只读状态下尝试编辑时提示接管 */
+  const promptTakeOver = () => {
+    if (readOnlyPromptRef.current) return;
+    readOnlyPromptRef.current = true;
+    showAlert('该项目正在其他标签页中编辑，当前标签页为只读，修改不会生效。是否在此标签页接管编辑？', {
+      type: 'warning',
+      showCancel: true,
+      confirmText: '接管编辑',
+      cancelText: '保持只读',
+      onConfirm: () => {
+        readOnlyPromptRef.current = false;
+        handleTakeOver();
+      },
+      onCancel: () => {
+        readOnlyPromptRef.current = false;
+      },
+    });
+  };
+
   // Auto-save logic
   useEffect(() => {
-    if (!project) return;
+    if (!project || isReadOnlyRef.current) return;
 
     setSaveStatus('unsaved');
     setShowSaveStatus(true);
     if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
 
     saveTimeoutRef.current = setTimeout(async () => {
+      // 编辑锁在打开项目后异步确定，只读标签页不写入
+      if (isReadOnlyRef.current) return;
       setSaveStatus('saving');
       try {
-        await saveProjectToDB(project);
-        setSaveStatus('saved');
+        if (await saveCurrentProject(project)) {
+          setSaveStatus('saved');
+        }
       } catch (e) {
         console.error("Auto-save failed", e);
       }
@@ -190,6 +461,12 @@ function App() {
 
   const updateProject = (updates: Partial<ProjectState> | ((prev: ProjectState) => ProjectState)) => {
     if (!project) return;
+    // 只读时仍允许切换阶段等非内容变化
+    if (isReadOnly && (typeof updates === 'function' || isUndoableChange(project, { ...project, ...updates }))) {
+      promptTakeOver();
+      return;
+    }
+    pendingUndoGroupRef.current = getActiveUndoGroup();
     setProject(prev => {
       if (!prev) return null;
       // 支持函数式更新
@@ -200,6 +477,45 @@ function App() {
     });
   };
 
+  const applyHistory = (direction: 'undo' | 'redo') => {
+    if (!project) return;
+    if (isReadOnly) {
+      promptTakeOver();
+      return;
+    }
+    if (isGenerating) {
+      showAlert('当前正在执行生成任务，请等待完成后再撤销或重做。', { type: 'warning' });
+      return;
+    }
+    const result = direction === 'undo'
+      ? undoProject(undoHistoryRef.current, project)
+      : redoProject(undoHistoryRef.current, project);
+    if (!result) return;
+    undoHistoryRef.current = result.history;
+    isApplyingHistoryRef.current = true;
+    setProject(result.project);
+  };
+
+  // 全局快捷键：Ctrl/⌘+Z 撤销，Ctrl/⌘+Shift+Z 或 Ctrl+Y 重做；输入框内保留浏览器原生的文本撤销
+  useEffect(() => {
+    if (!project) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z') {
+        e.preventDefault();
+        applyHistory(e.shiftKey ? 'redo' : 'undo');
+      } else if (key === 'y') {
+        e.preventDefault();
+        applyHistory('redo');
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
   const setStage = (stage: 'script' | 'assets' | 'director' | 'export' | 'prompts') => {
     if (isGenerating) {
       showAlert('当前正在执行生成任务（剧本分镜 / 首帧 / 视频等），切换页面会导致生成数据丢失，且已扣除的费用无法恢复。\n\n确定要离开当前页面吗？', {
@@ -219,6 +535,7 @@ function App() {
   };
 
   const handleOpenProject = (proj: ProjectState) => {
+    deferredSyncConflictRef.current = null;
     setProject(proj);
   };
 
@@ -232,21 +549,35 @@ function App() {
         cancelText: '继续等待',
         onConfirm: async () => {
           setIsGenerating(false);
-          if (project) {
-            await saveProjectToDB(project);
-          }
+          if (project && !(await saveCurrentProject(project, true))) return;
           setProject(null);
         }
       });
       return;
     }
     // Force save before exiting
-    if (project) {
-        await saveProjectToDB(project);
-    }
+    if (project && !isReadOnly && !(await saveCurrentProject(project, true))) return;
     setProject(null);
   };
 
+  const handleShowHistory = () => {
+    if (isReadOnly) {
+      promptTakeOver();
+      return;
+    }
+    if (isGenerating) {
+      showAlert('当前正在执行生成任务，请等待完成后再查看或恢复版本历史。', { type: 'warning' });
+      return;
+    }
+    setShowHistory(true);
+  };
+
+  // 恢复快照：保留项目 ID 与当前所在阶段，其余内容替换为快照版本
+  const handleRestoreSnapshot = (restored: ProjectState) => {
+    setProject(prev => prev ? { ...restored, id: prev.id, stage: prev.stage } : prev);
+    setRestoreCount(count => count + 1);
+  };
+
   const renderStage = () => {
     if (!project) return null;
     switch (project.stage) {
@@ -264,7 +595,7 @@ function App() {
       case 'director':
         return <StageDirector project={project} updateProject={updateProject} onGeneratingChange={setIsGenerating} />;
       case 'export':
-        return <StageExport project={project} />;
+        return <StageExport project={project} updateProject={updateProject} />;
       case 'prompts':
         return <StagePrompts project={project} updateProject={updateProject} />;
       default:
@@ -332,11 +663,32 @@ function App() {
         projectName={project.title}
         onShowOnboarding={handleShowOnboarding}
         onShowModelConfig={() => setShowModelConfig(true)}
+        onShowHistory={handleShowHistory}
+        onShowJobs={() => setShowJobs(true)}
+        activeJobCount={activeJobCount}
+        onUndo={() => applyHistory('undo')}
+        onRedo={() => applyHistory('redo')}
+        canUndo={undoAvailability.canUndo}
+        canRedo={undoAvailability.canRedo}
         isNavigationLocked={isGenerating}
       />
       
       <main className="ml-72 flex-1 h-screen overflow-hidden relative">
-        {renderStage()}
+        <React.Fragment key={restoreCount}>{renderStage()}</React.Fragment>
+
+        {/* Read-only Banner */}
+        {isReadOnly && (
+          <div className="absolute top-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 text-xs text-[var(--warning-text)] bg-[var(--bg-elevated)] border border-[var(--warning-border)] px-4 py-2 rounded-full shadow-lg">
+            <Lock className="w-3.5 h-3.5" />
+            该项目正在其他标签页中编辑，当前为只读
+            <button
+              onClick={handleTakeOver}
+              className="px-2.5 py-1 rounded-full bg-[var(--warning-bg)] hover:bg-[var(--bg-hover)] text-[var(--text-primary)] font-bold transition-colors"
+            >
+              在此编辑
+            </button>
+          </div>
+        )}
         
         {/* Save Status Indicator */}
         {showSaveStatus && (
@@ -346,6 +698,11 @@ function App() {
                  <Save className="w-3 h-3 animate-pulse" />
                  保存中...
                </>
+             ) : project && isProjectUnsynced(project.id) ? (
+               <>
+                 <CloudOff className="w-3 h-3 text-[var(--warning-text)]" />
+                 已保存到本机（未同步）
+               </>
              ) : (
                <>
                  <CheckCircle className="w-3 h-3 text-[var(--success)]" />
@@ -371,6 +728,20 @@ function App() {
         isOpen={showModelConfig}
         onClose={() => setShowModelConfig(false)}
       />
+
+      {/* Generation Job Panel */}
+      {showJobs && (
+        <JobQueuePanel projectId={project.id} onClose={() => setShowJobs(false)} />
+      )}
+
+      {/* Version History Modal */}
+      {showHistory && (
+        <ProjectHistoryModal
+          project={project}
+          onRestore={handleRestoreSnapshot}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
     </div>
   );
 }
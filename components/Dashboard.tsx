@@ -1,9 +1,15 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { Plus, Trash2, Loader2, Folder, ChevronRight, Calendar, AlertTriangle, X, HelpCircle, Cpu, Archive, Search, Users, MapPin, Database, Settings, Sun, Moon } from 'lucide-react';
+import { Plus, Trash2, Loader2, Folder, ChevronRight, Calendar, AlertTriangle, X, HelpCircle, Cpu, Archive, Search, Users, MapPin, Database, Settings, Sun, Moon, HardDrive, CloudOff } from 'lucide-react';
 import { ProjectState, AssetLibraryItem, Character, Scene } from '../types';
-import { getAllProjectsMetadata, createNewProjectState, deleteProjectFromDB, getAllAssetLibraryItems, deleteAssetFromLibrary, loadProjectFromDB, saveProjectToDB, exportIndexedDBData, importIndexedDBData } from '../services/storageService';
+import { getAllProjectsMetadata, ProjectMetadata, createNewProjectState, deleteProjectFromDB, getAllAssetLibraryItems, deleteAssetFromLibrary, loadProjectFromDB, saveProjectToDB, exportIndexedDBData } from '../services/storageService';
+import { readImportFile, ImportBundle, PROJECT_PACKAGE_EXTENSION } from '../services/projectPackageService';
 import { applyLibraryItemToProject } from '../services/assetLibraryService';
+import { subscribeTabMessages } from '../services/tabSyncService';
+import { isProjectUnsynced } from '../services/syncService';
 import { useAlert } from './GlobalAlert';
+import StorageUsageModal from './StorageUsageModal';
+import ImportDataModal from './ImportDataModal';
+import SyncSettingsModal from './SyncSettingsModal';
 import { useTheme } from '../contexts/ThemeContext';
 import qrCodeImg from '../images/qrcode.jpg';
 
@@ -16,7 +22,7 @@ interface Props {
 const Dashboard: React.FC<Props> = ({ onOpenProject, onShowOnboarding, onShowModelConfig }) => {
   const { showAlert } = useAlert();
   const { theme, toggleTheme } = useTheme();
-  const [projects, setProjects] = useState<ProjectState[]>([]);
+  const [projects, setProjects] = useState<ProjectMetadata[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
   const [showGroupQr, setShowGroupQr] = useState(false);
@@ -28,6 +34,9 @@ const Dashboard: React.FC<Props> = ({ onOpenProject, onShowOnboarding, onShowMod
   const [assetToUse, setAssetToUse] = useState<AssetLibraryItem | null>(null);
   const [showLibraryModal, setShowLibraryModal] = useState(false);
   const [showSettingsModal, setShowSettingsModal] = useState(false);
+  const [showStorageModal, setShowStorageModal] = useState(false);
+  const [showSyncModal, setShowSyncModal] = useState(false);
+  const [importBundle, setImportBundle] = useState<ImportBundle | null>(null);
   const [isDataExporting, setIsDataExporting] = useState(false);
   const [isDataImporting, setIsDataImporting] = useState(false);
   const importInputRef = useRef<HTMLInputElement>(null);
@@ -39,6 +48,7 @@ const Dashboard: React.FC<Props> = ({ onOpenProject, onShowOnboarding, onShowMod
       setProjects(list);
     } catch (e) {
       console.error("Failed to load projects", e);
+      showAlert(`加载项目列表失败: ${e instanceof Error ? e.message : '未知错误'}`, { type: 'error' });
     } finally {
       setIsLoading(false);
     }
@@ -66,6 +76,19 @@ const Dashboard: React.FC<Props> = ({ onOpenProject, onShowOnboarding, onShowMod
     }
   }, [showLibraryModal]);
 
+  // 其他标签页保存、删除或导入后刷新项目列表与资产库
+  useEffect(() => {
+    return subscribeTabMessages(message => {
+      if (message.type === 'project-saved' || message.type === 'projects-changed') {
+        getAllProjectsMetadata()
+          .then(setProjects)
+          .catch(e => console.error('Failed to refresh projects', e));
+      } else if (message.type === 'assets-changed' && showLibraryModal) {
+        loadLibrary();
+      }
+    });
+  }, [showLibraryModal]);
+
   const handleCreate = () => {
     const newProject = createNewProjectState();
     onOpenProject(newProject);
@@ -120,6 +143,14 @@ const Dashboard: React.FC<Props> = ({ onOpenProject, onShowOnboarding, onShowMod
     });
   };
 
+  const handleOpenSavedProject = async (projectId: string) => {
+    try {
+      onOpenProject(await loadProjectFromDB(projectId));
+    } catch (error) {
+      showAlert(`打开项目失败: ${error instanceof Error ? error.message : '未知错误'}`, { type: 'error' });
+    }
+  };
+
   const handleUseAsset = async (projectId: string) => {
     if (!assetToUse) return;
     try {
@@ -192,41 +223,21 @@ const Dashboard: React.FC<Props> = ({ onOpenProject, onShowOnboarding, onShowMod
     event.target.value = '';
     if (!file) return;
 
-    if (!file.name.endsWith('.json')) {
-      showAlert('请选择 .json 备份文件。', { type: 'warning' });
-      return;
-    }
-
+    setIsDataImporting(true);
     try {
-      const text = await file.text();
-      const payload = JSON.parse(text);
-      const projectCount = payload?.stores?.projects?.length || 0;
-      const assetCount = payload?.stores?.assetLibrary?.length || 0;
-      const confirmMessage = `将导入 ${projectCount} 个项目和 ${assetCount} 个资产。若 ID 冲突将覆盖现有数据。是否继续？`;
-
-      showAlert(confirmMessage, {
-        type: 'warning',
-        showCancel: true,
-        onConfirm: async () => {
-          try {
-            setIsDataImporting(true);
-            const result = await importIndexedDBData(payload, { mode: 'merge' });
-            await loadProjects();
-            if (showLibraryModal) {
-              await loadLibrary();
-            }
-            showAlert(`导入完成：项目 ${result.projects} 个，资产 ${result.assets} 个。`, { type: 'success' });
-          } catch (error) {
-            console.error('Import failed:', error);
-            showAlert(`导入失败: ${error instanceof Error ? error.message : '未知错误'}`, { type: 'error' });
-          } finally {
-            setIsDataImporting(false);
-          }
-        }
-      });
+      setImportBundle(await readImportFile(file));
     } catch (error) {
       console.error('Import failed:', error);
       showAlert(`导入失败: ${error instanceof Error ? error.message : '未知错误'}`, { type: 'error' });
+    } finally {
+      setIsDataImporting(false);
+    }
+  };
+
+  const handleImported = async () => {
+    await loadProjects();
+    if (showLibraryModal) {
+      await loadLibrary();
     }
   };
 
@@ -306,7 +317,7 @@ const Dashboard: React.FC<Props> = ({ onOpenProject, onShowOnboarding, onShowMod
             {projects.map((proj) => (
               <div 
                 key={proj.id}
-                onClick={() => onOpenProject(proj)}
+                onClick={() => handleOpenSavedProject(proj.id)}
                 className="group bg-[var(--bg-primary)] border border-[var(--border-primary)] hover:border-[var(--border-secondary)] p-0 flex flex-col cursor-pointer transition-all relative overflow-hidden h-[280px]"
               >
                   {/* Delete Confirmation Overlay */}
@@ -367,6 +378,15 @@ const Dashboard: React.FC<Props> = ({ onOpenProject, onShowOnboarding, onShowMod
                                proj.stage === 'assets' ? '资产生成' :
                                proj.stage === 'director' ? '导演工作台' : '导出阶段'}
                             </span>
+                            {isProjectUnsynced(proj.id) && (
+                              <span
+                                className="flex items-center gap-1 text-[9px] font-mono text-[var(--warning-text)] border border-[var(--warning-border)] px-1.5 py-0.5 uppercase tracking-wider"
+                                title="无法连接同步服务器，显示的是本机缓存"
+                              >
+                                <CloudOff className="w-2.5 h-2.5" />
+                                未同步
+                              </span>
+                            )}
                         </div>
                         {proj.scriptData?.logline && (
                             <p className="text-[10px] text-[var(--text-muted)] line-clamp-2 leading-relaxed font-mono border-l border-[var(--border-primary)] pl-2">
@@ -416,6 +436,22 @@ const Dashboard: React.FC<Props> = ({ onOpenProject, onShowOnboarding, onShowMod
       )}
 
       {/* Settings Modal */}
+      {importBundle && (
+        <ImportDataModal
+          bundle={importBundle}
+          onClose={() => setImportBundle(null)}
+          onImported={handleImported}
+        />
+      )}
+
+      {showStorageModal && (
+        <StorageUsageModal onClose={() => setShowStorageModal(false)} />
+      )}
+
+      {showSyncModal && (
+        <SyncSettingsModal onClose={() => setShowSyncModal(false)} onChanged={loadProjects} />
+      )}
+
       {showSettingsModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-[var(--bg-base)]/70 p-6" onClick={() => setShowSettingsModal(false)}>
           <div
@@ -436,7 +472,7 @@ const Dashboard: React.FC<Props> = ({ onOpenProject, onShowOnboarding, onShowMod
                   系统设置
                   <span className="text-[var(--text-muted)] text-xs font-mono uppercase tracking-widest">Settings</span>
                 </h2>
-                <p className="text-xs text-[var(--text-tertiary)] mt-2">管理模型配置、资产库以及数据导入导出</p>
+                <p className="text-xs text-[var(--text-tertiary)] mt-2">管理模型配置、资产库、存储空间、团队同步以及数据导入导出</p>
               </div>
             </div>
 
@@ -492,7 +528,35 @@ const Dashboard: React.FC<Props> = ({ onOpenProject, onShowOnboarding, onShowMod
                   <Database className="w-4 h-4 text-[var(--accent-text)]" />
                   导入数据
                 </div>
-                <div className="text-[10px] text-[var(--text-tertiary)] font-mono mt-2">导入全部项目与资产库备份</div>
+                <div className="text-[10px] text-[var(--text-tertiary)] font-mono mt-2">导入 .json 备份或 .bbproj 项目包</div>
+              </button>
+
+              <button
+                onClick={() => {
+                  setShowSettingsModal(false);
+                  setShowStorageModal(true);
+                }}
+                className="p-4 border border-[var(--border-primary)] hover:border-[var(--border-secondary)] bg-[var(--bg-primary)] hover:bg-[var(--bg-secondary)] transition-colors text-left"
+              >
+                <div className="flex items-center gap-2 text-[var(--text-primary)] text-sm font-bold">
+                  <HardDrive className="w-4 h-4 text-[var(--accent-text)]" />
+                  存储空间
+                </div>
+                <div className="text-[10px] text-[var(--text-tertiary)] font-mono mt-2">查看占用并清理孤立媒体</div>
+              </button>
+
+              <button
+                onClick={() => {
+                  setShowSettingsModal(false);
+                  setShowSyncModal(true);
+                }}
+                className="p-4 border border-[var(--border-primary)] hover:border-[var(--border-secondary)] bg-[var(--bg-primary)] hover:bg-[var(--bg-secondary)] transition-colors text-left"
+              >
+                <div className="flex items-center gap-2 text-[var(--text-primary)] text-sm font-bold">
+                  <Users className="w-4 h-4 text-[var(--accent-text)]" />
+                  团队同步
+                </div>
+                <div className="text-[10px] text-[var(--text-tertiary)] font-mono mt-2">连接同步服务器，与团队共享项目</div>
               </button>
             </div>
           </div>
@@ -681,7 +745,7 @@ const Dashboard: React.FC<Props> = ({ onOpenProject, onShowOnboarding, onShowMod
       <input
         ref={importInputRef}
         type="file"
-        accept="application/json"
+        accept={`application/json,.json,${PROJECT_PACKAGE_EXTENSION}`}
         className="hidden"
         onChange={handleImportFileChange}
       />
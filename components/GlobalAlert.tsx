@@ -11,6 +11,9 @@ interface AlertOptions {
   confirmText?: string;
   cancelText?: string;
   showCancel?: boolean;
+  /** 确认与取消之外的第三个操作 */
+  secondaryText?: string;
+  onSecondary?: () => void;
 }
 
 interface AlertContextType {
@@ -38,6 +41,8 @@ interface AlertState {
   confirmText?: string;
   cancelText?: string;
   showCancel?: boolean;
+  secondaryText?: string;
+  onSecondary?: () => void;
 }
 
 export const AlertProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
@@ -57,7 +62,9 @@ export const AlertProvider: React.FC<{ children: React.ReactNode }> = ({ childre
       onCancel: options?.onCancel,
       confirmText: options?.confirmText || '确定',
       cancelText: options?.cancelText || '取消',
-      showCancel: options?.showCancel || false
+      showCancel: options?.showCancel || false,
+      secondaryText: options?.secondaryText,
+      onSecondary: options?.onSecondary
     });
   }, []);
 
@@ -75,6 +82,13 @@ export const AlertProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     setAlertState(prev => ({ ...prev, isOpen: false }));
   }, [alertState]);
 
+  const handleSecondary = useCallback(() => {
+    if (alertState.onSecondary) {
+      alertState.onSecondary();
+    }
+    setAlertState(prev => ({ ...prev, isOpen: false }));
+  }, [alertState]);
+
   const getIcon = () => {
     switch (alertState.type) {
       case 'success': return <CheckCircle className="w-6 h-6 text-[var(--success)]" />;
@@ -119,7 +133,7 @@ export const AlertProvider: React.FC<{ children: React.ReactNode }> = ({ childre
               </button>
             </div>
             
-            <div className="text-[var(--text-secondary)] text-sm leading-relaxed">
+            <div className="text-[var(--text-secondary)] text-sm leading-relaxed whitespace-pre-line">
               {alertState.message}
             </div>
 
@@ -132,6 +146,14 @@ export const AlertProvider: React.FC<{ children: React.ReactNode }> = ({ childre
                   {alertState.cancelText}
                 </button>
               )}
+              {alertState.secondaryText && (
+                <button
+                  onClick={handleSecondary}
+                  className="px-4 py-2 bg-[var(--bg-hover)] hover:bg-[var(--border-secondary)] text-[var(--text-primary)] rounded-lg text-sm font-medium transition-colors"
+                >
+                  {alertState.secondaryText}
+                </button>
+              )}
               <button
                 onClick={closeAlert}
                 className="px-4 py-2 bg-[var(--btn-primary-bg)] hover:bg-[var(--btn-primary-hover)] text-[var(--btn-primary-text)] rounded-lg text-sm font-medium transition-colors"
@@ -0,0 +1,165 @@
+/**
+ * 导入确认面板
+ * 展示待导入文件的校验警告，并为与本地 ID 冲突的项目逐个选择处理方式
+ */
+
+import React, { useEffect, useState } from 'react';
+import { X, Upload, Loader2, AlertTriangle, Package } from 'lucide-react';
+import { ImportBundle, importBundle } from '../services/projectPackageService';
+import { findExistingProjectIds, ImportResult, ProjectConflictMode } from '../services/storageService';
+import { useAlert } from './GlobalAlert';
+
+interface Props {
+  bundle: ImportBundle;
+  /** 当前打开的项目不允许被覆盖 */
+  openProjectId?: string;
+  onClose: () => void;
+  onImported?: (result: ImportResult) => void;
+}
+
+const CONFLICT_OPTIONS: { value: ProjectConflictMode; label: string }[] = [
+  { value: 'rename', label: '导入为副本' },
+  { value: 'overwrite', label: '覆盖本地' },
+  { value: 'skip', label: '跳过' },
+];
+
+const ImportDataModal: React.FC<Props> = ({ bundle, openProjectId, onClose, onImported }) => {
+  const { showAlert } = useAlert();
+  const { projects, assets } = bundle.prepared;
+  const [conflicts, setConflicts] = useState<Record<string, ProjectConflictMode>>({});
+  const [isChecking, setIsChecking] = useState(true);
+  const [isImporting, setIsImporting] = useState(false);
+
+  useEffect(() => {
+    findExistingProjectIds(projects.map(p => p.id))
+      .then(ids => setConflicts(Object.fromEntries(ids.map(id => [id, 'rename' as ProjectConflictMode]))))
+      .catch(error => console.error('Failed to check project conflicts', error))
+      .finally(() => setIsChecking(false));
+  }, [projects]);
+
+  const handleImport = async () => {
+    if (isImporting) return;
+    setIsImporting(true);
+    try {
+      const result = await importBundle(bundle, { mode: 'merge', conflicts, defaultConflict: 'rename' });
+      onImported?.(result);
+      const details = [
+        result.renamed > 0 ? `${result.renamed} 个以副本导入` : '',
+        result.skipped > 0 ? `跳过 ${result.skipped} 个` : '',
+      ].filter(Boolean).join('，');
+      showAlert(`导入完成：项目 ${result.projects} 个，资产 ${result.assets} 个${details ? `（${details}）` : ''}。`, { type: 'success' });
+      onClose();
+    } catch (error) {
+      console.error('Import failed:', error);
+      showAlert(`导入失败: ${error instanceof Error ? error.message : '未知错误'}`, { type: 'error' });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[100] bg-[var(--overlay-heavy)] backdrop-blur-sm flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-[var(--bg-elevated)] border border-[var(--border-secondary)] rounded-xl p-6 max-w-2xl w-full max-h-[85vh] flex flex-col gap-4 shadow-2xl animate-in fade-in duration-200"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between shrink-0">
+          <h3 className="text-[var(--text-primary)] font-bold flex items-center gap-2">
+            <Package className="w-4 h-4 text-[var(--accent-text)]" />
+            导入数据
+            <span className="text-xs text-[var(--text-muted)] font-normal font-mono">
+              {bundle.format === 'bbproj' ? '.bbproj 项目包' : '.json 备份'} · v{bundle.prepared.schemaVersion}
+            </span>
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-[var(--bg-hover)] rounded text-[var(--text-tertiary)] hover:text-[var(--text-primary)] transition-colors"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="text-xs text-[var(--text-tertiary)] font-mono shrink-0">
+          {projects.length} 个项目 · {assets.length} 个资产
+          {bundle.format === 'bbproj' && ` · ${bundle.media.size} 个媒体文件`}
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-4 pr-1">
+          {bundle.warnings.length > 0 && (
+            <div className="p-3 border border-[var(--warning-border)] bg-[var(--warning-bg)] rounded-lg space-y-1">
+              <div className="flex items-center gap-2 text-xs font-bold text-[var(--warning-text)]">
+                <AlertTriangle className="w-3.5 h-3.5" />
+                校验发现 {bundle.warnings.length} 个问题
+              </div>
+              <ul className="text-[11px] text-[var(--text-secondary)] space-y-0.5 pl-5 list-disc">
+                {bundle.warnings.map((warning, index) => (
+                  <li key={index}>{warning}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="divide-y divide-[var(--border-subtle)] border border-[var(--border-primary)] rounded-lg">
+            {projects.map(project => {
+              const conflict = conflicts[project.id];
+              return (
+                <div key={project.id} className="flex items-center justify-between gap-4 px-4 py-2.5 text-xs">
+                  <div className="min-w-0">
+                    <div className="text-[var(--text-secondary)] truncate">{project.title || '未命名项目'}</div>
+                    <div className="text-[10px] text-[var(--text-muted)] font-mono">
+                      {project.shots.length} 个镜头{conflict && ' · 本地已存在相同 ID 的项目'}
+                    </div>
+                  </div>
+                  {isChecking ? (
+                    <Loader2 className="w-3.5 h-3.5 text-[var(--text-muted)] animate-spin shrink-0" />
+                  ) : conflict ? (
+                    <select
+                      value={conflict}
+                      onChange={(e) => setConflicts(prev => ({ ...prev, [project.id]: e.target.value as ProjectConflictMode }))}
+                      className="bg-[var(--bg-base)] border border-[var(--border-primary)] text-[var(--text-secondary)] px-2 py-1 rounded text-xs shrink-0"
+                    >
+                      {CONFLICT_OPTIONS.map(option => (
+                        <option
+                          key={option.value}
+                          value={option.value}
+                          disabled={option.value === 'overwrite' && project.id === openProjectId}
+                        >
+                          {option.label}
+                          {option.value === 'overwrite' && project.id === openProjectId ? '（项目已打开）' : ''}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <span className="text-[10px] text-[var(--text-muted)] font-mono shrink-0">新项目</span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 shrink-0">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-[var(--bg-hover)] text-[var(--text-secondary)] hover:bg-[var(--border-secondary)] rounded-lg text-xs font-bold transition-colors"
+          >
+            取消
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={isChecking || isImporting}
+            className="px-4 py-2 bg-[var(--btn-primary-bg)] text-[var(--btn-primary-text)] hover:bg-[var(--btn-primary-hover)] rounded-lg text-xs font-bold transition-colors flex items-center gap-2 disabled:opacity-50"
+          >
+            {isImporting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Upload className="w-3.5 h-3.5" />}
+            导入
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportDataModal;
@@ -0,0 +1,223 @@
+/**
+ * 生成任务面板
+ * 汇总当前项目中排队、执行中与已结束的图片、视频、文本生成任务，包括其他标签页中执行的任务
+ */
+
+import React, { useEffect, useState } from 'react';
+import { X, ListChecks, Loader2, Image as ImageIcon, Video, MessageSquare, CheckCircle, AlertCircle, Clock, Ban, Trash2, Pause, Play } from 'lucide-react';
+import { GenerationJob, GenerationJobKind, GenerationJobStatus } from '../types';
+import {
+  listGenerationJobs,
+  subscribeGenerationJobs,
+  cancelGenerationJob,
+  clearFinishedGenerationJobs,
+  isLocalGenerationJob,
+  isActiveJobStatus,
+  isGenerationQueuePaused,
+  setGenerationQueuePaused,
+} from '../services/jobQueueService';
+import { useAlert } from './GlobalAlert';
+
+interface Props {
+  projectId: string;
+  onClose: () => void;
+}
+
+const KIND_ICONS: Record<GenerationJobKind, React.ElementType> = {
+  image: ImageIcon,
+  video: Video,
+  chat: MessageSquare,
+};
+
+const STATUS_LABELS: Record<GenerationJobStatus, string> = {
+  queued: '排队中',
+  running: '执行中',
+  succeeded: '已完成',
+  failed: '失败',
+  cancelled: '已取消',
+};
+
+const formatTime = (ts: number) => new Date(ts).toLocaleString('zh-CN', {
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+});
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  return seconds < 60 ? `${seconds}秒` : `${Math.floor(seconds / 60)}分${seconds % 60}秒`;
+};
+
+const StatusIcon: React.FC<{ status: GenerationJobStatus }> = ({ status }) => {
+  switch (status) {
+    case 'queued':
+      return <Clock className="w-3.5 h-3.5 text-[var(--text-tertiary)]" />;
+    case 'running':
+      return <Loader2 className="w-3.5 h-3.5 text-[var(--accent-text)] animate-spin" />;
+    case 'succeeded':
+      return <CheckCircle className="w-3.5 h-3.5 text-[var(--success-text)]" />;
+    case 'failed':
+      return <AlertCircle className="w-3.5 h-3.5 text-[var(--error-text)]" />;
+    default:
+      return <Ban className="w-3.5 h-3.5 text-[var(--text-muted)]" />;
+  }
+};
+
+const JobQueuePanel: React.FC<Props> = ({ projectId, onClose }) => {
+  const { showAlert } = useAlert();
+  const [jobs, setJobs] = useState<GenerationJob[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [now, setNow] = useState(Date.now());
+  const [isPaused, setIsPaused] = useState(isGenerationQueuePaused());
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => {
+      listGenerationJobs(projectId)
+        .then(list => {
+          if (!cancelled) setJobs(list);
+        })
+        .catch(e => console.error('加载生成任务失败', e))
+        .finally(() => {
+          if (!cancelled) setIsLoading(false);
+        });
+    };
+    load();
+    const unsubscribe = subscribeGenerationJobs(projectId, load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [projectId]);
+
+  // 刷新执行中任务的耗时
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const activeJobs = jobs.filter(job => isActiveJobStatus(job.status));
+  const finishedJobs = jobs.filter(job => !isActiveJobStatus(job.status));
+
+  const handleClearFinished = async () => {
+    try {
+      await clearFinishedGenerationJobs(projectId);
+    } catch (e) {
+      showAlert(`清除失败: ${e instanceof Error ? e.message : '未知错误'}`, { type: 'error' });
+    }
+  };
+
+  const handleTogglePause = () => {
+    setGenerationQueuePaused(!isPaused);
+    setIsPaused(!isPaused);
+  };
+
+  const renderJob = (job: GenerationJob) => {
+    const KindIcon = KIND_ICONS[job.kind];
+    const isLocal = isLocalGenerationJob(job.id);
+    const elapsed = job.startedAt ? (job.finishedAt || now) - job.startedAt : 0;
+    return (
+      <div key={job.id} className="flex items-start gap-3 bg-[var(--bg-base)] border border-[var(--border-primary)] rounded-lg p-3">
+        <KindIcon className="w-4 h-4 mt-0.5 text-[var(--text-tertiary)] shrink-0" />
+        <div className="flex-1 min-w-0 space-y-1">
+          <div className="text-xs text-[var(--text-primary)] font-bold truncate">{job.label}</div>
+          <div className="flex items-center gap-2 text-[10px] font-mono text-[var(--text-muted)]">
+            <StatusIcon status={job.status} />
+            <span>{STATUS_LABELS[job.status]}</span>
+            <span>{formatTime(job.createdAt)}</span>
+            {elapsed > 0 && <span>耗时 {formatDuration(elapsed)}</span>}
+            {job.remoteTask && <span title={job.remoteTask.taskId}>远程任务</span>}
+            {isActiveJobStatus(job.status) && !isLocal && <span>其他标签页</span>}
+          </div>
+          {job.error && <div className="text-[10px] text-[var(--error-text)] break-all">{job.error}</div>}
+        </div>
+        {isActiveJobStatus(job.status) && isLocal && (
+          <button
+            onClick={() => cancelGenerationJob(job.id)}
+            className="px-2.5 py-1 text-[10px] border border-[var(--border-primary)] rounded text-[var(--text-tertiary)] hover:text-[var(--text-primary)] hover:border-[var(--border-secondary)] transition-colors shrink-0"
+            title={job.status === 'running' ? '中止请求；支持取消的异步视频接口会同时取消远程任务' : undefined}
+          >
+            取消
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[100] bg-[var(--overlay-heavy)] backdrop-blur-sm flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-[var(--bg-elevated)] border border-[var(--border-secondary)] rounded-xl p-6 max-w-2xl w-full max-h-[85vh] flex flex-col gap-4 shadow-2xl animate-in fade-in duration-200"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between shrink-0">
+          <h3 className="text-[var(--text-primary)] font-bold flex items-center gap-2">
+            <ListChecks className="w-4 h-4 text-[var(--accent-text)]" />
+            生成任务
+            <span className="text-xs text-[var(--text-muted)] font-normal">刷新页面后，异步视频任务会在重新打开项目时继续</span>
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-[var(--bg-hover)] rounded text-[var(--text-tertiary)] hover:text-[var(--text-primary)] transition-colors"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-5 pr-1">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12 text-[var(--text-tertiary)]">
+              <Loader2 className="w-5 h-5 animate-spin" />
+            </div>
+          ) : jobs.length === 0 ? (
+            <div className="text-center py-12 text-xs text-[var(--text-muted)]">暂无生成任务</div>
+          ) : (
+            <>
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <div className="text-[10px] font-bold text-[var(--text-tertiary)] uppercase tracking-widest">
+                    进行中 ({activeJobs.length})
+                  </div>
+                  <button
+                    onClick={handleTogglePause}
+                    className="flex items-center gap-1 text-[10px] text-[var(--text-muted)] hover:text-[var(--text-primary)] transition-colors"
+                    title={isPaused ? undefined : '执行中的任务照常完成，排队中的任务暂不开始'}
+                  >
+                    {isPaused ? <Play className="w-3 h-3" /> : <Pause className="w-3 h-3" />}
+                    {isPaused ? '继续队列' : '暂停队列'}
+                  </button>
+                </div>
+                {activeJobs.length === 0
+                  ? <div className="text-xs text-[var(--text-muted)]">没有进行中的任务</div>
+                  : activeJobs.map(renderJob)}
+              </div>
+              {finishedJobs.length > 0 && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div className="text-[10px] font-bold text-[var(--text-tertiary)] uppercase tracking-widest">
+                      已结束 ({finishedJobs.length})
+                    </div>
+                    <button
+                      onClick={handleClearFinished}
+                      className="flex items-center gap-1 text-[10px] text-[var(--text-muted)] hover:text-[var(--text-primary)] transition-colors"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                      清除记录
+                    </button>
+                  </div>
+                  {finishedJobs.map(renderJob)}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default JobQueuePanel;
@@ -8,17 +8,57 @@ import { Check, X, ChevronDown, ChevronUp } from 'lucide-react';
 import { 
   ModelType, 
   ModelDefinition,
+  ImageApiProtocol,
+  ChatApiProtocol,
   ChatModelParams,
   ImageModelParams,
   VideoModelParams,
+  AudioModelParams,
   DEFAULT_CHAT_PARAMS,
   DEFAULT_IMAGE_PARAMS,
   DEFAULT_VIDEO_PARAMS_SORA,
   DEFAULT_VIDEO_PARAMS_VEO,
+  DEFAULT_AUDIO_PARAMS,
+  DEFAULT_AUDIO_PARAMS_LOCAL,
+  LOCAL_PROVIDER_ID,
+  MOCK_PROVIDER_ID,
 } from '../../types/model';
 import { getProviders, addProvider } from '../../services/modelRegistry';
+import { isSelfHostedImageProtocol } from '../../services/adapters/selfHostedImageAdapter';
+import { CHAT_PROTOCOL_ENDPOINTS } from '../../services/adapters/chatAdapter';
+import { ASYNC_VIDEO_PROTOCOL_PRESETS } from '../../services/adapters/asyncVideoTaskAdapter';
 import { useAlert } from '../GlobalAlert';
 
+const CHAT_PROTOCOL_OPTIONS: { value: ChatApiProtocol; label: string; hint: string }[] = [
+  { value: 'openai', label: 'OpenAI 兼容', hint: '/v1/chat/completions，适用于大多数中转服务' },
+  { value: 'anthropic', label: 'Anthropic Messages', hint: '/v1/messages，直连 Anthropic 官方接口或兼容该格式的服务' },
+  {
+    value: 'ollama',
+    label: '本地 Ollama',
+    hint: '基础 URL 填写 Ollama 地址（如 http://127.0.0.1:11434，需设置 OLLAMA_ORIGINS 允许跨域），API Key 可留空',
+  },
+  {
+    value: 'llamacpp',
+    label: '本地 llama.cpp',
+    hint: '基础 URL 填写 llama-server 地址（如 http://127.0.0.1:8080），API Key 可留空',
+  },
+];
+
+const IMAGE_PROTOCOL_OPTIONS: { value: ImageApiProtocol; label: string; hint: string }[] = [
+  { value: 'gemini', label: 'Gemini（generateContent）', hint: '参考图以 inlineData 随请求传入' },
+  { value: 'openai', label: 'OpenAI Images（gpt-image / DALL·E）', hint: '无参考图时调用 images/generations，有参考图时以 multipart 调用 images/edits' },
+  {
+    value: 'comfyui',
+    label: '自建 ComfyUI',
+    hint: '基础 URL 填写 ComfyUI 地址（如 http://127.0.0.1:8188，需以 --enable-cors-header 启动），API 模型名填写 checkpoint 文件名；添加后可在模型详情中编辑工作流模板',
+  },
+  {
+    value: 'a1111',
+    label: '自建 Automatic1111',
+    hint: '基础 URL 填写 WebUI 地址（如 http://127.0.0.1:7860，需以 --api --cors-allow-origins 启动），API 模型名填写 checkpoint 名称；添加后可在模型详情中编辑请求体模板',
+  },
+];
+
 interface AddModelFormProps {
   type: ModelType;
   onSave: (model: Omit<ModelDefinition, 'id' | 'isBuiltIn'>) => void;
@@ -26,7 +66,10 @@ interface AddModelFormProps {
 }
 
 const AddModelForm: React.FC<AddModelFormProps> = ({ type, onSave, onCancel }) => {
-  const existingProviders = getProviders();
+  // 本地离线提供商仅支持配音模型，模拟提供商不支持配音模型
+  const existingProviders = getProviders().filter(p =>
+    type === 'audio' ? p.id !== MOCK_PROVIDER_ID : p.id !== LOCAL_PROVIDER_ID
+  );
   const { showAlert } = useAlert();
   
   const [name, setName] = useState('');
@@ -34,7 +77,11 @@ const AddModelForm: React.FC<AddModelFormProps> = ({ type, onSave, onCancel }) =
   const [description, setDescription] = useState('');
   const [endpoint, setEndpoint] = useState('');
   const [apiKey, setApiKey] = useState('');
-  const [videoMode, setVideoMode] = useState<'sync' | 'async'>('sync');
+  // task: 按通用任务协议创建并轮询（Kling、Runway 等）
+  const [videoMode, setVideoMode] = useState<'sync' | 'async' | 'task'>('sync');
+  const [videoPresetId, setVideoPresetId] = useState(ASYNC_VIDEO_PROTOCOL_PRESETS[0].id);
+  const [imageProtocol, setImageProtocol] = useState<ImageApiProtocol>('gemini');
+  const [chatProtocol, setChatProtocol] = useState<ChatApiProtocol>('openai');
   
   // 提供商配置
   const [providerMode, setProviderMode] = useState<'existing' | 'custom'>('existing');
@@ -72,28 +119,38 @@ const AddModelForm: React.FC<AddModelFormProps> = ({ type, onSave, onCancel }) =
     }
 
     // 根据模型类型设置默认参数
-    let params: ChatModelParams | ImageModelParams | VideoModelParams;
+    let params: ChatModelParams | ImageModelParams | VideoModelParams | AudioModelParams;
     
     if (type === 'chat') {
       params = { ...DEFAULT_CHAT_PARAMS };
     } else if (type === 'image') {
       params = { ...DEFAULT_IMAGE_PARAMS };
+    } else if (type === 'audio') {
+      params = providerId === LOCAL_PROVIDER_ID
+        ? { ...DEFAULT_AUDIO_PARAMS_LOCAL }
+        : { ...DEFAULT_AUDIO_PARAMS };
     } else {
-      params = videoMode === 'async' 
+      params = videoMode !== 'sync'
         ? { ...DEFAULT_VIDEO_PARAMS_SORA }
         : { ...DEFAULT_VIDEO_PARAMS_VEO };
     }
 
+    const isTaskVideo = type === 'video' && videoMode === 'task';
     const model: Omit<ModelDefinition, 'id' | 'isBuiltIn'> = {
       name: name.trim(),
       apiModel: apiModel.trim(),
       type,
       providerId,
-      endpoint: endpoint.trim() || undefined,
+      endpoint: (type === 'image' && isSelfHostedImageProtocol(imageProtocol)) || isTaskVideo ? undefined : endpoint.trim() || undefined,
       description: description.trim() || undefined,
       apiKey: providerMode === 'existing' ? (apiKey.trim() || undefined) : undefined,
       isEnabled: true,
       params,
+      ...(type === 'image' && { protocol: imageProtocol }),
+      ...(type === 'chat' && { protocol: chatProtocol }),
+      ...(isTaskVideo && {
+        asyncProtocol: ASYNC_VIDEO_PROTOCOL_PRESETS.find(preset => preset.id === videoPresetId)?.protocol,
+      }),
     } as any;
 
     onSave(model);
@@ -141,20 +198,22 @@ const AddModelForm: React.FC<AddModelFormProps> = ({ type, onSave, onCancel }) =
         />
       </div>
 
-      {/* API 端点 */}
-      <div>
-        <label className="text-[10px] text-[var(--text-tertiary)] block mb-1">API 端点 (Endpoint)</label>
-        <input
-          type="text"
-          value={endpoint}
-          onChange={(e) => setEndpoint(e.target.value)}
-          placeholder={type === 'chat' ? '/v1/chat/completions' : type === 'image' ? '/v1beta/models/{model}:generateContent' : '/v1/videos'}
-          className="w-full bg-[var(--bg-hover)] border border-[var(--border-secondary)] rounded px-3 py-2 text-xs text-[var(--text-primary)] placeholder:text-[var(--text-muted)] font-mono"
-        />
-        <p className="text-[9px] text-[var(--text-muted)] mt-1">
-          留空则使用默认端点
-        </p>
-      </div>
+      {/* API 端点（自建图片后端使用固定路径，通用任务协议的地址在协议中配置） */}
+      {!(type === 'image' && isSelfHostedImageProtocol(imageProtocol)) && !(type === 'video' && videoMode === 'task') && (
+        <div>
+          <label className="text-[10px] text-[var(--text-tertiary)] block mb-1">API 端点 (Endpoint)</label>
+          <input
+            type="text"
+            value={endpoint}
+            onChange={(e) => setEndpoint(e.target.value)}
+            placeholder={type === 'chat' ? CHAT_PROTOCOL_ENDPOINTS[chatProtocol] : type === 'image' ? (imageProtocol === 'openai' ? '/v1/images/generations' : '/v1beta/models/{model}:generateContent') : type === 'audio' ? '/v1/audio/speech' : '/v1/videos'}
+            className="w-full bg-[var(--bg-hover)] border border-[var(--border-secondary)] rounded px-3 py-2 text-xs text-[var(--text-primary)] placeholder:text-[var(--text-muted)] font-mono"
+          />
+          <p className="text-[9px] text-[var(--text-muted)] mt-1">
+            留空则使用默认端点
+          </p>
+        </div>
+      )}
 
       {/* 模型专属 API Key（仅在使用已有提供商时显示） */}
       {providerMode === 'existing' && (
@@ -248,6 +307,56 @@ const AddModelForm: React.FC<AddModelFormProps> = ({ type, onSave, onCancel }) =
         )}
       </div>
 
+      {/* 对话模型特有选项 */}
+      {type === 'chat' && (
+        <div>
+          <label className="text-[10px] text-[var(--text-tertiary)] block mb-1">请求协议</label>
+          <div className="grid grid-cols-2 gap-2">
+            {CHAT_PROTOCOL_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => setChatProtocol(option.value)}
+                className={`py-2 text-xs rounded transition-colors ${
+                  chatProtocol === option.value
+                    ? 'bg-[var(--accent)] text-[var(--text-primary)]'
+                    : 'bg-[var(--bg-hover)] text-[var(--text-tertiary)] hover:bg-[var(--border-secondary)]'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-[9px] text-[var(--text-muted)] mt-1">
+            {CHAT_PROTOCOL_OPTIONS.find(option => option.value === chatProtocol)?.hint}
+          </p>
+        </div>
+      )}
+
+      {/* 图片模型特有选项 */}
+      {type === 'image' && (
+        <div>
+          <label className="text-[10px] text-[var(--text-tertiary)] block mb-1">请求协议</label>
+          <div className="grid grid-cols-2 gap-2">
+            {IMAGE_PROTOCOL_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => setImageProtocol(option.value)}
+                className={`py-2 text-xs rounded transition-colors ${
+                  imageProtocol === option.value
+                    ? 'bg-[var(--accent)] text-[var(--text-primary)]'
+                    : 'bg-[var(--bg-hover)] text-[var(--text-tertiary)] hover:bg-[var(--border-secondary)]'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-[9px] text-[var(--text-muted)] mt-1">
+            {IMAGE_PROTOCOL_OPTIONS.find(option => option.value === imageProtocol)?.hint}
+          </p>
+        </div>
+      )}
+
       {/* 视频模型特有选项 */}
       {type === 'video' && (
         <div>
@@ -273,10 +382,43 @@ const AddModelForm: React.FC<AddModelFormProps> = ({ type, onSave, onCancel }) =
             >
               异步模式（Sora 类）
             </button>
+            <button
+              onClick={() => setVideoMode('task')}
+              className={`flex-1 py-2 text-xs rounded transition-colors ${
+                videoMode === 'task'
+                  ? 'bg-[var(--accent)] text-[var(--text-primary)]'
+                  : 'bg-[var(--bg-hover)] text-[var(--text-tertiary)] hover:bg-[var(--border-secondary)]'
+              }`}
+            >
+              通用任务协议
+            </button>
           </div>
           <p className="text-[9px] text-[var(--text-muted)] mt-1">
-            同步模式：直接返回结果；异步模式：先创建任务，再轮询获取结果
+            同步模式：直接返回结果；异步模式：先创建任务，再轮询获取结果；通用任务协议：按协议描述对接 Kling、Runway 等服务
           </p>
+          {videoMode === 'task' && (
+            <div className="mt-3">
+              <label className="text-[10px] text-[var(--text-tertiary)] block mb-1">协议预设</label>
+              <div className="grid grid-cols-4 gap-2">
+                {ASYNC_VIDEO_PROTOCOL_PRESETS.map((preset) => (
+                  <button
+                    key={preset.id}
+                    onClick={() => setVideoPresetId(preset.id)}
+                    className={`py-2 text-xs rounded transition-colors ${
+                      videoPresetId === preset.id
+                        ? 'bg-[var(--accent)] text-[var(--text-primary)]'
+                        : 'bg-[var(--bg-hover)] text-[var(--text-tertiary)] hover:bg-[var(--border-secondary)]'
+                    }`}
+                  >
+                    {preset.label}
+                  </button>
+                ))}
+              </div>
+              <p className="text-[9px] text-[var(--text-muted)] mt-1">
+                {ASYNC_VIDEO_PROTOCOL_PRESETS.find(preset => preset.id === videoPresetId)?.hint}；添加后可在模型详情中编辑任务协议
+              </p>
+            </div>
+          )}
         </div>
       )}
 
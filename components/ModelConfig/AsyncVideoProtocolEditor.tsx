@@ -0,0 +1,107 @@
+/**
+ * 异步视频任务协议编辑组件
+ * 以 JSON 编辑创建地址、字段映射、任务 ID 与状态路径等协议描述，可套用常见服务的预设
+ */
+
+import React, { useState } from 'react';
+import { Check, Trash2 } from 'lucide-react';
+import { AsyncVideoTaskProtocol } from '../../types/model';
+import {
+  ASYNC_VIDEO_PROTOCOL_PRESETS,
+  VIDEO_TASK_PLACEHOLDERS,
+  validateAsyncVideoProtocol,
+} from '../../services/adapters/asyncVideoTaskAdapter';
+import { useAlert } from '../GlobalAlert';
+
+interface AsyncVideoProtocolEditorProps {
+  value?: AsyncVideoTaskProtocol;
+  onSave: (value: AsyncVideoTaskProtocol | undefined) => void;
+}
+
+const formatProtocol = (protocol?: AsyncVideoTaskProtocol): string =>
+  protocol ? JSON.stringify(protocol, null, 2) : '';
+
+const AsyncVideoProtocolEditor: React.FC<AsyncVideoProtocolEditorProps> = ({ value, onSave }) => {
+  const { showAlert } = useAlert();
+  const [draft, setDraft] = useState(formatProtocol(value));
+  const isDirty = draft !== formatProtocol(value);
+
+  const handleSave = () => {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(draft);
+    } catch (e) {
+      showAlert(`协议不是有效的 JSON：${e instanceof Error ? e.message : '解析失败'}`, { type: 'error' });
+      return;
+    }
+    const error = validateAsyncVideoProtocol(parsed);
+    if (error) {
+      showAlert(`协议配置有误：${error}`, { type: 'error' });
+      return;
+    }
+    onSave(parsed);
+  };
+
+  const handleClear = () => {
+    setDraft('');
+    onSave(undefined);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="text-[10px] text-[var(--text-tertiary)]">任务协议（JSON）</label>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={handleClear}
+            disabled={!value && !draft}
+            className="flex items-center gap-1 text-[10px] text-[var(--text-muted)] hover:text-[var(--text-primary)] transition-colors disabled:opacity-40"
+          >
+            <Trash2 className="w-3 h-3" />
+            清除协议
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!isDirty || !draft.trim()}
+            className="flex items-center gap-1 text-[10px] text-[var(--accent-text)] hover:text-[var(--text-primary)] transition-colors disabled:opacity-40"
+          >
+            <Check className="w-3 h-3" />
+            保存协议
+          </button>
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-[9px] text-[var(--text-muted)]">套用预设：</span>
+        {ASYNC_VIDEO_PROTOCOL_PRESETS.map((preset) => (
+          <button
+            key={preset.id}
+            onClick={() => setDraft(formatProtocol(preset.protocol))}
+            title={preset.hint}
+            className="px-2 py-1 text-[10px] rounded bg-[var(--bg-hover)] text-[var(--text-tertiary)] hover:bg-[var(--border-secondary)] transition-colors"
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        spellCheck={false}
+        rows={12}
+        placeholder="未配置协议时按 Sora 兼容接口（/v1/videos）创建并轮询任务"
+        className="w-full bg-[var(--bg-hover)] border border-[var(--border-secondary)] rounded px-3 py-2 text-[10px] text-[var(--text-primary)] placeholder:text-[var(--text-muted)] font-mono resize-y"
+      />
+      <div className="text-[9px] text-[var(--text-muted)] space-y-0.5">
+        <p>字段路径以点号分隔，数组下标同样用点号，如 data.task_result.videos.0.url；请求体中渲染后为空的字段不发送</p>
+        <p>
+          可用占位符：
+          {VIDEO_TASK_PLACEHOLDERS.map(({ key, description }) => (
+            <span key={key} className="mr-2"><code className="font-mono">{key}</code> {description}</span>
+          ))}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default AsyncVideoProtocolEditor;
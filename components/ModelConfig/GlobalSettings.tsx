@@ -1,12 +1,14 @@
 /**
  * 全局配置组件
- * 包含 API Key 配置和折扣广告
+ * 包含 API Key 配置、提供商限流、模拟提供商和折扣广告
  */
 
 import React, { useState, useEffect } from 'react';
-import { Key, Loader2, CheckCircle, AlertCircle, ExternalLink, Gift, Sparkles } from 'lucide-react';
-import { getGlobalApiKey, setGlobalApiKey } from '../../services/modelRegistry';
+import { Key, Loader2, CheckCircle, AlertCircle, ExternalLink, Gift, Sparkles, Gauge, FlaskConical } from 'lucide-react';
+import { getGlobalApiKey, setGlobalApiKey, getProviders, updateProvider, getMockSettings, getDefaultRateLimitForProvider } from '../../services/modelRegistry';
 import { verifyApiKey } from '../../services/modelService';
+import { ModelProvider, RateLimitConfig, MockProviderSettings, MOCK_PROVIDER_ID } from '../../types/model';
+import RateLimitFields from './RateLimitFields';
 
 interface GlobalSettingsProps {
   onRefresh: () => void;
@@ -17,6 +19,8 @@ const GlobalSettings: React.FC<GlobalSettingsProps> = ({ onRefresh }) => {
   const [isVerifying, setIsVerifying] = useState(false);
   const [verifyStatus, setVerifyStatus] = useState<'idle' | 'success' | 'error'>('idle');
   const [verifyMessage, setVerifyMessage] = useState('');
+  const [providers, setProviders] = useState<ModelProvider[]>(() => getProviders());
+  const [mockSettings, setMockSettings] = useState<MockProviderSettings>(() => getMockSettings());
 
   useEffect(() => {
     const currentKey = getGlobalApiKey() || '';
@@ -58,6 +62,19 @@ const GlobalSettings: React.FC<GlobalSettingsProps> = ({ onRefresh }) => {
     }
   };
 
+  const handleProviderRateLimitChange = (providerId: string, rateLimit: RateLimitConfig | undefined) => {
+    updateProvider(providerId, { rateLimit });
+    setProviders([...getProviders()]);
+    onRefresh();
+  };
+
+  const handleMockSettingsChange = (patch: Partial<MockProviderSettings>) => {
+    const next = { ...mockSettings, ...patch };
+    updateProvider(MOCK_PROVIDER_ID, { mockSettings: next });
+    setMockSettings(next);
+    onRefresh();
+  };
+
   const handleClearKey = () => {
     setApiKey('');
     setVerifyStatus('idle');
@@ -177,6 +194,90 @@ const GlobalSettings: React.FC<GlobalSettingsProps> = ({ onRefresh }) => {
         </div>
       </div>
 
+      {/* 提供商限流 */}
+      <div>
+        <div className="flex items-center gap-2 mb-3">
+          <Gauge className="w-4 h-4 text-[var(--accent-text)]" />
+          <label className="text-[10px] font-bold text-[var(--text-tertiary)] uppercase tracking-widest">
+            提供商限流
+          </label>
+        </div>
+        <div className="space-y-3">
+          {providers.map(provider => (
+            <div key={provider.id} className="p-4 bg-[var(--bg-elevated)]/50 rounded-lg border border-[var(--border-primary)]">
+              <div className="text-xs text-[var(--text-primary)] font-medium mb-3">
+                {provider.name}
+                <span className="text-[10px] text-[var(--text-muted)] font-mono ml-2">{provider.baseUrl}</span>
+              </div>
+              <RateLimitFields
+                value={provider.rateLimit}
+                defaults={getDefaultRateLimitForProvider(provider.id)}
+                onChange={(value) => handleProviderRateLimitChange(provider.id, value)}
+              />
+            </div>
+          ))}
+          <p className="text-[10px] text-[var(--text-muted)] leading-relaxed">
+            该提供商下所有模型共享此限流，批量生成会在上限内并行执行；留空的项按默认值限流（本地部署与模拟提供商默认不限流），填 0 表示不限制；收到 429 限流响应时自动暂停该提供商的请求。
+          </p>
+        </div>
+      </div>
+
+      {/* 模拟提供商 */}
+      <div>
+        <div className="flex items-center gap-2 mb-3">
+          <FlaskConical className="w-4 h-4 text-[var(--accent-text)]" />
+          <label className="text-[10px] font-bold text-[var(--text-tertiary)] uppercase tracking-widest">
+            模拟提供商
+          </label>
+        </div>
+        <div className="p-4 bg-[var(--bg-elevated)]/50 rounded-lg border border-[var(--border-primary)] space-y-3">
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="text-[10px] text-[var(--text-tertiary)] block mb-1">模拟延迟（毫秒）</label>
+              <input
+                type="number"
+                min="0"
+                step="100"
+                value={mockSettings.latencyMs}
+                onChange={(e) => handleMockSettingsChange({ latencyMs: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                className="w-full bg-[var(--bg-hover)] border border-[var(--border-secondary)] rounded px-3 py-2 text-xs text-[var(--text-primary)]"
+              />
+            </div>
+            <div>
+              <label className="text-[10px] text-[var(--text-tertiary)] block mb-1">失败率（%）</label>
+              <input
+                type="number"
+                min="0"
+                max="100"
+                value={Math.round(mockSettings.failureRate * 100)}
+                onChange={(e) => {
+                  const percent = Math.min(100, Math.max(0, parseInt(e.target.value, 10) || 0));
+                  handleMockSettingsChange({ failureRate: percent / 100 });
+                }}
+                className="w-full bg-[var(--bg-hover)] border border-[var(--border-secondary)] rounded px-3 py-2 text-xs text-[var(--text-primary)]"
+              />
+            </div>
+            <div>
+              <label className="text-[10px] text-[var(--text-tertiary)] block mb-1">失败状态码</label>
+              <select
+                value={mockSettings.failureStatus}
+                onChange={(e) => handleMockSettingsChange({ failureStatus: parseInt(e.target.value, 10) })}
+                className="w-full bg-[var(--bg-hover)] border border-[var(--border-secondary)] rounded px-3 py-2 text-xs text-[var(--text-primary)]"
+              >
+                <option value={429}>429 限流</option>
+                <option value={500}>500 服务错误</option>
+                <option value={503}>503 服务不可用</option>
+                <option value={400}>400 请求错误</option>
+              </select>
+            </div>
+          </div>
+          <p className="text-[10px] text-[var(--text-muted)] leading-relaxed">
+            模拟模型无需 API Key 和网络，返回固定结构的文本、占位图片与测试图案视频，适合离线开发与演示。
+            429 和 5xx 会触发自动重试（429 还会暂停该提供商的请求），400 直接失败。
+          </p>
+        </div>
+      </div>
+
       {/* 提示 */}
       <div className="p-4 bg-[var(--bg-elevated)]/50 rounded-lg border border-[var(--border-primary)]">
         <h4 className="text-xs font-bold text-[var(--text-tertiary)] mb-2">配置说明</h4>
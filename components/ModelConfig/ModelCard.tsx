@@ -8,11 +8,36 @@ import { ChevronDown, ChevronUp, Trash2, ToggleLeft, ToggleRight, CheckCircle, C
 import { 
   ModelDefinition, 
   ChatModelParams,
+  ImageModelDefinition,
+  ImageApiProtocol,
+  ChatModelDefinition,
+  ChatApiProtocol,
+  VideoModelDefinition,
   ImageModelParams,
   VideoModelParams,
+  AudioModelParams,
   AspectRatio,
-  VideoDuration
+  VideoDuration,
+  RateLimitConfig
 } from '../../types/model';
+import RateLimitFields from './RateLimitFields';
+import WorkflowTemplateEditor from './WorkflowTemplateEditor';
+import AsyncVideoProtocolEditor from './AsyncVideoProtocolEditor';
+import { isSelfHostedImageProtocol } from '../../services/adapters/selfHostedImageAdapter';
+
+const CHAT_PROTOCOL_LABELS: Record<ChatApiProtocol, string> = {
+  openai: 'OpenAI 兼容',
+  anthropic: 'Anthropic Messages',
+  ollama: 'Ollama',
+  llamacpp: 'llama.cpp',
+};
+
+const IMAGE_PROTOCOL_LABELS: Record<ImageApiProtocol, string> = {
+  gemini: 'Gemini',
+  openai: 'OpenAI Images',
+  comfyui: 'ComfyUI',
+  a1111: 'Automatic1111',
+};
 
 interface ModelCardProps {
   model: ModelDefinition;
@@ -35,6 +60,7 @@ const ModelCard: React.FC<ModelCardProps> = ({
 }) => {
   const [editParams, setEditParams] = useState<any>(model.params);
   const [editApiKey, setEditApiKey] = useState<string>(model.apiKey || '');
+  const [editRateLimit, setEditRateLimit] = useState<RateLimitConfig | undefined>(model.rateLimit);
 
   const handleParamChange = (key: string, value: any) => {
     const newParams = { ...editParams, [key]: value };
@@ -51,6 +77,11 @@ const ModelCard: React.FC<ModelCardProps> = ({
     onUpdate({ apiKey: value.trim() || undefined });
   };
 
+  const handleRateLimitChange = (value: RateLimitConfig | undefined) => {
+    setEditRateLimit(value);
+    onUpdate({ rateLimit: value });
+  };
+
   const renderChatParams = (params: ChatModelParams) => (
     <div className="grid grid-cols-2 gap-4">
       <div>
@@ -81,6 +112,9 @@ const ModelCard: React.FC<ModelCardProps> = ({
         />
         <p className="text-[9px] text-[var(--text-muted)] mt-1">留空则不限制最大 Token</p>
       </div>
+      <div className="col-span-2 text-[10px] text-[var(--text-muted)]">
+        协议：{CHAT_PROTOCOL_LABELS[(model as ChatModelDefinition).protocol || 'openai']}
+      </div>
     </div>
   );
 
@@ -103,6 +137,18 @@ const ModelCard: React.FC<ModelCardProps> = ({
           </button>
         ))}
       </div>
+      <div className="text-[10px] text-[var(--text-muted)] mt-3">
+        协议：{IMAGE_PROTOCOL_LABELS[(model as ImageModelDefinition).protocol || 'gemini']}
+      </div>
+      {isSelfHostedImageProtocol((model as ImageModelDefinition).protocol) && (
+        <div className="mt-4">
+          <WorkflowTemplateEditor
+            protocol={(model as ImageModelDefinition).protocol!}
+            value={(model as ImageModelDefinition).workflowTemplate}
+            onSave={(workflowTemplate) => onUpdate({ workflowTemplate } as Partial<ImageModelDefinition>)}
+          />
+        </div>
+      )}
     </div>
   );
 
@@ -147,7 +193,46 @@ const ModelCard: React.FC<ModelCardProps> = ({
         </div>
       )}
       <div className="text-[10px] text-[var(--text-muted)]">
-        模式：{editParams.mode === 'sync' ? '同步（Veo）' : '异步（Sora）'}
+        模式：{editParams.mode === 'sync' ? '同步（Veo）' : (model as VideoModelDefinition).asyncProtocol ? '异步（通用任务协议）' : '异步（Sora）'}
+      </div>
+      {/* 内置模型不可修改协议 */}
+      {!model.isBuiltIn && editParams.mode === 'async' && (
+        <AsyncVideoProtocolEditor
+          value={(model as VideoModelDefinition).asyncProtocol}
+          onSave={(asyncProtocol) => onUpdate({ asyncProtocol } as Partial<VideoModelDefinition>)}
+        />
+      )}
+    </div>
+  );
+
+  const renderAudioParams = (params: AudioModelParams) => (
+    <div className="grid grid-cols-2 gap-4">
+      <div>
+        <label className="text-[10px] text-[var(--text-tertiary)] block mb-1">默认音色</label>
+        <select
+          value={editParams.defaultVoice}
+          onChange={(e) => handleParamChange('defaultVoice', e.target.value)}
+          className="w-full bg-[var(--bg-hover)] border border-[var(--border-secondary)] rounded px-3 py-2 text-xs text-[var(--text-primary)]"
+        >
+          {params.voices.map((voice) => (
+            <option key={voice} value={voice}>{voice}</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label className="text-[10px] text-[var(--text-tertiary)] block mb-1">语速</label>
+        <input
+          type="number"
+          min="0.25"
+          max="4"
+          step="0.05"
+          value={editParams.speed}
+          onChange={(e) => handleParamChange('speed', parseFloat(e.target.value) || 1)}
+          className="w-full bg-[var(--bg-hover)] border border-[var(--border-secondary)] rounded px-3 py-2 text-xs text-[var(--text-primary)]"
+        />
+      </div>
+      <div className="col-span-2 text-[10px] text-[var(--text-muted)]">
+        输出格式：{editParams.format.toUpperCase()}
       </div>
     </div>
   );
@@ -261,9 +346,16 @@ const ModelCard: React.FC<ModelCardProps> = ({
               )}
             </div>
             
+            {/* 模型级限流 */}
+            <div>
+              <RateLimitFields value={editRateLimit} onChange={handleRateLimitChange} />
+              <p className="text-[9px] text-[var(--text-muted)] mt-1">与提供商限流同时生效，批量生成时按此排队</p>
+            </div>
+
             {model.type === 'chat' && renderChatParams(model.params)}
             {model.type === 'image' && renderImageParams(model.params)}
             {model.type === 'video' && renderVideoParams(model.params)}
+            {model.type === 'audio' && renderAudioParams(model.params)}
           </div>
         </div>
       )}
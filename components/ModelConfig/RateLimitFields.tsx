@@ -0,0 +1,57 @@
+/**
+ * 限流配置输入组件
+ * 编辑并发上限与每分钟请求数，填 0 表示不限制；留空时使用 defaults 中的默认值，没有默认值则不限制
+ */
+
+import React from 'react';
+import { RateLimitConfig } from '../../types/model';
+
+interface RateLimitFieldsProps {
+  value?: RateLimitConfig;
+  onChange: (value: RateLimitConfig | undefined) => void;
+  defaults?: RateLimitConfig;
+}
+
+const parseLimit = (input: string): number | undefined => {
+  const parsed = parseInt(input, 10);
+  return parsed >= 0 ? parsed : undefined;
+};
+
+const RateLimitFields: React.FC<RateLimitFieldsProps> = ({ value, onChange, defaults }) => {
+  const handleChange = (key: keyof RateLimitConfig, input: string) => {
+    const next = { ...value, [key]: parseLimit(input) };
+    onChange(next.maxConcurrent !== undefined || next.requestsPerMinute !== undefined ? next : undefined);
+  };
+
+  const placeholderFor = (key: keyof RateLimitConfig) =>
+    defaults?.[key] ? `默认 ${defaults[key]}，0 为不限制` : '不限制';
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      <div>
+        <label className="text-[10px] text-[var(--text-tertiary)] block mb-1">并发上限</label>
+        <input
+          type="number"
+          min="0"
+          value={value?.maxConcurrent ?? ''}
+          onChange={(e) => handleChange('maxConcurrent', e.target.value)}
+          placeholder={placeholderFor('maxConcurrent')}
+          className="w-full bg-[var(--bg-hover)] border border-[var(--border-secondary)] rounded px-3 py-2 text-xs text-[var(--text-primary)] placeholder:text-[var(--text-muted)]"
+        />
+      </div>
+      <div>
+        <label className="text-[10px] text-[var(--text-tertiary)] block mb-1">每分钟请求数</label>
+        <input
+          type="number"
+          min="0"
+          value={value?.requestsPerMinute ?? ''}
+          onChange={(e) => handleChange('requestsPerMinute', e.target.value)}
+          placeholder={placeholderFor('requestsPerMinute')}
+          className="w-full bg-[var(--bg-hover)] border border-[var(--border-secondary)] rounded px-3 py-2 text-xs text-[var(--text-primary)] placeholder:text-[var(--text-muted)]"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default RateLimitFields;
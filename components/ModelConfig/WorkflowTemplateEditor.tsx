@@ -0,0 +1,88 @@
+/**
+ * 图片模板编辑组件
+ * 编辑 ComfyUI 工作流（API 格式）或 A1111 请求体模板，占位符在请求时替换
+ */
+
+import React, { useState } from 'react';
+import { Check, RotateCcw } from 'lucide-react';
+import { ImageApiProtocol } from '../../types/model';
+import { IMAGE_TEMPLATE_PLACEHOLDERS, getDefaultImageTemplate } from '../../services/adapters/selfHostedImageAdapter';
+import { useAlert } from '../GlobalAlert';
+
+interface WorkflowTemplateEditorProps {
+  protocol: ImageApiProtocol;
+  value?: string;
+  onSave: (value: string | undefined) => void;
+}
+
+const WorkflowTemplateEditor: React.FC<WorkflowTemplateEditorProps> = ({ protocol, value, onSave }) => {
+  const { showAlert } = useAlert();
+  const [draft, setDraft] = useState(value || getDefaultImageTemplate(protocol));
+  const isDirty = draft !== (value || getDefaultImageTemplate(protocol));
+
+  const handleSave = () => {
+    try {
+      JSON.parse(draft);
+    } catch (e) {
+      showAlert(`模板不是有效的 JSON：${e instanceof Error ? e.message : '解析失败'}`, { type: 'error' });
+      return;
+    }
+    // 与默认模板相同时不保存，便于跟随默认模板更新
+    onSave(draft.trim() === getDefaultImageTemplate(protocol) ? undefined : draft);
+  };
+
+  const handleReset = () => {
+    setDraft(getDefaultImageTemplate(protocol));
+    onSave(undefined);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="text-[10px] text-[var(--text-tertiary)]">
+          {protocol === 'a1111' ? 'A1111 请求体模板' : 'ComfyUI 工作流模板（API 格式）'}
+        </label>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={handleReset}
+            disabled={!value && !isDirty}
+            className="flex items-center gap-1 text-[10px] text-[var(--text-muted)] hover:text-[var(--text-primary)] transition-colors disabled:opacity-40"
+          >
+            <RotateCcw className="w-3 h-3" />
+            恢复默认
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!isDirty}
+            className="flex items-center gap-1 text-[10px] text-[var(--accent-text)] hover:text-[var(--text-primary)] transition-colors disabled:opacity-40"
+          >
+            <Check className="w-3 h-3" />
+            保存模板
+          </button>
+        </div>
+      </div>
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        spellCheck={false}
+        rows={12}
+        className="w-full bg-[var(--bg-hover)] border border-[var(--border-secondary)] rounded px-3 py-2 text-[10px] text-[var(--text-primary)] font-mono resize-y"
+      />
+      <div className="text-[9px] text-[var(--text-muted)] space-y-0.5">
+        <p>
+          {protocol === 'a1111'
+            ? '有参考图时调用 img2img，第一张参考图作为 init_images 传入；无参考图时调用 txt2img'
+            : '参考图会先上传到 ComfyUI，占位符替换为上传后的文件名，可填入 LoadImage 节点的 image 字段'}
+        </p>
+        <p>
+          可用占位符：
+          {IMAGE_TEMPLATE_PLACEHOLDERS.map(({ key, description }) => (
+            <span key={key} className="mr-2"><code className="font-mono">{key}</code> {description}</span>
+          ))}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default WorkflowTemplateEditor;
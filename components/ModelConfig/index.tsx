@@ -4,7 +4,7 @@
  */
 
 import React, { useRef, useState, useEffect } from 'react';
-import { X, Settings, MessageSquare, Image, Video, Key, ExternalLink, Gift, Sparkles } from 'lucide-react';
+import { X, Settings, MessageSquare, Image, Video, Mic, Key, ExternalLink, Gift, Sparkles } from 'lucide-react';
 import { ModelType, ModelDefinition } from '../../types/model';
 import {
   getRegistryState,
@@ -26,7 +26,7 @@ interface ModelConfigModalProps {
   onClose: () => void;
 }
 
-type TabType = 'global' | 'chat' | 'image' | 'video';
+type TabType = 'global' | 'chat' | 'image' | 'video' | 'audio';
 
 const ModelConfigModal: React.FC<ModelConfigModalProps> = ({ isOpen, onClose }) => {
   const [activeTab, setActiveTab] = useState<TabType>('global');
@@ -43,6 +43,7 @@ const ModelConfigModal: React.FC<ModelConfigModalProps> = ({ isOpen, onClose })
     { id: 'chat', label: '对话模型', icon: <MessageSquare className="w-4 h-4" /> },
     { id: 'image', label: '图片模型', icon: <Image className="w-4 h-4" /> },
     { id: 'video', label: '视频模型', icon: <Video className="w-4 h-4" /> },
+    { id: 'audio', label: '配音模型', icon: <Mic className="w-4 h-4" /> },
   ];
 
   return (
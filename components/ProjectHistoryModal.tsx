@@ -0,0 +1,318 @@
+/**
+ * 版本历史面板
+ * 浏览项目快照、对比剧本结构与分镜的差异，手动创建命名快照并一键恢复
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, History, Loader2, Camera, RotateCcw, Trash2, Plus, Minus, Edit2 } from 'lucide-react';
+import { ProjectState, ProjectSnapshot } from '../types';
+import {
+  createProjectSnapshot,
+  getProjectSnapshots,
+  loadProjectSnapshot,
+  deleteProjectSnapshot,
+} from '../services/storageService';
+import { diffProjectSnapshots, SnapshotEntityChange, SnapshotFieldChange } from '../services/snapshotService';
+import { useAlert } from './GlobalAlert';
+
+interface Props {
+  project: ProjectState;
+  onRestore: (restored: ProjectState) => void;
+  onClose: () => void;
+}
+
+const CURRENT_VERSION = 'current';
+
+const truncate = (text: string, max: number = 80) => (text.length > max ? `${text.slice(0, max)}…` : text);
+
+const formatTime = (ts: number) => new Date(ts).toLocaleString('zh-CN', {
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  second: '2-digit',
+});
+
+const FieldChanges: React.FC<{ changes: SnapshotFieldChange[] }> = ({ changes }) => (
+  <>
+    {changes.map(change => (
+      <div key={change.field} className="grid grid-cols-[80px_1fr] gap-2 text-[11px]">
+        <span className="text-[var(--text-muted)]">{change.label}</span>
+        <span className="text-[var(--text-secondary)] break-all">
+          <span className="line-through text-[var(--text-muted)]">{truncate(change.before) || '（空）'}</span>
+          {' → '}
+          {truncate(change.after) || '（空）'}
+        </span>
+      </div>
+    ))}
+  </>
+);
+
+const EntitySection: React.FC<{ title: string; items: SnapshotEntityChange[] }> = ({ title, items }) => {
+  if (items.length === 0) return null;
+  return (
+    <div className="space-y-2">
+      <div className="text-[10px] font-bold text-[var(--text-tertiary)] uppercase tracking-widest">{title}</div>
+      {items.map(item => (
+        <div key={`${item.status}-${item.id}`} className="bg-[var(--bg-base)] border border-[var(--border-primary)] rounded-lg p-3 space-y-1.5">
+          <div className={`flex items-center gap-2 text-xs font-bold ${
+            item.status === 'added'
+              ? 'text-[var(--success-text)]'
+              : item.status === 'removed'
+                ? 'text-[var(--error-text)]'
+                : 'text-[var(--text-primary)]'
+          }`}>
+            {item.status === 'added' && <Plus className="w-3 h-3" />}
+            {item.status === 'removed' && <Minus className="w-3 h-3" />}
+            {item.status === 'changed' && <Edit2 className="w-3 h-3 text-[var(--accent-text)]" />}
+            {item.name}
+          </div>
+          <FieldChanges changes={item.changes} />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const ProjectHistoryModal: React.FC<Props> = ({ project, onRestore, onClose }) => {
+  const { showAlert } = useAlert();
+  const [snapshots, setSnapshots] = useState<ProjectSnapshot[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string>(CURRENT_VERSION);
+  const [snapshotName, setSnapshotName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const loadSnapshots = async () => {
+    setIsLoading(true);
+    try {
+      const list = await getProjectSnapshots(project.id);
+      setSnapshots(list);
+      setSelectedId(prev => (prev && list.some(s => s.id === prev) ? prev : list[0]?.id || null));
+    } catch (error) {
+      console.error('Failed to load snapshots', error);
+      showAlert(`读取版本历史失败: ${error instanceof Error ? error.message : '未知错误'}`, { type: 'error' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadSnapshots();
+  }, [project.id]);
+
+  const selected = snapshots.find(s => s.id === selectedId) || null;
+
+  const diff = useMemo(() => {
+    if (!selected) return null;
+    const target = compareId === CURRENT_VERSION
+      ? { project, createdAt: Date.now() }
+      : snapshots.find(s => s.id === compareId);
+    if (!target || target.project === selected.project) return null;
+    // 始终以较早的版本为基准
+    return target.createdAt >= selected.createdAt
+      ? diffProjectSnapshots(selected.project, target.project)
+      : diffProjectSnapshots(target.project, selected.project);
+  }, [selected, compareId, snapshots, project]);
+
+  const handleCreateSnapshot = async () => {
+    if (isCreating) return;
+    setIsCreating(true);
+    try {
+      const name = snapshotName.trim() || `手动快照 ${formatTime(Date.now())}`;
+      const snapshot = await createProjectSnapshot(project, name, 'manual');
+      setSnapshotName('');
+      await loadSnapshots();
+      setSelectedId(snapshot.id);
+    } catch (error) {
+      console.error('Failed to create snapshot', error);
+      showAlert(`创建快照失败: ${error instanceof Error ? error.message : '未知错误'}`, { type: 'error' });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRestore = () => {
+    if (!selected || isRestoring) return;
+    showAlert(`将项目恢复到「${selected.name}」（${formatTime(selected.createdAt)}）。当前版本会先自动保存为快照，确定继续吗？`, {
+      type: 'warning',
+      showCancel: true,
+      onConfirm: async () => {
+        setIsRestoring(true);
+        try {
+          const restored = await loadProjectSnapshot(selected.id);
+          await createProjectSnapshot(project, `恢复「${selected.name}」前`, 'auto');
+          onRestore(restored);
+          showAlert(`已恢复到「${selected.name}」`, { type: 'success' });
+          onClose();
+        } catch (error) {
+          console.error('Failed to restore snapshot', error);
+          showAlert(`恢复失败: ${error instanceof Error ? error.message : '未知错误'}`, { type: 'error' });
+        } finally {
+          setIsRestoring(false);
+        }
+      }
+    });
+  };
+
+  const handleDelete = (snapshot: ProjectSnapshot) => {
+    showAlert(`确定删除快照「${snapshot.name}」吗？`, {
+      type: 'warning',
+      showCancel: true,
+      onConfirm: async () => {
+        try {
+          await deleteProjectSnapshot(snapshot.id);
+          if (compareId === snapshot.id) setCompareId(CURRENT_VERSION);
+          await loadSnapshots();
+        } catch (error) {
+          showAlert(`删除快照失败: ${error instanceof Error ? error.message : '未知错误'}`, { type: 'error' });
+        }
+      }
+    });
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[100] bg-[var(--overlay-heavy)] backdrop-blur-sm flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-[var(--bg-elevated)] border border-[var(--border-secondary)] rounded-xl p-6 max-w-5xl w-full h-[85vh] flex flex-col gap-4 shadow-2xl animate-in fade-in duration-200"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between shrink-0">
+          <h3 className="text-[var(--text-primary)] font-bold flex items-center gap-2">
+            <History className="w-4 h-4 text-[var(--accent-text)]" />
+            版本历史
+            <span className="text-xs text-[var(--text-muted)] font-normal">剧本解析、生成分镜、拆分镜头与导入前会自动创建快照</span>
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-[var(--bg-hover)] rounded text-[var(--text-tertiary)] hover:text-[var(--text-primary)] transition-colors"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex gap-2 shrink-0">
+          <input
+            type="text"
+            value={snapshotName}
+            onChange={(e) => setSnapshotName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreateSnapshot()}
+            placeholder="快照名称（可选），如：定稿前"
+            className="flex-1 bg-[var(--bg-base)] border border-[var(--border-primary)] text-[var(--text-primary)] px-3 py-2 text-xs rounded-lg focus:border-[var(--accent)] focus:outline-none placeholder:text-[var(--text-muted)]"
+          />
+          <button
+            onClick={handleCreateSnapshot}
+            disabled={isCreating}
+            className="px-4 py-2 bg-[var(--bg-hover)] text-[var(--text-secondary)] hover:bg-[var(--border-secondary)] rounded-lg text-xs font-bold transition-colors flex items-center gap-2 disabled:opacity-50"
+          >
+            {isCreating ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Camera className="w-3.5 h-3.5" />}
+            创建快照
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 flex gap-4">
+          <div className="w-72 shrink-0 overflow-y-auto space-y-1.5 pr-1">
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="w-5 h-5 text-[var(--text-muted)] animate-spin" />
+              </div>
+            ) : snapshots.length === 0 ? (
+              <p className="text-xs text-[var(--text-muted)] text-center py-8">暂无快照</p>
+            ) : snapshots.map(snapshot => (
+              <div
+                key={snapshot.id}
+                onClick={() => setSelectedId(snapshot.id)}
+                className={`group px-3 py-2 rounded-lg border cursor-pointer transition-colors ${
+                  snapshot.id === selectedId
+                    ? 'border-[var(--accent-border)] bg-[var(--accent-bg)]'
+                    : 'border-[var(--border-primary)] hover:border-[var(--border-secondary)]'
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-xs text-[var(--text-primary)] truncate">{snapshot.name}</span>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDelete(snapshot);
+                    }}
+                    className="opacity-0 group-hover:opacity-100 p-1 text-[var(--text-muted)] hover:text-[var(--error-text)] transition-all"
+                    title="删除快照"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+                <div className="flex items-center gap-2 text-[10px] text-[var(--text-muted)] font-mono mt-0.5">
+                  <span>{formatTime(snapshot.createdAt)}</span>
+                  <span>{snapshot.kind === 'manual' ? '手动' : '自动'}</span>
+                  <span>{snapshot.project.shots?.length || 0} 镜头</span>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex-1 min-w-0 flex flex-col gap-3">
+            {selected ? (
+              <>
+                <div className="flex items-center justify-between gap-3 shrink-0">
+                  <div className="flex items-center gap-2 text-xs text-[var(--text-tertiary)]">
+                    <span>对比</span>
+                    <select
+                      value={compareId}
+                      onChange={(e) => setCompareId(e.target.value)}
+                      className="bg-[var(--bg-base)] border border-[var(--border-primary)] text-[var(--text-secondary)] px-2 py-1 rounded text-xs"
+                    >
+                      <option value={CURRENT_VERSION}>当前版本</option>
+                      {snapshots.filter(s => s.id !== selected.id).map(s => (
+                        <option key={s.id} value={s.id}>{s.name} · {formatTime(s.createdAt)}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <button
+                    onClick={handleRestore}
+                    disabled={isRestoring}
+                    className="px-4 py-2 bg-[var(--btn-primary-bg)] text-[var(--btn-primary-text)] hover:bg-[var(--btn-primary-hover)] rounded-lg text-xs font-bold transition-colors flex items-center gap-2 disabled:opacity-50"
+                  >
+                    {isRestoring ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <RotateCcw className="w-3.5 h-3.5" />}
+                    恢复此版本
+                  </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto space-y-4 pr-1">
+                  {!diff || diff.isEmpty ? (
+                    <p className="text-sm text-[var(--text-tertiary)] text-center py-8">两个版本的剧本与分镜没有差异</p>
+                  ) : (
+                    <>
+                      {diff.project.length > 0 && (
+                        <div className="space-y-1.5">
+                          <div className="text-[10px] font-bold text-[var(--text-tertiary)] uppercase tracking-widest">项目</div>
+                          <FieldChanges changes={diff.project} />
+                        </div>
+                      )}
+                      {diff.storyParagraphs.added + diff.storyParagraphs.removed + diff.storyParagraphs.changed > 0 && (
+                        <div className="text-[11px] text-[var(--text-secondary)]">
+                          故事段落：新增 {diff.storyParagraphs.added} · 删除 {diff.storyParagraphs.removed} · 修改 {diff.storyParagraphs.changed}
+                        </div>
+                      )}
+                      <EntitySection title="角色" items={diff.characters} />
+                      <EntitySection title="场景" items={diff.scenes} />
+                      <EntitySection title="道具" items={diff.props} />
+                      <EntitySection title="分镜" items={diff.shots} />
+                    </>
+                  )}
+                </div>
+              </>
+            ) : (
+              <p className="text-sm text-[var(--text-tertiary)] text-center py-8">选择左侧快照查看差异</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectHistoryModal;
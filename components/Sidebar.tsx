@@ -1,5 +1,5 @@
 import React from 'react';
-import { FileText, Users, Clapperboard, Film, ChevronLeft, ListTree, HelpCircle, Cpu, Sun, Moon, Loader2 } from 'lucide-react';
+import { FileText, Users, Clapperboard, Film, ChevronLeft, ListTree, HelpCircle, Cpu, Sun, Moon, Loader2, History, Undo2, Redo2, ListChecks } from 'lucide-react';
 import logoImg from '../logo.png';
 import { useTheme } from '../contexts/ThemeContext';
 
@@ -10,10 +10,17 @@ interface SidebarProps {
   projectName?: string;
   onShowOnboarding?: () => void;
   onShowModelConfig?: () => void;
+  onShowHistory?: () => void;
+  onShowJobs?: () => void;
+  activeJobCount?: number;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  canUndo?: boolean;
+  canRedo?: boolean;
   isNavigationLocked?: boolean;
 }
 
-const Sidebar: React.FC<SidebarProps> = ({ currentStage, setStage, onExit, projectName, onShowOnboarding, onShowModelConfig, isNavigationLocked }) => {
+const Sidebar: React.FC<SidebarProps> = ({ currentStage, setStage, onExit, projectName, onShowOnboarding, onShowModelConfig, onShowHistory, onShowJobs, activeJobCount = 0, onUndo, onRedo, canUndo, canRedo, isNavigationLocked }) => {
   const { theme, toggleTheme } = useTheme();
   const navItems = [
     { id: 'script', label: '剧本与故事', icon: FileText, sub: 'Phase 01' },
@@ -103,6 +110,52 @@ const Sidebar: React.FC<SidebarProps> = ({ currentStage, setStage, onExit, proje
 
       {/* Footer */}
       <div className="p-6 border-t border-[var(--border-subtle)] space-y-4">
+        {onUndo && onRedo && (
+          <div className="flex items-center justify-between text-[var(--text-muted)]">
+            <span className="font-mono text-[10px] uppercase tracking-widest">撤销 / 重做</span>
+            <div className="flex items-center gap-3">
+              <button
+                onClick={onUndo}
+                disabled={!canUndo}
+                className="hover:text-[var(--text-primary)] transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                title="撤销 (Ctrl+Z)"
+              >
+                <Undo2 className="w-4 h-4" />
+              </button>
+              <button
+                onClick={onRedo}
+                disabled={!canRedo}
+                className="hover:text-[var(--text-primary)] transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                title="重做 (Ctrl+Shift+Z)"
+              >
+                <Redo2 className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        )}
+        {onShowJobs && (
+          <button 
+            onClick={onShowJobs}
+            className="w-full flex items-center justify-between text-[var(--text-muted)] hover:text-[var(--text-primary)] cursor-pointer transition-colors"
+          >
+            <span className="font-mono text-[10px] uppercase tracking-widest">生成任务</span>
+            <span className="flex items-center gap-2">
+              {activeJobCount > 0 && (
+                <span className="px-1.5 rounded-full bg-[var(--accent-bg)] text-[var(--accent-text)] text-[10px] font-mono">{activeJobCount}</span>
+              )}
+              <ListChecks className="w-4 h-4" />
+            </span>
+          </button>
+        )}
+        {onShowHistory && (
+          <button 
+            onClick={onShowHistory}
+            className="w-full flex items-center justify-between text-[var(--text-muted)] hover:text-[var(--text-primary)] cursor-pointer transition-colors"
+          >
+            <span className="font-mono text-[10px] uppercase tracking-widest">版本历史</span>
+            <History className="w-4 h-4" />
+          </button>
+        )}
         <button 
           onClick={toggleTheme}
           className="w-full flex items-center justify-between text-[var(--text-muted)] hover:text-[var(--text-primary)] cursor-pointer transition-colors"
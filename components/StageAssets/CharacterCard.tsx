@@ -1,20 +1,22 @@
 import React, { useState } from 'react';
-import { User, Check, Shirt, Trash2, Edit2, AlertCircle, FolderPlus, Grid3x3 } from 'lucide-react';
+import { User, Check, Shirt, Trash2, Edit2, AlertCircle, FolderPlus, Grid3x3, Mic } from 'lucide-react';
 import { Character } from '../../types';
 import PromptEditor from './PromptEditor';
 import ImageUploadButton from './ImageUploadButton';
+import { getActiveAudioModel } from '../../services/modelRegistry';
 
 interface CharacterCardProps {
   character: Character;
   isGenerating: boolean;
   onGenerate: () => void;
+  onCancel?: () => void;
   onUpload: (file: File) => void;
   onPromptSave: (newPrompt: string) => void;
   onOpenWardrobe: () => void;
   onOpenTurnaround: () => void;
   onImageClick: (imageUrl: string) => void;
   onDelete: () => void;
-  onUpdateInfo: (updates: { name?: string; gender?: string; age?: string; personality?: string }) => void;
+  onUpdateInfo: (updates: { name?: string; gender?: string; age?: string; personality?: string; voice?: string }) => void;
   onAddToLibrary: () => void;
   onReplaceFromLibrary: () => void;
 }
@@ -23,6 +25,7 @@ const CharacterCard: React.FC<CharacterCardProps> = ({
   character,
   isGenerating,
   onGenerate,
+  onCancel,
   onUpload,
   onPromptSave,
   onOpenWardrobe,
@@ -40,6 +43,13 @@ const CharacterCard: React.FC<CharacterCardProps> = ({
   const [editGender, setEditGender] = useState(character.gender);
   const [editAge, setEditAge] = useState(character.age);
 
+  // 配音音色：取当前激活配音模型的音色列表，保留角色已选的自定义音色
+  const audioModel = getActiveAudioModel();
+  const voiceOptions = [...(audioModel?.params.voices || [])];
+  if (character.voice && !voiceOptions.includes(character.voice)) {
+    voiceOptions.push(character.voice);
+  }
+
   const handleSaveName = () => {
     if (editName.trim()) {
       onUpdateInfo({ name: editName.trim() });
@@ -72,7 +82,7 @@ const CharacterCard: React.FC<CharacterCardProps> = ({
           >
             {character.referenceImage ? (
               <>
-                <img src={character.referenceImage} alt={character.name} className="w-full h-full object-cover" />
+                <img src={character.referenceImage} alt={character.name} loading="lazy" className="w-full h-full object-cover" />
                 <div className="absolute top-1.5 right-1.5 p-1 bg-[var(--accent)] text-[var(--text-primary)] rounded shadow-lg">
                   <Check className="w-3 h-3" />
                 </div>
@@ -89,6 +99,7 @@ const CharacterCard: React.FC<CharacterCardProps> = ({
                       onUpload={onUpload}
                       onGenerate={onGenerate}
                       isGenerating={isGenerating}
+                      onCancel={onCancel}
                       uploadLabel="上传"
                       generateLabel="重试"
                     />
@@ -102,6 +113,7 @@ const CharacterCard: React.FC<CharacterCardProps> = ({
                       onUpload={onUpload}
                       onGenerate={onGenerate}
                       isGenerating={isGenerating}
+                      onCancel={onCancel}
                       uploadLabel="上传"
                       generateLabel="生成"
                     />
@@ -189,6 +201,19 @@ const CharacterCard: React.FC<CharacterCardProps> = ({
                 </span>
               )}
             </div>
+            <div className="flex items-center gap-1.5 mt-2" title="台词配音使用的音色">
+              <Mic className="w-3 h-3 text-[var(--text-muted)]" />
+              <select
+                value={character.voice || ''}
+                onChange={(e) => onUpdateInfo({ voice: e.target.value })}
+                className="flex-1 min-w-0 bg-[var(--bg-elevated)] text-[var(--text-secondary)] border border-[var(--border-primary)] rounded px-1.5 py-0.5 text-[10px] font-mono outline-none focus:border-[var(--accent)]"
+              >
+                <option value="">默认音色{audioModel ? ` (${audioModel.params.defaultVoice})` : ''}</option>
+                {voiceOptions.map(voice => (
+                  <option key={voice} value={voice}>{voice}</option>
+                ))}
+              </select>
+            </div>
           </div>
 
           {/* Actions Row */}
@@ -227,6 +252,7 @@ const CharacterCard: React.FC<CharacterCardProps> = ({
                   onUpload={onUpload}
                   onGenerate={onGenerate}
                   isGenerating={isGenerating}
+                  onCancel={onCancel}
                   uploadLabel="上传"
                 />
               </div>
@@ -5,6 +5,8 @@ interface ImageUploadButtonProps {
   onUpload: (file: File) => void;
   onGenerate?: () => void;
   isGenerating?: boolean;
+  /** 生成中时提供则生成按钮变为取消按钮 */
+  onCancel?: () => void;
   hasImage?: boolean;
   uploadLabel?: string;
   generateLabel?: string;
@@ -16,6 +18,7 @@ const ImageUploadButton: React.FC<ImageUploadButtonProps> = ({
   onUpload,
   onGenerate,
   isGenerating = false,
+  onCancel,
   hasImage = false,
   uploadLabel = '上传',
   generateLabel = '生成',
@@ -30,6 +33,8 @@ const ImageUploadButton: React.FC<ImageUploadButtonProps> = ({
 
   const buttonClass = `${sizeClasses[size]} bg-[var(--bg-hover)] text-[var(--text-secondary)] hover:bg-[var(--border-secondary)] rounded font-bold transition-all border border-[var(--border-secondary)] flex items-center gap-1 cursor-pointer`;
 
+  const canCancel = isGenerating && !!onCancel;
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
@@ -43,8 +48,8 @@ const ImageUploadButton: React.FC<ImageUploadButtonProps> = ({
       <div className="flex gap-1">
         {onGenerate && (
           <button
-            onClick={onGenerate}
-            disabled={isGenerating}
+            onClick={canCancel ? onCancel : onGenerate}
+            disabled={isGenerating && !canCancel}
             className={buttonClass}
           >
             {isGenerating ? (
@@ -52,7 +57,7 @@ const ImageUploadButton: React.FC<ImageUploadButtonProps> = ({
             ) : (
               <Sparkles className="w-3 h-3" />
             )}
-            {generateLabel}
+            {canCancel ? '取消' : generateLabel}
           </button>
         )}
         <label className={buttonClass}>
@@ -74,14 +79,14 @@ const ImageUploadButton: React.FC<ImageUploadButtonProps> = ({
     <div className="flex gap-2">
       {onGenerate && hasImage && (
         <button
-          onClick={onGenerate}
-          disabled={isGenerating}
+          onClick={canCancel ? onCancel : onGenerate}
+          disabled={isGenerating && !canCancel}
           className={`flex-1 py-1.5 bg-[var(--bg-elevated)] hover:bg-[var(--bg-hover)] text-[var(--text-tertiary)] hover:text-[var(--text-primary)] rounded text-[10px] font-bold uppercase tracking-wider flex items-center justify-center gap-1.5 border border-[var(--border-primary)] transition-colors`}
         >
           {isGenerating ? (
             <>
               <Loader2 className="w-3 h-3 animate-spin" />
-              生成中...
+              {canCancel ? '取消生成' : '生成中...'}
             </>
           ) : (
             <>
@@ -9,6 +9,7 @@ interface PropCardProps {
   prop: Prop;
   isGenerating: boolean;
   onGenerate: () => void;
+  onCancel?: () => void;
   onUpload: (file: File) => void;
   onPromptSave: (newPrompt: string) => void;
   onImageClick: (imageUrl: string) => void;
@@ -21,6 +22,7 @@ const PropCard: React.FC<PropCardProps> = ({
   prop,
   isGenerating,
   onGenerate,
+  onCancel,
   onUpload,
   onPromptSave,
   onImageClick,
@@ -53,7 +55,7 @@ const PropCard: React.FC<PropCardProps> = ({
       >
         {prop.referenceImage ? (
           <>
-            <img src={prop.referenceImage} alt={prop.name} className="w-full h-full object-cover" />
+            <img src={prop.referenceImage} alt={prop.name} loading="lazy" className="w-full h-full object-cover" />
             <div className="absolute top-2 right-2 p-1 bg-[var(--accent)] text-[var(--text-primary)] rounded shadow-lg backdrop-blur">
               <Check className="w-3 h-3" />
             </div>
@@ -64,6 +66,17 @@ const PropCard: React.FC<PropCardProps> = ({
               <>
                 <Loader2 className="w-10 h-10 mb-3 animate-spin text-[var(--accent)]" />
                 <span className="text-[10px] text-[var(--text-tertiary)]">生成中...</span>
+                {onCancel && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onCancel();
+                    }}
+                    className="mt-2 text-[10px] text-[var(--text-muted)] hover:text-[var(--error)] transition-colors"
+                  >
+                    取消
+                  </button>
+                )}
               </>
             ) : prop.status === 'failed' ? (
               <>
@@ -75,6 +88,7 @@ const PropCard: React.FC<PropCardProps> = ({
                   onUpload={onUpload}
                   onGenerate={onGenerate}
                   isGenerating={isGenerating}
+                  onCancel={onCancel}
                   uploadLabel="上传"
                   generateLabel="重试"
                 />
@@ -88,6 +102,7 @@ const PropCard: React.FC<PropCardProps> = ({
                   onUpload={onUpload}
                   onGenerate={onGenerate}
                   isGenerating={isGenerating}
+                  onCancel={onCancel}
                   uploadLabel="上传"
                   generateLabel="生成"
                 />
@@ -177,6 +192,7 @@ const PropCard: React.FC<PropCardProps> = ({
               onUpload={onUpload}
               onGenerate={onGenerate}
               isGenerating={isGenerating}
+              onCancel={onCancel}
               uploadLabel="上传图片"
             />
           </div>
@@ -15,6 +15,7 @@ interface SceneCardProps {
   };
   isGenerating: boolean;
   onGenerate: () => void;
+  onCancel?: () => void;
   onUpload: (file: File) => void;
   onPromptSave: (newPrompt: string) => void;
   onImageClick: (imageUrl: string) => void;
@@ -27,6 +28,7 @@ const SceneCard: React.FC<SceneCardProps> = ({
   scene,
   isGenerating,
   onGenerate,
+  onCancel,
   onUpload,
   onPromptSave,
   onImageClick,
@@ -70,7 +72,7 @@ const SceneCard: React.FC<SceneCardProps> = ({
       >
         {scene.referenceImage ? (
           <>
-            <img src={scene.referenceImage} alt={scene.location} className="w-full h-full object-cover" />
+            <img src={scene.referenceImage} alt={scene.location} loading="lazy" className="w-full h-full object-cover" />
             <div className="absolute top-2 right-2 p-1 bg-[var(--accent)] text-[var(--text-primary)] rounded shadow-lg backdrop-blur">
               <Check className="w-3 h-3" />
             </div>
@@ -81,6 +83,17 @@ const SceneCard: React.FC<SceneCardProps> = ({
               <>
                 <Loader2 className="w-10 h-10 mb-3 animate-spin text-[var(--accent)]" />
                 <span className="text-[10px] text-[var(--text-tertiary)]">生成中...</span>
+                {onCancel && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onCancel();
+                    }}
+                    className="mt-2 text-[10px] text-[var(--text-muted)] hover:text-[var(--error)] transition-colors"
+                  >
+                    取消
+                  </button>
+                )}
               </>
             ) : scene.status === 'failed' ? (
               <>
@@ -92,6 +105,7 @@ const SceneCard: React.FC<SceneCardProps> = ({
                   onUpload={onUpload}
                   onGenerate={onGenerate}
                   isGenerating={isGenerating}
+                  onCancel={onCancel}
                   uploadLabel="上传"
                   generateLabel="重试"
                 />
@@ -105,6 +119,7 @@ const SceneCard: React.FC<SceneCardProps> = ({
                   onUpload={onUpload}
                   onGenerate={onGenerate}
                   isGenerating={isGenerating}
+                  onCancel={onCancel}
                   uploadLabel="上传"
                   generateLabel="生成"
                 />
@@ -205,6 +220,7 @@ const SceneCard: React.FC<SceneCardProps> = ({
               onUpload={onUpload}
               onGenerate={onGenerate}
               isGenerating={isGenerating}
+              onCancel={onCancel}
               uploadLabel="上传图片"
             />
           </div>
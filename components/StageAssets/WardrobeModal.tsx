@@ -10,6 +10,7 @@ interface WardrobeModalProps {
   onAddVariation: (charId: string, name: string, prompt: string) => void;
   onDeleteVariation: (charId: string, varId: string) => void;
   onGenerateVariation: (charId: string, varId: string) => void;
+  onCancelVariation?: (charId: string, varId: string) => void;
   onUploadVariation: (charId: string, varId: string, file: File) => void;
   onImageClick: (imageUrl: string) => void;
 }
@@ -20,6 +21,7 @@ const WardrobeModal: React.FC<WardrobeModalProps> = ({
   onAddVariation,
   onDeleteVariation,
   onGenerateVariation,
+  onCancelVariation,
   onUploadVariation,
   onImageClick,
 }) => {
@@ -114,8 +116,19 @@ const WardrobeModal: React.FC<WardrobeModalProps> = ({
                         </div>
                       )}
                       {variation.status === 'generating' && (
-                        <div className="absolute inset-0 bg-[var(--bg-base)]/60 flex items-center justify-center">
+                        <div className="absolute inset-0 bg-[var(--bg-base)]/60 flex flex-col items-center justify-center gap-1">
                           <Loader2 className="w-4 h-4 text-[var(--text-primary)] animate-spin" />
+                          {onCancelVariation && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                onCancelVariation(character.id, variation.id);
+                              }}
+                              className="text-[8px] text-[var(--text-tertiary)] hover:text-[var(--error)] transition-colors"
+                            >
+                              取消
+                            </button>
+                          )}
                         </div>
                       )}
                       {variation.status === 'failed' && !variation.referenceImage && (
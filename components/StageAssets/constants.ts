@@ -45,7 +45,6 @@ export const DEFAULTS = {
   visualStyle: 'live-action',
   genre: 'Cinematic',
   modelVersion: 'gpt-5.1',
-  batchGenerateDelay: 3000, // 批量生成延迟（毫秒）
 };
 
 // 地域特征配置
@@ -1,13 +1,12 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Users, Sparkles, RefreshCw, Loader2, MapPin, Archive, X, Search, Trash2, Package } from 'lucide-react';
-import { ProjectState, CharacterVariation, Character, Scene, Prop, AspectRatio, AssetLibraryItem, CharacterTurnaroundPanel } from '../../types';
+import { ProjectState, CharacterVariation, Character, Scene, Prop, AspectRatio, AssetLibraryItem, CharacterTurnaroundPanel, GenerationJobTarget } from '../../types';
 import { generateImage, generateVisualPrompts, generateCharacterTurnaroundPanels, generateCharacterTurnaroundImage } from '../../services/aiService';
 import { 
   getRegionalPrefix, 
   handleImageUpload, 
   getProjectLanguage, 
   getProjectVisualStyle,
-  delay,
   generateId,
   compareIds 
 } from './utils';
@@ -20,6 +19,8 @@ import WardrobeModal from './WardrobeModal';
 import TurnaroundModal from './TurnaroundModal';
 import { useAlert } from '../GlobalAlert';
 import { getAllAssetLibraryItems, saveAssetToLibrary, deleteAssetFromLibrary } from '../../services/storageService';
+import { subscribeTabMessages } from '../../services/tabSyncService';
+import { runGenerationJob, waitForJobRecovery, isJobTargetActive, cancelJobsForTarget, JobCancelledError } from '../../services/jobQueueService';
 import { applyLibraryItemToProject, createLibraryItemFromCharacter, createLibraryItemFromScene, createLibraryItemFromProp, cloneCharacterForProject } from '../../services/assetLibraryService';
 import { AspectRatioSelector } from '../AspectRatioSelector';
 import { getUserAspectRatio, setUserAspectRatio, getActiveImageModel } from '../../services/modelRegistry';
@@ -34,6 +35,8 @@ interface Props {
 const StageAssets: React.FC<Props> = ({ project, updateProject, onApiKeyError, onGeneratingChange }) => {
   const { showAlert } = useAlert();
   const [batchProgress, setBatchProgress] = useState<{current: number, total: number} | null>(null);
+  const [isCancellingBatch, setIsCancellingBatch] = useState(false);
+  const batchAbortRef = useRef<AbortController | null>(null);
   const [selectedCharId, setSelectedCharId] = useState<string | null>(null);
   const [previewImage, setPreviewImage] = useState<string | null>(null);
   const [showLibraryModal, setShowLibraryModal] = useState(false);
@@ -62,57 +65,61 @@ const StageAssets: React.FC<Props> = ({ project, updateProject, onApiKeyError, o
 
   /**
    * 组件加载时，检测并重置卡住的生成状态
-   * 解决关闭页面后重新打开时，状态仍为"generating"导致无法重新生成的问题
+   * 解决关闭页面后重新打开时，状态仍为"generating"导致无法重新生成的问题；
+   * 在中断任务恢复完成后执行，仍在队列中的生成任务保持生成中
    */
   useEffect(() => {
-    if (!project.scriptData) return;
+    let cancelled = false;
+    waitForJobRecovery(project.id).then(() => {
+      if (cancelled) return;
+      const isStuck = (item: { status?: string; referenceImage?: string }, target: GenerationJobTarget) =>
+        item.status === 'generating' && !item.referenceImage && !isJobTargetActive(project.id, target);
 
-    const hasStuckCharacters = project.scriptData.characters.some(char => {
-      // 检查角色本身是否卡住
-      const isCharStuck = char.status === 'generating' && !char.referenceImage;
-      // 检查角色变体是否卡住
-      const hasStuckVariations = char.variations?.some(v => v.status === 'generating' && !v.referenceImage);
-      return isCharStuck || hasStuckVariations;
-    });
+      updateProject(prev => {
+        if (!prev.scriptData) return prev;
 
-    const hasStuckScenes = project.scriptData.scenes.some(scene => 
-      scene.status === 'generating' && !scene.referenceImage
-    );
+        const hasStuckCharacters = prev.scriptData.characters.some(char =>
+          // 检查角色本身及其变体是否卡住
+          isStuck(char, { type: 'character', id: char.id }) ||
+          char.variations?.some(v => isStuck(v, { type: 'variation', id: char.id, subId: v.id }))
+        );
+        const hasStuckScenes = prev.scriptData.scenes.some(scene => isStuck(scene, { type: 'scene', id: scene.id }));
+        const hasStuckProps = (prev.scriptData.props || []).some(prop => isStuck(prop, { type: 'prop', id: prop.id }));
+        if (!hasStuckCharacters && !hasStuckScenes && !hasStuckProps) return prev;
 
-    const hasStuckProps = (project.scriptData.props || []).some(prop =>
-      prop.status === 'generating' && !prop.referenceImage
-    );
+        console.log('🔧 检测到卡住的生成状态，正在重置...');
+        const newData = { ...prev.scriptData };
 
-    if (hasStuckCharacters || hasStuckScenes || hasStuckProps) {
-      console.log('🔧 检测到卡住的生成状态，正在重置...');
-      const newData = { ...project.scriptData };
-      
-      // 重置角色状态
-      newData.characters = newData.characters.map(char => ({
-        ...char,
-        status: char.status === 'generating' && !char.referenceImage ? 'failed' as const : char.status,
-        variations: char.variations?.map(v => ({
-          ...v,
-          status: v.status === 'generating' && !v.referenceImage ? 'failed' as const : v.status
-        }))
-      }));
-      
-      // 重置场景状态
-      newData.scenes = newData.scenes.map(scene => ({
-        ...scene,
-        status: scene.status === 'generating' && !scene.referenceImage ? 'failed' as const : scene.status
-      }));
-
-      // 重置道具状态
-      if (newData.props) {
-        newData.props = newData.props.map(prop => ({
-          ...prop,
-          status: prop.status === 'generating' && !prop.referenceImage ? 'failed' as const : prop.status
+        // 重置角色状态
+        newData.characters = newData.characters.map(char => ({
+          ...char,
+          status: isStuck(char, { type: 'character', id: char.id }) ? 'failed' as const : char.status,
+          variations: char.variations?.map(v => ({
+            ...v,
+            status: isStuck(v, { type: 'variation', id: char.id, subId: v.id }) ? 'failed' as const : v.status
+          }))
         }));
-      }
-      
-      updateProject({ scriptData: newData });
-    }
+
+        // 重置场景状态
+        newData.scenes = newData.scenes.map(scene => ({
+          ...scene,
+          status: isStuck(scene, { type: 'scene', id: scene.id }) ? 'failed' as const : scene.status
+        }));
+
+        // 重置道具状态
+        if (newData.props) {
+          newData.props = newData.props.map(prop => ({
+            ...prop,
+            status: isStuck(prop, { type: 'prop', id: prop.id }) ? 'failed' as const : prop.status
+          }));
+        }
+
+        return { ...prev, scriptData: newData };
+      });
+    });
+    return () => {
+      cancelled = true;
+    };
   }, [project.id]); // 仅在项目ID变化时运行，避免重复执行
 
   /**
@@ -158,9 +165,12 @@ const StageAssets: React.FC<Props> = ({ project, updateProject, onApiKeyError, o
   };
 
   useEffect(() => {
-    if (showLibraryModal) {
-      refreshLibrary();
-    }
+    if (!showLibraryModal) return;
+    refreshLibrary();
+    // 其他标签页修改资产库后同步刷新
+    return subscribeTabMessages(message => {
+      if (message.type === 'assets-changed') refreshLibrary();
+    });
   }, [showLibraryModal]);
 
   const openLibrary = (filter: 'all' | 'character' | 'scene' | 'prop', targetCharId: string | null = null) => {
@@ -170,43 +180,41 @@ const StageAssets: React.FC<Props> = ({ project, updateProject, onApiKeyError, o
   };
 
   /**
-   * 生成资源（角色或场景）
+   * 更新单个角色或场景（基于最新状态更新，批量并行生成时互不覆盖）
    */
-  const handleGenerateAsset = async (type: 'character' | 'scene', id: string) => {
+  const updateAssetItem = (type: 'character' | 'scene', id: string, updates: Partial<Pick<Character, 'status' | 'referenceImage' | 'visualPrompt' | 'negativePrompt'>>) => {
+    updateProject((prev: ProjectState) => {
+      if (!prev.scriptData) return prev;
+      const scriptData = type === 'character'
+        ? { ...prev.scriptData, characters: prev.scriptData.characters.map(c => compareIds(c.id, id) ? { ...c, ...updates } : c) }
+        : { ...prev.scriptData, scenes: prev.scriptData.scenes.map(s => compareIds(s.id, id) ? { ...s, ...updates } : s) };
+      return { ...prev, scriptData };
+    });
+  };
+
+  /**
+   * 生成资源（角色或场景），signal 用于批量生成时整体取消
+   */
+  const handleGenerateAsset = async (type: 'character' | 'scene', id: string, signal?: AbortSignal) => {
     // 设置生成状态
-    if (project.scriptData) {
-      const newData = { ...project.scriptData };
-      if (type === 'character') {
-        const c = newData.characters.find(c => compareIds(c.id, id));
-        if (c) c.status = 'generating';
-      } else {
-        const s = newData.scenes.find(s => compareIds(s.id, id));
-        if (s) s.status = 'generating';
-      }
-      updateProject({ scriptData: newData });
-    }
+    updateAssetItem(type, id, { status: 'generating' });
     try {
       let prompt = "";
+      let negativePrompt: string | undefined;
       
       if (type === 'character') {
         const char = project.scriptData?.characters.find(c => compareIds(c.id, id));
         if (char) {
           if (char.visualPrompt) {
             prompt = char.visualPrompt;
+            negativePrompt = char.negativePrompt;
           } else {
             const prompts = await generateVisualPrompts('character', char, genre, DEFAULTS.modelVersion, visualStyle, language);
             prompt = prompts.visualPrompt;
+            negativePrompt = prompts.negativePrompt;
             
             // 保存生成的提示词
-            if (project.scriptData) {
-              const newData = { ...project.scriptData };
-              const c = newData.characters.find(c => compareIds(c.id, id));
-              if (c) {
-                c.visualPrompt = prompts.visualPrompt;
-                c.negativePrompt = prompts.negativePrompt;
-              }
-              updateProject({ scriptData: newData });
-            }
+            updateAssetItem(type, id, { visualPrompt: prompts.visualPrompt, negativePrompt: prompts.negativePrompt });
           }
         }
       } else {
@@ -214,20 +222,14 @@ const StageAssets: React.FC<Props> = ({ project, updateProject, onApiKeyError, o
         if (scene) {
           if (scene.visualPrompt) {
             prompt = scene.visualPrompt;
+            negativePrompt = scene.negativePrompt;
           } else {
             const prompts = await generateVisualPrompts('scene', scene, genre, DEFAULTS.modelVersion, visualStyle, language);
             prompt = prompts.visualPrompt;
+            negativePrompt = prompts.negativePrompt;
             
             // 保存生成的提示词
-            if (project.scriptData) {
-              const newData = { ...project.scriptData };
-              const s = newData.scenes.find(s => compareIds(s.id, id));
-              if (s) {
-                s.visualPrompt = prompts.visualPrompt;
-                s.negativePrompt = prompts.negativePrompt;
-              }
-              updateProject({ scriptData: newData });
-            }
+            updateAssetItem(type, id, { visualPrompt: prompts.visualPrompt, negativePrompt: prompts.negativePrompt });
           }
         }
       }
@@ -242,41 +244,27 @@ const StageAssets: React.FC<Props> = ({ project, updateProject, onApiKeyError, o
       }
 
       // 生成图片（使用选择的横竖屏比例）
-      const imageUrl = await generateImage(enhancedPrompt, [], aspectRatio);
+      const assetName = type === 'character'
+        ? project.scriptData?.characters.find(c => compareIds(c.id, id))?.name
+        : project.scriptData?.scenes.find(s => compareIds(s.id, id))?.location;
+      const imageUrl = await runGenerationJob(
+        {
+          projectId: project.id,
+          kind: 'image',
+          label: `${type === 'character' ? '角色' : '场景'}「${assetName || id}」`,
+          target: { type, id },
+          signal
+        },
+        (context) => generateImage(enhancedPrompt, [], aspectRatio, false, false, context.signal, negativePrompt)
+      );
 
       // 更新状态
-      if (project.scriptData) {
-        const newData = { ...project.scriptData };
-        if (type === 'character') {
-          const c = newData.characters.find(c => compareIds(c.id, id));
-          if (c) {
-            c.referenceImage = imageUrl;
-            c.status = 'completed';
-          }
-        } else {
-          const s = newData.scenes.find(s => compareIds(s.id, id));
-          if (s) {
-            s.referenceImage = imageUrl;
-            s.status = 'completed';
-          }
-        }
-        updateProject({ scriptData: newData });
-      }
+      updateAssetItem(type, id, { referenceImage: imageUrl, status: 'completed' });
 
     } catch (e: any) {
       console.error(e);
       // 设置失败状态
-      if (project.scriptData) {
-        const newData = { ...project.scriptData };
-        if (type === 'character') {
-          const c = newData.characters.find(c => compareIds(c.id, id));
-          if (c) c.status = 'failed';
-        } else {
-          const s = newData.scenes.find(s => compareIds(s.id, id));
-          if (s) s.status = 'failed';
-        }
-        updateProject({ scriptData: newData });
-      }
+      updateAssetItem(type, id, { status: 'failed' });
       if (onApiKeyError && onApiKeyError(e)) {
         return;
       }
@@ -310,19 +298,38 @@ const StageAssets: React.FC<Props> = ({ project, updateProject, onApiKeyError, o
     await executeBatchGenerate(itemsToGen, type);
   };
 
-  const executeBatchGenerate = async (targetItems: any[], type: 'character' | 'scene') => {
+  /**
+   * 批量执行生成，进度显示在全局遮罩中，可通过遮罩上的取消按钮整体取消
+   */
+  const runBatch = async <T,>(targetItems: T[], generate: (item: T, signal: AbortSignal) => Promise<void>) => {
+    let completed = 0;
+    const controller = new AbortController();
+    batchAbortRef.current = controller;
     setBatchProgress({ current: 0, total: targetItems.length });
 
-    for (let i = 0; i < targetItems.length; i++) {
-      if (i > 0) await delay(DEFAULTS.batchGenerateDelay);
-      
-      await handleGenerateAsset(type, targetItems[i].id);
-      setBatchProgress({ current: i + 1, total: targetItems.length });
-    }
+    // 全部一次提交，实际并发与请求频率由任务队列和模型限流配置控制
+    await Promise.all(targetItems.map(async (item) => {
+      await generate(item, controller.signal);
+      completed++;
+      setBatchProgress({ current: completed, total: targetItems.length });
+    }));
 
+    batchAbortRef.current = null;
+    setIsCancellingBatch(false);
     setBatchProgress(null);
   };
 
+  const executeBatchGenerate = (targetItems: any[], type: 'character' | 'scene') =>
+    runBatch(targetItems, (item, signal) => handleGenerateAsset(type, item.id, signal));
+
+  /**
+   * 取消批量生成：未开始的项不再生成，进行中的请求随之中止
+   */
+  const handleCancelBatch = () => {
+    batchAbortRef.current?.abort();
+    setIsCancellingBatch(true);
+  };
+
   /**
    * 上传角色图片
    */
@@ -484,7 +491,7 @@ const StageAssets: React.FC<Props> = ({ project, updateProject, onApiKeyError, o
   /**
    * 更新角色基本信息
    */
-  const handleUpdateCharacterInfo = (charId: string, updates: { name?: string; gender?: string; age?: string; personality?: string }) => {
+  const handleUpdateCharacterInfo = (charId: string, updates: { name?: string; gender?: string; age?: string; personality?: string; voice?: string }) => {
     if (!project.scriptData) return;
     const newData = { ...project.scriptData };
     const char = newData.characters.find(c => compareIds(c.id, charId));
@@ -493,6 +500,7 @@ const StageAssets: React.FC<Props> = ({ project, updateProject, onApiKeyError, o
       if (updates.gender !== undefined) char.gender = updates.gender;
       if (updates.age !== undefined) char.age = updates.age;
       if (updates.personality !== undefined) char.personality = updates.personality;
+      if (updates.voice !== undefined) char.voice = updates.voice || undefined;
       updateProject({ scriptData: newData });
     }
   };
@@ -678,22 +686,28 @@ const StageAssets: React.FC<Props> = ({ project, updateProject, onApiKeyError, o
     );
   };
 
+  /**
+   * 更新单个道具（基于最新状态更新，批量并行生成时互不覆盖）
+   */
+  const updatePropItem = (propId: string, updates: Partial<Prop>) => {
+    updateProject((prev: ProjectState) => {
+      if (!prev.scriptData) return prev;
+      const props = (prev.scriptData.props || []).map(p => compareIds(p.id, propId) ? { ...p, ...updates } : p);
+      return { ...prev, scriptData: { ...prev.scriptData, props } };
+    });
+  };
+
   /**
    * 生成道具图片
    */
-  const handleGeneratePropAsset = async (propId: string) => {
-    if (!project.scriptData) return;
+  const handleGeneratePropAsset = async (propId: string, signal?: AbortSignal) => {
+    const prop = project.scriptData?.props?.find(p => compareIds(p.id, propId));
+    if (!prop) return;
     
     // 设置生成状态
-    const newData = { ...project.scriptData };
-    const p = (newData.props || []).find(p => compareIds(p.id, propId));
-    if (p) p.status = 'generating';
-    updateProject({ scriptData: newData });
+    updatePropItem(propId, { status: 'generating' });
 
     try {
-      const prop = project.scriptData.props?.find(p => compareIds(p.id, propId));
-      if (!prop) return;
-
       let prompt = '';
       if (prop.visualPrompt) {
         prompt = prop.visualPrompt;
@@ -705,25 +719,16 @@ const StageAssets: React.FC<Props> = ({ project, updateProject, onApiKeyError, o
       // 道具图片：追加"纯物品/无人物"指令
       prompt += '. IMPORTANT: This is a standalone prop/item shot with absolutely NO people, NO human figures, NO characters - object only on clean/simple background.';
 
-      const imageUrl = await generateImage(prompt, [], aspectRatio);
+      const imageUrl = await runGenerationJob(
+        { projectId: project.id, kind: 'image', label: `道具「${prop.name}」`, target: { type: 'prop', id: propId }, signal },
+        (context) => generateImage(prompt, [], aspectRatio, false, false, context.signal)
+      );
 
       // 更新状态
-      const updatedData = { ...project.scriptData };
-      const updated = (updatedData.props || []).find(p => compareIds(p.id, propId));
-      if (updated) {
-        updated.referenceImage = imageUrl;
-        updated.status = 'completed';
-        if (!updated.visualPrompt) {
-          updated.visualPrompt = prompt;
-        }
-      }
-      updateProject({ scriptData: updatedData });
+      updatePropItem(propId, { referenceImage: imageUrl, status: 'completed', visualPrompt: prop.visualPrompt || prompt });
     } catch (e: any) {
       console.error(e);
-      const errData = { ...project.scriptData };
-      const errP = (errData.props || []).find(p => compareIds(p.id, propId));
-      if (errP) errP.status = 'failed';
-      updateProject({ scriptData: errData });
+      updatePropItem(propId, { status: 'failed' });
       if (onApiKeyError && onApiKeyError(e)) return;
     }
   };
@@ -828,17 +833,8 @@ const StageAssets: React.FC<Props> = ({ project, updateProject, onApiKeyError, o
     await executeBatchGenerateProps(itemsToGen);
   };
 
-  const executeBatchGenerateProps = async (targetItems: Prop[]) => {
-    setBatchProgress({ current: 0, total: targetItems.length });
-
-    for (let i = 0; i < targetItems.length; i++) {
-      if (i > 0) await delay(DEFAULTS.batchGenerateDelay);
-      await handleGeneratePropAsset(targetItems[i].id);
-      setBatchProgress({ current: i + 1, total: targetItems.length });
-    }
-
-    setBatchProgress(null);
-  };
+  const executeBatchGenerateProps = (targetItems: Prop[]) =>
+    runBatch(targetItems, (item, signal) => handleGeneratePropAsset(item.id, signal));
 
   /**
    * 添加角色变体
@@ -898,7 +894,15 @@ const StageAssets: React.FC<Props> = ({ project, updateProject, onApiKeyError, o
       const enhancedPrompt = `${regionalPrefix}Character "${char.name}" wearing NEW OUTFIT: ${variation.visualPrompt}. This is a costume/outfit change - the character's face and identity must remain identical to the reference, but they should be wearing the described new outfit.`;
       
       // 使用选择的横竖屏比例，启用变体模式
-      const imageUrl = await generateImage(enhancedPrompt, refImages, aspectRatio, true);
+      const imageUrl = await runGenerationJob(
+        {
+          projectId: project.id,
+          kind: 'image',
+          label: `角色「${char.name}」造型「${variation.name}」`,
+          target: { type: 'variation', id: charId, subId: varId }
+        },
+        ({ signal }) => generateImage(enhancedPrompt, refImages, aspectRatio, true, false, signal)
+      );
 
       const newData = { ...project.scriptData! };
       const c = newData.characters.find(c => compareIds(c.id, charId));
@@ -919,6 +923,7 @@ const StageAssets: React.FC<Props> = ({ project, updateProject, onApiKeyError, o
         if (v) v.status = 'failed';
         updateProject({ scriptData: newData });
       }
+      if (e instanceof JobCancelledError) return;
       if (onApiKeyError && onApiKeyError(e)) {
         return;
       }
@@ -1150,8 +1155,15 @@ const StageAssets: React.FC<Props> = ({ project, updateProject, onApiKeyError, o
             />
           </div>
           <p className="text-[var(--text-tertiary)] font-mono text-xs">
-            进度: {batchProgress.current} / {batchProgress.total}
+            {isCancellingBatch ? '正在取消...' : `进度: ${batchProgress.current} / ${batchProgress.total}`}
           </p>
+          <button
+            onClick={handleCancelBatch}
+            disabled={isCancellingBatch}
+            className="mt-6 px-4 py-1.5 text-xs border border-[var(--border-secondary)] rounded text-[var(--text-tertiary)] hover:text-[var(--text-primary)] hover:border-[var(--border-primary)] transition-colors disabled:opacity-50"
+          >
+            取消
+          </button>
         </div>
       )}
 
@@ -1163,6 +1175,7 @@ const StageAssets: React.FC<Props> = ({ project, updateProject, onApiKeyError, o
           onAddVariation={handleAddVariation}
           onDeleteVariation={handleDeleteVariation}
           onGenerateVariation={handleGenerateVariation}
+          onCancelVariation={(charId, varId) => cancelJobsForTarget(project.id, { type: 'variation', id: charId, subId: varId })}
           onUploadVariation={handleUploadVariationImage}
           onImageClick={setPreviewImage}
         />
@@ -1433,6 +1446,7 @@ const StageAssets: React.FC<Props> = ({ project, updateProject, onApiKeyError, o
                 character={char}
                 isGenerating={char.status === 'generating'}
                 onGenerate={() => handleGenerateAsset('character', char.id)}
+                onCancel={() => cancelJobsForTarget(project.id, { type: 'character', id: char.id })}
                 onUpload={(file) => handleUploadCharacterImage(char.id, file)}
                 onPromptSave={(newPrompt) => handleSaveCharacterPrompt(char.id, newPrompt)}
                 onOpenWardrobe={() => setSelectedCharId(char.id)}
@@ -1492,6 +1506,7 @@ const StageAssets: React.FC<Props> = ({ project, updateProject, onApiKeyError, o
                 scene={scene}
                 isGenerating={scene.status === 'generating'}
                 onGenerate={() => handleGenerateAsset('scene', scene.id)}
+                onCancel={() => cancelJobsForTarget(project.id, { type: 'scene', id: scene.id })}
                 onUpload={(file) => handleUploadSceneImage(scene.id, file)}
                 onPromptSave={(newPrompt) => handleSaveScenePrompt(scene.id, newPrompt)}
                 onImageClick={setPreviewImage}
@@ -1555,6 +1570,7 @@ const StageAssets: React.FC<Props> = ({ project, updateProject, onApiKeyError, o
                   prop={prop}
                   isGenerating={prop.status === 'generating'}
                   onGenerate={() => handleGeneratePropAsset(prop.id)}
+                  onCancel={() => cancelJobsForTarget(project.id, { type: 'prop', id: prop.id })}
                   onUpload={(file) => handleUploadPropImage(prop.id, file)}
                   onPromptSave={(newPrompt) => handleSavePropPrompt(prop.id, newPrompt)}
                   onImageClick={setPreviewImage}
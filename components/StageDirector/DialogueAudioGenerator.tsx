@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { Mic, Loader2 } from 'lucide-react';
+import { Shot, Character } from '../../types';
+import { getAudioModels, getActiveAudioModel } from '../../services/modelRegistry';
+import { parseDialogueLine } from '../../services/aiService';
+
+interface DialogueAudioGeneratorProps {
+  shot: Shot;
+  characters: Character[];
+  onGenerate: (modelId: string) => void;
+}
+
+const DialogueAudioGenerator: React.FC<DialogueAudioGeneratorProps> = ({
+  shot,
+  characters,
+  onGenerate
+}) => {
+  // 获取可用的配音模型
+  const audioModels = getAudioModels().filter(m => m.isEnabled);
+  const defaultModel = getActiveAudioModel();
+
+  const [selectedModelId, setSelectedModelId] = useState<string>(
+    shot.dialogueAudio?.modelId || defaultModel?.id || audioModels[0]?.id || ''
+  );
+
+  const selectedModel = audioModels.find(m => m.id === selectedModelId);
+  const { speaker } = parseDialogueLine(shot, characters);
+  const voice = speaker?.voice || selectedModel?.params.defaultVoice;
+
+  const dialogueAudio = shot.dialogueAudio;
+  const isGenerating = dialogueAudio?.status === 'generating';
+  const hasAudio = !!dialogueAudio?.audioUrl;
+  const canGenerate = !!shot.dialogue?.trim() && !!selectedModel;
+
+  return (
+    <div className="bg-[var(--bg-surface)] rounded-xl p-5 border border-[var(--border-primary)] space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-xs font-bold text-[var(--text-primary)] uppercase tracking-widest flex items-center gap-2">
+          <Mic className="w-3 h-3 text-[var(--accent)]" />
+          台词配音
+        </h4>
+        {dialogueAudio?.status === 'completed' && (
+          <span className="text-[10px] text-[var(--success)] font-mono flex items-center gap-1">
+            ● READY
+          </span>
+        )}
+      </div>
+
+      {/* Model Selector */}
+      <div className="space-y-2">
+        <label className="text-[10px] font-bold text-[var(--text-tertiary)] uppercase tracking-widest block">
+          选择配音模型
+        </label>
+        <select
+          value={selectedModelId}
+          onChange={(e) => setSelectedModelId(e.target.value)}
+          className="w-full bg-[var(--bg-base)] text-[var(--text-primary)] border border-[var(--border-secondary)] rounded-lg px-3 py-2 text-xs outline-none focus:border-[var(--accent)] transition-colors"
+          disabled={isGenerating}
+        >
+          {audioModels.map((model) => (
+            <option key={model.id} value={model.id}>
+              {model.name}
+            </option>
+          ))}
+        </select>
+        <p className="text-[9px] text-[var(--text-muted)] font-mono">
+          ✦ 说话人：{speaker?.name || '旁白'}，音色：{voice || '-'}
+          {speaker && !speaker.voice && '（角色未指定音色，使用模型默认音色）'}
+        </p>
+      </div>
+
+      {/* Audio Preview */}
+      {hasAudio && (
+        <audio src={dialogueAudio!.audioUrl} controls className="w-full h-8" />
+      )}
+
+      {/* Generate Button */}
+      <button
+        onClick={() => onGenerate(selectedModelId)}
+        disabled={!canGenerate || isGenerating}
+        className={`w-full py-3 rounded-lg font-bold text-xs uppercase tracking-widest flex items-center justify-center gap-2 transition-all ${
+          hasAudio
+            ? 'bg-[var(--bg-hover)] text-[var(--text-secondary)] hover:bg-[var(--border-secondary)]'
+            : 'bg-[var(--accent)] text-[var(--text-primary)] hover:bg-[var(--accent-hover)] shadow-lg shadow-[var(--accent-shadow)]'
+        } ${(!canGenerate) ? 'opacity-50 cursor-not-allowed' : ''}`}
+      >
+        {isGenerating ? (
+          <>
+            <Loader2 className="w-4 h-4 animate-spin" />
+            生成配音中...
+          </>
+        ) : (
+          <>{hasAudio ? '重新生成配音' : '生成台词配音'}</>
+        )}
+      </button>
+
+      {!selectedModel && (
+        <div className="text-[9px] text-[var(--text-tertiary)] text-center font-mono">
+          * 未启用配音模型，请在模型配置中启用
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DialogueAudioGenerator;
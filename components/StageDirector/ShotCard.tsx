@@ -1,5 +1,5 @@
 import React from 'react';
-import { Image as ImageIcon, Video, Trash2 } from 'lucide-react';
+import { Image as ImageIcon, Video, Trash2, Loader2, X } from 'lucide-react';
 import { Shot } from '../../types';
 
 interface ShotCardProps {
@@ -8,12 +8,14 @@ interface ShotCardProps {
   isActive: boolean;
   onClick: () => void;
   onDelete?: (shotId: string) => void;
+  onCancelGeneration?: (shotId: string) => void;
 }
 
-const ShotCard: React.FC<ShotCardProps> = ({ shot, index, isActive, onClick, onDelete }) => {
+const ShotCard: React.FC<ShotCardProps> = ({ shot, index, isActive, onClick, onDelete, onCancelGeneration }) => {
   const sKf = shot.keyframes?.find(k => k.type === 'start');
   const hasImage = !!sKf?.imageUrl;
   const hasVideo = !!shot.interval?.videoUrl;
+  const isGenerating = !!shot.keyframes?.some(k => k.status === 'generating') || shot.interval?.status === 'generating';
 
   // 从shot.id中提取显示编号
   // 例如：shot-1 → "SHOT 001", shot-1-1 → "SHOT 001-1", shot-1-2 → "SHOT 001-2"
@@ -70,6 +72,7 @@ const ShotCard: React.FC<ShotCardProps> = ({ shot, index, isActive, onClick, onD
             src={sKf!.imageUrl} 
             className="w-full h-full object-cover transition-transform duration-700 group-hover:scale-105" 
             alt={`Shot ${index + 1}`}
+            loading="lazy"
           />
         ) : (
           <div className="absolute inset-0 flex items-center justify-center text-[var(--text-muted)]">
@@ -79,6 +82,24 @@ const ShotCard: React.FC<ShotCardProps> = ({ shot, index, isActive, onClick, onD
         
         {/* Badges */}
         <div className="absolute top-2 right-2 flex flex-col gap-1 items-end">
+          {isGenerating && (
+            <div className="pl-2 pr-1 py-0.5 bg-[var(--bg-base)]/80 text-[var(--text-primary)] rounded-full text-[9px] font-bold flex items-center gap-1 shadow-lg">
+              <Loader2 className="w-2.5 h-2.5 animate-spin" />
+              生成中
+              {onCancelGeneration && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onCancelGeneration(shot.id);
+                  }}
+                  className="p-0.5 rounded-full text-[var(--text-tertiary)] hover:text-[var(--error)] transition-colors"
+                  title="取消生成"
+                >
+                  <X className="w-2.5 h-2.5" />
+                </button>
+              )}
+            </div>
+          )}
           {hasVideo && (
             <div className="px-2 py-1 bg-[var(--success)] text-[var(--text-primary)] rounded-full text-[9px] font-bold uppercase flex items-center gap-1 shadow-lg">
               <Video className="w-2.5 h-2.5" />
@@ -0,0 +1,133 @@
+import React from 'react';
+import { X, Check, FileSpreadsheet, AlertCircle, AlertTriangle, Plus, Edit2 } from 'lucide-react';
+import { ShotListDiff } from './utils';
+
+interface ShotListImportModalProps {
+  fileName: string;
+  diff: ShotListDiff;
+  onClose: () => void;
+  onApply: () => void;
+}
+
+const truncate = (text: string, max: number = 60) => (text.length > max ? `${text.slice(0, max)}…` : text);
+
+const ShotListImportModal: React.FC<ShotListImportModalProps> = ({ fileName, diff, onClose, onApply }) => {
+  const errors = diff.conflicts.filter(c => c.severity === 'error');
+  const warnings = diff.conflicts.filter(c => c.severity === 'warning');
+  const hasChanges = diff.updates.length > 0 || diff.additions.length > 0;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-[var(--overlay-heavy)] backdrop-blur-sm flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-[var(--bg-elevated)] border border-[var(--border-secondary)] rounded-xl p-6 max-w-3xl w-full max-h-[85vh] flex flex-col gap-4 shadow-2xl animate-in fade-in duration-200"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between shrink-0">
+          <h3 className="text-[var(--text-primary)] font-bold flex items-center gap-2">
+            <FileSpreadsheet className="w-4 h-4 text-[var(--accent-text)]" />
+            导入分镜表
+            <span className="text-xs text-[var(--text-muted)] font-mono font-normal">{fileName}</span>
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-[var(--bg-hover)] rounded text-[var(--text-tertiary)] hover:text-[var(--text-primary)] transition-colors"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-4 text-xs font-mono text-[var(--text-tertiary)] shrink-0">
+          <span>更新 {diff.updates.length}</span>
+          <span>新增 {diff.additions.length}</span>
+          <span>未变化 {diff.unchangedCount}</span>
+          {errors.length > 0 && <span className="text-[var(--error-text)]">跳过 {errors.length}</span>}
+          {warnings.length > 0 && <span className="text-[var(--warning-text)]">提醒 {warnings.length}</span>}
+          {diff.missingShotIds.length > 0 && <span>表格中缺少 {diff.missingShotIds.length} 个镜头（保留不删除）</span>}
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-4 pr-1">
+          {diff.conflicts.length > 0 && (
+            <div className="space-y-1.5">
+              {diff.conflicts.map((conflict, index) => (
+                <div
+                  key={index}
+                  className={`flex items-start gap-2 text-xs px-3 py-2 rounded-md border ${
+                    conflict.severity === 'error'
+                      ? 'bg-[var(--error-bg)] border-[var(--error-border)] text-[var(--error-text)]'
+                      : 'bg-[var(--warning-bg)] border-[var(--warning-border)] text-[var(--warning-text)]'
+                  }`}
+                >
+                  {conflict.severity === 'error'
+                    ? <AlertCircle className="w-3.5 h-3.5 shrink-0 mt-0.5" />
+                    : <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-0.5" />}
+                  <span>
+                    第 {conflict.row} 行{conflict.shotId ? `（${conflict.shotId}）` : ''}：{conflict.message}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {diff.updates.map(update => (
+            <div key={update.shotId} className="bg-[var(--bg-base)] border border-[var(--border-primary)] rounded-lg p-3 space-y-1.5">
+              <div className="flex items-center gap-2 text-xs font-bold text-[var(--text-primary)]">
+                <Edit2 className="w-3 h-3 text-[var(--accent-text)]" />
+                {update.shotId}
+                <span className="text-[var(--text-muted)] font-mono font-normal">第 {update.row} 行</span>
+              </div>
+              {update.changes.map(change => (
+                <div key={change.field} className="grid grid-cols-[80px_1fr] gap-2 text-[11px]">
+                  <span className="text-[var(--text-muted)]">{change.label}</span>
+                  <span className="text-[var(--text-secondary)] break-all">
+                    <span className="line-through text-[var(--text-muted)]">{truncate(change.before) || '（空）'}</span>
+                    {' → '}
+                    {truncate(change.after) || '（空）'}
+                  </span>
+                </div>
+              ))}
+            </div>
+          ))}
+
+          {diff.additions.map(addition => (
+            <div key={addition.shot.id} className="bg-[var(--bg-base)] border border-[var(--success-border)] rounded-lg p-3 space-y-1">
+              <div className="flex items-center gap-2 text-xs font-bold text-[var(--success-text)]">
+                <Plus className="w-3 h-3" />
+                新镜头 {addition.shot.id}
+                <span className="text-[var(--text-muted)] font-mono font-normal">
+                  第 {addition.row} 行 · {addition.afterShotId ? `插入到 ${addition.afterShotId} 之后` : '插入到开头'}
+                </span>
+              </div>
+              <p className="text-[11px] text-[var(--text-secondary)]">{truncate(addition.shot.actionSummary, 120)}</p>
+            </div>
+          ))}
+
+          {!hasChanges && diff.conflicts.length === 0 && (
+            <p className="text-sm text-[var(--text-tertiary)] text-center py-8">分镜表与当前镜头一致，没有需要导入的修改。</p>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 shrink-0">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-[var(--bg-hover)] text-[var(--text-secondary)] hover:bg-[var(--border-secondary)] rounded-lg text-sm font-bold transition-colors"
+          >
+            取消
+          </button>
+          <button
+            onClick={onApply}
+            disabled={!hasChanges}
+            className="px-4 py-2 bg-[var(--btn-primary-bg)] text-[var(--btn-primary-text)] hover:bg-[var(--btn-primary-hover)] rounded-lg text-sm font-bold transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Check className="w-4 h-4" />
+            {errors.length > 0 ? '跳过冲突行并应用' : '应用修改'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShotListImportModal;
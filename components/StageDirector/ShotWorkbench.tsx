@@ -4,6 +4,7 @@ import { Shot, Character, Scene, Prop, ProjectState, AspectRatio, VideoDuration,
 import SceneContext from './SceneContext';
 import KeyframeEditor from './KeyframeEditor';
 import VideoGenerator from './VideoGenerator';
+import DialogueAudioGenerator from './DialogueAudioGenerator';
 
 interface ShotWorkbenchProps {
   shot: Shot;
@@ -38,6 +39,7 @@ interface ShotWorkbenchProps {
   onGenerateVideo: (aspectRatio: AspectRatio, duration: VideoDuration, modelId: string) => void;
   onEditVideoPrompt: () => void;
   onVideoModelChange: (modelId: string) => void;
+  onGenerateDialogueAudio: (modelId: string) => void;
   onImageClick: (url: string, title: string) => void;
   // 九宫格分镜预览（高级功能）
   onGenerateNineGrid: () => void;
@@ -79,6 +81,7 @@ const ShotWorkbench: React.FC<ShotWorkbenchProps> = ({
   onGenerateVideo,
   onEditVideoPrompt,
   onVideoModelChange,
+  onGenerateDialogueAudio,
   onImageClick,
   onGenerateNineGrid,
   nineGrid,
@@ -344,6 +347,15 @@ const ShotWorkbench: React.FC<ShotWorkbenchProps> = ({
             onVideoModelChange(modelId);
           }}
         />
+
+        {/* Dialogue Audio */}
+        {shot.dialogue && (
+          <DialogueAudioGenerator
+            shot={shot}
+            characters={scriptData?.characters || []}
+            onGenerate={onGenerateDialogueAudio}
+          />
+        )}
       </div>
     </div>
   );
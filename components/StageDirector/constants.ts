@@ -104,7 +104,6 @@ Maintain character consistency, cinematic quality. Language: {language}.`
 // 默认配置
 export const DEFAULTS = {
   videoModel: 'sora-2' as const,
-  batchGenerateDelay: 3000, // 批量生成延迟（毫秒）
 };
 
 // ============================================
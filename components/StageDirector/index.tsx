@@ -1,7 +1,7 @@
-import React, { useState, useEffect } from 'react';
-import { LayoutGrid, Sparkles, Loader2, AlertCircle, Edit2, Film, Video as VideoIcon } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { LayoutGrid, Sparkles, Loader2, AlertCircle, Edit2, Film, Video as VideoIcon, FileSpreadsheet, Upload } from 'lucide-react';
 import { ProjectState, Shot, Keyframe, AspectRatio, VideoDuration, NineGridPanel, NineGridData } from '../../types';
-import { generateImage, generateVideo, generateActionSuggestion, optimizeKeyframePrompt, optimizeBothKeyframes, enhanceKeyframePrompt, splitShotIntoSubShots, generateNineGridPanels, generateNineGridImage } from '../../services/aiService';
+import { generateImage, generateVideo, generateActionSuggestion, optimizeKeyframePrompt, optimizeBothKeyframes, enhanceKeyframePrompt, splitShotIntoSubShots, generateNineGridPanels, generateNineGridImage, generateDialogueAudio, parseDialogueLine } from '../../services/aiService';
 import { 
   getRefImagesForShot, 
   getPropsInfoForShot,
@@ -10,7 +10,6 @@ import {
   buildVideoPrompt,
   extractBasePrompt,
   generateId,
-  delay,
   convertImageToBase64,
   createKeyframe,
   updateKeyframeInShot,
@@ -18,7 +17,10 @@ import {
   createSubShot,
   replaceShotWithSubShots,
   buildPromptFromNineGridPanel,
-  cropPanelFromNineGrid
+  cropPanelFromNineGrid,
+  diffShotList,
+  applyShotListDiff,
+  ShotListDiff
 } from './utils';
 import { DEFAULTS } from './constants';
 import EditModal from './EditModal';
@@ -26,9 +28,14 @@ import ShotCard from './ShotCard';
 import ShotWorkbench from './ShotWorkbench';
 import ImagePreviewModal from './ImagePreviewModal';
 import NineGridPreview from './NineGridPreview';
+import ShotListImportModal from './ShotListImportModal';
 import { useAlert } from '../GlobalAlert';
 import { AspectRatioSelector } from '../AspectRatioSelector';
 import { getUserAspectRatio, setUserAspectRatio, getModelById } from '../../services/modelRegistry';
+import { downloadShotList, readShotListFile, ShotListFormat } from '../../services/shotListService';
+import { createProjectSnapshot } from '../../services/storageService';
+import { runGenerationJob, waitForJobRecovery, isJobTargetActive, cancelJobsForTarget, JobCancelledError } from '../../services/jobQueueService';
+import { runInUndoGroup } from '../../services/undoHistoryService';
 
 interface Props {
   project: ProjectState;
@@ -47,6 +54,9 @@ const StageDirector: React.FC<Props> = ({ project, updateProject, onApiKeyError,
   const [isSplittingShot, setIsSplittingShot] = useState(false); // 是否正在拆分镜头
   const [showNineGrid, setShowNineGrid] = useState(false); // 是否显示九宫格预览弹窗
   const [toastMessage, setToastMessage] = useState('');
+  const [shotListImport, setShotListImport] = useState<{ fileName: string; diff: ShotListDiff } | null>(null);
+  const shotListInputRef = useRef<HTMLInputElement>(null);
+  const batchAbortRef = useRef<AbortController | null>(null);
   
   // 关键帧生成使用的横竖屏比例（从持久化配置读取）
   const [keyframeAspectRatio, setKeyframeAspectRatioState] = useState<AspectRatio>(() => getUserAspectRatio());
@@ -73,41 +83,59 @@ const StageDirector: React.FC<Props> = ({ project, updateProject, onApiKeyError,
 
   /**
    * 组件加载时，检测并重置卡住的生成状态
-   * 解决关闭系统后重新打开时，状态仍为"generating"导致无法重新生成的问题
+   * 解决关闭系统后重新打开时，状态仍为"generating"导致无法重新生成的问题；
+   * 等待中断任务恢复完成后执行，已恢复的异步视频任务保持生成中
    */
   useEffect(() => {
-    const hasStuckGenerating = project.shots.some(shot => {
-      const stuckKeyframes = shot.keyframes?.some(kf => kf.status === 'generating' && !kf.imageUrl);
-      const stuckVideo = shot.interval?.status === 'generating' && !shot.interval?.videoUrl;
-      const stuckNineGrid = (shot.nineGrid?.status === 'generating_panels' || shot.nineGrid?.status === 'generating_image' || (shot.nineGrid?.status as string) === 'generating') && !shot.nineGrid?.imageUrl;
-      return stuckKeyframes || stuckVideo || stuckNineGrid;
-    });
+    let cancelled = false;
+    waitForJobRecovery(project.id).then(() => {
+      if (cancelled) return;
+      const isStuckKeyframe = (shot: Shot, kf: Keyframe) =>
+        kf.status === 'generating' && !kf.imageUrl && !isJobTargetActive(project.id, { type: 'keyframe', id: shot.id, subId: kf.type });
+      const isStuckVideo = (shot: Shot) =>
+        shot.interval?.status === 'generating' && !shot.interval.videoUrl && !isJobTargetActive(project.id, { type: 'video', id: shot.id });
+      const isStuckNineGrid = (shot: Shot) =>
+        (shot.nineGrid?.status === 'generating_panels' || shot.nineGrid?.status === 'generating_image' || (shot.nineGrid?.status as string) === 'generating') && !shot.nineGrid?.imageUrl;
+      const isStuckDialogueAudio = (shot: Shot) =>
+        shot.dialogueAudio?.status === 'generating' && !shot.dialogueAudio?.audioUrl;
 
-    if (hasStuckGenerating) {
-      console.log('🔧 检测到卡住的生成状态，正在重置...');
-      updateProject((prevProject: ProjectState) => ({
-        ...prevProject,
-        shots: prevProject.shots.map(shot => ({
-          ...shot,
-          keyframes: shot.keyframes?.map(kf => 
-            kf.status === 'generating' && !kf.imageUrl
-              ? { ...kf, status: 'failed' as const }
-              : kf
-          ),
-          interval: shot.interval && shot.interval.status === 'generating' && !shot.interval.videoUrl
-            ? { ...shot.interval, status: 'failed' as const }
-            : shot.interval,
-          nineGrid: shot.nineGrid && (shot.nineGrid.status === 'generating_panels' || shot.nineGrid.status === 'generating_image' || (shot.nineGrid.status as string) === 'generating') && !shot.nineGrid.imageUrl
-            ? { ...shot.nineGrid, status: 'failed' as const }
-            : shot.nineGrid
-        }))
-      }));
-    }
+      updateProject((prevProject: ProjectState) => {
+        const hasStuckGenerating = prevProject.shots.some(shot =>
+          shot.keyframes?.some(kf => isStuckKeyframe(shot, kf)) || isStuckVideo(shot) || isStuckNineGrid(shot) || isStuckDialogueAudio(shot)
+        );
+        if (!hasStuckGenerating) return prevProject;
+
+        console.log('🔧 检测到卡住的生成状态，正在重置...');
+        return {
+          ...prevProject,
+          shots: prevProject.shots.map(shot => ({
+            ...shot,
+            keyframes: shot.keyframes?.map(kf =>
+              isStuckKeyframe(shot, kf)
+                ? { ...kf, status: 'failed' as const }
+                : kf
+            ),
+            interval: shot.interval && isStuckVideo(shot)
+              ? { ...shot.interval, status: 'failed' as const }
+              : shot.interval,
+            nineGrid: shot.nineGrid && isStuckNineGrid(shot)
+              ? { ...shot.nineGrid, status: 'failed' as const }
+              : shot.nineGrid,
+            dialogueAudio: shot.dialogueAudio && isStuckDialogueAudio(shot)
+              ? { ...shot.dialogueAudio, status: 'failed' as const }
+              : shot.dialogueAudio
+          }))
+        };
+      });
+    });
+    return () => {
+      cancelled = true;
+    };
   }, [project.id]); // 仅在项目ID变化时运行，避免重复执行
 
   /**
    * 上报生成状态给父组件，用于导航锁定
-   * 检测所有可能的生成中状态：批量生成、单个关键帧、视频、九宫格、镜头拆分
+   * 检测所有可能的生成中状态：批量生成、单个关键帧、视频、九宫格、配音、镜头拆分
    */
   useEffect(() => {
     const hasGeneratingKeyframes = project.shots.some(shot => 
@@ -119,8 +147,11 @@ const StageDirector: React.FC<Props> = ({ project, updateProject, onApiKeyError,
     const hasGeneratingNineGrid = project.shots.some(shot => 
       shot.nineGrid?.status === 'generating_panels' || shot.nineGrid?.status === 'generating_image'
     );
+    const hasGeneratingDialogueAudio = project.shots.some(shot =>
+      shot.dialogueAudio?.status === 'generating'
+    );
     
-    const generating = !!batchProgress || hasGeneratingKeyframes || hasGeneratingVideo || hasGeneratingNineGrid || isSplittingShot;
+    const generating = !!batchProgress || hasGeneratingKeyframes || hasGeneratingVideo || hasGeneratingNineGrid || hasGeneratingDialogueAudio || isSplittingShot;
     onGeneratingChange?.(generating);
   }, [batchProgress, project.shots, isSplittingShot]);
 
@@ -147,6 +178,55 @@ const StageDirector: React.FC<Props> = ({ project, updateProject, onApiKeyError,
     }));
   };
 
+  /**
+   * 镜头显示名，用于生成任务列表
+   */
+  const getShotLabel = (shotId: string) => {
+    const index = project.shots.findIndex(s => s.id === shotId);
+    return `SHOT ${String(index + 1).padStart(3, '0')}`;
+  };
+
+  /**
+   * 导出分镜表
+   */
+  const handleExportShotList = async (format: ShotListFormat) => {
+    try {
+      await downloadShotList(project, format);
+    } catch (e: any) {
+      console.error('Shot list export failed:', e);
+      showAlert(`导出分镜表失败: ${e.message || '未知错误'}`, { type: 'error' });
+    }
+  };
+
+  /**
+   * 导入分镜表：先对比差异并展示冲突，确认后再应用
+   */
+  const handleImportShotList = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const sheet = await readShotListFile(file);
+      setShotListImport({ fileName: file.name, diff: diffShotList(sheet, project.shots, project.scriptData) });
+    } catch (err: any) {
+      console.error('Shot list import failed:', err);
+      showAlert(`导入分镜表失败: ${err.message || '无法解析文件'}`, { type: 'error' });
+    }
+  };
+
+  const handleApplyShotList = () => {
+    if (!shotListImport) return;
+    const { diff } = shotListImport;
+    createProjectSnapshot(project, `导入分镜表 ${shotListImport.fileName} 前`).catch(e => console.error('自动快照失败', e));
+    updateProject((prevProject: ProjectState) => ({
+      ...prevProject,
+      shots: applyShotListDiff(prevProject.shots, diff)
+    }));
+    setShotListImport(null);
+    showAlert(`已更新 ${diff.updates.length} 个镜头，新增 ${diff.additions.length} 个镜头`, { type: 'success' });
+  };
+
   /**
    * 删除分镜
    */
@@ -157,7 +237,7 @@ const StageDirector: React.FC<Props> = ({ project, updateProject, onApiKeyError,
     const shotIndex = project.shots.findIndex(s => s.id === shotId);
     const displayName = `SHOT ${String(shotIndex + 1).padStart(3, '0')}`;
 
-    showAlert(`确定要删除 ${displayName} 吗？此操作不可撤销。`, {
+    showAlert(`确定要删除 ${displayName} 吗？可按 Ctrl+Z 撤销。`, {
       type: 'warning',
       showCancel: true,
       onConfirm: () => {
@@ -175,9 +255,9 @@ const StageDirector: React.FC<Props> = ({ project, updateProject, onApiKeyError,
   };
 
   /**
-   * 生成关键帧
+   * 生成关键帧，signal 用于批量生成时整体取消；批量生成时错误抛给批量流程统一处理
    */
-  const handleGenerateKeyframe = async (shot: Shot, type: 'start' | 'end') => {
+  const handleGenerateKeyframe = async (shot: Shot, type: 'start' | 'end', signal?: AbortSignal) => {
     const existingKf = shot.keyframes?.find(k => k.type === type);
     const kfId = existingKf?.id || generateId(`kf-${shot.id}-${type}`);
     
@@ -215,7 +295,16 @@ const StageDirector: React.FC<Props> = ({ project, updateProject, onApiKeyError,
     try {
       const refResult = getRefImagesForShot(shot, project.scriptData);
       // 使用当前设置的横竖屏比例生成关键帧，传递 hasTurnaround 标记
-      const url = await generateImage(prompt, refResult.images, keyframeAspectRatio, false, refResult.hasTurnaround);
+      const url = await runGenerationJob(
+        {
+          projectId: project.id,
+          kind: 'image',
+          label: `${getShotLabel(shot.id)} ${type === 'start' ? '首帧' : '尾帧'}`,
+          target: { type: 'keyframe', id: shot.id, subId: type },
+          signal
+        },
+        (context) => generateImage(prompt, refResult.images, keyframeAspectRatio, false, refResult.hasTurnaround, context.signal)
+      );
 
       updateProject((prevProject: ProjectState) => ({
         ...prevProject,
@@ -234,6 +323,8 @@ const StageDirector: React.FC<Props> = ({ project, updateProject, onApiKeyError,
         })
       }));
       
+      if (signal) throw e;
+      if (e instanceof JobCancelledError) return;
       if (onApiKeyError && onApiKeyError(e)) return;
       showAlert(`生成失败: ${e.message}`, { type: 'error' });
     }
@@ -339,13 +430,23 @@ const StageDirector: React.FC<Props> = ({ project, updateProject, onApiKeyError,
     }));
     
     try {
-      const videoUrl = await generateVideo(
-        videoPrompt, 
-        sKf?.imageUrl,
-        eKf?.imageUrl,
-        selectedModel,
-        aspectRatio,
-        duration
+      const videoUrl = await runGenerationJob(
+        {
+          projectId: project.id,
+          kind: 'video',
+          label: `${getShotLabel(shot.id)} 视频`,
+          target: { type: 'video', id: shot.id }
+        },
+        ({ setRemoteTask, signal }) => generateVideo(
+          videoPrompt, 
+          sKf?.imageUrl,
+          eKf?.imageUrl,
+          selectedModel,
+          aspectRatio,
+          duration,
+          setRemoteTask,
+          signal
+        )
       );
 
       updateShot(shot.id, (s) => ({
@@ -368,11 +469,48 @@ const StageDirector: React.FC<Props> = ({ project, updateProject, onApiKeyError,
         interval: s.interval ? { ...s.interval, status: 'failed' } : undefined
       }));
       
+      if (e instanceof JobCancelledError) return;
       if (onApiKeyError && onApiKeyError(e)) return;
       showAlert(`视频生成失败: ${e.message}`, { type: 'error' });
     }
   };
 
+  /**
+   * 生成镜头台词配音
+   */
+  const handleGenerateDialogueAudio = async (shot: Shot, modelId?: string) => {
+    if (!shot.dialogue?.trim()) {
+      return showAlert("该镜头没有台词", { type: 'warning' });
+    }
+
+    const characters = project.scriptData?.characters || [];
+    const { speaker, text } = parseDialogueLine(shot, characters);
+
+    updateShot(shot.id, (s) => ({
+      ...s,
+      dialogueAudio: {
+        ...(s.dialogueAudio || { voice: speaker?.voice || '', modelId: modelId || '' }),
+        text,
+        speakerId: speaker?.id,
+        status: 'generating'
+      }
+    }));
+
+    try {
+      const dialogueAudio = await generateDialogueAudio(shot, characters, modelId);
+      updateShot(shot.id, (s) => ({ ...s, dialogueAudio }));
+    } catch (e: any) {
+      console.error(e);
+      updateShot(shot.id, (s) => ({
+        ...s,
+        dialogueAudio: s.dialogueAudio ? { ...s.dialogueAudio, status: 'failed' } : undefined
+      }));
+
+      if (onApiKeyError && onApiKeyError(e)) return;
+      showAlert(`配音生成失败: ${e.message}`, { type: 'error' });
+    }
+  };
+
   /**
    * 复制上一镜头的结束帧
    */
@@ -450,37 +588,64 @@ const StageDirector: React.FC<Props> = ({ project, updateProject, onApiKeyError,
     await executeBatchGenerate(shotsToProcess, isRegenerate);
   };
 
-  const executeBatchGenerate = async (shotsToProcess: any[], isRegenerate: boolean) => {
+  const executeBatchGenerate = async (shotsToProcess: Shot[], isRegenerate: boolean) => {
+    const total = shotsToProcess.length;
+    let completed = 0;
+    const controller = new AbortController();
+    batchAbortRef.current = controller;
     setBatchProgress({ 
       current: 0, 
-      total: shotsToProcess.length, 
+      total, 
       message: isRegenerate ? "正在重新生成所有首帧..." : "正在批量生成缺失的首帧..." 
     });
 
-    for (let i = 0; i < shotsToProcess.length; i++) {
-      if (i > 0) await delay(DEFAULTS.batchGenerateDelay);
-      
-      const shot = shotsToProcess[i];
-      setBatchProgress({ 
-        current: i + 1, 
-        total: shotsToProcess.length, 
-        message: `正在生成镜头 ${i+1}/${shotsToProcess.length}...` 
-      });
-      
+    // 全部镜头一次提交，实际并发与请求频率由任务队列和模型限流配置控制
+    await Promise.all(shotsToProcess.map(async (shot) => {
       try {
-        await handleGenerateKeyframe(shot, 'start');
+        await handleGenerateKeyframe(shot, 'start', controller.signal);
       } catch (e: any) {
-        console.error(`Failed to generate for shot ${shot.id}`, e);
-        if (onApiKeyError && onApiKeyError(e)) {
-          setBatchProgress(null);
-          return;
+        // 批量已取消（含 API Key 错误触发的中止）时，其余镜头的失败不再逐个提示
+        if (controller.signal.aborted) return;
+        if (!(e instanceof JobCancelledError)) {
+          console.error(`Failed to generate for shot ${shot.id}`, e);
+          if (onApiKeyError && onApiKeyError(e)) {
+            controller.abort();
+            setBatchProgress(null);
+            return;
+          }
+          showAlert(`生成失败: ${e.message}`, { type: 'error' });
         }
       }
-    }
+      completed++;
+      if (controller.signal.aborted) return;
+      setBatchProgress({ 
+        current: completed, 
+        total, 
+        message: `已完成 ${completed}/${total} 个镜头...` 
+      });
+    }));
 
+    batchAbortRef.current = null;
     setBatchProgress(null);
   };
 
+  /**
+   * 取消批量生成：未开始的镜头不再生成，进行中的请求随之中止
+   */
+  const handleCancelBatch = () => {
+    batchAbortRef.current?.abort();
+    setBatchProgress(prev => prev && { ...prev, message: '正在取消...' });
+  };
+
+  /**
+   * 取消镜头的关键帧与视频生成
+   */
+  const handleCancelShotGeneration = (shotId: string) => {
+    cancelJobsForTarget(project.id, { type: 'keyframe', id: shotId, subId: 'start' });
+    cancelJobsForTarget(project.id, { type: 'keyframe', id: shotId, subId: 'end' });
+    cancelJobsForTarget(project.id, { type: 'video', id: shotId });
+  };
+
   /**
    * 保存编辑内容
    */
@@ -695,7 +860,7 @@ const StageDirector: React.FC<Props> = ({ project, updateProject, onApiKeyError,
     
     // 弹出确认提示，告知用户拆分的含义
     showAlert(
-      'AI拆分镜头会将当前镜头按不同景别与视角拆分为多个子镜头，原镜头将被替换为拆分后的子镜头序列。此操作不可撤销，建议在拆分前确认镜头内容已编辑完成。\n\n确定要继续拆分吗？',
+      'AI拆分镜头会将当前镜头按不同景别与视角拆分为多个子镜头，原镜头将被替换为拆分后的子镜头序列。拆分前会自动保存快照，可在「版本历史」中恢复。\n\n确定要继续拆分吗？',
       {
         title: 'AI拆分镜头',
         type: 'warning',
@@ -728,7 +893,8 @@ const StageDirector: React.FC<Props> = ({ project, updateProject, onApiKeyError,
     const visualStyle = project.visualStyle || project.scriptData?.visualStyle || 'live-action';
     const shotGenerationModel = project.shotGenerationModel || 'gpt-5.1';
     
-    // 3. 调用AI拆分
+    // 3. 调用AI拆分（拆分会替换原镜头，先保存快照）
+    createProjectSnapshot(project, `拆分镜头 ${shot.id} 前`).catch(e => console.error('自动快照失败', e));
     setIsSplittingShot(true);
     
     try {
@@ -750,11 +916,11 @@ const StageDirector: React.FC<Props> = ({ project, updateProject, onApiKeyError,
         createSubShot(shot, data, subShotIds[idx])
       );
       
-      // 5. 替换原镜头
-      updateProject((prevProject: ProjectState) => ({
+      // 5. 替换原镜头（作为一个撤销步骤，撤销时恢复拆分前的镜头）
+      runInUndoGroup(() => updateProject((prevProject: ProjectState) => ({
         ...prevProject,
         shots: replaceShotWithSubShots(prevProject.shots, shot.id, subShots)
-      }));
+      })));
       
       // 6. 关闭工作台，显示成功提示
       setActiveShotId(null);
@@ -1020,6 +1186,13 @@ const StageDirector: React.FC<Props> = ({ project, updateProject, onApiKeyError,
           <p className="text-[var(--text-tertiary)] mt-3 text-xs font-mono">
             {Math.round((batchProgress.current / batchProgress.total) * 100)}%
           </p>
+          <button
+            onClick={handleCancelBatch}
+            disabled={!!batchAbortRef.current?.signal.aborted}
+            className="mt-6 px-4 py-1.5 text-xs border border-[var(--border-secondary)] rounded text-[var(--text-tertiary)] hover:text-[var(--text-primary)] hover:border-[var(--border-primary)] transition-colors disabled:opacity-50"
+          >
+            取消
+          </button>
         </div>
       )}
 
@@ -1067,6 +1240,39 @@ const StageDirector: React.FC<Props> = ({ project, updateProject, onApiKeyError,
             </label>
           </div>
           
+          {/* 分镜表导入导出 */}
+          <div className="flex items-center gap-1 px-1 py-1 rounded-md bg-[var(--bg-base)]/30 border border-[var(--border-primary)]">
+            <FileSpreadsheet className="w-3.5 h-3.5 text-[var(--text-muted)] mx-1" />
+            {(['csv', 'xlsx'] as const).map(format => (
+              <button
+                key={format}
+                onClick={() => handleExportShotList(format)}
+                disabled={!!batchProgress}
+                title={`导出 ${format.toUpperCase()} 分镜表`}
+                className="px-2 py-0.5 rounded text-[10px] font-bold uppercase text-[var(--text-tertiary)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-hover)] transition-colors disabled:opacity-50"
+              >
+                {format}
+              </button>
+            ))}
+            <button
+              onClick={() => shotListInputRef.current?.click()}
+              disabled={!!batchProgress}
+              title="导入编辑后的分镜表（CSV / XLSX）"
+              className="px-2 py-0.5 rounded text-[10px] font-bold text-[var(--text-tertiary)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-hover)] transition-colors flex items-center gap-1 disabled:opacity-50"
+            >
+              <Upload className="w-3 h-3" />
+              导入
+            </button>
+            <input
+              ref={shotListInputRef}
+              type="file"
+              accept=".csv,.xlsx"
+              className="hidden"
+              onChange={handleImportShotList}
+            />
+          </div>
+          <div className="w-px h-6 bg-[var(--bg-hover)]" />
+
           <span className="text-xs text-[var(--text-tertiary)] mr-4 font-mono">
             {project.shots.filter(s => s.interval?.videoUrl).length} / {project.shots.length} 完成
           </span>
@@ -1098,6 +1304,7 @@ const StageDirector: React.FC<Props> = ({ project, updateProject, onApiKeyError,
                 isActive={activeShotId === shot.id}
                 onClick={() => setActiveShotId(shot.id)}
                 onDelete={handleDeleteShot}
+                onCancelGeneration={handleCancelShotGeneration}
               />
             ))}
           </div>
@@ -1181,6 +1388,7 @@ const StageDirector: React.FC<Props> = ({ project, updateProject, onApiKeyError,
                 value: promptValue
               });
             }}
+            onGenerateDialogueAudio={(modelId) => handleGenerateDialogueAudio(activeShot, modelId)}
             onImageClick={(url, title) => setPreviewImage({ url, title })}
             onGenerateNineGrid={() => handleGenerateNineGrid(activeShot)}
             nineGrid={activeShot.nineGrid}
@@ -1234,6 +1442,16 @@ const StageDirector: React.FC<Props> = ({ project, updateProject, onApiKeyError,
         isAIGenerating={isAIGenerating}
       />
 
+      {/* Shot List Import Modal */}
+      {shotListImport && (
+        <ShotListImportModal
+          fileName={shotListImport.fileName}
+          diff={shotListImport.diff}
+          onClose={() => setShotListImport(null)}
+          onApply={handleApplyShotList}
+        />
+      )}
+
       {/* Image Preview Modal */}
       <ImagePreviewModal 
         imageUrl={previewImage?.url || null}
@@ -1,6 +1,8 @@
 import { Shot, ProjectState, Keyframe, NineGridPanel, NineGridData } from '../../types';
 import { VISUAL_STYLE_PROMPTS, VIDEO_PROMPT_TEMPLATES, NINE_GRID } from './constants';
 import { getCameraMovementCompositionGuide } from './cameraMovementGuides';
+import { ShotListRow, ShotListSheet, splitShotListNames, getSceneLabel, SHOT_LIST_COLUMNS } from '../../services/shotListService';
+import { applyShotTrim, getShotEffectiveDuration, getShotTrimRange } from '../../services/timelineService';
 
 /**
  * getRefImagesForShot 的返回类型
@@ -430,6 +432,328 @@ export const replaceShotWithSubShots = (
   return newShots;
 };
 
+// ============================================
+// 分镜表导入（CSV / XLSX 差异合并）
+// ============================================
+
+/**
+ * 分镜表中单个字段的修改
+ */
+export interface ShotListChange {
+  field: keyof ShotListRow;
+  label: string;
+  before: string;
+  after: string;
+}
+
+/**
+ * 分镜表导入冲突
+ * - error: 该行无法导入，应用时跳过
+ * - warning: 可以导入，但需要用户留意
+ */
+export interface ShotListConflict {
+  row: number; // 表格中的行号（含表头，从 1 开始）
+  shotId?: string;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+/**
+ * 分镜表对已有镜头的逐字段修改
+ * 应用时合并到最新的镜头上，预览之后才到达的编辑与生成结果不会被覆盖
+ */
+export interface ShotListPatch {
+  fields: Partial<Pick<Shot, 'sceneId' | 'shotSize' | 'cameraMovement' | 'characters' | 'props' | 'actionSummary' | 'dialogue'>>;
+  duration?: number;
+  keyframePrompts: Partial<Record<'start' | 'end', string>>;
+}
+
+/**
+ * 分镜表与当前镜头的差异
+ */
+export interface ShotListDiff {
+  updates: { row: number; shotId: string; changes: ShotListChange[]; patch: ShotListPatch }[];
+  additions: { row: number; afterShotId: string | null; shot: Shot }[];
+  conflicts: ShotListConflict[];
+  unchangedCount: number;
+  missingShotIds: string[]; // 表格中没有出现的镜头（保留不删除）
+}
+
+const getColumnLabel = (key: keyof ShotListRow): string => {
+  return SHOT_LIST_COLUMNS.find(col => col.key === key)?.header || key;
+};
+
+/**
+ * 按名字解析角色/道具 ID，返回无法识别的名字
+ */
+const resolveNamesToIds = (
+  value: string,
+  list: { id: string; name: string }[]
+): { ids: string[]; unknown: string[] } => {
+  const ids: string[] = [];
+  const unknown: string[] = [];
+  splitShotListNames(value).forEach(name => {
+    const item = list.find(i => i.name === name) || list.find(i => i.name.toLowerCase() === name.toLowerCase());
+    if (!item) {
+      unknown.push(name);
+    } else if (!ids.includes(String(item.id))) {
+      ids.push(String(item.id));
+    }
+  });
+  return { ids, unknown };
+};
+
+/**
+ * 按场景 ID 或 "地点 - 时间" 解析场景
+ */
+const resolveSceneId = (value: string, scriptData: ProjectState['scriptData']): string | null => {
+  const scenes = scriptData?.scenes || [];
+  const normalized = value.trim().toLowerCase();
+  const byId = scenes.find(s => String(s.id) === value.trim());
+  if (byId) return String(byId.id);
+  const byLabel = scenes.find(s => getSceneLabel(s).toLowerCase() === normalized);
+  if (byLabel) return String(byLabel.id);
+  const byLocation = scenes.filter(s => s.location.toLowerCase() === normalized);
+  return byLocation.length === 1 ? String(byLocation[0].id) : null;
+};
+
+/**
+ * 生成不与现有镜头冲突的新镜头 ID（沿用子镜头 ID 规则，如 "shot-3-1"）
+ */
+const generateUniqueShotId = (baseId: string, usedIds: Set<string>): string => {
+  for (let count = 1; ; count++) {
+    const candidate = generateSubShotIds(baseId, count)[count - 1];
+    if (!usedIds.has(candidate)) return candidate;
+  }
+};
+
+/**
+ * 对比分镜表与当前镜头
+ * - 有镜头 ID 的行按 ID 更新已有镜头，只比较表格中存在的列
+ * - 没有镜头 ID 的行作为新镜头，插入到表格中上一行对应的镜头之后
+ * - 无法识别的角色/道具/场景、重复或不存在的 ID 记为 error，该行不导入
+ */
+export const diffShotList = (
+  sheet: ShotListSheet,
+  shots: Shot[],
+  scriptData: ProjectState['scriptData']
+): ShotListDiff => {
+  const has = (key: keyof ShotListRow) => sheet.columns.includes(key);
+  const characters = scriptData?.characters || [];
+  const props = scriptData?.props || [];
+  const characterNames = (ids: string[]) =>
+    ids.map(id => characters.find(c => String(c.id) === String(id))?.name || id).join(', ');
+  const propNames = (ids: string[]) =>
+    ids.map(id => props.find(p => String(p.id) === String(id))?.name || id).join(', ');
+  const sameIds = (a: string[], b: string[]) =>
+    a.length === b.length && a.every(id => b.map(String).includes(String(id)));
+
+  const diff: ShotListDiff = { updates: [], additions: [], conflicts: [], unchangedCount: 0, missingShotIds: [] };
+  const usedIds = new Set(shots.map(s => s.id));
+  const seenIds = new Set<string>();
+  let previousShot: Shot | null = null;
+
+  sheet.rows.forEach((row, index) => {
+    const rowNumber = index + 2;
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const existing = row.id ? shots.find(s => s.id === row.id) : undefined;
+
+    if (!SHOT_LIST_COLUMNS.some(col => col.key !== 'shotNumber' && row[col.key])) return;
+
+    if (row.id && seenIds.has(row.id)) {
+      diff.conflicts.push({ row: rowNumber, shotId: row.id, severity: 'error', message: '镜头 ID 在表格中重复出现，该行已跳过' });
+      return;
+    }
+    if (row.id && !existing) {
+      diff.conflicts.push({ row: rowNumber, shotId: row.id, severity: 'error', message: '镜头 ID 不存在（可能已被删除），该行已跳过' });
+      return;
+    }
+    if (row.id) seenIds.add(row.id);
+
+    // 解析引用字段
+    const sceneId = has('scene') && row.scene ? resolveSceneId(row.scene, scriptData) : null;
+    if (has('scene') && row.scene && !sceneId) errors.push(`未找到场景：${row.scene}`);
+    const characterRef = resolveNamesToIds(has('characters') ? row.characters : '', characters);
+    if (characterRef.unknown.length > 0) errors.push(`未找到角色：${characterRef.unknown.join('、')}`);
+    const propRef = resolveNamesToIds(has('props') ? row.props : '', props);
+    if (propRef.unknown.length > 0) errors.push(`未找到道具：${propRef.unknown.join('、')}`);
+    const duration = has('duration') && row.duration ? parseFloat(row.duration) : undefined;
+    if (duration !== undefined && !(duration > 0)) errors.push(`时长无效：${row.duration}`);
+    if (!existing && !row.action) errors.push('新镜头缺少动作描述');
+
+    if (errors.length > 0) {
+      diff.conflicts.push({ row: rowNumber, shotId: row.id || undefined, severity: 'error', message: `${errors.join('；')}，该行已跳过` });
+      if (existing) previousShot = existing;
+      return;
+    }
+
+    if (!existing) {
+      // 新镜头：以上一行镜头为模板创建，沿用子镜头的 ID 与关键帧规则
+      const template = previousShot
+        || shots.find(s => sceneId && String(s.sceneId) === sceneId)
+        || shots[0]
+        || { id: 'shot', sceneId: sceneId || scriptData?.scenes[0]?.id || '', actionSummary: '', cameraMovement: '', characters: [], keyframes: [] };
+      const id = generateUniqueShotId(template.id, usedIds);
+      usedIds.add(id);
+
+      const keyframes = [
+        row.startPrompt ? { type: 'start', visualPrompt: row.startPrompt } : null,
+        row.endPrompt ? { type: 'end', visualPrompt: row.endPrompt } : null,
+      ].filter(Boolean);
+      const subShot = createSubShot(template, {
+        actionSummary: row.action,
+        cameraMovement: row.cameraMovement,
+        shotSize: row.shotSize || undefined,
+        keyframes,
+      }, id);
+      const characterIds = has('characters') ? characterRef.ids : subShot.characters;
+      const shot: Shot = {
+        ...subShot,
+        sceneId: sceneId || subShot.sceneId,
+        characters: characterIds,
+        characterVariations: Object.fromEntries(
+          Object.entries(subShot.characterVariations || {}).filter(([charId]) => characterIds.includes(charId))
+        ),
+        props: has('props') ? propRef.ids : template.props ? [...template.props] : undefined,
+        dialogue: row.dialogue || undefined,
+      };
+
+      if (duration !== undefined) warnings.push('新镜头尚未生成视频，时长已忽略');
+      diff.additions.push({ row: rowNumber, afterShotId: previousShot?.id || null, shot });
+      warnings.forEach(message => diff.conflicts.push({ row: rowNumber, shotId: id, severity: 'warning', message }));
+      previousShot = shot;
+      return;
+    }
+
+    // 已有镜头：逐字段比较
+    const patch: ShotListPatch = { fields: {}, keyframePrompts: {} };
+    const changes: ShotListChange[] = [];
+    const addChange = (field: keyof ShotListRow, before: string, after: string) => {
+      changes.push({ field, label: getColumnLabel(field), before, after });
+    };
+
+    if (sceneId && sceneId !== String(existing.sceneId)) {
+      const scene = scriptData?.scenes.find(s => String(s.id) === String(existing.sceneId));
+      addChange('scene', scene ? getSceneLabel(scene) : String(existing.sceneId), row.scene);
+      patch.fields.sceneId = sceneId;
+    }
+    if (has('shotSize') && row.shotSize !== (existing.shotSize || '')) {
+      addChange('shotSize', existing.shotSize || '', row.shotSize);
+      patch.fields.shotSize = row.shotSize || undefined;
+    }
+    if (has('cameraMovement') && row.cameraMovement !== (existing.cameraMovement || '')) {
+      addChange('cameraMovement', existing.cameraMovement || '', row.cameraMovement);
+      patch.fields.cameraMovement = row.cameraMovement;
+    }
+    if (has('characters') && !sameIds(characterRef.ids, existing.characters)) {
+      addChange('characters', characterNames(existing.characters), characterNames(characterRef.ids));
+      patch.fields.characters = characterRef.ids;
+    }
+    if (has('props') && !sameIds(propRef.ids, existing.props || [])) {
+      addChange('props', propNames(existing.props || []), propNames(propRef.ids));
+      patch.fields.props = propRef.ids;
+    }
+    if (has('action') && row.action && row.action !== existing.actionSummary.trim()) {
+      addChange('action', existing.actionSummary, row.action);
+      patch.fields.actionSummary = row.action;
+    }
+    if (has('dialogue') && row.dialogue !== (existing.dialogue || '').trim()) {
+      addChange('dialogue', existing.dialogue || '', row.dialogue);
+      patch.fields.dialogue = row.dialogue || undefined;
+      if (existing.dialogueAudio?.audioUrl) warnings.push('台词已修改，需要重新生成配音');
+    }
+    if (duration !== undefined) {
+      if (!existing.interval) {
+        warnings.push('镜头尚未生成视频，时长已忽略');
+      } else if (Math.abs(duration - getShotEffectiveDuration(existing)) >= 0.05) {
+        const actual = getShotEffectiveDuration(applyShotDuration(existing, duration));
+        if (Math.abs(actual - duration) >= 0.05) warnings.push(`时长超出素材可用范围，已调整为 ${actual.toFixed(1)} 秒`);
+        addChange('duration', getShotEffectiveDuration(existing).toFixed(1), actual.toFixed(1));
+        patch.duration = duration;
+      }
+    }
+    (['start', 'end'] as const).forEach(type => {
+      const field = type === 'start' ? 'startPrompt' : 'endPrompt';
+      const value = row[field];
+      const keyframe = existing.keyframes?.find(k => k.type === type);
+      if (!has(field) || !value || value === (keyframe?.visualPrompt || '')) return;
+      addChange(field, keyframe?.visualPrompt || '', value);
+      patch.keyframePrompts[type] = value;
+      if (keyframe?.imageUrl) warnings.push(`${type === 'start' ? '首帧' : '尾帧'}图片已生成，修改提示词后需重新生成`);
+    });
+
+    const isGenerating = existing.keyframes?.some(k => k.status === 'generating')
+      || existing.interval?.status === 'generating'
+      || existing.dialogueAudio?.status === 'generating';
+    if (changes.length > 0 && isGenerating) {
+      warnings.push('镜头正在生成中，导入只修改表格中的字段并保留生成结果，但生成完成时可能写回生成时使用的提示词或时长');
+    }
+
+    if (changes.length > 0) {
+      diff.updates.push({ row: rowNumber, shotId: existing.id, changes, patch });
+    } else {
+      diff.unchangedCount++;
+    }
+    warnings.forEach(message => diff.conflicts.push({ row: rowNumber, shotId: existing.id, severity: 'warning', message }));
+    previousShot = existing;
+  });
+
+  diff.missingShotIds = shots.filter(s => !seenIds.has(s.id)).map(s => s.id);
+  return diff;
+};
+
+/**
+ * 保持入点不变，按目标时长调整出点
+ */
+const applyShotDuration = (shot: Shot, duration: number): Shot => {
+  const { trimIn } = getShotTrimRange(shot);
+  return applyShotTrim(shot, trimIn, trimIn + duration);
+};
+
+/**
+ * 将分镜表的逐字段修改合并到镜头的最新状态上
+ */
+const applyShotListPatch = (shot: Shot, patch: ShotListPatch): Shot => {
+  let result: Shot = { ...shot, ...patch.fields };
+  if (patch.fields.characters) {
+    const characterIds = patch.fields.characters;
+    result.characterVariations = Object.fromEntries(
+      Object.entries(shot.characterVariations || {}).filter(([charId]) => characterIds.includes(charId))
+    );
+  }
+  if (patch.duration !== undefined) result = applyShotDuration(result, patch.duration);
+  (['start', 'end'] as const).forEach(type => {
+    const value = patch.keyframePrompts[type];
+    if (!value) return;
+    const keyframe = result.keyframes?.find(k => k.type === type);
+    result = updateKeyframeInShot(result, type, keyframe
+      ? { ...keyframe, visualPrompt: value }
+      : createKeyframe(generateId(`kf-${shot.id}-${type}`), type, value));
+  });
+  return result;
+};
+
+/**
+ * 应用分镜表差异：将修改合并到已有镜头上，并按位置插入新镜头
+ * 传入的 shots 应为应用时的最新镜头（在 updateProject 的 updater 中调用）
+ */
+export const applyShotListDiff = (shots: Shot[], diff: ShotListDiff): Shot[] => {
+  const patches = new Map(diff.updates.map(update => [update.shotId, update.patch]));
+  let result = shots.map(shot => {
+    const patch = patches.get(shot.id);
+    return patch ? applyShotListPatch(shot, patch) : shot;
+  });
+
+  diff.additions.forEach(({ afterShotId, shot }) => {
+    const index = afterShotId ? result.findIndex(s => s.id === afterShotId) : -1;
+    const insertAt = afterShotId && index < 0 ? result.length : index + 1;
+    result = [...result.slice(0, insertAt), shot, ...result.slice(insertAt)];
+  });
+
+  return result;
+};
+
 // ============================================
 // 九宫格分镜预览工具函数（高级功能）
 // ============================================
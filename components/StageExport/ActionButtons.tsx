@@ -1,7 +1,6 @@
 import React from 'react';
 import { Play, Download, FileVideo, Loader2 } from 'lucide-react';
 import { STYLES, DownloadState } from './constants';
-import { useAlert } from '../GlobalAlert';
 
 interface Props {
   completedShotsCount: number;
@@ -10,6 +9,8 @@ interface Props {
   downloadState: DownloadState;
   onPreview: () => void;
   onDownloadMaster: () => void;
+  editPackageState: DownloadState;
+  onExportEditPackage: () => void;
 }
 
 const ActionButtons: React.FC<Props> = ({
@@ -18,10 +19,12 @@ const ActionButtons: React.FC<Props> = ({
   progress,
   downloadState,
   onPreview,
-  onDownloadMaster
+  onDownloadMaster,
+  editPackageState,
+  onExportEditPackage
 }) => {
-  const { showAlert } = useAlert();
   const { isDownloading, phase, progress: downloadProgress } = downloadState;
+  const isExportingEdit = editPackageState.isDownloading;
 
   return (
     <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -50,15 +53,27 @@ const ActionButtons: React.FC<Props> = ({
         ) : (
           <Download className="w-4 h-4" />
         )}
-        {isDownloading ? `${phase} ${downloadProgress}%` : 'Download Master (.mp4)'}
+        {isDownloading ? `${phase} ${downloadProgress}%` : 'Render Master Video'}
       </button>
       
       <button 
-        className={STYLES.button.tertiary}
-        onClick={() => showAlert('暂未开发', { type: 'info', title: '提示' })}
+        onClick={onExportEditPackage}
+        disabled={completedShotsCount === 0 || isExportingEdit}
+        title="导出 EDL / FCPXML / OTIO 时间线及视频片段"
+        className={
+          isExportingEdit
+            ? STYLES.button.loading
+            : completedShotsCount > 0
+            ? STYLES.button.tertiary
+            : STYLES.button.disabled
+        }
       >
-        <FileVideo className="w-4 h-4" />
-        Export EDL / XML
+        {isExportingEdit ? (
+          <Loader2 className="w-4 h-4 animate-spin" />
+        ) : (
+          <FileVideo className="w-4 h-4" />
+        )}
+        {isExportingEdit ? `${editPackageState.phase} ${editPackageState.progress}%` : 'Export EDL / XML'}
       </button>
     </div>
   );
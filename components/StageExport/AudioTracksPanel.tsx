@@ -0,0 +1,206 @@
+import React, { useEffect, useRef } from 'react';
+import { Music, AudioLines, Plus, Trash2, AlertCircle } from 'lucide-react';
+import { AudioTrack, AudioTrackKind, Shot } from '../../types';
+import { STYLES } from './constants';
+import { beginUndoGroup, endUndoGroup } from '../../services/undoHistoryService';
+
+interface Props {
+  tracks: AudioTrack[];
+  shots: Shot[];
+  onAdd: (kind: AudioTrackKind, file: File) => void;
+  onUpdate: (trackId: string, updates: Partial<AudioTrack>) => void;
+  onRemove: (trackId: string) => void;
+}
+
+const AudioTracksPanel: React.FC<Props> = ({ tracks, shots, onAdd, onUpdate, onRemove }) => {
+  const musicInputRef = useRef<HTMLInputElement>(null);
+  const sfxInputRef = useRef<HTMLInputElement>(null);
+  const isDraggingVolumeRef = useRef(false);
+
+  // 拖动音量滑块过程中的连续更新合并为一个撤销步骤
+  const startVolumeDrag = () => {
+    if (isDraggingVolumeRef.current) return;
+    isDraggingVolumeRef.current = true;
+    beginUndoGroup();
+  };
+
+  const endVolumeDrag = () => {
+    if (!isDraggingVolumeRef.current) return;
+    isDraggingVolumeRef.current = false;
+    endUndoGroup();
+  };
+
+  useEffect(() => endVolumeDrag, []);
+
+  const handleFileChange = (kind: AudioTrackKind) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onAdd(kind, file);
+  };
+
+  const getShotLabel = (shot: Shot, index: number) => {
+    const summary = shot.actionSummary.length > 12 ? `${shot.actionSummary.slice(0, 12)}…` : shot.actionSummary;
+    return `#${index + 1} ${summary}`;
+  };
+
+  const parseSeconds = (value: string) => {
+    const parsed = parseFloat(value);
+    return Number.isFinite(parsed) ? parsed : 0;
+  };
+
+  return (
+    <div className="-mt-6 mb-10 space-y-2">
+      <div className="flex items-center justify-between px-1">
+        <span className="text-[10px] text-[var(--text-muted)] font-mono uppercase tracking-widest">
+          Audio Tracks · {tracks.length}
+        </span>
+        <div className="flex items-center gap-2">
+          <button onClick={() => musicInputRef.current?.click()} className={STYLES.audioTracks.addButton}>
+            <Plus className="w-3 h-3" />
+            背景音乐
+          </button>
+          <button
+            onClick={() => sfxInputRef.current?.click()}
+            disabled={shots.length === 0}
+            className={STYLES.audioTracks.addButton}
+            title={shots.length === 0 ? '音效需要绑定到镜头，请先生成分镜' : undefined}
+          >
+            <Plus className="w-3 h-3" />
+            音效
+          </button>
+        </div>
+      </div>
+
+      {tracks.length > 0 && (
+        <div className={STYLES.audioTracks.container}>
+          {tracks.map(track => {
+            const anchorIndex = track.shotId ? shots.findIndex(s => s.id === track.shotId) : -1;
+            const anchorShot = anchorIndex >= 0 ? shots[anchorIndex] : null;
+            const isOrphan = !!track.shotId && !anchorShot;
+            const isPending = !!anchorShot && !anchorShot.interval?.videoUrl;
+
+            return (
+              <div key={track.id} className={`${STYLES.audioTracks.row} ${isOrphan ? STYLES.audioTracks.rowOrphan : ''}`}>
+                {track.kind === 'music' ? (
+                  <Music className="w-3.5 h-3.5 text-[var(--accent-text)] shrink-0" />
+                ) : (
+                  <AudioLines className="w-3.5 h-3.5 text-[var(--success-text)] shrink-0" />
+                )}
+                <input
+                  type="text"
+                  value={track.name}
+                  onChange={(e) => onUpdate(track.id, { name: e.target.value })}
+                  className={`${STYLES.audioTracks.input} w-32`}
+                />
+                {track.duration !== undefined && (
+                  <span>{track.duration.toFixed(1)}s</span>
+                )}
+
+                <label className="flex items-center gap-1">
+                  锚点
+                  <select
+                    value={track.shotId || ''}
+                    onChange={(e) => onUpdate(track.id, { shotId: e.target.value || undefined })}
+                    className={STYLES.audioTracks.select}
+                  >
+                    {track.kind === 'music' && <option value="">成片开头</option>}
+                    {isOrphan && <option value={track.shotId}>镜头已删除</option>}
+                    {shots.map((shot, index) => (
+                      <option key={shot.id} value={shot.id}>{getShotLabel(shot, index)}</option>
+                    ))}
+                  </select>
+                </label>
+
+                <label className="flex items-center gap-1">
+                  偏移
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    value={track.offset}
+                    onChange={(e) => onUpdate(track.id, { offset: parseSeconds(e.target.value) })}
+                    className={STYLES.audioTracks.input}
+                  />
+                </label>
+
+                <label className="flex items-center gap-1">
+                  音量
+                  <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={track.volume}
+                    onChange={(e) => onUpdate(track.id, { volume: parseFloat(e.target.value) })}
+                    onPointerDown={startVolumeDrag}
+                    onPointerUp={endVolumeDrag}
+                    onPointerCancel={endVolumeDrag}
+                    onBlur={endVolumeDrag}
+                    className="w-20 accent-[var(--accent)]"
+                  />
+                  <span className="w-8 text-right">{Math.round(track.volume * 100)}%</span>
+                </label>
+
+                <label className="flex items-center gap-1">
+                  淡入
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    value={track.fadeIn}
+                    onChange={(e) => onUpdate(track.id, { fadeIn: parseSeconds(e.target.value) })}
+                    className={STYLES.audioTracks.input}
+                  />
+                </label>
+
+                <label className="flex items-center gap-1">
+                  淡出
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    value={track.fadeOut}
+                    onChange={(e) => onUpdate(track.id, { fadeOut: parseSeconds(e.target.value) })}
+                    className={STYLES.audioTracks.input}
+                  />
+                </label>
+
+                {track.kind === 'music' && (
+                  <label className="flex items-center gap-1 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={!!track.loop}
+                      onChange={(e) => onUpdate(track.id, { loop: e.target.checked })}
+                      className="accent-[var(--accent)]"
+                    />
+                    循环
+                  </label>
+                )}
+
+                {(isOrphan || isPending) && (
+                  <span className="flex items-center gap-1 text-[var(--warning-text)]">
+                    <AlertCircle className="w-3 h-3" />
+                    {isOrphan ? '锚定镜头已删除，不会混入成片' : '锚定镜头尚未生成视频'}
+                  </span>
+                )}
+
+                <button
+                  onClick={() => onRemove(track.id)}
+                  className="ml-auto p-1 text-[var(--text-muted)] hover:text-[var(--error-text)] transition-colors"
+                  title="删除音轨"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <input ref={musicInputRef} type="file" accept="audio/*" className="hidden" onChange={handleFileChange('music')} />
+      <input ref={sfxInputRef} type="file" accept="audio/*" className="hidden" onChange={handleFileChange('sfx')} />
+    </div>
+  );
+};
+
+export default AudioTracksPanel;
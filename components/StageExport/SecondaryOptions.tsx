@@ -1,10 +1,14 @@
 import React from 'react';
-import { Layers, Database, Clock, Loader2 } from 'lucide-react';
-import { STYLES, DownloadState } from './constants';
+import { Layers, Database, Clock, Loader2, Captions, FileText } from 'lucide-react';
+import { STYLES, DownloadState, SUBTITLE_FORMAT_OPTIONS } from './constants';
+import { SubtitleFormat } from '../../services/subtitleService';
 
 interface Props {
   assetsDownloadState: DownloadState;
   onDownloadAssets: () => void;
+  onExportSubtitles: (format: SubtitleFormat) => void;
+  onExportFountain: () => void;
+  onExportStoryboard: (format: 'html' | 'pdf') => void;
   onShowLogs: () => void;
   onExportData: () => void;
   onImportData: () => void;
@@ -15,6 +19,9 @@ interface Props {
 const SecondaryOptions: React.FC<Props> = ({
   assetsDownloadState,
   onDownloadAssets,
+  onExportSubtitles,
+  onExportFountain,
+  onExportStoryboard,
   onShowLogs,
   onExportData,
   onImportData,
@@ -24,7 +31,7 @@ const SecondaryOptions: React.FC<Props> = ({
   const { isDownloading, phase, progress } = assetsDownloadState;
 
   return (
-    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+    <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
       {/* Source Assets Download */}
       <div 
         onClick={onDownloadAssets}
@@ -48,12 +55,81 @@ const SecondaryOptions: React.FC<Props> = ({
         </div>
       </div>
 
+      {/* Subtitles */}
+      <div className={STYLES.card.base}>
+        <Captions className="w-5 h-5 text-[var(--text-muted)] group-hover:text-[var(--accent-text)] mb-4 transition-colors" />
+        <div>
+          <h4 className="text-sm font-bold text-[var(--text-primary)] mb-1">Subtitles</h4>
+          <p className="text-[10px] text-[var(--text-tertiary)]">Export dialogue captions timed to the master cut.</p>
+          <div className="mt-3 flex gap-2">
+            {SUBTITLE_FORMAT_OPTIONS.map(option => (
+              <button
+                key={option.format}
+                type="button"
+                onClick={(event) => {
+                  event.stopPropagation();
+                  onExportSubtitles(option.format);
+                }}
+                title={option.description}
+                className="px-3 py-2 text-[10px] rounded-md bg-[var(--bg-hover)] text-[var(--text-secondary)] hover:bg-[var(--border-secondary)]"
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Screenplay & Storyboard */}
+      <div className={STYLES.card.base}>
+        <FileText className="w-5 h-5 text-[var(--text-muted)] group-hover:text-[var(--accent-text)] mb-4 transition-colors" />
+        <div>
+          <h4 className="text-sm font-bold text-[var(--text-primary)] mb-1">Script & Storyboard</h4>
+          <p className="text-[10px] text-[var(--text-tertiary)]">Hand the breakdown to your crew as Fountain or a printable storyboard.</p>
+          <div className="mt-3 flex gap-2">
+            <button
+              type="button"
+              onClick={(event) => {
+                event.stopPropagation();
+                onExportFountain();
+              }}
+              title="导出 Fountain 剧本，可在 Highland、Final Draft 等软件中打开"
+              className="px-3 py-2 text-[10px] rounded-md bg-[var(--bg-hover)] text-[var(--text-secondary)] hover:bg-[var(--border-secondary)]"
+            >
+              Fountain
+            </button>
+            <button
+              type="button"
+              onClick={(event) => {
+                event.stopPropagation();
+                onExportStoryboard('html');
+              }}
+              title="下载 HTML 分镜表（图片内嵌）"
+              className="px-3 py-2 text-[10px] rounded-md bg-[var(--bg-hover)] text-[var(--text-secondary)] hover:bg-[var(--border-secondary)]"
+            >
+              HTML
+            </button>
+            <button
+              type="button"
+              onClick={(event) => {
+                event.stopPropagation();
+                onExportStoryboard('pdf');
+              }}
+              title="打开打印预览，另存为 PDF 分镜表"
+              className="px-3 py-2 text-[10px] rounded-md bg-[var(--bg-hover)] text-[var(--text-secondary)] hover:bg-[var(--border-secondary)]"
+            >
+              PDF
+            </button>
+          </div>
+        </div>
+      </div>
+
       {/* Export / Import Data */}
       <div className={STYLES.card.base}>
         <Database className="w-5 h-5 text-[var(--text-muted)] group-hover:text-[var(--accent-text)] mb-4 transition-colors" />
         <div>
           <h4 className="text-sm font-bold text-[var(--text-primary)] mb-1">Export / Import</h4>
-          <p className="text-[10px] text-[var(--text-tertiary)]">Back up all IndexedDB data or import on another device.</p>
+          <p className="text-[10px] text-[var(--text-tertiary)]">Export this project as a .bbproj package with media, or import a package / backup.</p>
           <div className="mt-3 flex gap-2">
             <button
               type="button"
@@ -34,7 +34,7 @@ const StatusPanel: React.FC<Props> = ({ project, progress, estimatedDuration })
             <div className="w-px h-6 bg-[var(--bg-hover)]"></div>
             <div className={STYLES.statusPanel.stat}>
               <span className={STYLES.statusPanel.statLabel}>Est. Duration</span>
-              <span className={STYLES.statusPanel.statValue}>~{estimatedDuration}s</span>
+              <span className={STYLES.statusPanel.statValue}>~{Math.round(estimatedDuration)}s</span>
             </div>
             <div className="w-px h-6 bg-[var(--bg-hover)]"></div>
             <div className={STYLES.statusPanel.stat}>
@@ -1,50 +1,333 @@
-import React from 'react';
-import { Film } from 'lucide-react';
-import { Shot } from '../../types';
-import { STYLES } from './constants';
+import React, { Fragment, useRef, useState } from 'react';
+import { Film, GripVertical, RotateCcw } from 'lucide-react';
+import { Shot, TransitionType } from '../../types';
+import { STYLES, TRANSITION_OPTIONS } from './constants';
+import {
+  buildPlaybackTimeline,
+  formatTimecode,
+  getShotSourceDuration,
+  getShotTrimRange,
+  applyShotTrim,
+  isTimedTransition,
+  MAX_TRANSITION_DURATION,
+} from '../../services/timelineService';
 
 interface Props {
   shots: Shot[];
+  onReorder?: (fromIndex: number, toIndex: number) => void;
+  onTrimChange?: (shotId: string, trimIn: number, trimOut: number) => void;
+  onTransitionChange?: (shotId: string, type: TransitionType, duration?: number) => void;
 }
 
-const TimelineVisualizer: React.FC<Props> = ({ shots }) => {
+interface TrimDrag {
+  shotId: string;
+  edge: 'in' | 'out';
+  startX: number;
+  pxPerSecond: number;
+  trimIn: number;
+  trimOut: number;
+}
+
+const TimelineVisualizer: React.FC<Props> = ({ shots, onReorder, onTrimChange, onTransitionChange }) => {
+  const [selectedShotId, setSelectedShotId] = useState<string | null>(null);
+  const [selectedTransitionId, setSelectedTransitionId] = useState<string | null>(null);
+  const [hoverTime, setHoverTime] = useState<number | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [trimDraft, setTrimDraft] = useState<{ shotId: string; trimIn: number; trimOut: number } | null>(null);
+  const trimDragRef = useRef<TrimDrag | null>(null);
+
+  // 拖拽入出点时先使用草稿值预览，松开后再提交
+  const displayShots = trimDraft
+    ? shots.map(s => (s.id === trimDraft.shotId ? applyShotTrim(s, trimDraft.trimIn, trimDraft.trimOut) : s))
+    : shots;
+  // 与预览播放、成片导出使用同一份片段列表，未生成视频的镜头不占时间
+  const timeline = buildPlaybackTimeline(displayShots);
+  const pendingCount = shots.length - timeline.length;
+  const totalDuration = timeline.length > 0 ? timeline[timeline.length - 1].end : 0;
+  const selectedEntry = timeline.find(e => e.shot.id === selectedShotId) || null;
+  const transitionPosition = timeline.findIndex(e => e.shot.id === selectedTransitionId);
+  const transitionEntry = transitionPosition >= 0 && transitionPosition < timeline.length - 1 ? timeline[transitionPosition] : null;
+  const transitionNext = transitionEntry ? timeline[transitionPosition + 1] : null;
+  const timecode = hoverTime ?? selectedEntry?.start ?? 0;
+
+  const handleTrimPointerDown = (e: React.PointerEvent<HTMLDivElement>, shot: Shot, edge: 'in' | 'out', duration: number) => {
+    if (!onTrimChange) return;
+    e.stopPropagation();
+    const segment = e.currentTarget.parentElement;
+    const segmentWidth = segment?.getBoundingClientRect().width || 0;
+    const { trimIn, trimOut } = getShotTrimRange(shot);
+    trimDragRef.current = {
+      shotId: shot.id,
+      edge,
+      startX: e.clientX,
+      pxPerSecond: duration > 0 ? segmentWidth / duration : 1,
+      trimIn,
+      trimOut,
+    };
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setTrimDraft({ shotId: shot.id, trimIn, trimOut });
+  };
+
+  const handleTrimPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = trimDragRef.current;
+    if (!drag) return;
+    const deltaSeconds = (e.clientX - drag.startX) / drag.pxPerSecond;
+    setTrimDraft({
+      shotId: drag.shotId,
+      trimIn: drag.edge === 'in' ? drag.trimIn + deltaSeconds : drag.trimIn,
+      trimOut: drag.edge === 'out' ? drag.trimOut + deltaSeconds : drag.trimOut,
+    });
+  };
+
+  const handleTrimPointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = trimDragRef.current;
+    trimDragRef.current = null;
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      e.currentTarget.releasePointerCapture(e.pointerId);
+    }
+    if (drag && trimDraft && onTrimChange) {
+      onTrimChange(drag.shotId, trimDraft.trimIn, trimDraft.trimOut);
+    }
+    setTrimDraft(null);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>, index: number) => {
+    e.preventDefault();
+    if (dragIndex !== null && onReorder && dragIndex !== index) {
+      onReorder(dragIndex, index);
+    }
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  const handleSegmentMouseMove = (e: React.MouseEvent<HTMLDivElement>, start: number, duration: number) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const ratio = rect.width > 0 ? Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1) : 0;
+    setHoverTime(start + ratio * duration);
+  };
+
+  const handleTrimInput = (edge: 'in' | 'out', value: string) => {
+    if (!selectedEntry || !onTrimChange) return;
+    const seconds = parseFloat(value);
+    if (Number.isNaN(seconds)) return;
+    onTrimChange(
+      selectedEntry.shot.id,
+      edge === 'in' ? seconds : selectedEntry.trimIn,
+      edge === 'out' ? seconds : selectedEntry.trimOut
+    );
+  };
+
+  const handleSelectShot = (shotId: string) => {
+    setSelectedShotId(selectedShotId === shotId ? null : shotId);
+    setSelectedTransitionId(null);
+  };
+
+  const handleSelectTransition = (shotId: string) => {
+    setSelectedTransitionId(selectedTransitionId === shotId ? null : shotId);
+    setSelectedShotId(null);
+  };
+
   return (
     <div className="mb-10">
       <div className="flex justify-between text-[10px] text-[var(--text-muted)] font-mono uppercase tracking-widest mb-2 px-1">
         <span>Sequence Map</span>
-        <span>TC 00:00:00:00</span>
+        <span>
+          TC {formatTimecode(timecode)}
+          <span className="text-[var(--text-tertiary)]"> / {formatTimecode(totalDuration)}</span>
+        </span>
       </div>
-      <div className={STYLES.timeline.container}>
-        {shots.length === 0 ? (
+      <div className={STYLES.timeline.container} onMouseLeave={() => setHoverTime(null)}>
+        {timeline.length === 0 ? (
           <div className="w-full flex items-center justify-center text-[var(--text-muted)] text-xs font-mono uppercase tracking-widest">
             <Film className="w-4 h-4 mr-2" />
             No Shots Available
           </div>
         ) : (
-          shots.map((shot, idx) => {
-            const isDone = !!shot.interval?.videoUrl;
+          timeline.map((entry, position) => {
+            const { shot, index: idx, start, duration } = entry;
+            const isSelected = shot.id === selectedShotId;
+            const isDropTarget = dropIndex === idx && dragIndex !== null && dragIndex !== idx;
+            const canTrim = !!onTrimChange;
+            const transitionOption = TRANSITION_OPTIONS.find(o => o.type === entry.transitionOut.type) || TRANSITION_OPTIONS[0];
             return (
-              <div 
-                key={shot.id} 
-                className={`${STYLES.timeline.segment} ${
-                  isDone ? STYLES.timeline.segmentComplete : STYLES.timeline.segmentIncomplete
-                }`}
-                title={`Shot ${idx+1}: ${shot.actionSummary}`}
-              >
-                {/* Mini Progress Bar inside timeline segment */}
-                {isDone && <div className="h-full w-full bg-[var(--accent-bg)]"></div>}
-                
-                {/* Hover Tooltip */}
-                <div className={STYLES.timeline.tooltip}>
-                  <div className="bg-[var(--bg-base)] text-[var(--text-primary)] text-[10px] px-2 py-1 rounded border border-[var(--border-secondary)] shadow-xl">
-                    Shot {idx + 1}
+              <Fragment key={shot.id}>
+                <div
+                  className={`${STYLES.timeline.segment} ${STYLES.timeline.segmentComplete} ${isSelected ? STYLES.timeline.segmentSelected : ''} ${
+                    isDropTarget ? STYLES.timeline.segmentDropTarget : ''
+                  } ${dragIndex === idx ? 'opacity-40' : ''}`}
+                  style={{ flexGrow: duration, flexBasis: 0 }}
+                  draggable={!!onReorder}
+                  onDragStart={(e) => {
+                    if (trimDragRef.current) {
+                      e.preventDefault();
+                      return;
+                    }
+                    e.dataTransfer.effectAllowed = 'move';
+                    setDragIndex(idx);
+                  }}
+                  onDragOver={(e) => {
+                    if (dragIndex === null) return;
+                    e.preventDefault();
+                    setDropIndex(idx);
+                  }}
+                  onDrop={(e) => handleDrop(e, idx)}
+                  onDragEnd={() => {
+                    setDragIndex(null);
+                    setDropIndex(null);
+                  }}
+                  onClick={() => handleSelectShot(shot.id)}
+                  onMouseMove={(e) => handleSegmentMouseMove(e, start, duration)}
+                >
+                  {/* Mini Progress Bar inside timeline segment */}
+                  <div className="h-full w-full bg-[var(--accent-bg)]"></div>
+
+                  {/* Trim Handles */}
+                  {canTrim && (
+                    <>
+                      <div
+                        className={`${STYLES.timeline.trimHandle} left-0`}
+                        title="拖动调整入点"
+                        onPointerDown={(e) => handleTrimPointerDown(e, shot, 'in', duration)}
+                        onPointerMove={handleTrimPointerMove}
+                        onPointerUp={handleTrimPointerUp}
+                        onClick={(e) => e.stopPropagation()}
+                      />
+                      <div
+                        className={`${STYLES.timeline.trimHandle} right-0`}
+                        title="拖动调整出点"
+                        onPointerDown={(e) => handleTrimPointerDown(e, shot, 'out', duration)}
+                        onPointerMove={handleTrimPointerMove}
+                        onPointerUp={handleTrimPointerUp}
+                        onClick={(e) => e.stopPropagation()}
+                      />
+                    </>
+                  )}
+
+                  {/* Hover Tooltip */}
+                  <div className={STYLES.timeline.tooltip}>
+                    <div className="bg-[var(--bg-base)] text-[var(--text-primary)] text-[10px] px-2 py-1 rounded border border-[var(--border-secondary)] shadow-xl font-mono">
+                      Shot {idx + 1} · {formatTimecode(start)} · {duration.toFixed(1)}s
+                    </div>
                   </div>
                 </div>
-              </div>
+
+                {/* Transition Marker */}
+                {position < timeline.length - 1 && (
+                  <button
+                    className={`${STYLES.timeline.transitionMark} ${
+                      selectedTransitionId === shot.id ? STYLES.timeline.transitionMarkActive : ''
+                    }`}
+                    title={`转场: ${transitionOption.label}${entry.transitionOut.duration > 0 ? ` ${entry.transitionOut.duration}s` : ''}`}
+                    onClick={() => handleSelectTransition(shot.id)}
+                    disabled={!onTransitionChange}
+                  >
+                    {transitionOption.mark}
+                  </button>
+                )}
+              </Fragment>
             );
           })
         )}
       </div>
+      {pendingCount > 0 && (
+        <p className="text-[10px] text-[var(--text-muted)] mt-2 px-1">
+          {pendingCount} 个镜头尚未生成视频，不计入时间线、预览与成片
+        </p>
+      )}
+
+      {/* Selected Shot Trim Editor */}
+      {selectedEntry && (
+        <div className={STYLES.timeline.trimEditor}>
+          <span className="flex items-center gap-1 text-[var(--text-secondary)] font-bold">
+            {onReorder && <GripVertical className="w-3 h-3 text-[var(--text-muted)]" />}
+            Shot {selectedEntry.index + 1}
+          </span>
+          <span>START {formatTimecode(selectedEntry.start)}</span>
+          {onTrimChange && (
+            <>
+              <label className="flex items-center gap-1">
+                IN
+                <input
+                  type="number"
+                  min={0}
+                  max={getShotSourceDuration(selectedEntry.shot)}
+                  step={0.1}
+                  value={Number(selectedEntry.trimIn.toFixed(2))}
+                  onChange={(e) => handleTrimInput('in', e.target.value)}
+                  className={STYLES.timeline.trimInput}
+                />
+              </label>
+              <label className="flex items-center gap-1">
+                OUT
+                <input
+                  type="number"
+                  min={0}
+                  max={getShotSourceDuration(selectedEntry.shot)}
+                  step={0.1}
+                  value={Number(selectedEntry.trimOut.toFixed(2))}
+                  onChange={(e) => handleTrimInput('out', e.target.value)}
+                  className={STYLES.timeline.trimInput}
+                />
+              </label>
+              <span>DUR {selectedEntry.duration.toFixed(2)}s / {getShotSourceDuration(selectedEntry.shot)}s</span>
+              <button
+                onClick={() => onTrimChange(selectedEntry.shot.id, 0, getShotSourceDuration(selectedEntry.shot))}
+                className="flex items-center gap-1 text-[var(--text-tertiary)] hover:text-[var(--text-primary)] transition-colors"
+                title="恢复完整片段"
+              >
+                <RotateCcw className="w-3 h-3" />
+                Reset
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Selected Transition Editor */}
+      {transitionEntry && transitionNext && onTransitionChange && (
+        <div className={STYLES.timeline.trimEditor}>
+          <span className="text-[var(--text-secondary)] font-bold">
+            Shot {transitionEntry.index + 1} → Shot {transitionNext.index + 1}
+          </span>
+          <span>AT {formatTimecode(transitionEntry.end)}</span>
+          <div className="flex items-center gap-1">
+            {TRANSITION_OPTIONS.map(option => (
+              <button
+                key={option.type}
+                onClick={() => onTransitionChange(transitionEntry.shot.id, option.type)}
+                className={`px-2 py-0.5 rounded border transition-colors ${
+                  transitionEntry.transitionOut.type === option.type
+                    ? 'border-[var(--accent)] text-[var(--accent-text)] bg-[var(--accent-bg)]'
+                    : 'border-[var(--border-secondary)] text-[var(--text-tertiary)] hover:text-[var(--text-primary)]'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          {isTimedTransition(transitionEntry.transitionOut.type) && (
+            <label className="flex items-center gap-1">
+              DUR
+              <input
+                type="number"
+                min={0.1}
+                max={MAX_TRANSITION_DURATION}
+                step={0.1}
+                value={transitionEntry.transitionOut.duration}
+                onChange={(e) => {
+                  const seconds = parseFloat(e.target.value);
+                  if (!Number.isNaN(seconds)) {
+                    onTransitionChange(transitionEntry.shot.id, transitionEntry.transitionOut.type, seconds);
+                  }
+                }}
+                className={STYLES.timeline.trimInput}
+              />
+              s
+            </label>
+          )}
+        </div>
+      )}
     </div>
   );
 };
@@ -1,10 +1,13 @@
-import React, { useRef, useEffect } from 'react';
-import { Play, Pause, SkipForward, SkipBack, X } from 'lucide-react';
+import React, { useRef, useEffect, useState, useMemo } from 'react';
+import { Play, Pause, SkipForward, SkipBack, X, Captions } from 'lucide-react';
 import { Shot, ProjectState } from '../../types';
 import { STYLES } from './constants';
+import { CUT_TRANSITION, TimelineEntry, getShotTrimRange } from '../../services/timelineService';
+import { resolveAudioTracks, getAudioTrackGain, getAudioTrackPosition, getDialogueAudioTracks } from '../../services/audioTrackService';
+import { buildSubtitleCues, getCueText } from '../../services/subtitleService';
 
 interface Props {
-  completedShots: Shot[];
+  timeline: TimelineEntry[]; // 成片时间线，与时间线面板、成片导出一致
   currentShotIndex: number;
   isPlaying: boolean;
   project: ProjectState;
@@ -12,12 +15,12 @@ interface Props {
   onPlayPause: () => void;
   onPrevShot: () => void;
   onNextShot: () => void;
-  onShotChange: (index: number) => void;
+  onShotChange: (index: number, startAt?: number) => void;
   videoRef: React.RefObject<HTMLVideoElement>;
 }
 
 const VideoPlayerModal: React.FC<Props> = ({
-  completedShots,
+  timeline,
   currentShotIndex,
   isPlaying,
   project,
@@ -28,8 +31,134 @@ const VideoPlayerModal: React.FC<Props> = ({
   onShotChange,
   videoRef
 }) => {
-  const currentShot = completedShots[currentShotIndex];
-  const shotOriginalIndex = project.shots.findIndex(s => s.id === currentShot.id);
+  const completedShots = useMemo(() => timeline.map(entry => entry.shot), [timeline]);
+  const currentEntry = timeline[currentShotIndex];
+  const currentShot = currentEntry.shot;
+  const { trimIn, trimOut } = getShotTrimRange(currentShot);
+  const nextShot = completedShots[currentShotIndex + 1];
+  const transitionIn = currentShotIndex > 0 ? timeline[currentShotIndex - 1].transitionOut : CUT_TRANSITION;
+  const transitionOut = currentEntry.transitionOut;
+  const isCrossfadeOut = !!nextShot && transitionOut.type === 'crossfade';
+
+  // 叠化时下一个镜头在叠加层中提前播放；切换后保留叠加层直到主画面接上
+  const [handoffShotId, setHandoffShotId] = useState<string | null>(null);
+  const overlayRefs = useRef<Record<string, HTMLVideoElement | null>>({});
+  const crossfadeStartedRef = useRef(false);
+  const finishedRef = useRef(false);
+
+  // 字幕叠加（与导出的字幕使用同一时间线）
+  const [showSubtitles, setShowSubtitles] = useState(true);
+  const subtitleCues = useMemo(
+    () => buildSubtitleCues(completedShots, project.scriptData?.characters || []),
+    [completedShots, project.scriptData?.characters]
+  );
+  const currentCue = subtitleCues.find(cue => cue.shotId === currentShot.id);
+
+  // 背景音乐、音效与台词配音：按当前镜头在时间线上的位置同步播放
+  const resolvedTracks = useMemo(
+    () => resolveAudioTracks([...(project.audioTracks || []), ...getDialogueAudioTracks(completedShots)], completedShots, timeline),
+    [project.audioTracks, completedShots, timeline]
+  );
+  const audioTrackRefs = useRef<Record<string, HTMLAudioElement | null>>({});
+
+  const overlayShots = [
+    handoffShotId === currentShot.id ? currentShot : null,
+    isCrossfadeOut ? nextShot : null
+  ].filter((shot): shot is Shot => !!shot);
+
+  // 播放到出点后切换到下一个镜头
+  const handleShotFinished = () => {
+    if (finishedRef.current) return;
+    finishedRef.current = true;
+    if (currentShotIndex < completedShots.length - 1) {
+      const incoming = nextShot ? overlayRefs.current[nextShot.id] : null;
+      if (crossfadeStartedRef.current && incoming) {
+        setHandoffShotId(nextShot.id);
+        onShotChange(currentShotIndex + 1, incoming.currentTime);
+      } else {
+        onShotChange(currentShotIndex + 1);
+      }
+    } else {
+      videoRef.current?.pause();
+    }
+  };
+
+  // 逐帧处理黑场淡入淡出、叠化混合与出点
+  useEffect(() => {
+    crossfadeStartedRef.current = false;
+    finishedRef.current = false;
+    let frameHandle = 0;
+
+    const tick = () => {
+      const video = videoRef.current;
+      const incoming = nextShot ? overlayRefs.current[nextShot.id] : null;
+      if (video && Number.isFinite(video.duration)) {
+        // 记录的素材时长可能略长于实际视频，出点不超过视频结尾
+        const end = Math.min(trimOut, video.duration);
+        const elapsed = video.currentTime - trimIn;
+        const remaining = end - video.currentTime;
+
+        let alpha = 1;
+        if (transitionIn.type === 'dip-to-black' && elapsed < transitionIn.duration / 2) {
+          alpha = Math.min(alpha, Math.max(elapsed, 0) / (transitionIn.duration / 2));
+        }
+        if (transitionOut.type === 'dip-to-black' && nextShot && remaining < transitionOut.duration / 2) {
+          alpha = Math.min(alpha, Math.max(remaining, 0) / (transitionOut.duration / 2));
+        }
+        video.style.opacity = String(alpha);
+        video.volume = alpha;
+
+        if (isCrossfadeOut && incoming && remaining <= transitionOut.duration) {
+          if (!crossfadeStartedRef.current && !video.paused) {
+            crossfadeStartedRef.current = true;
+            incoming.currentTime = getShotTrimRange(nextShot).trimIn;
+            incoming.play().catch(() => { /* 叠化预览失败时退化为硬切 */ });
+          }
+          if (crossfadeStartedRef.current) {
+            const mix = Math.min(Math.max(1 - remaining / transitionOut.duration, 0), 1);
+            incoming.style.opacity = String(mix);
+            incoming.volume = mix;
+            video.volume = 1 - mix;
+            if (video.paused && !incoming.paused) incoming.pause();
+            if (!video.paused && incoming.paused) incoming.play().catch(() => {});
+          }
+        }
+
+        // 音轨位置偏差过大（切换镜头、暂停后继续）时重新对齐
+        const position = currentEntry.start + Math.max(elapsed, 0);
+        resolvedTracks.forEach(resolved => {
+          const audio = audioTrackRefs.current[resolved.track.id];
+          if (!audio) return;
+          const gain = getAudioTrackGain(resolved, position);
+          if (video.paused || position < resolved.start || position >= resolved.end) {
+            if (!audio.paused) audio.pause();
+            return;
+          }
+          const target = getAudioTrackPosition(resolved, position);
+          if (Math.abs(audio.currentTime - target) > 0.3) {
+            audio.currentTime = target;
+          }
+          audio.volume = Math.min(gain, 1);
+          if (audio.paused) audio.play().catch(() => { /* 音轨预览失败时静音继续 */ });
+        });
+
+        if (remaining <= 0 && !video.paused) {
+          handleShotFinished();
+        }
+      }
+      frameHandle = requestAnimationFrame(tick);
+    };
+
+    frameHandle = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameHandle);
+  }, [currentShotIndex, timeline, resolvedTracks]);
+
+  // 主画面接上后移除交接叠加层
+  const handleMainPlaying = () => {
+    if (!handoffShotId) return;
+    overlayRefs.current[handoffShotId]?.pause();
+    setHandoffShotId(null);
+  };
 
   return (
     <div className={STYLES.videoModal.overlay}>
@@ -40,7 +169,7 @@ const VideoPlayerModal: React.FC<Props> = ({
             <Play className="w-5 h-5 text-[var(--accent)]" />
             <h3 className="text-lg font-bold text-[var(--text-primary)]">视频预览</h3>
             <span className="px-2 py-0.5 bg-[var(--bg-elevated)] border border-[var(--border-secondary)] text-[var(--text-tertiary)] text-[10px] rounded uppercase font-mono tracking-wider">
-              Shot {shotOriginalIndex + 1} / {project.shots.length}
+              Shot {currentEntry.index + 1} / {project.shots.length}
             </span>
           </div>
           <button
@@ -61,12 +190,45 @@ const VideoPlayerModal: React.FC<Props> = ({
             autoPlay
             controls={false}
             playsInline
-            onEnded={() => {
-              if (currentShotIndex < completedShots.length - 1) {
-                onShotChange(currentShotIndex + 1);
+            onLoadedMetadata={(e) => {
+              if (e.currentTarget.currentTime < trimIn) {
+                e.currentTarget.currentTime = trimIn;
               }
             }}
+            onPlaying={handleMainPlaying}
+            onEnded={handleShotFinished}
           />
+
+          {/* Crossfade Overlays */}
+          {overlayShots.map(shot => (
+            <video
+              key={shot.id}
+              ref={(el) => { overlayRefs.current[shot.id] = el; }}
+              src={shot.interval?.videoUrl}
+              className="absolute inset-0 w-full h-full object-contain pointer-events-none"
+              style={{ opacity: shot.id === handoffShotId ? 1 : 0 }}
+              preload="auto"
+              playsInline
+            />
+          ))}
+
+          {/* Audio Tracks */}
+          {resolvedTracks.map(({ track }) => (
+            <audio
+              key={track.id}
+              ref={(el) => { audioTrackRefs.current[track.id] = el; }}
+              src={track.audioUrl}
+              loop={!!track.loop}
+              preload="auto"
+            />
+          ))}
+
+          {/* Subtitle Overlay */}
+          {showSubtitles && currentCue && (
+            <div className={STYLES.videoModal.subtitle}>
+              <span className={STYLES.videoModal.subtitleText}>{getCueText(currentCue)}</span>
+            </div>
+          )}
           
           {/* Play/Pause Overlay Button */}
           <button
@@ -122,6 +284,19 @@ const VideoPlayerModal: React.FC<Props> = ({
             <span className="text-xs text-[var(--text-tertiary)] uppercase tracking-wider">
               {currentShot.cameraMovement}
             </span>
+            <div className="w-px h-4 bg-[var(--border-secondary)]"></div>
+            <button
+              onClick={() => setShowSubtitles(!showSubtitles)}
+              disabled={subtitleCues.length === 0}
+              title={showSubtitles ? '隐藏字幕' : '显示字幕'}
+              className={`w-8 h-8 rounded-lg flex items-center justify-center transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${
+                showSubtitles && subtitleCues.length > 0
+                  ? 'bg-[var(--accent-bg)] text-[var(--accent-text)]'
+                  : 'bg-[var(--bg-elevated)] text-[var(--text-tertiary)] hover:bg-[var(--bg-hover)]'
+              }`}
+            >
+              <Captions className="w-4 h-4" />
+            </button>
           </div>
 
           <button
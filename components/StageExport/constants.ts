@@ -1,6 +1,8 @@
 /**
  * StageExport 样式常量和类型定义
  */
+import { TransitionType } from '../../types';
+import { SubtitleFormat } from '../../services/subtitleService';
 
 // 样式常量
 export const STYLES = {
@@ -44,7 +46,9 @@ export const STYLES = {
   videoModal: {
     overlay: "fixed inset-0 bg-[var(--bg-base)]/95 backdrop-blur-sm flex items-center justify-center z-50 p-4",
     container: "bg-[var(--bg-primary)] border border-[var(--border-primary)] rounded-xl max-w-6xl w-full flex flex-col shadow-2xl overflow-hidden",
-    player: "bg-[var(--bg-base)] relative flex items-center justify-center overflow-hidden",
+    player: "bg-black relative flex items-center justify-center overflow-hidden",
+    subtitle: "absolute left-0 right-0 bottom-8 flex justify-center px-8 pointer-events-none",
+    subtitleText: "max-w-[80%] px-3 py-1 rounded bg-black/60 text-white text-base leading-relaxed text-center whitespace-pre-line",
     controls: "p-4 border-t border-[var(--border-primary)] bg-[var(--bg-primary)] flex items-center justify-between shrink-0"
   },
   
@@ -64,12 +68,28 @@ export const STYLES = {
   // 时间线
   timeline: {
     container: "h-20 bg-[var(--bg-sunken)] rounded-lg border border-[var(--border-primary)] flex items-center px-2 gap-1 overflow-x-auto custom-scrollbar relative shadow-inner",
-    segment: "h-14 min-w-[4px] flex-1 rounded-[2px] transition-all relative group flex flex-col justify-end overflow-hidden",
+    segment: "h-14 min-w-[12px] rounded-[2px] transition-all relative group flex flex-col justify-end cursor-pointer",
     segmentComplete: "bg-[var(--accent-bg-hover)] border border-[var(--accent-border)] hover:bg-[var(--accent-bg-hover)]",
-    segmentIncomplete: "bg-[var(--bg-elevated)] border border-[var(--border-primary)] hover:bg-[var(--bg-hover)]",
+    segmentSelected: "ring-1 ring-[var(--accent)]",
+    segmentDropTarget: "ring-2 ring-[var(--accent-border)]",
+    transitionMark: "h-14 w-4 shrink-0 flex items-center justify-center rounded-[2px] text-[10px] font-mono text-[var(--text-muted)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-hover)] transition-colors",
+    transitionMarkActive: "text-[var(--accent-text)] bg-[var(--accent-bg)]",
+    trimHandle: "absolute top-0 bottom-0 w-1.5 bg-[var(--accent)] opacity-0 group-hover:opacity-80 cursor-ew-resize z-10 touch-none",
+    trimEditor: "mt-2 px-1 flex flex-wrap items-center gap-4 text-[10px] text-[var(--text-muted)] font-mono uppercase tracking-widest",
+    trimInput: "w-16 bg-[var(--bg-base)] text-[var(--text-primary)] border border-[var(--border-secondary)] rounded px-1.5 py-0.5 text-[10px] outline-none focus:border-[var(--accent)]",
     tooltip: "absolute bottom-full left-1/2 -translate-x-1/2 mb-2 hidden group-hover:block z-20 whitespace-nowrap"
   },
   
+  // 音轨
+  audioTracks: {
+    container: "bg-[var(--bg-sunken)] rounded-lg border border-[var(--border-primary)] p-3 space-y-2",
+    row: "flex flex-wrap items-center gap-3 bg-[var(--bg-surface)] border border-[var(--border-primary)] rounded-md px-3 py-2 text-[10px] text-[var(--text-muted)] font-mono",
+    rowOrphan: "border-[var(--warning-border)]",
+    addButton: "px-2.5 py-1 rounded-md text-[10px] font-bold uppercase tracking-wider flex items-center gap-1.5 bg-[var(--bg-elevated)] text-[var(--text-tertiary)] border border-[var(--border-primary)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-hover)] transition-colors disabled:opacity-30 disabled:cursor-not-allowed",
+    input: "w-14 bg-[var(--bg-base)] text-[var(--text-primary)] border border-[var(--border-secondary)] rounded px-1.5 py-0.5 text-[10px] outline-none focus:border-[var(--accent)]",
+    select: "max-w-[160px] bg-[var(--bg-base)] text-[var(--text-primary)] border border-[var(--border-secondary)] rounded px-1.5 py-0.5 text-[10px] outline-none focus:border-[var(--accent)]"
+  },
+  
   // 日志项
   logItem: {
     container: "bg-[var(--bg-primary)] border border-[var(--border-primary)] rounded-lg overflow-hidden hover:border-[var(--border-secondary)] transition-colors",
@@ -100,9 +120,18 @@ export const LOG_TYPE_ICONS = {
   scene: '🎬',
   keyframe: '🖼️',
   video: '🎥',
+  audio: '🔊',
   default: '📝'
 };
 
+// 转场选项（时间线转场标记与编辑器）
+export const TRANSITION_OPTIONS: { type: TransitionType; label: string; mark: string }[] = [
+  { type: 'cut', label: '硬切', mark: '|' },
+  { type: 'crossfade', label: '叠化', mark: '×' },
+  { type: 'dip-to-black', label: '黑场过渡', mark: '●' },
+  { type: 'match-cut', label: '匹配剪辑', mark: '≡' }
+];
+
 // 下载状态类型
 export interface DownloadState {
   isDownloading: boolean;
@@ -116,3 +145,10 @@ export interface VideoPlayerState {
   currentShotIndex: number;
   isPlaying: boolean;
 }
+
+// 字幕导出格式
+export const SUBTITLE_FORMAT_OPTIONS: { format: SubtitleFormat; label: string; description: string }[] = [
+  { format: 'srt', label: 'SRT', description: '通用字幕格式，兼容大多数播放器与剪辑软件' },
+  { format: 'vtt', label: 'VTT', description: 'WebVTT，适用于网页播放器，包含说话人标签' },
+  { format: 'ass', label: 'ASS', description: '高级字幕格式，包含样式与说话人信息' },
+];
@@ -1,31 +1,38 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { Film } from 'lucide-react';
-import { ProjectState } from '../../types';
-import { downloadMasterVideo, downloadSourceAssets } from '../../services/exportService';
-import { exportProjectData, importIndexedDBData } from '../../services/storageService';
+import { AudioTrack, AudioTrackKind, ProjectState, TransitionType } from '../../types';
+import { downloadMasterVideo, downloadSourceAssets, downloadSubtitles, downloadFountainScript, exportStoryboard, downloadEditPackage } from '../../services/exportService';
+import { SubtitleFormat } from '../../services/subtitleService';
+import { applyAudioTrackUpdate, createAudioTrackFromFile } from '../../services/audioTrackService';
+import { exportProjectPackage, readImportFile, ImportBundle, PROJECT_PACKAGE_EXTENSION } from '../../services/projectPackageService';
+import { applyShotTransition, applyShotTrim, buildPlaybackTimeline, getShotTrimRange, moveShot } from '../../services/timelineService';
 import { STYLES } from './constants';
 import {
   calculateEstimatedDuration,
   calculateProgress,
-  getCompletedShots,
   collectRenderLogs,
   hasDownloadableAssets
 } from './utils';
 import StatusPanel from './StatusPanel';
 import TimelineVisualizer from './TimelineVisualizer';
+import AudioTracksPanel from './AudioTracksPanel';
 import ActionButtons from './ActionButtons';
 import SecondaryOptions from './SecondaryOptions';
 import VideoPlayerModal from './VideoPlayerModal';
 import RenderLogsModal from './RenderLogsModal';
+import ImportDataModal from '../ImportDataModal';
 import { useAlert } from '../GlobalAlert';
 
 interface Props {
   project: ProjectState;
+  updateProject: (updates: Partial<ProjectState> | ((prev: ProjectState) => ProjectState)) => void;
 }
 
-const StageExport: React.FC<Props> = ({ project }) => {
+const StageExport: React.FC<Props> = ({ project, updateProject }) => {
   const { showAlert } = useAlert();
-  const completedShots = getCompletedShots(project);
+  // 预览播放与时间线面板使用同一份成片时间线
+  const playbackTimeline = useMemo(() => buildPlaybackTimeline(project.shots), [project.shots]);
+  const completedShots = useMemo(() => playbackTimeline.map(entry => entry.shot), [playbackTimeline]);
   const progress = calculateProgress(project);
   const estimatedDuration = calculateEstimatedDuration(project);
 
@@ -34,6 +41,11 @@ const StageExport: React.FC<Props> = ({ project }) => {
   const [downloadPhase, setDownloadPhase] = useState('');
   const [downloadProgress, setDownloadProgress] = useState(0);
 
+  // Edit package (EDL / XML) export state
+  const [isExportingEdit, setIsExportingEdit] = useState(false);
+  const [editPhase, setEditPhase] = useState('');
+  const [editProgress, setEditProgress] = useState(0);
+
   // Source Assets Download state
   const [isDownloadingAssets, setIsDownloadingAssets] = useState(false);
   const [assetsPhase, setAssetsPhase] = useState('');
@@ -48,16 +60,21 @@ const StageExport: React.FC<Props> = ({ project }) => {
   const [currentShotIndex, setCurrentShotIndex] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
   const videoRef = useRef<HTMLVideoElement>(null);
+  const startAtRef = useRef<number | null>(null);
   const importInputRef = useRef<HTMLInputElement>(null);
 
   const [isDataExporting, setIsDataExporting] = useState(false);
   const [isDataImporting, setIsDataImporting] = useState(false);
+  const [importBundle, setImportBundle] = useState<ImportBundle | null>(null);
 
   // Auto-play when shot changes
   useEffect(() => {
     const video = videoRef.current;
     if (video && showVideoPlayer) {
-      video.currentTime = 0;
+      // 叠化切换时从叠加层已播放到的位置接上，避免画面回跳
+      const shot = completedShots[currentShotIndex];
+      video.currentTime = startAtRef.current ?? (shot ? getShotTrimRange(shot).trimIn : 0);
+      startAtRef.current = null;
       const playPromise = video.play();
       if (playPromise !== undefined) {
         playPromise
@@ -95,6 +112,11 @@ const StageExport: React.FC<Props> = ({ project }) => {
     }
   };
 
+  const handleShotChange = (index: number, startAt?: number) => {
+    startAtRef.current = startAt ?? null;
+    setCurrentShotIndex(index);
+  };
+
   const openVideoPlayer = () => {
     if (completedShots.length > 0) {
       setCurrentShotIndex(0);
@@ -111,6 +133,53 @@ const StageExport: React.FC<Props> = ({ project }) => {
     }
   };
 
+  // Timeline handlers
+  const handleReorderShots = (fromIndex: number, toIndex: number) => {
+    updateProject(prev => ({ ...prev, shots: moveShot(prev.shots, fromIndex, toIndex) }));
+  };
+
+  const handleTrimShot = (shotId: string, trimIn: number, trimOut: number) => {
+    updateProject(prev => ({
+      ...prev,
+      shots: prev.shots.map(s => (s.id === shotId ? applyShotTrim(s, trimIn, trimOut) : s))
+    }));
+  };
+
+  const handleTransitionChange = (shotId: string, type: TransitionType, duration?: number) => {
+    updateProject(prev => ({
+      ...prev,
+      shots: prev.shots.map(s => (s.id === shotId ? applyShotTransition(s, type, duration) : s))
+    }));
+  };
+
+  // 音效默认绑定到第一个镜头，导入后可在音轨面板中调整
+  const handleAddAudioTrack = async (kind: AudioTrackKind, file: File) => {
+    try {
+      const track = await createAudioTrackFromFile(kind, file, kind === 'sfx' ? project.shots[0]?.id : undefined);
+      updateProject(prev => ({
+        ...prev,
+        audioTracks: [...(prev.audioTracks || []), track]
+      }));
+    } catch (error) {
+      console.error('Audio import failed:', error);
+      showAlert(`导入音频失败: ${error instanceof Error ? error.message : '未知错误'}`, { type: 'error' });
+    }
+  };
+
+  const handleUpdateAudioTrack = (trackId: string, updates: Partial<AudioTrack>) => {
+    updateProject(prev => ({
+      ...prev,
+      audioTracks: (prev.audioTracks || []).map(t => (t.id === trackId ? applyAudioTrackUpdate(t, updates) : t))
+    }));
+  };
+
+  const handleRemoveAudioTrack = (trackId: string) => {
+    updateProject(prev => ({
+      ...prev,
+      audioTracks: (prev.audioTracks || []).filter(t => t.id !== trackId)
+    }));
+  };
+
   // Handle master video download
   const handleDownloadMaster = async () => {
     if (isDownloading || progress < 100) return;
@@ -138,6 +207,37 @@ const StageExport: React.FC<Props> = ({ project }) => {
     }
   };
 
+  // Handle EDL / FCPXML / OTIO edit package export
+  const handleExportEditPackage = async () => {
+    if (isExportingEdit) return;
+    if (completedShots.length === 0) {
+      showAlert('没有已完成的视频片段，请先生成镜头视频。', { type: 'warning' });
+      return;
+    }
+
+    setIsExportingEdit(true);
+    setEditProgress(0);
+
+    try {
+      await downloadEditPackage(project, (phase, prog) => {
+        setEditPhase(phase);
+        setEditProgress(prog);
+      });
+
+      setTimeout(() => {
+        setIsExportingEdit(false);
+        setEditPhase('');
+        setEditProgress(0);
+      }, 2000);
+    } catch (error) {
+      console.error('Edit package export failed:', error);
+      showAlert(`导出剪辑工程失败: ${error instanceof Error ? error.message : '未知错误'}`, { type: 'error' });
+      setIsExportingEdit(false);
+      setEditPhase('');
+      setEditProgress(0);
+    }
+  };
+
   // Handle source assets download
   const handleDownloadAssets = async () => {
     if (isDownloadingAssets) return;
@@ -170,26 +270,57 @@ const StageExport: React.FC<Props> = ({ project }) => {
     }
   };
 
+  // Handle subtitle export
+  const handleExportSubtitles = (format: SubtitleFormat) => {
+    if (completedShots.length === 0) {
+      showAlert('没有已完成的视频片段，请先生成镜头视频。', { type: 'warning' });
+      return;
+    }
+
+    try {
+      downloadSubtitles(project, format);
+    } catch (error) {
+      console.error('Subtitle export failed:', error);
+      showAlert(`导出字幕失败: ${error instanceof Error ? error.message : '未知错误'}`, { type: 'error' });
+    }
+  };
+
+  const handleExportFountain = () => {
+    try {
+      downloadFountainScript(project);
+    } catch (error) {
+      console.error('Fountain export failed:', error);
+      showAlert(`导出剧本失败: ${error instanceof Error ? error.message : '未知错误'}`, { type: 'error' });
+    }
+  };
+
+  const handleExportStoryboard = async (format: 'html' | 'pdf') => {
+    try {
+      await exportStoryboard(project, format);
+    } catch (error) {
+      console.error('Storyboard export failed:', error);
+      showAlert(`导出分镜表失败: ${error instanceof Error ? error.message : '未知错误'}`, { type: 'error' });
+    }
+  };
+
   const handleExportData = async () => {
     if (isDataExporting) return;
 
     setIsDataExporting(true);
     try {
-      const payload = await exportProjectData(project);
-      const json = JSON.stringify(payload, null, 2);
-      const blob = new Blob([json], { type: 'application/json' });
+      const blob = await exportProjectPackage(project);
       const url = URL.createObjectURL(blob);
 
       const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
       const a = document.createElement('a');
       a.href = url;
-      a.download = `bigbanana_project_${project.id}_${timestamp}.json`;
+      a.download = `bigbanana_project_${project.id}_${timestamp}${PROJECT_PACKAGE_EXTENSION}`;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
       URL.revokeObjectURL(url);
 
-      showAlert('当前项目已导出，备份文件已下载。', { type: 'success' });
+      showAlert('当前项目已导出为项目包，文件已下载。', { type: 'success' });
     } catch (error) {
       console.error('Export failed:', error);
       showAlert(`导出失败: ${error instanceof Error ? error.message : '未知错误'}`, { type: 'error' });
@@ -208,37 +339,14 @@ const StageExport: React.FC<Props> = ({ project }) => {
     event.target.value = '';
     if (!file) return;
 
-    if (!file.name.endsWith('.json')) {
-      showAlert('请选择 .json 备份文件。', { type: 'warning' });
-      return;
-    }
-
+    setIsDataImporting(true);
     try {
-      const text = await file.text();
-      const payload = JSON.parse(text);
-      const projectCount = payload?.stores?.projects?.length || 0;
-      const assetCount = payload?.stores?.assetLibrary?.length || 0;
-      const confirmMessage = `将导入 ${projectCount} 个项目和 ${assetCount} 个资产。若 ID 冲突将覆盖现有数据。是否继续？`;
-
-      showAlert(confirmMessage, {
-        type: 'warning',
-        showCancel: true,
-        onConfirm: async () => {
-          try {
-            setIsDataImporting(true);
-            const result = await importIndexedDBData(payload, { mode: 'merge' });
-            showAlert(`导入完成：项目 ${result.projects} 个，资产 ${result.assets} 个。`, { type: 'success' });
-          } catch (error) {
-            console.error('Import failed:', error);
-            showAlert(`导入失败: ${error instanceof Error ? error.message : '未知错误'}`, { type: 'error' });
-          } finally {
-            setIsDataImporting(false);
-          }
-        }
-      });
+      setImportBundle(await readImportFile(file));
     } catch (error) {
       console.error('Import failed:', error);
       showAlert(`导入失败: ${error instanceof Error ? error.message : '未知错误'}`, { type: 'error' });
+    } finally {
+      setIsDataImporting(false);
     }
   };
 
@@ -273,7 +381,21 @@ const StageExport: React.FC<Props> = ({ project }) => {
             />
             
             {/* Timeline Visualizer */}
-            <TimelineVisualizer shots={project.shots} />
+            <TimelineVisualizer
+              shots={project.shots}
+              onReorder={handleReorderShots}
+              onTrimChange={handleTrimShot}
+              onTransitionChange={handleTransitionChange}
+            />
+
+            {/* Audio Tracks */}
+            <AudioTracksPanel
+              tracks={project.audioTracks || []}
+              shots={project.shots}
+              onAdd={handleAddAudioTrack}
+              onUpdate={handleUpdateAudioTrack}
+              onRemove={handleRemoveAudioTrack}
+            />
             
             {/* Action Buttons */}
             <ActionButtons
@@ -287,6 +409,12 @@ const StageExport: React.FC<Props> = ({ project }) => {
               }}
               onPreview={openVideoPlayer}
               onDownloadMaster={handleDownloadMaster}
+              editPackageState={{
+                isDownloading: isExportingEdit,
+                phase: editPhase,
+                progress: editProgress
+              }}
+              onExportEditPackage={handleExportEditPackage}
             />
           </div>
 
@@ -298,6 +426,9 @@ const StageExport: React.FC<Props> = ({ project }) => {
               progress: assetsProgress
             }}
             onDownloadAssets={handleDownloadAssets}
+            onExportSubtitles={handleExportSubtitles}
+            onExportFountain={handleExportFountain}
+            onExportStoryboard={handleExportStoryboard}
             onShowLogs={() => setShowLogsModal(true)}
             onExportData={handleExportData}
             onImportData={handleImportData}
@@ -311,7 +442,7 @@ const StageExport: React.FC<Props> = ({ project }) => {
       {/* Video Preview Player Modal */}
       {showVideoPlayer && completedShots.length > 0 && (
         <VideoPlayerModal
-          completedShots={completedShots}
+          timeline={playbackTimeline}
           currentShotIndex={currentShotIndex}
           isPlaying={isPlaying}
           project={project}
@@ -319,7 +450,7 @@ const StageExport: React.FC<Props> = ({ project }) => {
           onPlayPause={handlePlayPause}
           onPrevShot={handlePrevShot}
           onNextShot={handleNextShot}
-          onShotChange={setCurrentShotIndex}
+          onShotChange={handleShotChange}
           videoRef={videoRef}
         />
       )}
@@ -334,10 +465,18 @@ const StageExport: React.FC<Props> = ({ project }) => {
         />
       )}
 
+      {importBundle && (
+        <ImportDataModal
+          bundle={importBundle}
+          openProjectId={project.id}
+          onClose={() => setImportBundle(null)}
+        />
+      )}
+
       <input
         ref={importInputRef}
         type="file"
-        accept="application/json"
+        accept={`application/json,.json,${PROJECT_PACKAGE_EXTENSION}`}
         className="hidden"
         onChange={handleImportFileChange}
       />
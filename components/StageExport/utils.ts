@@ -2,6 +2,7 @@
  * StageExport 工具函数
  */
 import { ProjectState, RenderLog } from '../../types';
+import { getTotalDuration } from '../../services/timelineService';
 
 /**
  * 收集并排序渲染日志
@@ -12,10 +13,10 @@ export const collectRenderLogs = (project: ProjectState): RenderLog[] => {
 };
 
 /**
- * 计算总时长
+ * 计算总时长（按入出点裁剪后）
  */
 export const calculateEstimatedDuration = (project: ProjectState): number => {
-  return project.shots.reduce((acc, shot) => acc + (shot.interval?.duration || 10), 0);
+  return getTotalDuration(project.shots);
 };
 
 /**
@@ -86,7 +87,8 @@ export const getLogTypeIcon = (type: string): string => {
     'character-variation': '👤',
     'scene': '🎬',
     'keyframe': '🖼️',
-    'video': '🎥'
+    'video': '🎥',
+    'audio': '🔊'
   };
   return iconMap[type] || '📝';
 };
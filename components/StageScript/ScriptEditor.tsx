@@ -1,5 +1,5 @@
-import React from 'react';
-import { Plus, RotateCw, BrainCircuit } from 'lucide-react';
+import React, { useRef } from 'react';
+import { Plus, RotateCw, BrainCircuit, FileUp } from 'lucide-react';
 import { STYLES } from './constants';
 
 interface Props {
@@ -7,6 +7,7 @@ interface Props {
   onChange: (value: string) => void;
   onContinue: () => void;
   onRewrite: () => void;
+  onImport: (file: File) => void;
   isContinuing: boolean;
   isRewriting: boolean;
   lastModified?: string;
@@ -17,6 +18,7 @@ const ScriptEditor: React.FC<Props> = ({
   onChange,
   onContinue,
   onRewrite,
+  onImport,
   isContinuing,
   isRewriting,
   lastModified
@@ -26,8 +28,15 @@ const ScriptEditor: React.FC<Props> = ({
     lines: script.split('\n').length
   };
 
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const isDisabled = isContinuing || isRewriting || !script.trim();
 
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onImport(file);
+  };
+
   return (
     <div className="flex-1 flex flex-col bg-[var(--bg-base)] relative">
       {/* Header */}
@@ -37,6 +46,26 @@ const ScriptEditor: React.FC<Props> = ({
           <span className="text-xs font-bold text-[var(--text-tertiary)]">剧本编辑器</span>
         </div>
         <div className="flex items-center gap-3">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isContinuing || isRewriting}
+            title="导入 Fountain / Final Draft (.fdx) / 纯文本剧本"
+            className={`px-3 py-1.5 text-xs font-bold rounded-md flex items-center gap-1.5 transition-all border ${
+              isContinuing || isRewriting
+                ? STYLES.button.disabled
+                : STYLES.button.secondary
+            }`}
+          >
+            <FileUp className="w-3.5 h-3.5" />
+            导入剧本
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".fountain,.spmd,.fdx,.txt,.md"
+            className="hidden"
+            onChange={handleFileChange}
+          />
           <button
             onClick={onContinue}
             disabled={isDisabled}
@@ -79,7 +108,7 @@ const ScriptEditor: React.FC<Props> = ({
               </>
             )}
           </button>
-          <span className="text-[10px] font-mono text-[var(--text-muted)] uppercase tracking-widest">MARKDOWN SUPPORTED</span>
+          <span className="text-[10px] font-mono text-[var(--text-muted)] uppercase tracking-widest">MARKDOWN / FOUNTAIN SUPPORTED</span>
         </div>
       </div>
       
@@ -90,7 +119,7 @@ const ScriptEditor: React.FC<Props> = ({
             value={script}
             onChange={(e) => onChange(e.target.value)}
             className="flex-1 bg-transparent text-[var(--text-secondary)] font-serif text-lg leading-loose focus:outline-none resize-none placeholder:text-[var(--text-muted)] selection:bg-[var(--bg-hover)]"
-            placeholder="在此输入故事大纲或直接粘贴剧本..."
+            placeholder="在此输入故事大纲或直接粘贴剧本（支持 Fountain 格式）..."
             spellCheck={false}
           />
         </div>
@@ -2,6 +2,10 @@ import React, { useState, useEffect } from 'react';
 import { ProjectState, Shot } from '../../types';
 import { useAlert } from '../GlobalAlert';
 import { parseScriptToData, generateShotList, continueScript, continueScriptStream, rewriteScript, rewriteScriptStream, setScriptLogCallback, clearScriptLogCallback, logScriptProgress } from '../../services/aiService';
+import { parseFdx, parseFountain, screenplayToFountain } from '../../services/screenplayService';
+import { createProjectSnapshot } from '../../services/storageService';
+import { runGenerationJob, JobCancelledError } from '../../services/jobQueueService';
+import { beginUndoGroup, endUndoGroup } from '../../services/undoHistoryService';
 import { getFinalValue, validateConfig } from './utils';
 import { DEFAULTS } from './constants';
 import ConfigPanel from './ConfigPanel';
@@ -59,6 +63,11 @@ const StageScript: React.FC<Props> = ({ project, updateProject, onShowModelConfi
     setLocalVisualStyle(project.visualStyle || DEFAULTS.visualStyle);
   }, [project.id]);
 
+  // 撤销/重做后同步剧本原文
+  useEffect(() => {
+    setLocalScript(project.rawScript);
+  }, [project.rawScript]);
+
   // 上报生成状态给父组件，用于导航锁定
   useEffect(() => {
     const generating = isProcessing || isContinuing || isRewriting;
@@ -107,10 +116,17 @@ const StageScript: React.FC<Props> = ({ project, updateProject, onShowModelConfi
     logScriptProgress(`最终使用模型：${finalModel}`);
     logScriptProgress(`视觉风格：${finalVisualStyle}`);
 
+    // 重新解析会替换剧本结构与全部分镜，先保存快照
+    if (project.scriptData || project.shots.length > 0) {
+      createProjectSnapshot(project, '解析剧本与生成分镜前').catch(e => console.error('自动快照失败', e));
+    }
+
     setIsProcessing(true);
     setProcessingMessage('正在解析剧本...');
     setProcessingLogs([]);
     setError(null);
+    // 写入配置、解析结果等多次更新合并为一个撤销步骤
+    beginUndoGroup();
     try {
       updateProject({
         title: localTitle,
@@ -122,23 +138,29 @@ const StageScript: React.FC<Props> = ({ project, updateProject, onShowModelConfi
         isParsingScript: true
       });
 
-      console.log('📞 调用 parseScriptToData, 传入模型:', finalModel);
-      logScriptProgress('开始解析剧本...');
-      const scriptData = await parseScriptToData(localScript, localLanguage, finalModel, finalVisualStyle);
-      
-      scriptData.targetDuration = finalDuration;
-      scriptData.language = localLanguage;
-      scriptData.visualStyle = finalVisualStyle;
-      scriptData.shotGenerationModel = finalModel;
-
-      if (localTitle && localTitle !== "未命名项目") {
-        scriptData.title = localTitle;
-      }
-
-      console.log('📞 调用 generateShotList, 传入模型:', finalModel);
-      logScriptProgress('开始生成分镜...');
-      setProcessingMessage('正在生成分镜...');
-      const shots = await generateShotList(scriptData, finalModel);
+      const { scriptData, shots } = await runGenerationJob(
+        { projectId: project.id, kind: 'chat', label: '解析剧本与生成分镜', target: { type: 'script', id: project.id } },
+        async ({ signal }) => {
+          console.log('📞 调用 parseScriptToData, 传入模型:', finalModel);
+          logScriptProgress('开始解析剧本...');
+          const scriptData = await parseScriptToData(localScript, localLanguage, finalModel, finalVisualStyle, signal);
+
+          scriptData.targetDuration = finalDuration;
+          scriptData.language = localLanguage;
+          scriptData.visualStyle = finalVisualStyle;
+          scriptData.shotGenerationModel = finalModel;
+
+          if (localTitle && localTitle !== "未命名项目") {
+            scriptData.title = localTitle;
+          }
+
+          console.log('📞 调用 generateShotList, 传入模型:', finalModel);
+          logScriptProgress('开始生成分镜...');
+          setProcessingMessage('正在生成分镜...');
+          const shots = await generateShotList(scriptData, finalModel, signal);
+          return { scriptData, shots };
+        }
+      );
 
       updateProject({ 
         scriptData, 
@@ -151,14 +173,70 @@ const StageScript: React.FC<Props> = ({ project, updateProject, onShowModelConfi
 
     } catch (err: any) {
       console.error(err);
-      setError(`错误: ${err.message || "AI 连接失败"}`);
+      if (!(err instanceof JobCancelledError)) {
+        setError(`错误: ${err.message || "AI 连接失败"}`);
+      }
       updateProject({ isParsingScript: false });
     } finally {
+      endUndoGroup();
       setIsProcessing(false);
       setProcessingMessage('');
     }
   };
 
+  const handleImportScript = async (file: File) => {
+    let text: string;
+    try {
+      text = await file.text();
+    } catch (err) {
+      console.error(err);
+      setError('读取剧本文件失败');
+      return;
+    }
+
+    const isFdx = /\.fdx$/i.test(file.name) || text.includes('<FinalDraft');
+    let content = text;
+    let title = '';
+    try {
+      if (isFdx) {
+        const parsed = parseFdx(text);
+        if (parsed.elements.length === 0) {
+          setError('未能从 Final Draft 文件中读取到剧本内容');
+          return;
+        }
+        content = screenplayToFountain(parsed);
+        title = parsed.metadata.title || '';
+      } else {
+        title = parseFountain(text).metadata.title || '';
+      }
+    } catch (err: any) {
+      console.error(err);
+      setError(`剧本导入失败: ${err.message || '无法解析文件'}`);
+      return;
+    }
+
+    const applyImport = () => {
+      if (localScript.trim()) {
+        createProjectSnapshot({ ...project, rawScript: localScript }, `导入剧本 ${file.name} 前`).catch(e => console.error('自动快照失败', e));
+      }
+      setError(null);
+      setLocalScript(content);
+      if (title && !localTitle.trim()) setLocalTitle(title);
+      updateProject({ rawScript: content });
+      showAlert(`已导入剧本 ${file.name}`, { type: 'success' });
+    };
+
+    if (localScript.trim()) {
+      showAlert('导入将替换当前剧本内容，确定继续吗？', {
+        type: 'warning',
+        showCancel: true,
+        onConfirm: applyImport
+      });
+    } else {
+      applyImport();
+    }
+  };
+
   const handleContinueScript = async () => {
     const finalModel = getFinalValue(localModel, customModelInput);
     
@@ -177,6 +255,8 @@ const StageScript: React.FC<Props> = ({ project, updateProject, onShowModelConfi
     setError(null);
     const baseScript = localScript;
     let streamed = '';
+    // 流式续写的逐段更新合并为一个撤销步骤
+    beginUndoGroup();
     try {
       const continuedContent = await continueScriptStream(
         baseScript,
@@ -206,6 +286,7 @@ const StageScript: React.FC<Props> = ({ project, updateProject, onShowModelConfi
         console.error(fallbackErr);
       }
     } finally {
+      endUndoGroup();
       setIsContinuing(false);
       setProcessingMessage('');
     }
@@ -228,7 +309,10 @@ const StageScript: React.FC<Props> = ({ project, updateProject, onShowModelConfi
     setProcessingLogs([]);
     setError(null);
     const baseScript = localScript;
+    createProjectSnapshot({ ...project, rawScript: baseScript }, 'AI改写剧本前').catch(e => console.error('自动快照失败', e));
     let streamed = '';
+    // 清空原文与流式改写的逐段更新合并为一个撤销步骤
+    beginUndoGroup();
     try {
       setLocalScript('');
       updateProject({ rawScript: '' });
@@ -257,6 +341,7 @@ const StageScript: React.FC<Props> = ({ project, updateProject, onShowModelConfi
         console.error(fallbackErr);
       }
     } finally {
+      endUndoGroup();
       setIsRewriting(false);
       setProcessingMessage('');
     }
@@ -535,7 +620,7 @@ const StageScript: React.FC<Props> = ({ project, updateProject, onShowModelConfi
     if (!shot) return;
 
     const displayName = getShotDisplayName(shot, shotIndex);
-    showAlert(`确定要删除 ${displayName} 吗？此操作不可撤销。`, {
+    showAlert(`确定要删除 ${displayName} 吗？可按 Ctrl+Z 撤销。`, {
       type: 'warning',
       showCancel: true,
       onConfirm: () => {
@@ -605,6 +690,7 @@ const StageScript: React.FC<Props> = ({ project, updateProject, onShowModelConfi
             onChange={setLocalScript}
             onContinue={handleContinueScript}
             onRewrite={handleRewriteScript}
+            onImport={handleImportScript}
             isContinuing={isContinuing}
             isRewriting={isRewriting}
             lastModified={project.lastModified}
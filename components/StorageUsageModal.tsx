@@ -0,0 +1,188 @@
+/**
+ * 存储空间面板
+ * 展示浏览器配额占用、各项目与资产库的媒体占用，并清理未被引用的孤立媒体
+ */
+
+import React, { useEffect, useState } from 'react';
+import { X, HardDrive, Loader2, AlertTriangle, Trash2, RefreshCw } from 'lucide-react';
+import { getStorageUsageReport, collectOrphanedMedia, StorageUsageReport } from '../services/storageService';
+import { useAlert } from './GlobalAlert';
+
+interface Props {
+  onClose: () => void;
+}
+
+const formatBytes = (bytes?: number): string => {
+  if (bytes === undefined) return '—';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+};
+
+const StorageUsageModal: React.FC<Props> = ({ onClose }) => {
+  const { showAlert } = useAlert();
+  const [report, setReport] = useState<StorageUsageReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCollecting, setIsCollecting] = useState(false);
+
+  const loadReport = async () => {
+    setIsLoading(true);
+    try {
+      setReport(await getStorageUsageReport());
+    } catch (error) {
+      console.error('Failed to load storage usage', error);
+      showAlert(`读取存储占用失败: ${error instanceof Error ? error.message : '未知错误'}`, { type: 'error' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadReport();
+  }, []);
+
+  const handleCollect = () => {
+    if (!report || isCollecting) return;
+    showAlert(`将删除 ${report.orphanCount} 个未被任何项目、快照或资产引用的媒体（约 ${formatBytes(report.orphanBytes)}），此操作无法撤销。是否继续？`, {
+      type: 'warning',
+      showCancel: true,
+      onConfirm: async () => {
+        setIsCollecting(true);
+        try {
+          const result = await collectOrphanedMedia();
+          showAlert(`清理完成：删除 ${result.removedCount} 个媒体，释放 ${formatBytes(result.freedBytes)}。`, { type: 'success' });
+          await loadReport();
+        } catch (error) {
+          console.error('Media GC failed:', error);
+          showAlert(`清理失败: ${error instanceof Error ? error.message : '未知错误'}`, { type: 'error' });
+        } finally {
+          setIsCollecting(false);
+        }
+      }
+    });
+  };
+
+  const usagePercent = report?.quota && report.usage !== undefined
+    ? Math.min(100, (report.usage / report.quota) * 100)
+    : 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-[var(--bg-base)]/70 p-6" onClick={onClose}>
+      <div
+        className="relative w-full max-w-2xl max-h-[85vh] flex flex-col bg-[var(--bg-primary)] border border-[var(--border-primary)] p-6 md:p-8"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button
+          onClick={onClose}
+          className="absolute right-4 top-4 p-2 text-[var(--text-tertiary)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-hover)] transition-colors"
+          title="关闭"
+        >
+          <X className="w-4 h-4" />
+        </button>
+        <div className="flex items-end justify-between border-b border-[var(--border-subtle)] pb-4 mb-6 shrink-0">
+          <div>
+            <h2 className="text-lg text-[var(--text-primary)] flex items-center gap-2">
+              <HardDrive className="w-4 h-4 text-[var(--accent-text)]" />
+              存储空间
+              <span className="text-[var(--text-muted)] text-xs font-mono uppercase tracking-widest">Storage</span>
+            </h2>
+            <p className="text-xs text-[var(--text-tertiary)] mt-2">共享的媒体在每个引用它的项目中都会计入</p>
+          </div>
+          <button
+            onClick={loadReport}
+            disabled={isLoading}
+            className="p-2 mr-8 text-[var(--text-tertiary)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-hover)] transition-colors disabled:opacity-50"
+            title="刷新"
+          >
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+
+        {isLoading && !report ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-6 h-6 text-[var(--text-muted)] animate-spin" />
+          </div>
+        ) : report && (
+          <div className="flex-1 overflow-y-auto space-y-6 pr-1">
+            <div className="space-y-2">
+              <div className="flex justify-between text-xs font-mono text-[var(--text-tertiary)]">
+                <span>浏览器存储 {formatBytes(report.usage)} / {formatBytes(report.quota)}</span>
+                <span>{report.quota ? `${usagePercent.toFixed(1)}%` : '配额未知'}</span>
+              </div>
+              <div className="h-2 bg-[var(--bg-elevated)] overflow-hidden">
+                <div
+                  className={`h-full ${report.nearQuota ? 'bg-[var(--error-text)]' : 'bg-[var(--accent)]'}`}
+                  style={{ width: `${usagePercent}%` }}
+                />
+              </div>
+              {report.nearQuota && (
+                <div className="flex items-center gap-2 text-xs text-[var(--error-text)]">
+                  <AlertTriangle className="w-3.5 h-3.5" />
+                  存储空间即将用尽，请清理孤立媒体或导出后删除不再需要的项目
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4 text-xs">
+              <div className="p-4 border border-[var(--border-primary)]">
+                <div className="text-[var(--text-muted)] font-mono">媒体库</div>
+                <div className="text-[var(--text-primary)] text-base mt-1">{formatBytes(report.mediaBytes)}</div>
+                <div className="text-[10px] text-[var(--text-tertiary)] font-mono mt-1">{report.mediaCount} 个文件（已去重）</div>
+              </div>
+              <div className="p-4 border border-[var(--border-primary)]">
+                <div className="text-[var(--text-muted)] font-mono">资产库</div>
+                <div className="text-[var(--text-primary)] text-base mt-1">{formatBytes(report.assetLibrary.bytes)}</div>
+                <div className="text-[10px] text-[var(--text-tertiary)] font-mono mt-1">{report.assetLibrary.count} 个资产 · {report.assetLibrary.mediaCount} 个媒体</div>
+              </div>
+            </div>
+
+            <div>
+              <div className="text-[10px] font-bold text-[var(--text-tertiary)] uppercase tracking-widest mb-2">项目占用</div>
+              {report.projects.length === 0 ? (
+                <p className="text-xs text-[var(--text-muted)]">暂无项目</p>
+              ) : (
+                <div className="divide-y divide-[var(--border-subtle)] border border-[var(--border-primary)]">
+                  {report.projects.map(entry => (
+                    <div key={entry.id} className="flex items-center justify-between px-4 py-2.5 text-xs">
+                      <span className="flex items-center gap-2 text-[var(--text-secondary)] truncate">
+                        {entry.nearQuota && (
+                          <span title="该项目占用超过浏览器配额的 20%">
+                            <AlertTriangle className="w-3.5 h-3.5 text-[var(--warning-text)] shrink-0" />
+                          </span>
+                        )}
+                        <span className="truncate">{entry.title}</span>
+                      </span>
+                      <span className="font-mono text-[var(--text-tertiary)] shrink-0 ml-4">
+                        {entry.snapshotCount > 0 && `${entry.snapshotCount} 个快照 · `}{entry.mediaCount} 个媒体 · {formatBytes(entry.bytes)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between p-4 border border-[var(--border-primary)]">
+              <div className="text-xs">
+                <div className="text-[var(--text-primary)] font-bold">孤立媒体</div>
+                <div className="text-[10px] text-[var(--text-tertiary)] font-mono mt-1">
+                  {report.orphanCount} 个 · {formatBytes(report.orphanBytes)}（重新生成或删除镜头后遗留）
+                </div>
+              </div>
+              <button
+                onClick={handleCollect}
+                disabled={report.orphanCount === 0 || isCollecting}
+                className="flex items-center gap-2 px-4 py-2 border border-[var(--border-primary)] text-xs text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:border-[var(--border-secondary)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isCollecting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Trash2 className="w-3.5 h-3.5" />}
+                清理
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StorageUsageModal;
@@ -0,0 +1,197 @@
+/**
+ * 团队同步设置
+ * 配置自托管同步服务器地址与访问令牌，启用后项目、资产库与媒体保存到服务器，供团队成员共同编辑
+ */
+
+import React, { useState } from 'react';
+import { X, Users, Loader2, Upload, PlugZap } from 'lucide-react';
+import { loadSyncConfig, saveSyncConfig, testSyncConnection, SyncConfig } from '../services/syncService';
+import { uploadLocalDataToServer } from '../services/storageService';
+import { useAlert } from './GlobalAlert';
+
+interface Props {
+  onClose: () => void;
+  /** 配置变更后刷新项目列表 */
+  onChanged: () => void;
+}
+
+const SyncSettingsModal: React.FC<Props> = ({ onClose, onChanged }) => {
+  const { showAlert } = useAlert();
+  const [config, setConfig] = useState<SyncConfig>(loadSyncConfig);
+  const [isTesting, setIsTesting] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const savedConfig = loadSyncConfig();
+  const isActive = savedConfig.enabled && !!savedConfig.serverUrl;
+
+  const handleTest = async () => {
+    if (!config.serverUrl.trim()) {
+      showAlert('请先填写同步服务器地址。', { type: 'warning' });
+      return;
+    }
+    setIsTesting(true);
+    try {
+      await testSyncConnection({ ...config, serverUrl: config.serverUrl.trim() });
+      showAlert('连接成功。', { type: 'success' });
+    } catch (error) {
+      showAlert(`连接失败: ${error instanceof Error ? error.message : '未知错误'}`, { type: 'error' });
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const handleSave = async (enabled: boolean) => {
+    const next = { ...config, enabled, serverUrl: config.serverUrl.trim() };
+    if (enabled) {
+      if (!next.serverUrl) {
+        showAlert('请先填写同步服务器地址。', { type: 'warning' });
+        return;
+      }
+      setIsTesting(true);
+      try {
+        await testSyncConnection(next);
+      } catch (error) {
+        showAlert(`无法启用团队同步: ${error instanceof Error ? error.message : '未知错误'}`, { type: 'error' });
+        return;
+      } finally {
+        setIsTesting(false);
+      }
+    }
+    saveSyncConfig(next);
+    setConfig(next);
+    onChanged();
+    showAlert(enabled ? '已启用团队同步，项目列表已切换为服务器上的项目。' : '已关闭团队同步，恢复使用本机存储。', { type: 'success' });
+  };
+
+  const handleUpload = () => {
+    showAlert('将本机的全部项目与资产库上传到同步服务器。服务器上已被他人修改过的同名项目不会被覆盖。是否继续？', {
+      type: 'warning',
+      showCancel: true,
+      onConfirm: async () => {
+        setIsUploading(true);
+        try {
+          const result = await uploadLocalDataToServer();
+          onChanged();
+          showAlert(
+            `上传完成：项目 ${result.projects} 个，资产 ${result.assets} 个${result.conflicts > 0 ? `，${result.conflicts} 个项目因服务器版本不同未上传` : ''}。`,
+            { type: 'success' }
+          );
+        } catch (error) {
+          showAlert(`上传失败: ${error instanceof Error ? error.message : '未知错误'}`, { type: 'error' });
+        } finally {
+          setIsUploading(false);
+        }
+      }
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-[var(--bg-base)]/70 p-6" onClick={onClose}>
+      <div
+        className="relative w-full max-w-lg bg-[var(--bg-primary)] border border-[var(--border-primary)] p-6 md:p-8"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <button
+          onClick={onClose}
+          className="absolute right-4 top-4 p-2 text-[var(--text-tertiary)] hover:text-[var(--text-primary)] hover:bg-[var(--bg-hover)] transition-colors"
+          title="关闭"
+        >
+          <X className="w-4 h-4" />
+        </button>
+        <div className="border-b border-[var(--border-subtle)] pb-4 mb-6">
+          <h2 className="text-lg text-[var(--text-primary)] flex items-center gap-2">
+            <Users className="w-4 h-4 text-[var(--accent-text)]" />
+            团队同步
+            <span className="text-[var(--text-muted)] text-xs font-mono uppercase tracking-widest">Sync</span>
+          </h2>
+          <p className="text-xs text-[var(--text-tertiary)] mt-2">
+            连接自托管的同步服务器（sync-server），与团队成员共享项目与资产库。未启用时数据仅保存在本机浏览器。
+          </p>
+        </div>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-2 text-xs font-mono">
+            <span className={`w-2 h-2 rounded-full ${isActive ? 'bg-[var(--success)]' : 'bg-[var(--text-muted)]'}`} />
+            <span className="text-[var(--text-secondary)]">{isActive ? `已连接 ${savedConfig.serverUrl}` : '本机存储（离线模式）'}</span>
+          </div>
+
+          <label className="block space-y-1.5">
+            <span className="text-[10px] font-bold text-[var(--text-tertiary)] uppercase tracking-widest">服务器地址</span>
+            <input
+              type="text"
+              value={config.serverUrl}
+              onChange={(e) => setConfig(prev => ({ ...prev, serverUrl: e.target.value }))}
+              placeholder="http://192.168.1.10:3006"
+              className="w-full bg-[var(--bg-base)] border border-[var(--border-primary)] text-[var(--text-primary)] px-3 py-2 text-xs font-mono focus:outline-none focus:border-[var(--border-secondary)]"
+            />
+          </label>
+
+          <label className="block space-y-1.5">
+            <span className="text-[10px] font-bold text-[var(--text-tertiary)] uppercase tracking-widest">访问令牌（可选）</span>
+            <input
+              type="password"
+              value={config.token || ''}
+              onChange={(e) => setConfig(prev => ({ ...prev, token: e.target.value }))}
+              placeholder="与服务器 SYNC_TOKEN 一致"
+              className="w-full bg-[var(--bg-base)] border border-[var(--border-primary)] text-[var(--text-primary)] px-3 py-2 text-xs font-mono focus:outline-none focus:border-[var(--border-secondary)]"
+            />
+          </label>
+
+          <div className="flex flex-wrap gap-2 pt-2">
+            <button
+              onClick={handleTest}
+              disabled={isTesting}
+              className="flex items-center gap-2 px-4 py-2 border border-[var(--border-primary)] text-xs text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:border-[var(--border-secondary)] transition-colors disabled:opacity-50"
+            >
+              {isTesting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <PlugZap className="w-3.5 h-3.5" />}
+              测试连接
+            </button>
+            {isActive ? (
+              <>
+                <button
+                  onClick={() => handleSave(true)}
+                  disabled={isTesting}
+                  className="px-4 py-2 bg-[var(--btn-primary-bg)] text-[var(--btn-primary-text)] hover:bg-[var(--btn-primary-hover)] text-xs font-bold transition-colors disabled:opacity-50"
+                >
+                  保存
+                </button>
+                <button
+                  onClick={() => handleSave(false)}
+                  className="px-4 py-2 border border-[var(--border-primary)] text-xs text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:border-[var(--border-secondary)] transition-colors"
+                >
+                  关闭同步
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={() => handleSave(true)}
+                disabled={isTesting}
+                className="px-4 py-2 bg-[var(--btn-primary-bg)] text-[var(--btn-primary-text)] hover:bg-[var(--btn-primary-hover)] text-xs font-bold transition-colors disabled:opacity-50"
+              >
+                启用同步
+              </button>
+            )}
+          </div>
+
+          {isActive && (
+            <div className="flex items-center justify-between p-4 border border-[var(--border-primary)] mt-2">
+              <div className="text-xs">
+                <div className="text-[var(--text-primary)] font-bold">上传本机数据</div>
+                <div className="text-[10px] text-[var(--text-tertiary)] font-mono mt-1">将启用同步前创建的项目与资产上传到服务器</div>
+              </div>
+              <button
+                onClick={handleUpload}
+                disabled={isUploading}
+                className="flex items-center gap-2 px-4 py-2 border border-[var(--border-primary)] text-xs text-[var(--text-secondary)] hover:text-[var(--text-primary)] hover:border-[var(--border-secondary)] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isUploading ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Upload className="w-3.5 h-3.5" />}
+                上传
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SyncSettingsModal;
@@ -0,0 +1,484 @@
+/**
+ * 通用异步视频任务适配器
+ * 按模型的任务协议描述创建任务、轮询状态并下载结果，Kling、Runway、海螺、万相等服务共用同一个轮询流程
+ */
+
+import { AspectRatio, AsyncVideoTaskProtocol, VideoDuration } from '../../types/model';
+import { blobToDataUrl } from '../mediaStoreService';
+
+/**
+ * 协议占位符说明，供协议编辑器展示
+ */
+export const VIDEO_TASK_PLACEHOLDERS: { key: string; description: string }[] = [
+  { key: '{{prompt}}', description: '提示词' },
+  { key: '{{model}}', description: 'API 模型名' },
+  { key: '{{duration}}', description: '时长（秒）' },
+  { key: '{{aspect_ratio}}', description: '画面比例，如 16:9' },
+  { key: '{{width}}', description: '宽度（按画面比例换算）' },
+  { key: '{{height}}', description: '高度（按画面比例换算）' },
+  { key: '{{start_image}}', description: '首帧图（data URL，multipart 时作为文件上传）' },
+  { key: '{{end_image}}', description: '尾帧图（data URL）' },
+  { key: '{{start_image_base64}}', description: '首帧图（不含 data: 前缀的 Base64）' },
+  { key: '{{end_image_base64}}', description: '尾帧图（不含 data: 前缀的 Base64）' },
+  { key: '{{api_key}}', description: 'API Key（用于请求头）' },
+  { key: '{{task_id}}', description: '任务 ID（用于查询与取消地址）' },
+  { key: '{{result}}', description: '结果字段的值（用于二次查询地址）' },
+];
+
+/**
+ * 常见视频服务的协议预设，基础 URL 需在提供商中填写对应服务的地址
+ */
+export const ASYNC_VIDEO_PROTOCOL_PRESETS: { id: string; label: string; hint: string; protocol: AsyncVideoTaskProtocol }[] = [
+  {
+    id: 'kling',
+    label: '可灵 Kling',
+    hint: '基础 URL 如 https://api-singapore.klingai.com，API Key 填写由 AccessKey/SecretKey 签发的 JWT；图生视频需要首帧图',
+    protocol: {
+      createEndpoint: '/v1/videos/image2video',
+      bodyFormat: 'json',
+      body: {
+        model_name: '{{model}}',
+        prompt: '{{prompt}}',
+        image: '{{start_image_base64}}',
+        image_tail: '{{end_image_base64}}',
+        duration: '5',
+        mode: 'std',
+      },
+      taskIdPath: 'data.task_id',
+      statusEndpoint: '/v1/videos/image2video/{{task_id}}',
+      statusPath: 'data.task_status',
+      successValues: ['succeed'],
+      failureValues: ['failed'],
+      errorPath: 'data.task_status_msg',
+      resultUrlPath: 'data.task_result.videos.0.url',
+      pollIntervalMs: 5000,
+      timeoutMs: 1200000,
+    },
+  },
+  {
+    id: 'runway',
+    label: 'Runway',
+    hint: '基础 URL 如 https://api.dev.runwayml.com，API 模型名如 gen4_turbo；图生视频需要首帧图',
+    protocol: {
+      createEndpoint: '/v1/image_to_video',
+      bodyFormat: 'json',
+      body: {
+        model: '{{model}}',
+        promptText: '{{prompt}}',
+        promptImage: '{{start_image}}',
+        ratio: '{{width}}:{{height}}',
+        duration: 5,
+      },
+      headers: { 'X-Runway-Version': '2024-11-06' },
+      taskIdPath: 'id',
+      statusEndpoint: '/v1/tasks/{{task_id}}',
+      statusPath: 'status',
+      successValues: ['SUCCEEDED'],
+      failureValues: ['FAILED', 'CANCELLED'],
+      errorPath: 'failure',
+      resultUrlPath: 'output.0',
+      cancelEndpoint: '/v1/tasks/{{task_id}}',
+      cancelMethod: 'DELETE',
+      pollIntervalMs: 5000,
+      timeoutMs: 1200000,
+    },
+  },
+  {
+    id: 'hailuo',
+    label: '海螺 Hailuo',
+    hint: '基础 URL 如 https://api.minimaxi.com，API 模型名如 MiniMax-Hailuo-02；任务完成后凭 file_id 查询下载地址',
+    protocol: {
+      createEndpoint: '/v1/video_generation',
+      bodyFormat: 'json',
+      body: {
+        model: '{{model}}',
+        prompt: '{{prompt}}',
+        first_frame_image: '{{start_image}}',
+        duration: 6,
+      },
+      taskIdPath: 'task_id',
+      statusEndpoint: '/v1/query/video_generation?task_id={{task_id}}',
+      statusPath: 'status',
+      successValues: ['Success'],
+      failureValues: ['Fail'],
+      errorPath: 'base_resp.status_msg',
+      resultUrlPath: 'file_id',
+      resultEndpoint: '/v1/files/retrieve?file_id={{result}}',
+      resultEndpointUrlPath: 'file.download_url',
+      pollIntervalMs: 10000,
+      timeoutMs: 1200000,
+    },
+  },
+  {
+    id: 'wan',
+    label: '通义万相 Wan',
+    hint: '基础 URL 如 https://dashscope.aliyuncs.com，API 模型名如 wan2.2-i2v-plus；图生视频需要首帧图',
+    protocol: {
+      createEndpoint: '/api/v1/services/aigc/video-generation/video-synthesis',
+      bodyFormat: 'json',
+      body: {
+        model: '{{model}}',
+        input: { prompt: '{{prompt}}', img_url: '{{start_image}}' },
+        parameters: { resolution: '720P', duration: 5 },
+      },
+      headers: { 'X-DashScope-Async': 'enable' },
+      taskIdPath: 'output.task_id',
+      statusEndpoint: '/api/v1/tasks/{{task_id}}',
+      statusPath: 'output.task_status',
+      successValues: ['SUCCEEDED'],
+      failureValues: ['FAILED', 'CANCELED', 'UNKNOWN'],
+      errorPath: 'output.message',
+      resultUrlPath: 'output.video_url',
+      cancelEndpoint: '/api/v1/tasks/{{task_id}}/cancel',
+      cancelMethod: 'POST',
+      pollIntervalMs: 10000,
+      timeoutMs: 1200000,
+    },
+  },
+];
+
+export interface AsyncVideoTaskConfig {
+  apiBase: string;
+  apiKey?: string;
+  apiModel: string;
+}
+
+export interface AsyncVideoTaskRequest {
+  prompt: string;
+  /** data URL */
+  startImage?: string;
+  /** data URL */
+  endImage?: string;
+  aspectRatio: AspectRatio;
+  duration: VideoDuration;
+  signal?: AbortSignal;
+}
+
+const DEFAULT_POLL_INTERVAL = 5000;
+const DEFAULT_TIMEOUT_MS = 1200000;
+
+/** 各画面比例对应的视频尺寸 */
+const VIDEO_SIZES: Record<AspectRatio, { width: number; height: number }> = {
+  '16:9': { width: 1280, height: 720 },
+  '9:16': { width: 720, height: 1280 },
+  '1:1': { width: 720, height: 720 },
+};
+
+/**
+ * 校验任务协议，返回错误说明；有效时返回 null
+ */
+export const validateAsyncVideoProtocol = (value: any): string | null => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return '协议必须是 JSON 对象';
+  const requiredFields = ['createEndpoint', 'taskIdPath', 'statusEndpoint', 'statusPath', 'resultUrlPath'];
+  const missing = requiredFields.find(field => typeof value[field] !== 'string' || !value[field].trim());
+  if (missing) return `缺少字段 ${missing}`;
+  if (value.bodyFormat !== 'json' && value.bodyFormat !== 'multipart') return 'bodyFormat 只能是 json 或 multipart';
+  if (!value.body || typeof value.body !== 'object' || Array.isArray(value.body)) return 'body 必须是对象';
+  if (!Array.isArray(value.successValues) || value.successValues.length === 0) return 'successValues 至少需要一个状态值';
+  if (!Array.isArray(value.failureValues)) return 'failureValues 必须是数组';
+  if (value.headers !== undefined && (typeof value.headers !== 'object' || Array.isArray(value.headers))) return 'headers 必须是对象';
+  if (value.resultEndpoint && !value.resultEndpointUrlPath) return '设置 resultEndpoint 时需要同时设置 resultEndpointUrlPath';
+  if (value.cancelMethod !== undefined && value.cancelMethod !== 'POST' && value.cancelMethod !== 'DELETE') return 'cancelMethod 只能是 POST 或 DELETE';
+  for (const field of ['pollIntervalMs', 'timeoutMs']) {
+    if (value[field] !== undefined && !(typeof value[field] === 'number' && value[field] > 0)) return `${field} 必须是正数`;
+  }
+  return null;
+};
+
+/**
+ * 按点号路径读取字段，数组下标同样以点号分隔
+ */
+const getValueAtPath = (data: any, path: string): any =>
+  path.split('.').filter(Boolean).reduce((node, key) => (node == null ? undefined : node[key]), data);
+
+const renderText = (text: string, values: Record<string, string | number>, encode: boolean = false): string =>
+  text.replace(/\{\{(\w+)\}\}/g, (match, key) => {
+    if (!(key in values)) return match;
+    return encode ? encodeURIComponent(String(values[key])) : String(values[key]);
+  });
+
+/**
+ * 渲染请求体模板
+ * 整个字符串恰好是一个数值占位符时替换为数字；渲染后为空字符串的字段省略（如未提供尾帧时的图片字段）
+ */
+const renderBody = (node: any, values: Record<string, string | number>): any => {
+  if (typeof node === 'string') {
+    const exact = node.match(/^\{\{(\w+)\}\}$/);
+    if (exact && typeof values[exact[1]] === 'number') return values[exact[1]];
+    return renderText(node, values);
+  }
+  if (Array.isArray(node)) return node.map(item => renderBody(item, values)).filter(item => item !== '');
+  if (node && typeof node === 'object') {
+    return Object.fromEntries(
+      Object.entries(node)
+        .map(([key, value]) => [key, renderBody(value, values)])
+        .filter(([, value]) => value !== '')
+    );
+  }
+  return node;
+};
+
+const resolveUrl = (apiBase: string, endpoint: string, values: Record<string, string | number>): string => {
+  const rendered = renderText(endpoint, values, true);
+  if (/^https?:\/\//i.test(rendered)) return rendered;
+  return `${apiBase}${rendered.startsWith('/') ? '' : '/'}${rendered}`;
+};
+
+const getHeaders = (
+  protocol: AsyncVideoTaskProtocol,
+  config: AsyncVideoTaskConfig,
+  json: boolean
+): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  if (json) headers['Content-Type'] = 'application/json';
+  if (config.apiKey) headers['Authorization'] = `Bearer ${config.apiKey}`;
+  Object.entries(protocol.headers || {}).forEach(([key, value]) => {
+    headers[key] = renderText(String(value), { api_key: config.apiKey || '' });
+  });
+  return headers;
+};
+
+/**
+ * 构造带 HTTP 状态码的错误
+ */
+const createTaskError = async (res: Response, prefix: string): Promise<Error> => {
+  let detail = '';
+  try {
+    const text = await res.text();
+    try {
+      const data = JSON.parse(text);
+      detail = data.error?.message || data.error || data.message || data.msg || text;
+      if (typeof detail !== 'string') detail = JSON.stringify(detail);
+    } catch (e) {
+      detail = text;
+    }
+  } catch (e) {
+    // 忽略响应体读取失败
+  }
+  const err: any = new Error(`${prefix}: HTTP ${res.status}${detail ? ` ${detail.slice(0, 300)}` : ''}`);
+  err.status = res.status;
+  return err;
+};
+
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+const stripDataUrlPrefix = (dataUrl?: string): string => dataUrl?.replace(/^data:[^;]+;base64,/, '') || '';
+
+const getRequestValues = (config: AsyncVideoTaskConfig, request: AsyncVideoTaskRequest): Record<string, string | number> => {
+  const { width, height } = VIDEO_SIZES[request.aspectRatio];
+  return {
+    prompt: request.prompt,
+    model: config.apiModel,
+    duration: request.duration,
+    aspect_ratio: request.aspectRatio,
+    width,
+    height,
+    start_image: request.startImage || '',
+    end_image: request.endImage || '',
+    start_image_base64: stripDataUrlPrefix(request.startImage),
+    end_image_base64: stripDataUrlPrefix(request.endImage),
+  };
+};
+
+/**
+ * 将渲染后的请求体转为表单：data URL 作为文件上传，数组逐项追加，对象序列化为 JSON
+ */
+const buildFormData = async (body: Record<string, any>): Promise<FormData> => {
+  const form = new FormData();
+  const append = async (key: string, value: any) => {
+    if (typeof value === 'string' && value.startsWith('data:')) {
+      const blob = await (await fetch(value)).blob();
+      const ext = blob.type.split('/')[1] || 'png';
+      form.append(key, blob, `${key.replace(/\W/g, '') || 'file'}.${ext}`);
+    } else if (value && typeof value === 'object') {
+      form.append(key, JSON.stringify(value));
+    } else {
+      form.append(key, String(value));
+    }
+  };
+  for (const [key, value] of Object.entries(body)) {
+    if (Array.isArray(value)) {
+      for (const item of value) await append(key, item);
+    } else {
+      await append(key, value);
+    }
+  }
+  return form;
+};
+
+/**
+ * 创建视频任务，返回任务 ID
+ */
+export const createAsyncVideoTask = async (
+  protocol: AsyncVideoTaskProtocol,
+  config: AsyncVideoTaskConfig,
+  request: AsyncVideoTaskRequest
+): Promise<string> => {
+  const values = getRequestValues(config, request);
+  const body = renderBody(protocol.body, values);
+  const isJson = protocol.bodyFormat !== 'multipart';
+
+  const res = await fetch(resolveUrl(config.apiBase, protocol.createEndpoint, values), {
+    method: 'POST',
+    headers: getHeaders(protocol, config, isJson),
+    body: isJson ? JSON.stringify(body) : await buildFormData(body),
+    signal: request.signal,
+  });
+  if (!res.ok) throw await createTaskError(res, '创建视频任务失败');
+
+  const data = await res.json();
+  const taskId = getValueAtPath(data, protocol.taskIdPath);
+  if (taskId == null || taskId === '') {
+    const detail = JSON.stringify(data).slice(0, 300);
+    throw new Error(`创建视频任务失败：响应中未找到任务 ID（${protocol.taskIdPath}）${detail}`);
+  }
+  return String(taskId);
+};
+
+/**
+ * 取消远程视频任务（尽力而为，协议未配置取消地址时跳过）
+ */
+export const cancelAsyncVideoTask = async (
+  protocol: AsyncVideoTaskProtocol,
+  config: AsyncVideoTaskConfig,
+  taskId: string
+): Promise<void> => {
+  if (!protocol.cancelEndpoint) return;
+  try {
+    const res = await fetch(resolveUrl(config.apiBase, protocol.cancelEndpoint, { task_id: taskId }), {
+      method: protocol.cancelMethod || 'POST',
+      headers: getHeaders(protocol, config, false),
+    });
+    if (res.ok) {
+      console.log(`🛑 远程视频任务已取消: ${taskId}`);
+    } else {
+      console.warn(`⚠️ 远程视频任务取消失败: HTTP ${res.status}`);
+    }
+  } catch (e) {
+    console.warn('⚠️ 远程视频任务取消失败', e);
+  }
+};
+
+/**
+ * 查询结果的二次接口，取出视频地址
+ */
+const fetchResultUrl = async (
+  protocol: AsyncVideoTaskProtocol,
+  config: AsyncVideoTaskConfig,
+  result: string,
+  signal?: AbortSignal
+): Promise<string> => {
+  const res = await fetch(resolveUrl(config.apiBase, protocol.resultEndpoint!, { result }), {
+    headers: getHeaders(protocol, config, false),
+    signal,
+  });
+  if (!res.ok) throw await createTaskError(res, '查询视频结果失败');
+  const url = getValueAtPath(await res.json(), protocol.resultEndpointUrlPath!);
+  if (!url) throw new Error(`查询视频结果失败：响应中未找到视频地址（${protocol.resultEndpointUrlPath}）`);
+  return String(url);
+};
+
+/**
+ * 下载视频并转为 data URL；跨域等原因无法下载时返回原始地址
+ */
+const downloadVideo = async (url: string, signal?: AbortSignal): Promise<string> => {
+  try {
+    const res = await fetch(url, { signal });
+    if (!res.ok) throw new Error(`视频下载失败: HTTP ${res.status}`);
+    return await blobToDataUrl(await res.blob());
+  } catch (error) {
+    if (signal?.aborted) throw signal.reason;
+    console.error('❌ 视频下载失败，返回原始地址:', error);
+    return url;
+  }
+};
+
+/**
+ * 轮询任务直至完成并下载视频
+ * 页面刷新后可凭任务 ID 从这里继续；轮询期间被取消时同时取消远程任务
+ */
+export const waitForAsyncVideoTask = async (
+  protocol: AsyncVideoTaskProtocol,
+  config: AsyncVideoTaskConfig,
+  taskId: string,
+  signal?: AbortSignal
+): Promise<string> => {
+  const pollInterval = protocol.pollIntervalMs || DEFAULT_POLL_INTERVAL;
+  const timeoutMs = protocol.timeoutMs || DEFAULT_TIMEOUT_MS;
+  const deadline = Date.now() + timeoutMs;
+  const statusUrl = resolveUrl(config.apiBase, protocol.statusEndpoint, { task_id: taskId });
+
+  try {
+    while (Date.now() < deadline) {
+      await wait(pollInterval, signal);
+
+      const res = await fetch(statusUrl, {
+        headers: { Accept: 'application/json', ...getHeaders(protocol, config, false) },
+        signal,
+      });
+      if (!res.ok) {
+        // 鉴权失败或任务不存在时继续轮询没有意义
+        if (res.status >= 400 && res.status < 500 && res.status !== 429) {
+          throw await createTaskError(res, '查询视频任务失败');
+        }
+        console.warn(`⚠️ 查询任务状态失败 HTTP ${res.status}，继续重试...`);
+        continue;
+      }
+
+      const data = await res.json();
+      const status = String(getValueAtPath(data, protocol.statusPath) ?? '');
+      console.log(`🔄 视频任务 ${taskId} 状态:`, status);
+
+      if (protocol.failureValues.includes(status)) {
+        const reason = protocol.errorPath ? getValueAtPath(data, protocol.errorPath) : undefined;
+        const message = typeof reason === 'string' ? reason : reason ? JSON.stringify(reason) : '未知错误';
+        throw new Error(`视频生成失败: ${message}`);
+      }
+      if (!protocol.successValues.includes(status)) continue;
+
+      const result = getValueAtPath(data, protocol.resultUrlPath);
+      if (!result) throw new Error(`视频生成失败：响应中未找到结果（${protocol.resultUrlPath}）`);
+      const videoUrl = protocol.resultEndpoint
+        ? await fetchResultUrl(protocol, config, String(result), signal)
+        : String(result);
+      console.log('✅ 视频任务完成，正在下载...');
+      return downloadVideo(videoUrl, signal);
+    }
+  } catch (error) {
+    if (signal?.aborted) cancelAsyncVideoTask(protocol, config, taskId);
+    throw error;
+  }
+
+  throw new Error(`视频生成超时 (${Math.round(timeoutMs / 60000)}分钟)`);
+};
+
+/**
+ * 创建任务并等待结果
+ * onTaskCreated 回传任务 ID，供页面刷新后恢复
+ */
+export const requestAsyncVideo = async (
+  protocol: AsyncVideoTaskProtocol,
+  config: AsyncVideoTaskConfig,
+  request: AsyncVideoTaskRequest,
+  onTaskCreated?: (taskId: string) => void
+): Promise<string> => {
+  const taskId = await createAsyncVideoTask(protocol, config, request);
+  console.log('📋 视频任务已创建，任务 ID:', taskId);
+  onTaskCreated?.(taskId);
+  return waitForAsyncVideoTask(protocol, config, taskId, request.signal);
+};
@@ -0,0 +1,192 @@
+/**
+ * 配音（TTS）模型适配器
+ * 处理 OpenAI 兼容的 Audio Speech API，以及本地离线占位配音
+ */
+
+import { AudioModelDefinition, AudioGenerateOptions, LOCAL_PROVIDER_ID } from '../../types/model';
+import { getApiKeyForModel, getApiBaseUrlForModel, getActiveAudioModel } from '../modelRegistry';
+import { ApiKeyError } from './chatAdapter';
+import { retryOperation } from '../ai/apiCore';
+
+/**
+ * 将二进制数据转换为 base64 data URL
+ */
+const bytesToDataUrl = (bytes: Uint8Array, mimeType: string): string => {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+};
+
+// ============================================
+// 本地离线占位配音
+// ============================================
+
+const LOCAL_SAMPLE_RATE = 16000;
+
+/** 本地音色对应的基础音高（Hz） */
+const LOCAL_VOICE_PITCH: Record<string, number> = {
+  neutral: 180,
+  male: 120,
+  female: 220,
+  child: 300,
+  elder: 140,
+};
+
+/**
+ * 将台词拆分为音节（中日韩字符按字，其他按词），标点视为停顿
+ */
+const splitSyllables = (text: string): string[] => {
+  return text.match(/[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]|[A-Za-z0-9']+|[，。！？、；：,.!?;:…—\n]/g) || [];
+};
+
+/**
+ * 生成占位配音（WAV）
+ * 按音节生成起伏的音调，时长与台词长度、语速对应，结果完全确定，便于离线剪辑对时
+ */
+const synthesizeLocalSpeech = (text: string, voice: string, speed: number): string => {
+  const syllables = splitSyllables(text);
+  const basePitch = LOCAL_VOICE_PITCH[voice]
+    ?? 150 + ([...voice].reduce((acc, ch) => acc + ch.charCodeAt(0), 0) % 150);
+  const rate = Math.min(Math.max(speed || 1, 0.25), 4);
+  const syllableLength = 0.22 / rate;
+  const pauseLength = 0.3 / rate;
+
+  // 先计算总采样数
+  const segments = syllables.map(s => ({
+    isPause: /^[，。！？、；：,.!?;:…—\n]$/.test(s),
+    seed: [...s].reduce((acc, ch) => acc + ch.charCodeAt(0), 0),
+  }));
+  const tail = 0.3;
+  const totalSeconds = Math.max(
+    0.8,
+    segments.reduce((acc, seg) => acc + (seg.isPause ? pauseLength : syllableLength), 0) + tail
+  );
+  const totalSamples = Math.ceil(totalSeconds * LOCAL_SAMPLE_RATE);
+  const samples = new Int16Array(totalSamples);
+
+  let cursor = 0;
+  for (const seg of segments) {
+    const length = Math.floor((seg.isPause ? pauseLength : syllableLength) * LOCAL_SAMPLE_RATE);
+    if (!seg.isPause) {
+      const pitch = basePitch * (0.85 + (seg.seed % 30) / 100);
+      for (let i = 0; i < length && cursor + i < totalSamples; i++) {
+        const t = i / LOCAL_SAMPLE_RATE;
+        const envelope = Math.sin(Math.PI * (i / length));
+        const value = (Math.sin(2 * Math.PI * pitch * t) + 0.3 * Math.sin(4 * Math.PI * pitch * t)) * envelope * 0.25;
+        samples[cursor + i] = Math.round(value * 32767);
+      }
+    }
+    cursor += length;
+  }
+
+  // 写入 WAV 文件头（PCM 16bit 单声道）
+  const dataSize = samples.length * 2;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, LOCAL_SAMPLE_RATE, true);
+  view.setUint32(28, LOCAL_SAMPLE_RATE * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+  samples.forEach((sample, i) => view.setInt16(44 + i * 2, sample, true));
+
+  return bytesToDataUrl(new Uint8Array(buffer), 'audio/wav');
+};
+
+// ============================================
+// 配音调用
+// ============================================
+
+/**
+ * 调用配音模型 API
+ * @returns base64 格式的音频数据（data:audio/...;base64,...）
+ */
+export const callAudioApi = async (
+  options: AudioGenerateOptions,
+  model?: AudioModelDefinition
+): Promise<string> => {
+  // 获取当前激活的模型
+  const activeModel = model || getActiveAudioModel();
+  if (!activeModel) {
+    throw new Error('没有可用的配音模型');
+  }
+
+  const text = options.text.trim();
+  if (!text) {
+    throw new Error('台词为空，无法生成配音');
+  }
+
+  const voice = options.voice || activeModel.params.defaultVoice;
+  const speed = options.speed ?? activeModel.params.speed;
+
+  // 本地离线模型：直接在浏览器内生成
+  if (activeModel.providerId === LOCAL_PROVIDER_ID) {
+    return synthesizeLocalSpeech(text, voice, speed);
+  }
+
+  // 获取 API 配置
+  const apiKey = getApiKeyForModel(activeModel.id);
+  if (!apiKey) {
+    throw new ApiKeyError('API Key 缺失，请在设置中配置 API Key');
+  }
+
+  const apiBase = getApiBaseUrlForModel(activeModel.id);
+  const endpoint = activeModel.endpoint || '/v1/audio/speech';
+  const apiModel = activeModel.apiModel || activeModel.id;
+  const format = activeModel.params.format || 'mp3';
+
+  const requestBody = {
+    model: apiModel,
+    input: text,
+    voice,
+    speed,
+    response_format: format,
+  };
+
+  const bytes = await retryOperation(async () => {
+    const res = await fetch(`${apiBase}${endpoint}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify(requestBody),
+      signal: options.signal,
+    });
+
+    if (!res.ok) {
+      let errorMessage = `HTTP 错误: ${res.status}`;
+      try {
+        const errorData = await res.json();
+        errorMessage = errorData.error?.message || errorMessage;
+      } catch (e) {
+        // 忽略解析错误，使用默认错误信息
+      }
+      const err: any = new Error(errorMessage);
+      err.status = res.status;
+      throw err;
+    }
+
+    return new Uint8Array(await res.arrayBuffer());
+  }, 3, 1000, options.signal);
+
+  if (bytes.length === 0) {
+    throw new Error('配音生成失败：响应中没有音频数据');
+  }
+
+  return bytesToDataUrl(bytes, format === 'wav' ? 'audio/wav' : 'audio/mpeg');
+};
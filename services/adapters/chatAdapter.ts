@@ -1,10 +1,11 @@
 /**
  * 对话模型适配器
- * 处理 OpenAI 兼容的 Chat Completions API
+ * 按模型的请求协议处理 OpenAI 兼容的 Chat Completions、Anthropic Messages、Ollama 与 llama.cpp 接口
  */
 
-import { ChatModelDefinition, ChatOptions, ChatModelParams } from '../../types/model';
+import { ChatModelDefinition, ChatOptions, ChatModelParams, ChatApiProtocol, MOCK_PROVIDER_ID } from '../../types/model';
 import { getApiKeyForModel, getApiBaseUrlForModel, getActiveChatModel } from '../modelRegistry';
+import { mockChatCompletion } from './mockAdapter';
 
 /**
  * API Key 错误类
@@ -22,7 +23,8 @@ export class ApiKeyError extends Error {
 const retryOperation = async <T>(
   operation: () => Promise<T>,
   maxRetries: number = 3,
-  delay: number = 1000
+  delay: number = 1000,
+  signal?: AbortSignal
 ): Promise<T> => {
   let lastError: Error | null = null;
   
@@ -31,6 +33,8 @@ const retryOperation = async <T>(
       return await operation();
     } catch (error: any) {
       lastError = error;
+      // 已取消的请求不重试
+      if (signal?.aborted) throw error;
       // 400/401/403 错误不重试
       if (error.message?.includes('400') || 
           error.message?.includes('401') || 
@@ -56,6 +60,239 @@ const cleanJsonResponse = (response: string): string => {
   return cleaned.trim();
 };
 
+/** 各协议的默认端点 */
+export const CHAT_PROTOCOL_ENDPOINTS: Record<ChatApiProtocol, string> = {
+  openai: '/v1/chat/completions',
+  anthropic: '/v1/messages',
+  ollama: '/api/chat',
+  llamacpp: '/v1/chat/completions',
+};
+
+const ANTHROPIC_VERSION = '2023-06-01';
+/** Anthropic 要求必须指定 max_tokens，模型未配置时使用该值 */
+const ANTHROPIC_DEFAULT_MAX_TOKENS = 8192;
+/** 没有原生 JSON 模式的协议通过系统提示要求只输出 JSON */
+const JSON_MODE_INSTRUCTION = 'Respond with a single valid JSON object only. Do not wrap it in markdown code fences and do not add any text before or after it.';
+
+/**
+ * 是否为本地部署的对话协议（API Key 可选）
+ */
+export const isKeylessChatProtocol = (protocol?: ChatApiProtocol): boolean =>
+  protocol === 'ollama' || protocol === 'llamacpp';
+
+/**
+ * 对话接口地址与协议
+ */
+export interface ChatEndpointConfig {
+  apiBase: string;
+  apiKey?: string;
+  apiModel: string;
+  endpoint?: string;
+  protocol?: ChatApiProtocol;
+}
+
+/**
+ * 单次对话请求内容
+ */
+export interface ChatRequestContent {
+  prompt: string;
+  systemPrompt?: string;
+  /** 要求返回 JSON 对象 */
+  json?: boolean;
+  stream?: boolean;
+  params: Partial<ChatModelParams>;
+}
+
+/**
+ * 按协议构造对话请求
+ */
+export const buildChatRequest = (
+  config: ChatEndpointConfig,
+  content: ChatRequestContent
+): { url: string; headers: Record<string, string>; body: string } => {
+  const protocol = config.protocol || 'openai';
+  const url = `${config.apiBase}${config.endpoint || CHAT_PROTOCOL_ENDPOINTS[protocol]}`;
+  const { params } = content;
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+  if (protocol === 'anthropic') {
+    headers['x-api-key'] = config.apiKey || '';
+    headers['anthropic-version'] = ANTHROPIC_VERSION;
+    // 浏览器直连 Anthropic 需要显式声明
+    headers['anthropic-dangerous-direct-browser-access'] = 'true';
+    const system = [content.systemPrompt, content.json ? JSON_MODE_INSTRUCTION : '']
+      .filter(Boolean)
+      .join('\n\n');
+    const body: any = {
+      model: config.apiModel,
+      max_tokens: params.maxTokens || ANTHROPIC_DEFAULT_MAX_TOKENS,
+      messages: [{ role: 'user', content: content.prompt }],
+    };
+    if (system) body.system = system;
+    // Anthropic 温度范围为 0-1
+    if (params.temperature !== undefined) body.temperature = Math.min(params.temperature, 1);
+    if (params.topP !== undefined) body.top_p = params.topP;
+    if (content.stream) body.stream = true;
+    return { url, headers, body: JSON.stringify(body) };
+  }
+
+  if (config.apiKey) {
+    headers['Authorization'] = `Bearer ${config.apiKey}`;
+  }
+  const messages: any[] = [];
+  if (content.systemPrompt) {
+    messages.push({ role: 'system', content: content.systemPrompt });
+  }
+  messages.push({ role: 'user', content: content.prompt });
+
+  if (protocol === 'ollama') {
+    const options: any = {};
+    if (params.temperature !== undefined) options.temperature = params.temperature;
+    if (params.topP !== undefined) options.top_p = params.topP;
+    if (params.maxTokens !== undefined) options.num_predict = params.maxTokens;
+    if (params.frequencyPenalty !== undefined) options.frequency_penalty = params.frequencyPenalty;
+    if (params.presencePenalty !== undefined) options.presence_penalty = params.presencePenalty;
+    const body: any = {
+      model: config.apiModel,
+      messages,
+      stream: !!content.stream,
+      options,
+    };
+    if (content.json) body.format = 'json';
+    return { url, headers, body: JSON.stringify(body) };
+  }
+
+  // OpenAI 兼容格式（llama.cpp server 同样支持 response_format）
+  const body: any = {
+    model: config.apiModel,
+    messages,
+    temperature: params.temperature,
+  };
+  if (params.maxTokens !== undefined) {
+    body.max_tokens = params.maxTokens;
+  }
+  if (params.topP !== undefined) {
+    body.top_p = params.topP;
+  }
+  if (params.frequencyPenalty !== undefined) {
+    body.frequency_penalty = params.frequencyPenalty;
+  }
+  if (params.presencePenalty !== undefined) {
+    body.presence_penalty = params.presencePenalty;
+  }
+  if (content.json) {
+    body.response_format = { type: 'json_object' };
+  }
+  if (content.stream) {
+    body.stream = true;
+  }
+  return { url, headers, body: JSON.stringify(body) };
+};
+
+/**
+ * 从非流式响应中提取回复文本
+ */
+export const extractChatContent = (protocol: ChatApiProtocol | undefined, data: any): string => {
+  if (protocol === 'anthropic') {
+    return (data.content || [])
+      .filter((block: any) => block.type === 'text')
+      .map((block: any) => block.text)
+      .join('');
+  }
+  if (protocol === 'ollama') {
+    return data.message?.content || '';
+  }
+  return data.choices?.[0]?.message?.content || '';
+};
+
+/**
+ * 提取模拟 JSON 模式下的 JSON 文本：去掉代码块标记及 JSON 前后的说明文字
+ */
+export const extractJsonContent = (content: string): string => {
+  const cleaned = cleanJsonResponse(content);
+  if (/^[\[{]/.test(cleaned)) return cleaned;
+  const start = cleaned.indexOf('{');
+  const end = cleaned.lastIndexOf('}');
+  return start !== -1 && end > start ? cleaned.slice(start, end + 1) : cleaned;
+};
+
+/**
+ * 读取流式响应，逐段回调并返回完整文本
+ * Ollama 为逐行 JSON，其余协议为 SSE
+ */
+export const readChatStream = async (
+  response: Response,
+  protocol: ChatApiProtocol | undefined,
+  onDelta?: (delta: string) => void
+): Promise<string> => {
+  if (!response.body) {
+    throw new Error('响应流为空，无法进行流式处理');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder('utf-8');
+  const separator = protocol === 'ollama' ? '\n' : '\n\n';
+  let buffer = '';
+  let fullText = '';
+
+  // 处理一条事件，返回 true 表示流已结束
+  const handlePayload = (payload: any): boolean => {
+    let delta = '';
+    let finished = false;
+    if (protocol === 'anthropic') {
+      if (payload.type === 'error') throw new Error(payload.error?.message || '流式响应出错');
+      if (payload.type === 'content_block_delta') delta = payload.delta?.text || '';
+      finished = payload.type === 'message_stop';
+    } else if (protocol === 'ollama') {
+      if (payload.error) throw new Error(payload.error);
+      delta = payload.message?.content || '';
+      finished = !!payload.done;
+    } else {
+      delta = payload?.choices?.[0]?.delta?.content || payload?.choices?.[0]?.message?.content || '';
+    }
+    if (delta) {
+      fullText += delta;
+      onDelta?.(delta);
+    }
+    return finished;
+  };
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundaryIndex = buffer.indexOf(separator);
+    while (boundaryIndex !== -1) {
+      const chunk = buffer.slice(0, boundaryIndex).trim();
+      buffer = buffer.slice(boundaryIndex + separator.length);
+      boundaryIndex = buffer.indexOf(separator);
+      if (!chunk) continue;
+
+      const dataItems = protocol === 'ollama'
+        ? [chunk]
+        : chunk.split('\n').filter(line => line.startsWith('data:')).map(line => line.replace(/^data:\s*/, ''));
+      for (const dataStr of dataItems) {
+        if (dataStr === '[DONE]') {
+          return fullText;
+        }
+        let payload: any;
+        try {
+          payload = JSON.parse(dataStr);
+        } catch (e) {
+          // 忽略解析失败的行
+          continue;
+        }
+        if (handlePayload(payload)) {
+          return fullText;
+        }
+      }
+    }
+  }
+
+  return fullText;
+};
+
 /**
  * 调用对话模型 API
  */
@@ -69,14 +306,18 @@ export const callChatApi = async (
     throw new Error('没有可用的对话模型');
   }
 
-  // 获取 API 配置
+  // 模拟提供商：返回固定结果
+  if (activeModel.providerId === MOCK_PROVIDER_ID) {
+    return mockChatCompletion(options.prompt, { json: options.responseFormat === 'json', signal: options.signal });
+  }
+
+  // 获取 API 配置（本地部署的协议可不配置 API Key）
   const apiKey = getApiKeyForModel(activeModel.id);
-  if (!apiKey) {
+  if (!apiKey && !isKeylessChatProtocol(activeModel.protocol)) {
     throw new ApiKeyError('API Key 缺失，请在设置中配置 API Key');
   }
   
   const apiBase = getApiBaseUrlForModel(activeModel.id);
-  const endpoint = activeModel.endpoint || '/v1/chat/completions';
   const apiModel = activeModel.apiModel || activeModel.id;
   
   // 合并参数
@@ -85,53 +326,25 @@ export const callChatApi = async (
     ...options.overrideParams,
   };
   
-  // 构建请求体
-  const messages: any[] = [];
-  
-  if (options.systemPrompt) {
-    messages.push({ role: 'system', content: options.systemPrompt });
-  }
-  
-  messages.push({ role: 'user', content: options.prompt });
-  
-  const requestBody: any = {
-    model: apiModel,
-    messages,
-    temperature: params.temperature,
-  };
-  if (params.maxTokens !== undefined) {
-    requestBody.max_tokens = params.maxTokens;
-  }
-  
-  if (params.topP !== undefined) {
-    requestBody.top_p = params.topP;
-  }
-  if (params.frequencyPenalty !== undefined) {
-    requestBody.frequency_penalty = params.frequencyPenalty;
-  }
-  if (params.presencePenalty !== undefined) {
-    requestBody.presence_penalty = params.presencePenalty;
-  }
-  
-  // JSON 格式响应
-  if (options.responseFormat === 'json') {
-    requestBody.response_format = { type: 'json_object' };
-  }
+  const isJson = options.responseFormat === 'json';
+  const request = buildChatRequest(
+    { apiBase, apiKey, apiModel, endpoint: activeModel.endpoint, protocol: activeModel.protocol },
+    { prompt: options.prompt, systemPrompt: options.systemPrompt, json: isJson, params }
+  );
   
   // 超时控制
   const timeout = options.timeout || 600000; // 默认 10 分钟
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), timeout);
+  const onAbort = () => controller.abort(options.signal!.reason);
+  options.signal?.addEventListener('abort', onAbort, { once: true });
   
   try {
     const response = await retryOperation(async () => {
-      const res = await fetch(`${apiBase}${endpoint}`, {
+      const res = await fetch(request.url, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${apiKey}`,
-        },
-        body: JSON.stringify(requestBody),
+        headers: request.headers,
+        body: request.body,
         signal: controller.signal,
       });
       
@@ -139,7 +352,7 @@ export const callChatApi = async (
         let errorMessage = `HTTP 错误: ${res.status}`;
         try {
           const errorData = await res.json();
-          errorMessage = errorData.error?.message || errorMessage;
+          errorMessage = errorData.error?.message || (typeof errorData.error === 'string' && errorData.error) || errorMessage;
         } catch (e) {
           const errorText = await res.text();
           if (errorText) errorMessage = errorText;
@@ -148,27 +361,32 @@ export const callChatApi = async (
       }
       
       return res;
-    });
+    }, 3, 1000, options.signal);
     
     clearTimeout(timeoutId);
     
     const data = await response.json();
-    const content = data.choices?.[0]?.message?.content || '';
+    const content = extractChatContent(activeModel.protocol, data);
     
     // 如果是 JSON 格式，清理响应
-    if (options.responseFormat === 'json') {
-      return cleanJsonResponse(content);
+    if (isJson) {
+      return extractJsonContent(content);
     }
     
     return content;
   } catch (error: any) {
     clearTimeout(timeoutId);
     
+    if (options.signal?.aborted) {
+      throw error;
+    }
     if (error.name === 'AbortError') {
       throw new Error(`请求超时 (${timeout / 1000}秒)`);
     }
     
     throw error;
+  } finally {
+    options.signal?.removeEventListener('abort', onAbort);
   }
 };
 
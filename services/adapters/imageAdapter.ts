@@ -1,11 +1,14 @@
 /**
  * 图片模型适配器
- * 处理 Gemini Image API
+ * 按模型的请求协议处理 Gemini Image API、OpenAI Images API 与自建后端（ComfyUI / A1111）
  */
 
-import { ImageModelDefinition, ImageGenerateOptions, AspectRatio } from '../../types/model';
+import { ImageModelDefinition, ImageGenerateOptions, ImageApiProtocol, AspectRatio, MOCK_PROVIDER_ID } from '../../types/model';
 import { getApiKeyForModel, getApiBaseUrlForModel, getActiveImageModel } from '../modelRegistry';
 import { ApiKeyError } from './chatAdapter';
+import { toDataUrl, blobToDataUrl } from '../mediaStoreService';
+import { isSelfHostedImageProtocol, requestSelfHostedImage } from './selfHostedImageAdapter';
+import { mockGenerateImage } from './mockAdapter';
 
 /**
  * 重试操作
@@ -13,7 +16,8 @@ import { ApiKeyError } from './chatAdapter';
 const retryOperation = async <T>(
   operation: () => Promise<T>,
   maxRetries: number = 3,
-  delay: number = 2000
+  delay: number = 2000,
+  signal?: AbortSignal
 ): Promise<T> => {
   let lastError: Error | null = null;
   
@@ -22,6 +26,8 @@ const retryOperation = async <T>(
       return await operation();
     } catch (error: any) {
       lastError = error;
+      // 已取消的请求不重试
+      if (signal?.aborted) throw error;
       // 400/401/403 错误不重试
       if (error.message?.includes('400') || 
           error.message?.includes('401') || 
@@ -37,6 +43,228 @@ const retryOperation = async <T>(
   throw lastError;
 };
 
+/**
+ * 图片接口地址与协议
+ */
+export interface ImageEndpointConfig {
+  apiBase: string;
+  apiKey: string;
+  apiModel: string;
+  endpoint?: string;
+  protocol?: ImageApiProtocol;
+  /** 自建后端的工作流 / 请求体模板 */
+  template?: string;
+}
+
+/**
+ * 单次图片请求内容，prompt 应已包含参考图说明
+ */
+export interface ImageRequest {
+  prompt: string;
+  negativePrompt?: string;
+  referenceImages: string[];
+  aspectRatio: AspectRatio;
+  signal?: AbortSignal;
+}
+
+const UNSAFE_PROMPT_MESSAGE = '提示词可能包含不安全或违规内容，未能处理。请修改后重试。';
+const NO_IMAGE_MESSAGE = '图片生成失败：未能从响应中提取图片数据';
+
+const OPENAI_GENERATIONS_ENDPOINT = '/v1/images/generations';
+
+/** gpt-image 系列支持的尺寸 */
+const OPENAI_IMAGE_SIZES: Record<AspectRatio, string> = {
+  '16:9': '1536x1024',
+  '9:16': '1024x1536',
+  '1:1': '1024x1024',
+};
+
+/** DALL·E 3 支持的尺寸 */
+const DALLE3_IMAGE_SIZES: Record<AspectRatio, string> = {
+  '16:9': '1792x1024',
+  '9:16': '1024x1792',
+  '1:1': '1024x1024',
+};
+
+const isDallEModel = (apiModel: string) => /dall-e/i.test(apiModel);
+
+/**
+ * 构造带 HTTP 状态码的错误，供重试与限流调度识别
+ */
+const createHttpError = async (res: Response, message?: string): Promise<Error> => {
+  let errorMessage = message || `HTTP 错误: ${res.status}`;
+  if (!message) {
+    try {
+      const errorData = await res.json();
+      errorMessage = errorData.error?.message || errorMessage;
+    } catch (e) {
+      const errorText = await res.text().catch(() => '');
+      if (errorText) errorMessage = errorText;
+    }
+  }
+  const err: any = new Error(errorMessage);
+  err.status = res.status;
+  return err;
+};
+
+/**
+ * Gemini 协议：generateContent，参考图以 inlineData 传入
+ */
+const requestGeminiImage = async (config: ImageEndpointConfig, request: ImageRequest): Promise<string> => {
+  const endpoint = config.endpoint || `/v1beta/models/${config.apiModel}:generateContent`;
+
+  const parts: any[] = [{ text: request.prompt }];
+  request.referenceImages.forEach((imgUrl) => {
+    const match = imgUrl.match(/^data:(image\/[a-zA-Z]+);base64,(.+)$/);
+    if (match) {
+      parts.push({
+        inlineData: {
+          mimeType: match[1],
+          data: match[2],
+        },
+      });
+    }
+  });
+
+  const requestBody: any = {
+    contents: [{
+      role: 'user',
+      parts: parts,
+    }],
+    generationConfig: {
+      responseModalities: ['TEXT', 'IMAGE'],
+    },
+  };
+
+  // 非默认宽高比需要添加 imageConfig
+  if (request.aspectRatio !== '16:9') {
+    requestBody.generationConfig.imageConfig = {
+      aspectRatio: request.aspectRatio,
+    };
+  }
+
+  const res = await fetch(`${config.apiBase}${endpoint}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${config.apiKey}`,
+      'Accept': '*/*',
+    },
+    body: JSON.stringify(requestBody),
+    signal: request.signal,
+  });
+
+  if (!res.ok) {
+    if (res.status === 400) throw await createHttpError(res, UNSAFE_PROMPT_MESSAGE);
+    if (res.status === 500) throw await createHttpError(res, '当前请求较多，暂时未能处理成功，请稍后重试。');
+    throw await createHttpError(res);
+  }
+
+  const response = await res.json();
+  const candidates = response.candidates || [];
+  if (candidates.length > 0 && candidates[0].content && candidates[0].content.parts) {
+    for (const part of candidates[0].content.parts) {
+      if (part.inlineData) {
+        return `data:image/png;base64,${part.inlineData.data}`;
+      }
+    }
+  }
+
+  throw new Error(NO_IMAGE_MESSAGE);
+};
+
+const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => {
+  const res = await fetch(dataUrl);
+  return res.blob();
+};
+
+/**
+ * OpenAI 协议：无参考图时调用 images/generations，有参考图时以 multipart 调用 images/edits
+ * 自定义端点视为 generations 地址，edits 地址由其末段替换得到
+ */
+const requestOpenAIImage = async (config: ImageEndpointConfig, request: ImageRequest): Promise<string> => {
+  const generationsEndpoint = config.endpoint || OPENAI_GENERATIONS_ENDPOINT;
+  const size = (/dall-e-3/i.test(config.apiModel) ? DALLE3_IMAGE_SIZES : OPENAI_IMAGE_SIZES)[request.aspectRatio];
+  const references = request.referenceImages.filter(url => url.startsWith('data:image/'));
+
+  let res: Response;
+  if (references.length > 0) {
+    const form = new FormData();
+    form.append('model', config.apiModel);
+    form.append('prompt', request.prompt);
+    form.append('n', '1');
+    form.append('size', size);
+    // 单张参考图兼容只接受 image 字段的实现，多张时使用 image[]
+    const blobs = await Promise.all(references.map(dataUrlToBlob));
+    blobs.forEach((blob, index) => {
+      const ext = blob.type.split('/')[1] || 'png';
+      form.append(blobs.length > 1 ? 'image[]' : 'image', blob, `reference-${index + 1}.${ext}`);
+    });
+    res = await fetch(`${config.apiBase}${generationsEndpoint.replace(/\/generations$/, '/edits')}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${config.apiKey}`,
+      },
+      body: form,
+      signal: request.signal,
+    });
+  } else {
+    const requestBody: any = {
+      model: config.apiModel,
+      prompt: request.prompt,
+      n: 1,
+      size,
+    };
+    // gpt-image 系列固定返回 b64_json 且不接受该参数
+    if (isDallEModel(config.apiModel)) requestBody.response_format = 'b64_json';
+    res = await fetch(`${config.apiBase}${generationsEndpoint}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${config.apiKey}`,
+      },
+      body: JSON.stringify(requestBody),
+      signal: request.signal,
+    });
+  }
+
+  if (!res.ok) {
+    const err: any = await createHttpError(res);
+    if (/moderation|safety|content_policy/i.test(err.message)) err.message = UNSAFE_PROMPT_MESSAGE;
+    throw err;
+  }
+
+  const response = await res.json();
+  const image = response.data?.[0];
+  if (image?.b64_json) {
+    return `data:image/png;base64,${image.b64_json}`;
+  }
+  // 返回临时链接时下载为 Base64，避免链接过期
+  if (image?.url) {
+    const imageRes = await fetch(image.url, { signal: request.signal });
+    if (!imageRes.ok) throw await createHttpError(imageRes, `下载图片失败: HTTP ${imageRes.status}`);
+    return blobToDataUrl(await imageRes.blob());
+  }
+
+  throw new Error(NO_IMAGE_MESSAGE);
+};
+
+/**
+ * 按协议发起单次图片生成请求，返回图片 data URL
+ * 重试与限流排队由调用方负责
+ */
+export const requestImage = async (config: ImageEndpointConfig, request: ImageRequest): Promise<string> => {
+  // 媒体库中的 object URL 需先转为 Base64
+  const referenceImages = await Promise.all(request.referenceImages.map(toDataUrl));
+  const inlineRequest = { ...request, referenceImages };
+  if (isSelfHostedImageProtocol(config.protocol)) {
+    return requestSelfHostedImage(config.protocol!, config, inlineRequest);
+  }
+  return config.protocol === 'openai'
+    ? requestOpenAIImage(config, inlineRequest)
+    : requestGeminiImage(config, inlineRequest);
+};
+
 /**
  * 调用图片生成 API
  */
@@ -50,15 +278,25 @@ export const callImageApi = async (
     throw new Error('没有可用的图片模型');
   }
 
+  // 模拟提供商：生成占位图片
+  if (activeModel.providerId === MOCK_PROVIDER_ID) {
+    return mockGenerateImage({
+      prompt: options.prompt,
+      referenceImages: options.referenceImages,
+      aspectRatio: options.aspectRatio || activeModel.params.defaultAspectRatio,
+      signal: options.signal,
+    });
+  }
+
   // 获取 API 配置
-  const apiKey = getApiKeyForModel(activeModel.id);
-  if (!apiKey) {
+  // 自建后端可不配置 API Key
+  const apiKey = getApiKeyForModel(activeModel.id) || '';
+  if (!apiKey && !isSelfHostedImageProtocol(activeModel.protocol)) {
     throw new ApiKeyError('API Key 缺失，请在设置中配置 API Key');
   }
   
   const apiBase = getApiBaseUrlForModel(activeModel.id);
   const apiModel = activeModel.apiModel || activeModel.id;
-  const endpoint = activeModel.endpoint || `/v1beta/models/${apiModel}:generateContent`;
   
   // 确定宽高比
   const aspectRatio = options.aspectRatio || activeModel.params.defaultAspectRatio;
@@ -66,8 +304,8 @@ export const callImageApi = async (
   // 构建提示词
   let finalPrompt = options.prompt;
   
-  // 如果有参考图，添加一致性指令
-  if (options.referenceImages && options.referenceImages.length > 0) {
+  // 如果有参考图，添加一致性指令（自建后端的 SD 类模型不理解该说明，直接使用原始提示词）
+  if (options.referenceImages && options.referenceImages.length > 0 && !isSelfHostedImageProtocol(activeModel.protocol)) {
     finalPrompt = `
       ⚠️⚠️⚠️ CRITICAL REQUIREMENTS - CHARACTER CONSISTENCY ⚠️⚠️⚠️
       
@@ -94,87 +332,21 @@ export const callImageApi = async (
     `;
   }
 
-  // 构建请求 parts
-  const parts: any[] = [{ text: finalPrompt }];
-
-  // 添加参考图片
-  if (options.referenceImages) {
-    options.referenceImages.forEach((imgUrl) => {
-      const match = imgUrl.match(/^data:(image\/[a-zA-Z]+);base64,(.+)$/);
-      if (match) {
-        parts.push({
-          inlineData: {
-            mimeType: match[1],
-            data: match[2],
-          },
-        });
-      }
-    });
-  }
-
-  // 构建请求体
-  const requestBody: any = {
-    contents: [{
-      role: 'user',
-      parts: parts,
-    }],
-    generationConfig: {
-      responseModalities: ['TEXT', 'IMAGE'],
-    },
-  };
-  
-  // 非默认宽高比需要添加 imageConfig
-  if (aspectRatio !== '16:9') {
-    requestBody.generationConfig.imageConfig = {
-      aspectRatio: aspectRatio,
-    };
-  }
-
-  // 调用 API
-  const response = await retryOperation(async () => {
-    const res = await fetch(`${apiBase}${endpoint}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
-        'Accept': '*/*',
-      },
-      body: JSON.stringify(requestBody),
-    });
-
-    if (!res.ok) {
-      if (res.status === 400) {
-        throw new Error('提示词可能包含不安全或违规内容，未能处理。请修改后重试。');
+  return retryOperation(
+    () => requestImage(
+      { apiBase, apiKey, apiModel, endpoint: activeModel.endpoint, protocol: activeModel.protocol, template: activeModel.workflowTemplate },
+      {
+        prompt: finalPrompt,
+        negativePrompt: options.negativePrompt,
+        referenceImages: options.referenceImages || [],
+        aspectRatio,
+        signal: options.signal,
       }
-      if (res.status === 500) {
-        throw new Error('当前请求较多，暂时未能处理成功，请稍后重试。');
-      }
-      
-      let errorMessage = `HTTP 错误: ${res.status}`;
-      try {
-        const errorData = await res.json();
-        errorMessage = errorData.error?.message || errorMessage;
-      } catch (e) {
-        const errorText = await res.text();
-        if (errorText) errorMessage = errorText;
-      }
-      throw new Error(errorMessage);
-    }
-
-    return await res.json();
-  });
-
-  // 提取 base64 图片
-  const candidates = response.candidates || [];
-  if (candidates.length > 0 && candidates[0].content && candidates[0].content.parts) {
-    for (const part of candidates[0].content.parts) {
-      if (part.inlineData) {
-        return `data:image/png;base64,${part.inlineData.data}`;
-      }
-    }
-  }
-
-  throw new Error('图片生成失败：未能从响应中提取图片数据');
+    ),
+    3,
+    2000,
+    options.signal
+  );
 };
 
 /**
@@ -4,4 +4,8 @@
 
 export * from './chatAdapter';
 export * from './imageAdapter';
+export * from './selfHostedImageAdapter';
 export * from './videoAdapter';
+export * from './asyncVideoTaskAdapter';
+export * from './audioAdapter';
+export * from './mockAdapter';
@@ -0,0 +1,494 @@
+/**
+ * 模拟提供商适配器
+ * 不联网、无需 API Key：对话按提示词中的输出结构返回固定 JSON，图片返回标注提示词的占位关键帧，
+ * 视频在浏览器内录制测试图案短片；每次请求按模拟提供商配置注入延迟与失败，便于演示及调试重试、报错流程
+ */
+
+import { AspectRatio, VideoDuration } from '../../types/model';
+import { getMockSettings } from '../modelRegistry';
+import { blobToDataUrl } from '../mediaStoreService';
+
+export interface MockChatOptions {
+  json?: boolean;
+  onDelta?: (delta: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface MockImageRequest {
+  prompt: string;
+  referenceImages?: string[];
+  aspectRatio: AspectRatio;
+  signal?: AbortSignal;
+}
+
+export interface MockVideoRequest {
+  prompt: string;
+  startImage?: string;
+  endImage?: string;
+  aspectRatio: AspectRatio;
+  duration: VideoDuration;
+  signal?: AbortSignal;
+}
+
+/** 各画面比例对应的占位图尺寸 */
+const MOCK_IMAGE_SIZES: Record<AspectRatio, { width: number; height: number }> = {
+  '16:9': { width: 1280, height: 720 },
+  '9:16': { width: 720, height: 1280 },
+  '1:1': { width: 1024, height: 1024 },
+};
+
+/** 各画面比例对应的测试视频尺寸 */
+const MOCK_VIDEO_SIZES: Record<AspectRatio, { width: number; height: number }> = {
+  '16:9': { width: 640, height: 360 },
+  '9:16': { width: 360, height: 640 },
+  '1:1': { width: 480, height: 480 },
+};
+
+const MOCK_VIDEO_FPS = 24;
+
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * 模拟网络延迟，并按配置的概率抛出带 HTTP 状态码的错误
+ */
+const simulateRequest = async (signal?: AbortSignal): Promise<void> => {
+  const { latencyMs, failureRate, failureStatus } = getMockSettings();
+  await wait(Math.max(0, latencyMs), signal);
+  if (failureRate > 0 && Math.random() < failureRate) {
+    const err: any = new Error(`模拟请求失败: HTTP ${failureStatus}`);
+    err.status = failureStatus;
+    if (failureStatus === 429) err.retryAfter = 1;
+    throw err;
+  }
+};
+
+/**
+ * 字符串哈希，用于从同一输入得到确定的颜色与文案
+ */
+const hashString = (text: string): number => {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = (hash * 31 + text.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+// ============================================
+// 对话
+// ============================================
+
+const MOCK_CAMERA_MOVEMENTS = ['Static Shot', 'Dolly Shot', 'Pan Right Shot', 'Tracking Shot', 'Zoom In Shot'];
+const MOCK_SHOT_SIZES = ['Wide Shot', 'Medium Shot', 'Close-up', 'Extreme Close-up'];
+const MOCK_SCENES = [
+  { location: '城市街头', time: '夜晚', atmosphere: '霓虹闪烁，细雨微凉' },
+  { location: '老旧公寓', time: '清晨', atmosphere: '晨光透过窗帘，安静压抑' },
+  { location: '天台', time: '黄昏', atmosphere: '晚霞绚烂，风声呼啸' },
+];
+const MOCK_CHARACTER_NAMES = ['林晓', '陈默'];
+
+const matchText = (prompt: string, pattern: RegExp): string | undefined => prompt.match(pattern)?.[1];
+
+/**
+ * 从对白行（"角色名：台词"）中提取角色名，提取不到时使用固定角色
+ */
+const extractCharacterNames = (text: string): string[] => {
+  const names: string[] = [];
+  text.split('\n').forEach(line => {
+    const name = line.trim().match(/^([^\s：:，,。"“]{1,10})[：:]/)?.[1];
+    if (name && !names.includes(name) && names.length < 4) names.push(name);
+  });
+  return names.length > 0 ? names : MOCK_CHARACTER_NAMES;
+};
+
+const buildScriptStructure = (prompt: string) => {
+  const input = matchText(prompt, /Input:\s*"([\s\S]*)"\s*Output ONLY/) || '';
+  const paragraphs = input.split(/\n+/).map(line => line.trim()).filter(Boolean).slice(0, 12);
+  const texts = paragraphs.length > 0 ? paragraphs : ['（模拟）主角在雨夜的街头徘徊，等待一个迟迟未到的人。'];
+  const sceneCount = Math.min(MOCK_SCENES.length, Math.max(1, Math.ceil(texts.length / 4)));
+  const scenes = MOCK_SCENES.slice(0, sceneCount).map((scene, index) => ({ id: String(index + 1), ...scene }));
+
+  return {
+    title: (texts[0].replace(/^[#\s]+/, '').slice(0, 20)) || '模拟剧本',
+    genre: '剧情',
+    logline: '（模拟）两个久别重逢的人在一夜之间重新面对彼此的过去。',
+    characters: extractCharacterNames(input).map((name, index) => ({
+      id: String(index + 1),
+      name,
+      gender: index % 2 === 0 ? '女' : '男',
+      age: index % 2 === 0 ? '25' : '30',
+      personality: index % 2 === 0 ? '坚韧、敏感、不轻易示弱' : '沉稳、寡言、心思缜密',
+    })),
+    scenes,
+    storyParagraphs: texts.map((text, index) => ({
+      id: index + 1,
+      text,
+      sceneRefId: scenes[Math.min(scenes.length - 1, Math.floor(index / 4))].id,
+    })),
+  };
+};
+
+const buildArtDirection = () => ({
+  colorPalette: {
+    primary: '深蓝与青灰（模拟）',
+    secondary: '暖橙色街灯',
+    accent: '霓虹洋红',
+    skinTones: '暖象牙色到浅小麦色',
+    saturation: '中等饱和，略微去色的电影感',
+    temperature: '整体偏冷，局部暖色点缀',
+  },
+  characterDesignRules: {
+    proportions: '写实比例，约 7.5 头身',
+    eyeStyle: '写实眼型，带电影感眼神光',
+    lineWeight: '无明显描边，柔和过渡',
+    detailLevel: '面部与手部细节丰富，服装中等细节',
+  },
+  lightingStyle: '低调布光，强轮廓光，冷暖对比',
+  textureStyle: '写实质感，保留胶片颗粒',
+  moodKeywords: ['孤独', '重逢', '雨夜', '克制', '希望'],
+  consistencyAnchors: '（模拟美术指导）电影级写实画面，冷色调为主、暖色点缀，低调布光与强轮廓光，保留轻微胶片颗粒，整体情绪克制而温暖。',
+});
+
+const buildCharacterPrompts = (prompt: string) => {
+  const count = Number(matchText(prompt, /exactly (\d+) items/)) || 1;
+  return {
+    characters: Array.from({ length: count }, (_, index) => ({
+      id: String(index + 1),
+      visualPrompt: `（模拟角色 ${index + 1}）东亚面孔，${index % 2 === 0 ? '黑色及肩短发，米色风衣' : '利落短发，深灰夹克'}，神情专注，半身构图，电影级写实光影`,
+    })),
+  };
+};
+
+const buildShotList = (prompt: string) => {
+  const sceneId = matchText(prompt, /"sceneId": "([^"]*)"/) || '1';
+  const shotCount = Math.min(6, Math.max(1, Number(matchText(prompt, /Approximately (\d+) shots/)) || 2));
+  let characterIds: string[] = [];
+  try {
+    const list = JSON.parse(matchText(prompt, /Characters:\s*(\[.*\])/) || '[]');
+    characterIds = Array.isArray(list) ? list.map((c: any) => String(c.id)) : [];
+  } catch (e) {
+    // 无法解析角色列表时镜头不关联角色
+  }
+
+  return {
+    shots: Array.from({ length: shotCount }, (_, index) => ({
+      id: String(index + 1),
+      sceneId,
+      actionSummary: `（模拟镜头 ${index + 1}）角色在场景中缓缓移动，神情若有所思。`,
+      dialogue: index === 0 ? '（模拟台词）我们终于又见面了。' : '',
+      cameraMovement: MOCK_CAMERA_MOVEMENTS[index % MOCK_CAMERA_MOVEMENTS.length],
+      shotSize: MOCK_SHOT_SIZES[index % MOCK_SHOT_SIZES.length],
+      characters: characterIds.slice(0, index % 2 === 0 ? 1 : 2),
+      keyframes: [
+        { id: `${index + 1}-start`, type: 'start', visualPrompt: `（模拟首帧 ${index + 1}）${MOCK_SHOT_SIZES[index % MOCK_SHOT_SIZES.length]}，冷色夜景，人物位于画面左侧` },
+        { id: `${index + 1}-end`, type: 'end', visualPrompt: `（模拟尾帧 ${index + 1}）${MOCK_SHOT_SIZES[index % MOCK_SHOT_SIZES.length]}，人物转身望向镜头，背景虚化` },
+      ],
+    })),
+  };
+};
+
+const buildSubShots = () => ({
+  subShots: ['全景 Wide Shot', '中景 Medium Shot', '特写 Extreme Close-up'].map((shotSize, index) => ({
+    shotSize,
+    cameraMovement: index === 0 ? '静止镜头 Static Shot' : index === 1 ? '推镜头 Dolly Shot' : '跟踪镜头 Tracking Shot',
+    actionSummary: `（模拟子镜头 ${index + 1}）从环境过渡到人物细节，动作连贯自然。`,
+    visualFocus: index === 0 ? '整体环境' : index === 1 ? '人物动作' : '面部表情',
+    keyframes: [
+      { type: 'start', visualPrompt: `（模拟子镜头 ${index + 1} 首帧）${shotSize}，冷暖对比的电影光影` },
+      { type: 'end', visualPrompt: `（模拟子镜头 ${index + 1} 尾帧）${shotSize}，人物姿态变化，景深更浅` },
+    ],
+  })),
+});
+
+const NINE_GRID_ANGLES: [string, string][] = [
+  ['远景', '俯拍'], ['全景', '平视'], ['中景', '平视'],
+  ['中景', '仰拍'], ['近景', '平视'], ['近景', '侧拍'],
+  ['特写', '平视'], ['特写', '俯拍'], ['全景', '仰拍'],
+];
+
+const TURNAROUND_ANGLES: [string, string][] = [
+  ['正面', '全身'], ['左侧面', '全身'], ['右侧面', '全身'],
+  ['正面', '特写'], ['3/4侧面', '半身'], ['3/4侧面', '半身'],
+  ['背面', '全身'], ['仰视', '半身'], ['俯视', '半身'],
+];
+
+const buildNineGridPanels = () => ({
+  panels: NINE_GRID_ANGLES.map(([shotSize, cameraAngle], index) => ({
+    index,
+    shotSize,
+    cameraAngle,
+    description: `Mock panel ${index + 1}: ${shotSize} ${cameraAngle}, cinematic lighting, consistent characters and scene`,
+  })),
+});
+
+const buildTurnaroundPanels = () => ({
+  panels: TURNAROUND_ANGLES.map(([viewAngle, shotSize], index) => ({
+    index,
+    viewAngle,
+    shotSize,
+    description: `Mock turnaround panel ${index + 1}: ${viewAngle} ${shotSize} view, neutral pose, identical outfit and hairstyle`,
+  })),
+});
+
+/**
+ * 按提示词中要求的输出结构生成固定结果，未识别的结构返回通用文本
+ */
+const buildMockChatContent = (prompt: string): string => {
+  if (prompt.includes('"storyParagraphs"')) return JSON.stringify(buildScriptStructure(prompt));
+  if (prompt.includes('"consistencyAnchors"')) return JSON.stringify(buildArtDirection());
+  if (prompt.includes('"shots"')) return JSON.stringify(buildShotList(prompt));
+  if (prompt.includes('"subShots"')) return JSON.stringify(buildSubShots());
+  if (prompt.includes('"startFrame"')) {
+    return JSON.stringify({
+      startFrame: '（模拟首帧）雨夜街头，人物立于霓虹灯下，冷色调，浅景深，电影级构图。',
+      endFrame: '（模拟尾帧）人物转身走入雨幕，街灯拉出长长倒影，画面留白更多。',
+    });
+  }
+  if (prompt.includes('"viewAngle"')) return JSON.stringify(buildTurnaroundPanels());
+  if (prompt.includes('"panels"')) return JSON.stringify(buildNineGridPanels());
+  if (prompt.includes('"characters"') && prompt.includes('"visualPrompt"')) return JSON.stringify(buildCharacterPrompts(prompt));
+
+  const original = matchText(prompt, /原始剧本内容如下：\n([\s\S]*?)\n\s*请根据以上要求/);
+  if (original) return `${original.trim()}\n\n（模拟改写：以上为原剧本内容）`;
+  if (prompt.includes('续写')) {
+    return '（模拟续写）\n雨渐渐停了。林晓收起伞，望向街角那盏仍亮着的路灯。\n陈默：这次，我不会再走了。\n林晓沉默片刻，轻轻点了点头。';
+  }
+  const variant = hashString(prompt) % 3;
+  return [
+    '（模拟生成）电影级写实画面，冷色夜景搭配暖色街灯，人物位于三分线位置，浅景深，轻微胶片颗粒。',
+    '（模拟生成）清晨柔和侧光，室内环境安静整洁，前景虚化，画面构图稳定，色调温暖克制。',
+    '（模拟生成）黄昏天台，逆光勾勒人物轮廓，晚霞渐变天空，广角构图，情绪开阔而略带感伤。',
+  ][variant];
+};
+
+/**
+ * 模拟对话请求；传入 onDelta 时按小段流式输出
+ */
+export const mockChatCompletion = async (prompt: string, options: MockChatOptions = {}): Promise<string> => {
+  await simulateRequest(options.signal);
+  const content = buildMockChatContent(prompt);
+  if (options.onDelta) {
+    for (let i = 0; i < content.length; i += 24) {
+      await wait(30, options.signal);
+      options.onDelta(content.slice(i, i + 24));
+    }
+  }
+  return content;
+};
+
+// ============================================
+// 图片
+// ============================================
+
+const createCanvas = (width: number, height: number): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('无法创建 canvas 上下文');
+  return { canvas, ctx };
+};
+
+/**
+ * 按宽度折行，超出行数时以省略号结尾
+ */
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number, maxLines: number): string[] => {
+  const lines: string[] = [];
+  let current = '';
+  for (const char of text.replace(/\s+/g, ' ').trim()) {
+    if (ctx.measureText(current + char).width > maxWidth && current) {
+      lines.push(current);
+      current = '';
+      if (lines.length === maxLines) break;
+    }
+    current += char;
+  }
+  if (lines.length < maxLines && current) lines.push(current);
+  if (lines.length === maxLines && lines.join('').length < text.replace(/\s+/g, ' ').trim().length) {
+    lines[maxLines - 1] = `${lines[maxLines - 1].slice(0, -1)}…`;
+  }
+  return lines;
+};
+
+/**
+ * 模拟图片生成：按提示词确定底色，绘制网格与提示词文字
+ */
+export const mockGenerateImage = async (request: MockImageRequest): Promise<string> => {
+  await simulateRequest(request.signal);
+  const { width, height } = MOCK_IMAGE_SIZES[request.aspectRatio];
+  const { canvas, ctx } = createCanvas(width, height);
+  const hue = hashString(request.prompt) % 360;
+
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, `hsl(${hue}, 45%, 28%)`);
+  gradient.addColorStop(1, `hsl(${(hue + 60) % 360}, 45%, 14%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.08)';
+  ctx.lineWidth = 1;
+  for (let x = 0; x <= width; x += width / 6) {
+    ctx.beginPath();
+    ctx.moveTo(x, 0);
+    ctx.lineTo(x, height);
+    ctx.stroke();
+  }
+  for (let y = 0; y <= height; y += height / 6) {
+    ctx.beginPath();
+    ctx.moveTo(0, y);
+    ctx.lineTo(width, y);
+    ctx.stroke();
+  }
+
+  const padding = Math.round(width * 0.06);
+  const fontSize = Math.round(Math.min(width, height) * 0.035);
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+  ctx.font = `bold ${fontSize * 1.4}px sans-serif`;
+  ctx.textBaseline = 'top';
+  ctx.fillText('MOCK', padding, padding);
+
+  ctx.font = `${fontSize}px sans-serif`;
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
+  const lines = wrapText(ctx, request.prompt || '（空提示词）', width - padding * 2, 8);
+  lines.forEach((line, index) => {
+    ctx.fillText(line, padding, padding + fontSize * 2.6 + index * fontSize * 1.5);
+  });
+
+  const referenceCount = request.referenceImages?.length || 0;
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.5)';
+  ctx.textBaseline = 'bottom';
+  ctx.fillText(`${width}×${height} · 参考图 ${referenceCount} 张`, padding, height - padding);
+
+  return canvas.toDataURL('image/png');
+};
+
+// ============================================
+// 视频
+// ============================================
+
+const loadImage = (src: string): Promise<HTMLImageElement | undefined> =>
+  new Promise(resolve => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => resolve(undefined);
+    img.src = src;
+  });
+
+const drawCover = (ctx: CanvasRenderingContext2D, img: HTMLImageElement, width: number, height: number) => {
+  const scale = Math.max(width / img.width, height / img.height);
+  const drawWidth = img.width * scale;
+  const drawHeight = img.height * scale;
+  ctx.drawImage(img, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+};
+
+const TEST_PATTERN_COLORS = ['#c0c0c0', '#c0c000', '#00c0c0', '#00c000', '#c000c0', '#c00000', '#0000c0'];
+
+const getRecorderMimeType = (): string | undefined =>
+  ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm', 'video/mp4']
+    .find(type => MediaRecorder.isTypeSupported(type));
+
+/**
+ * 模拟视频生成：实时录制与请求时长相同的测试图案视频
+ * 有首尾帧时画面由首帧渐变到尾帧，否则绘制彩条；叠加扫描线、计时与提示词
+ */
+export const mockGenerateVideo = async (request: MockVideoRequest): Promise<string> => {
+  await simulateRequest(request.signal);
+  if (typeof MediaRecorder === 'undefined') {
+    throw new Error('当前浏览器不支持 MediaRecorder，无法生成模拟视频');
+  }
+
+  const { width, height } = MOCK_VIDEO_SIZES[request.aspectRatio];
+  const { canvas, ctx } = createCanvas(width, height);
+  const [startFrame, endFrame] = await Promise.all([
+    request.startImage ? loadImage(request.startImage) : Promise.resolve(undefined),
+    request.endImage ? loadImage(request.endImage) : Promise.resolve(undefined),
+  ]);
+  const durationMs = request.duration * 1000;
+  const caption = wrapText(ctx, request.prompt || '', width * 0.9, 2);
+
+  const drawFrame = (elapsed: number) => {
+    const progress = Math.min(1, elapsed / durationMs);
+    if (startFrame) {
+      drawCover(ctx, startFrame, width, height);
+      if (endFrame) {
+        ctx.globalAlpha = progress;
+        drawCover(ctx, endFrame, width, height);
+        ctx.globalAlpha = 1;
+      }
+    } else {
+      const barWidth = width / TEST_PATTERN_COLORS.length;
+      TEST_PATTERN_COLORS.forEach((color, index) => {
+        ctx.fillStyle = color;
+        ctx.fillRect(index * barWidth, 0, barWidth + 1, height);
+      });
+    }
+
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+    ctx.fillRect(progress * width - 2, 0, 4, height);
+
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+    ctx.fillRect(0, height - 64, width, 64);
+    ctx.fillStyle = '#ffffff';
+    ctx.textBaseline = 'top';
+    ctx.font = 'bold 16px monospace';
+    ctx.fillText(`MOCK  ${(elapsed / 1000).toFixed(1)}s / ${request.duration}s`, width * 0.05, height - 58);
+    ctx.font = '12px sans-serif';
+    caption.forEach((line, index) => ctx.fillText(line, width * 0.05, height - 36 + index * 16));
+  };
+
+  drawFrame(0);
+  const stream = canvas.captureStream(MOCK_VIDEO_FPS);
+  const mimeType = getRecorderMimeType();
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+
+  const recording = new Promise<Blob>((resolve, reject) => {
+    const startedAt = performance.now();
+    const timer = setInterval(() => {
+      const elapsed = performance.now() - startedAt;
+      drawFrame(elapsed);
+      if (elapsed >= durationMs && recorder.state === 'recording') recorder.stop();
+    }, 1000 / MOCK_VIDEO_FPS);
+    const onAbort = () => {
+      clearInterval(timer);
+      recorder.onstop = null;
+      if (recorder.state === 'recording') recorder.stop();
+      reject(request.signal!.reason);
+    };
+    recorder.onstop = () => {
+      clearInterval(timer);
+      request.signal?.removeEventListener('abort', onAbort);
+      resolve(new Blob(chunks, { type: recorder.mimeType || 'video/webm' }));
+    };
+    recorder.onerror = () => {
+      clearInterval(timer);
+      request.signal?.removeEventListener('abort', onAbort);
+      reject(new Error('模拟视频录制失败'));
+    };
+    request.signal?.addEventListener('abort', onAbort, { once: true });
+    recorder.start(1000);
+  });
+
+  try {
+    return await blobToDataUrl(await recording);
+  } finally {
+    stream.getTracks().forEach(track => track.stop());
+  }
+};
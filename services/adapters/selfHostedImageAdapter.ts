@@ -0,0 +1,351 @@
+/**
+ * 自建图片后端适配器
+ * 处理 ComfyUI（提交工作流、轮询 /history、下载输出）与 Automatic1111（/sdapi/v1/txt2img、img2img）
+ * 请求内容由模型的模板生成，模板中的占位符在请求时替换为提示词、尺寸与参考图
+ */
+
+import { AspectRatio, ImageApiProtocol } from '../../types/model';
+import { blobToDataUrl } from '../mediaStoreService';
+
+/**
+ * 模板占位符说明，供模板编辑器展示
+ */
+export const IMAGE_TEMPLATE_PLACEHOLDERS: { key: string; description: string }[] = [
+  { key: '{{prompt}}', description: '提示词' },
+  { key: '{{negative_prompt}}', description: '负面提示词' },
+  { key: '{{width}}', description: '宽度（按画面比例换算）' },
+  { key: '{{height}}', description: '高度（按画面比例换算）' },
+  { key: '{{seed}}', description: '随机种子' },
+  { key: '{{model}}', description: 'API 模型名（checkpoint 文件名）' },
+  { key: '{{reference_image}}', description: '第一张参考图（ComfyUI 为上传后的文件名）' },
+  { key: '{{reference_image_N}}', description: '第 N 张参考图，如 {{reference_image_2}}' },
+];
+
+/**
+ * 默认 ComfyUI 工作流（API 格式，文生图）
+ * 需要参考图时可在 ComfyUI 中导出包含 LoadImage 节点的工作流，并在其 image 字段填入 {{reference_image}}
+ */
+export const DEFAULT_COMFYUI_WORKFLOW = JSON.stringify({
+  '3': {
+    class_type: 'KSampler',
+    inputs: {
+      seed: '{{seed}}',
+      steps: 25,
+      cfg: 7,
+      sampler_name: 'dpmpp_2m',
+      scheduler: 'karras',
+      denoise: 1,
+      model: ['4', 0],
+      positive: ['6', 0],
+      negative: ['7', 0],
+      latent_image: ['5', 0],
+    },
+  },
+  '4': { class_type: 'CheckpointLoaderSimple', inputs: { ckpt_name: '{{model}}' } },
+  '5': { class_type: 'EmptyLatentImage', inputs: { width: '{{width}}', height: '{{height}}', batch_size: 1 } },
+  '6': { class_type: 'CLIPTextEncode', inputs: { text: '{{prompt}}', clip: ['4', 1] } },
+  '7': { class_type: 'CLIPTextEncode', inputs: { text: '{{negative_prompt}}', clip: ['4', 1] } },
+  '8': { class_type: 'VAEDecode', inputs: { samples: ['3', 0], vae: ['4', 2] } },
+  '9': { class_type: 'SaveImage', inputs: { filename_prefix: 'bigbanana', images: ['8', 0] } },
+}, null, 2);
+
+/**
+ * 默认 A1111 请求体
+ * 有参考图时改用 img2img，第一张参考图作为 init_images 传入
+ */
+export const DEFAULT_A1111_PAYLOAD = JSON.stringify({
+  prompt: '{{prompt}}',
+  negative_prompt: '{{negative_prompt}}',
+  width: '{{width}}',
+  height: '{{height}}',
+  seed: '{{seed}}',
+  steps: 25,
+  cfg_scale: 7,
+  sampler_name: 'DPM++ 2M',
+  denoising_strength: 0.75,
+  override_settings: { sd_model_checkpoint: '{{model}}' },
+}, null, 2);
+
+/**
+ * 获取协议的默认模板
+ */
+export const getDefaultImageTemplate = (protocol: ImageApiProtocol): string =>
+  protocol === 'a1111' ? DEFAULT_A1111_PAYLOAD : DEFAULT_COMFYUI_WORKFLOW;
+
+/**
+ * 是否为自建图片后端协议（API Key 可选）
+ */
+export const isSelfHostedImageProtocol = (protocol?: ImageApiProtocol): boolean =>
+  protocol === 'comfyui' || protocol === 'a1111';
+
+export interface SelfHostedImageConfig {
+  apiBase: string;
+  apiKey?: string;
+  apiModel: string;
+  template?: string;
+}
+
+export interface SelfHostedImageRequest {
+  prompt: string;
+  negativePrompt?: string;
+  /** data URL */
+  referenceImages: string[];
+  aspectRatio: AspectRatio;
+  signal?: AbortSignal;
+}
+
+/** 各画面比例对应的出图尺寸（SDXL 常用分辨率） */
+const IMAGE_SIZES: Record<AspectRatio, { width: number; height: number }> = {
+  '16:9': { width: 1344, height: 768 },
+  '9:16': { width: 768, height: 1344 },
+  '1:1': { width: 1024, height: 1024 },
+};
+
+const COMFYUI_POLL_INTERVAL = 1500;
+/** ComfyUI 任务最长等待时间 */
+const COMFYUI_MAX_WAIT_MS = 600000;
+
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+const getHeaders = (apiKey?: string, json: boolean = true): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  if (json) headers['Content-Type'] = 'application/json';
+  if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+  return headers;
+};
+
+/**
+ * 构造带 HTTP 状态码的错误
+ */
+const createBackendError = async (res: Response, prefix: string): Promise<Error> => {
+  let detail = '';
+  try {
+    const text = await res.text();
+    try {
+      const data = JSON.parse(text);
+      detail = data.error?.message || data.error || data.detail || data.errors || text;
+      if (typeof detail !== 'string') detail = JSON.stringify(detail);
+    } catch (e) {
+      detail = text;
+    }
+  } catch (e) {
+    // 忽略响应体读取失败
+  }
+  const err: any = new Error(`${prefix}: HTTP ${res.status}${detail ? ` ${detail.slice(0, 300)}` : ''}`);
+  err.status = res.status;
+  return err;
+};
+
+/**
+ * 解析模板并替换占位符
+ * 整个字符串恰好是一个数值占位符时替换为数字，其余情况按文本替换
+ */
+const renderTemplate = (template: string, values: Record<string, string | number>): any => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(template);
+  } catch (e) {
+    throw new Error('图片模板不是有效的 JSON，请在模型配置中检查');
+  }
+
+  const replace = (node: any): any => {
+    if (typeof node === 'string') {
+      const exact = node.match(/^\{\{(\w+)\}\}$/);
+      if (exact && typeof values[exact[1]] === 'number') return values[exact[1]];
+      return node.replace(/\{\{(\w+)\}\}/g, (match, key) => (key in values ? String(values[key]) : match));
+    }
+    if (Array.isArray(node)) return node.map(replace);
+    if (node && typeof node === 'object') {
+      return Object.fromEntries(Object.entries(node).map(([key, value]) => [key, replace(value)]));
+    }
+    return node;
+  };
+  return replace(parsed);
+};
+
+const getTemplateValues = (
+  config: SelfHostedImageConfig,
+  request: SelfHostedImageRequest,
+  referenceValues: string[]
+): Record<string, string | number> => {
+  const { width, height } = IMAGE_SIZES[request.aspectRatio];
+  const values: Record<string, string | number> = {
+    prompt: request.prompt,
+    negative_prompt: request.negativePrompt || '',
+    width,
+    height,
+    seed: Math.floor(Math.random() * 2147483647),
+    model: config.apiModel,
+    reference_image: referenceValues[0] || '',
+  };
+  referenceValues.forEach((value, index) => {
+    values[`reference_image_${index + 1}`] = value;
+  });
+  return values;
+};
+
+const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => {
+  const res = await fetch(dataUrl);
+  return res.blob();
+};
+
+// ============================================
+// ComfyUI
+// ============================================
+
+/**
+ * 上传参考图到 ComfyUI 的 input 目录，返回 LoadImage 节点可用的文件名
+ */
+const uploadComfyImage = async (config: SelfHostedImageConfig, dataUrl: string, index: number, signal?: AbortSignal): Promise<string> => {
+  const blob = await dataUrlToBlob(dataUrl);
+  const ext = blob.type.split('/')[1] || 'png';
+  const form = new FormData();
+  form.append('image', blob, `bigbanana_ref_${Date.now()}_${index + 1}.${ext}`);
+  form.append('overwrite', 'true');
+
+  const res = await fetch(`${config.apiBase}/upload/image`, {
+    method: 'POST',
+    headers: getHeaders(config.apiKey, false),
+    body: form,
+    signal,
+  });
+  if (!res.ok) throw await createBackendError(res, 'ComfyUI 参考图上传失败');
+  const data = await res.json();
+  return data.subfolder ? `${data.subfolder}/${data.name}` : data.name;
+};
+
+/**
+ * 取消 ComfyUI 任务：从队列移除，已开始执行的中断（尽力而为）
+ */
+const cancelComfyPrompt = (config: SelfHostedImageConfig, promptId: string) => {
+  const headers = getHeaders(config.apiKey);
+  fetch(`${config.apiBase}/queue`, { method: 'POST', headers, body: JSON.stringify({ delete: [promptId] }) })
+    .catch(e => console.warn('ComfyUI 任务移出队列失败', e));
+  fetch(`${config.apiBase}/interrupt`, { method: 'POST', headers, body: JSON.stringify({ prompt_id: promptId }) })
+    .catch(e => console.warn('ComfyUI 任务中断失败', e));
+};
+
+const findComfyOutputImage = (outputs: Record<string, any>): { filename: string; subfolder: string; type: string } | null => {
+  const images = Object.values(outputs || {}).flatMap((output: any) => output?.images || []);
+  return images.find((image: any) => image.type === 'output') || images[0] || null;
+};
+
+const requestComfyUIImage = async (config: SelfHostedImageConfig, request: SelfHostedImageRequest): Promise<string> => {
+  const { signal } = request;
+  const uploaded = await Promise.all(
+    request.referenceImages.map((dataUrl, index) => uploadComfyImage(config, dataUrl, index, signal))
+  );
+  const workflow = renderTemplate(
+    config.template || DEFAULT_COMFYUI_WORKFLOW,
+    getTemplateValues(config, request, uploaded)
+  );
+
+  const submitRes = await fetch(`${config.apiBase}/prompt`, {
+    method: 'POST',
+    headers: getHeaders(config.apiKey),
+    body: JSON.stringify({ prompt: workflow, client_id: 'bigbanana' }),
+    signal,
+  });
+  if (!submitRes.ok) throw await createBackendError(submitRes, 'ComfyUI 工作流提交失败');
+  const { prompt_id: promptId } = await submitRes.json();
+  if (!promptId) throw new Error('ComfyUI 未返回任务 ID');
+
+  try {
+    const deadline = Date.now() + COMFYUI_MAX_WAIT_MS;
+    while (Date.now() < deadline) {
+      await wait(COMFYUI_POLL_INTERVAL, signal);
+      const historyRes = await fetch(`${config.apiBase}/history/${promptId}`, {
+        headers: getHeaders(config.apiKey, false),
+        signal,
+      });
+      if (!historyRes.ok) throw await createBackendError(historyRes, 'ComfyUI 任务查询失败');
+      const history = (await historyRes.json())[promptId];
+      // 任务仍在排队或执行中
+      if (!history) continue;
+
+      if (history.status?.status_str === 'error') {
+        const errorMessage = (history.status.messages || [])
+          .find(([type]: [string]) => type === 'execution_error')?.[1]?.exception_message;
+        throw new Error(`ComfyUI 工作流执行失败${errorMessage ? `: ${errorMessage}` : ''}`);
+      }
+
+      const image = findComfyOutputImage(history.outputs);
+      if (!image) {
+        if (history.status?.completed) throw new Error('ComfyUI 工作流未输出图片，请确认工作流包含 SaveImage 或 PreviewImage 节点');
+        continue;
+      }
+
+      const params = new URLSearchParams({ filename: image.filename, subfolder: image.subfolder || '', type: image.type || 'output' });
+      const imageRes = await fetch(`${config.apiBase}/view?${params.toString()}`, {
+        headers: getHeaders(config.apiKey, false),
+        signal,
+      });
+      if (!imageRes.ok) throw await createBackendError(imageRes, 'ComfyUI 图片下载失败');
+      return blobToDataUrl(await imageRes.blob());
+    }
+  } catch (error) {
+    if (signal?.aborted) cancelComfyPrompt(config, promptId);
+    throw error;
+  }
+
+  cancelComfyPrompt(config, promptId);
+  throw new Error('ComfyUI 任务等待时间过长，已停止查询');
+};
+
+// ============================================
+// Automatic1111
+// ============================================
+
+const requestA1111Image = async (config: SelfHostedImageConfig, request: SelfHostedImageRequest): Promise<string> => {
+  const references = request.referenceImages.map(url => url.replace(/^data:[^;]+;base64,/, ''));
+  const payload = renderTemplate(
+    config.template || DEFAULT_A1111_PAYLOAD,
+    getTemplateValues(config, request, references)
+  );
+  const isImg2Img = references.length > 0;
+  if (isImg2Img) {
+    payload.init_images = [references[0]];
+  } else {
+    delete payload.denoising_strength;
+  }
+  // 未指定 checkpoint 时沿用 WebUI 当前加载的模型
+  if (!payload.override_settings?.sd_model_checkpoint) delete payload.override_settings;
+
+  const res = await fetch(`${config.apiBase}/sdapi/v1/${isImg2Img ? 'img2img' : 'txt2img'}`, {
+    method: 'POST',
+    headers: getHeaders(config.apiKey),
+    body: JSON.stringify(payload),
+    signal: request.signal,
+  });
+  if (!res.ok) throw await createBackendError(res, 'A1111 生成失败');
+
+  const data = await res.json();
+  const image = data.images?.[0];
+  if (!image) throw new Error('A1111 未返回图片');
+  return image.startsWith('data:') ? image : `data:image/png;base64,${image}`;
+};
+
+/**
+ * 调用自建图片后端，返回图片 data URL
+ */
+export const requestSelfHostedImage = (
+  protocol: ImageApiProtocol,
+  config: SelfHostedImageConfig,
+  request: SelfHostedImageRequest
+): Promise<string> =>
+  protocol === 'a1111' ? requestA1111Image(config, request) : requestComfyUIImage(config, request);
@@ -1,11 +1,14 @@
 /**
  * 视频模型适配器
- * 处理 Veo（同步）和 Sora（异步）API
+ * 处理 Veo（同步）和 Sora（异步）API，配置了任务协议的模型交由通用异步任务适配器
  */
 
-import { VideoModelDefinition, VideoGenerateOptions, AspectRatio, VideoDuration } from '../../types/model';
+import { VideoModelDefinition, VideoGenerateOptions, AspectRatio, VideoDuration, MOCK_PROVIDER_ID } from '../../types/model';
 import { getApiKeyForModel, getApiBaseUrlForModel, getActiveVideoModel } from '../modelRegistry';
 import { ApiKeyError } from './chatAdapter';
+import { toDataUrl } from '../mediaStoreService';
+import { requestAsyncVideo } from './asyncVideoTaskAdapter';
+import { mockGenerateVideo } from './mockAdapter';
 
 /**
  * 重试操作
@@ -13,7 +16,8 @@ import { ApiKeyError } from './chatAdapter';
 const retryOperation = async <T>(
   operation: () => Promise<T>,
   maxRetries: number = 3,
-  delay: number = 2000
+  delay: number = 2000,
+  signal?: AbortSignal
 ): Promise<T> => {
   let lastError: Error | null = null;
   
@@ -22,6 +26,8 @@ const retryOperation = async <T>(
       return await operation();
     } catch (error: any) {
       lastError = error;
+      // 已取消的请求不重试
+      if (signal?.aborted) throw error;
       if (error.message?.includes('400') || 
           error.message?.includes('401') || 
           error.message?.includes('403')) {
@@ -152,6 +158,7 @@ const callVeoApi = async (
 
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), 1200000); // 20 分钟
+  options.signal?.addEventListener('abort', () => controller.abort(options.signal!.reason), { once: true });
 
   try {
     const response = await retryOperation(async () => {
@@ -190,7 +197,7 @@ const callVeoApi = async (
       }
 
       return res;
-    });
+    }, 3, 2000, options.signal);
 
     clearTimeout(timeoutId);
 
@@ -208,7 +215,7 @@ const callVeoApi = async (
     const videoUrl = urlMatch[0];
 
     // 下载并转换为 base64
-    const videoResponse = await fetch(videoUrl);
+    const videoResponse = await fetch(videoUrl, { signal: options.signal });
     if (!videoResponse.ok) {
       throw new Error(`视频下载失败: ${videoResponse.status}`);
     }
@@ -230,6 +237,9 @@ const callVeoApi = async (
     });
   } catch (error: any) {
     clearTimeout(timeoutId);
+    if (options.signal?.aborted) {
+      throw error;
+    }
     if (error.name === 'AbortError') {
       throw new Error('视频生成超时 (20分钟)');
     }
@@ -297,6 +307,7 @@ const callSoraApi = async (
       'Authorization': `Bearer ${apiKey}`,
     },
     body: formData,
+    signal: options.signal,
   });
 
   if (!createResponse.ok) {
@@ -335,42 +346,55 @@ const callSoraApi = async (
   let videoId: string | null = null;
   let videoUrlFromStatus: string | null = null;
 
-  while (Date.now() - startTime < maxPollingTime) {
-    await new Promise(resolve => setTimeout(resolve, pollingInterval));
+  // 轮询期间取消时，同时尝试删除远程任务（不支持的服务忽略失败）
+  try {
+    while (Date.now() - startTime < maxPollingTime) {
+      await new Promise(resolve => setTimeout(resolve, pollingInterval));
+      options.signal?.throwIfAborted();
     
-    const statusResponse = await fetch(`${apiBase}/v1/videos/${taskId}`, {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
-      },
-    });
+      const statusResponse = await fetch(`${apiBase}/v1/videos/${taskId}`, {
+        method: 'GET',
+        headers: {
+          'Accept': 'application/json',
+          'Authorization': `Bearer ${apiKey}`,
+        },
+        signal: options.signal,
+      });
 
-    if (!statusResponse.ok) {
-      console.warn('⚠️ 查询任务状态失败，继续重试...');
-      continue;
-    }
+      if (!statusResponse.ok) {
+        console.warn('⚠️ 查询任务状态失败，继续重试...');
+        continue;
+      }
 
-    const statusData = await statusResponse.json();
-    const status = statusData.status;
+      const statusData = await statusResponse.json();
+      const status = statusData.status;
 
-    console.log('🔄 Sora-2 任务状态:', status, '进度:', statusData.progress);
+      console.log('🔄 Sora-2 任务状态:', status, '进度:', statusData.progress);
 
-    if (status === 'completed' || status === 'succeeded') {
-      videoUrlFromStatus = statusData.video_url || statusData.videoUrl || null;
-      if (statusData.id && statusData.id.startsWith('video_')) {
-        videoId = statusData.id;
-      } else {
-        videoId = statusData.output_video || statusData.video_id || statusData.outputs?.[0]?.id || statusData.id;
-      }
-      if (!videoId && statusData.outputs && statusData.outputs.length > 0) {
-        videoId = statusData.outputs[0];
+      if (status === 'completed' || status === 'succeeded') {
+        videoUrlFromStatus = statusData.video_url || statusData.videoUrl || null;
+        if (statusData.id && statusData.id.startsWith('video_')) {
+          videoId = statusData.id;
+        } else {
+          videoId = statusData.output_video || statusData.video_id || statusData.outputs?.[0]?.id || statusData.id;
+        }
+        if (!videoId && statusData.outputs && statusData.outputs.length > 0) {
+          videoId = statusData.outputs[0];
+        }
+        console.log('✅ 任务完成，视频 ID:', videoId);
+        break;
+      } else if (status === 'failed' || status === 'error') {
+        throw new Error(`视频生成失败: ${statusData.error || statusData.message || '未知错误'}`);
       }
-      console.log('✅ 任务完成，视频 ID:', videoId);
-      break;
-    } else if (status === 'failed' || status === 'error') {
-      throw new Error(`视频生成失败: ${statusData.error || statusData.message || '未知错误'}`);
     }
+  } catch (error) {
+    if (options.signal?.aborted) {
+      fetch(`${apiBase}/v1/videos/${taskId}`, {
+        method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${apiKey}` },
+      }).catch(() => {});
+    }
+    throw error;
   }
 
   if (!videoId && !videoUrlFromStatus) {
@@ -393,6 +417,7 @@ const callSoraApi = async (
       
       const downloadController = new AbortController();
       const downloadTimeoutId = setTimeout(() => downloadController.abort(), downloadTimeout);
+      options.signal?.addEventListener('abort', () => downloadController.abort(options.signal!.reason), { once: true });
       
       const downloadResponse = await fetch(`${apiBase}/v1/videos/${videoId}/content`, {
         method: 'GET',
@@ -431,7 +456,7 @@ const callSoraApi = async (
         reader.readAsDataURL(videoBlob);
       });
     } catch (error: any) {
-      if (attempt === maxDownloadRetries) {
+      if (options.signal?.aborted || attempt === maxDownloadRetries) {
         throw error;
       }
       console.warn(`⚠️ 下载出错: ${error.message}，重试中...`);
@@ -455,6 +480,18 @@ export const callVideoApi = async (
     throw new Error('没有可用的视频模型');
   }
 
+  // 模拟提供商：在浏览器内录制测试视频
+  if (activeModel.providerId === MOCK_PROVIDER_ID) {
+    return mockGenerateVideo({
+      prompt: options.prompt,
+      startImage: options.startImage ? await toDataUrl(options.startImage) : undefined,
+      endImage: options.endImage ? await toDataUrl(options.endImage) : undefined,
+      aspectRatio: options.aspectRatio || activeModel.params.defaultAspectRatio,
+      duration: options.duration || activeModel.params.defaultDuration,
+      signal: options.signal,
+    });
+  }
+
   // 获取 API 配置
   const apiKey = getApiKeyForModel(activeModel.id);
   if (!apiKey) {
@@ -463,11 +500,30 @@ export const callVideoApi = async (
   
   const apiBase = getApiBaseUrlForModel(activeModel.id);
 
+  // 首尾帧可能是媒体库的 object URL，统一转为 Base64
+  const resolvedOptions: VideoGenerateOptions = {
+    ...options,
+    startImage: options.startImage ? await toDataUrl(options.startImage) : options.startImage,
+    endImage: options.endImage ? await toDataUrl(options.endImage) : options.endImage,
+  };
+
+  // 配置了通用任务协议的模型按协议创建并轮询任务
+  if (activeModel.asyncProtocol) {
+    return requestAsyncVideo(activeModel.asyncProtocol, { apiBase, apiKey, apiModel: activeModel.apiModel || activeModel.id }, {
+      prompt: resolvedOptions.prompt,
+      startImage: resolvedOptions.startImage,
+      endImage: resolvedOptions.endImage,
+      aspectRatio: resolvedOptions.aspectRatio || activeModel.params.defaultAspectRatio,
+      duration: resolvedOptions.duration || activeModel.params.defaultDuration,
+      signal: resolvedOptions.signal,
+    });
+  }
+
   // 根据模式选择不同的 API
   if (activeModel.params.mode === 'async') {
-    return callSoraApi(options, activeModel, apiKey, apiBase);
+    return callSoraApi(resolvedOptions, activeModel, apiKey, apiBase);
   } else {
-    return callVeoApi(options, activeModel, apiKey, apiBase);
+    return callVeoApi(resolvedOptions, activeModel, apiKey, apiBase);
   }
 };
 
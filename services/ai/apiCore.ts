@@ -15,7 +15,19 @@ import {
   getActiveChatModel,
   getActiveVideoModel,
   getActiveImageModel,
+  isMockModel,
 } from '../modelRegistry';
+import { scheduleRequest, getAbortError } from './requestScheduler';
+import { ChatModelDefinition, ChatModelParams } from '../../types/model';
+import {
+  ChatEndpointConfig,
+  buildChatRequest,
+  extractChatContent,
+  extractJsonContent,
+  isKeylessChatProtocol,
+  readChatStream,
+} from '../adapters/chatAdapter';
+import { mockChatCompletion } from '../adapters/mockAdapter';
 
 // ============================================
 // 脚本日志回调（供各服务模块使用）
@@ -150,14 +162,50 @@ export { getActiveModel, getActiveChatModel, getActiveVideoModel, getActiveImage
 // 通用工具函数
 // ============================================
 
+/**
+ * 外部取消信号触发时一并中止请求（请求自身通常还有超时控制器）
+ * 返回取消监听的函数，请求结束后调用，避免长期存在的信号上累积监听
+ */
+export const followAbortSignal = (controller: AbortController, signal?: AbortSignal): (() => void) => {
+  if (!signal) return () => {};
+  if (signal.aborted) {
+    controller.abort();
+    return () => {};
+  }
+  const onAbort = () => controller.abort();
+  signal.addEventListener('abort', onAbort, { once: true });
+  return () => signal.removeEventListener('abort', onAbort);
+};
+
+/**
+ * 可被取消的等待
+ */
+export const delayWithSignal = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(getAbortError(signal));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(getAbortError(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
 /**
  * 重试操作辅助函数，用于处理429限流、超时、服务器错误等临时性错误
- * 采用指数退避策略
+ * 采用指数退避策略；传入 signal 时，请求被取消后不再重试
  */
 export const retryOperation = async <T>(
   operation: () => Promise<T>,
   maxRetries: number = 3,
-  baseDelay: number = 2000
+  baseDelay: number = 2000,
+  signal?: AbortSignal
 ): Promise<T> => {
   let lastError;
   for (let i = 0; i < maxRetries; i++) {
@@ -165,6 +213,7 @@ export const retryOperation = async <T>(
       return await operation();
     } catch (e: any) {
       lastError = e;
+      if (signal?.aborted) throw getAbortError(signal);
       const isRetryableError =
         e.status === 429 ||
         e.code === 429 ||
@@ -185,7 +234,7 @@ export const retryOperation = async <T>(
       if (isRetryableError && i < maxRetries - 1) {
         const delay = baseDelay * Math.pow(2, i);
         console.warn(`请求失败，正在重试... (第 ${i + 1}/${maxRetries} 次，${delay}ms后重试)`, e.message);
-        await new Promise(resolve => setTimeout(resolve, delay));
+        await delayWithSignal(delay, signal);
         continue;
       }
       throw e;
@@ -206,14 +255,15 @@ export const cleanJsonString = (str: string): string => {
 };
 
 /**
- * 从 HTTP 错误响应中解析错误信息，返回带 status 属性的 Error
+ * 从 HTTP 错误响应中解析错误信息，返回带 status 属性的 Error（429 响应附带 retryAfter 秒数）
  */
 export const parseHttpError = async (response: Response): Promise<Error> => {
   const httpStatus = response.status;
   let errorMessage = `HTTP错误: ${httpStatus}`;
   try {
     const errorData = await response.json();
-    errorMessage = errorData.error?.message || errorMessage;
+    // Ollama 等接口的 error 为字符串
+    errorMessage = errorData.error?.message || (typeof errorData.error === 'string' && errorData.error) || errorMessage;
   } catch (e) {
     try {
       const errorText = await response.text();
@@ -224,6 +274,8 @@ export const parseHttpError = async (response: Response): Promise<Error> => {
   }
   const err: any = new Error(errorMessage);
   err.status = httpStatus;
+  const retryAfter = Number(response.headers.get('Retry-After'));
+  if (retryAfter > 0) err.retryAfter = retryAfter;
   return err;
 };
 
@@ -231,8 +283,34 @@ export const parseHttpError = async (response: Response): Promise<Error> => {
 // Chat Completion API
 // ============================================
 
+/**
+ * 解析对话模型的请求配置，本地部署的协议（Ollama、llama.cpp）可不配置 API Key
+ */
+const resolveChatEndpoint = (model: string): { config: ChatEndpointConfig; params?: ChatModelParams; scheduleKey: string } => {
+  const resolved = resolveModel('chat', model) as ChatModelDefinition | undefined;
+  const protocol = resolved?.protocol;
+  const requestModel = resolveRequestModel('chat', model);
+  const apiKey = isKeylessChatProtocol(protocol)
+    ? (resolved && getApiKeyForModel(resolved.id)) || ''
+    : checkApiKey('chat', model);
+
+  return {
+    config: {
+      apiBase: getApiBase('chat', model),
+      apiKey,
+      apiModel: requestModel,
+      endpoint: resolved?.endpoint,
+      protocol,
+    },
+    params: resolved?.params,
+    scheduleKey: resolved?.id || requestModel,
+  };
+};
+
 /**
  * 调用聊天完成API（非流式）
+ * responseFormat 为 json_object 时，不支持原生 JSON 模式的协议通过提示词要求只输出 JSON；
+ * 模拟提供商的模型返回固定结果，同样经过限流调度
  */
 export const chatCompletion = async (
   prompt: string,
@@ -240,55 +318,56 @@ export const chatCompletion = async (
   temperature: number = 0.7,
   maxTokens: number = 8192,
   responseFormat?: 'json_object',
-  timeout: number = 600000
+  timeout: number = 600000,
+  signal?: AbortSignal
 ): Promise<string> => {
-  const apiKey = checkApiKey('chat', model);
-  const requestModel = resolveRequestModel('chat', model);
-
-  const requestBody: any = {
-    model: requestModel,
-    messages: [{ role: 'user', content: prompt }],
-    temperature: temperature
-  };
-
-  if (responseFormat === 'json_object') {
-    requestBody.response_format = { type: 'json_object' };
+  const isJson = responseFormat === 'json_object';
+  const mockModel = resolveModel('chat', model);
+  if (mockModel && isMockModel(mockModel.id)) {
+    return scheduleRequest(mockModel.id, () => mockChatCompletion(prompt, { json: isJson, signal }), signal);
   }
 
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), timeout);
+  const { config, params, scheduleKey } = resolveChatEndpoint(model);
+  const request = buildChatRequest(config, { prompt, json: isJson, params: { ...params, temperature, maxTokens } });
 
-  try {
-    const apiBase = getApiBase('chat', model);
-    const resolved = resolveModel('chat', model);
-    const endpoint = resolved?.endpoint || '/v1/chat/completions';
-    const response = await fetch(`${apiBase}${endpoint}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
-      },
-      body: JSON.stringify(requestBody),
-      signal: controller.signal
-    });
+  // 超时从请求实际发出时开始计算，不包含限流排队的时间
+  return scheduleRequest(scheduleKey, async () => {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    const unfollowSignal = followAbortSignal(controller, signal);
 
-    if (!response.ok) {
-      throw await parseHttpError(response);
-    }
+    try {
+      const response = await fetch(request.url, {
+        method: 'POST',
+        headers: request.headers,
+        body: request.body,
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        throw await parseHttpError(response);
+      }
 
-    const data = await response.json();
-    return data.choices?.[0]?.message?.content || '';
-  } catch (error: any) {
-    clearTimeout(timeoutId);
-    if (error.name === 'AbortError') {
-      throw new Error(`请求超时（${timeout}ms）`);
+      const data = await response.json();
+      const content = extractChatContent(config.protocol, data);
+      return isJson && config.protocol && config.protocol !== 'openai' ? extractJsonContent(content) : content;
+    } catch (error: any) {
+      if (signal?.aborted) {
+        throw getAbortError(signal);
+      }
+      if (error.name === 'AbortError') {
+        throw new Error(`请求超时（${timeout}ms）`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+      unfollowSignal();
     }
-    throw error;
-  }
+  }, signal);
 };
 
 /**
- * 调用聊天完成API（SSE流式模式）
+ * 调用聊天完成API（流式模式，按模型协议解析 SSE 或逐行 JSON；模拟提供商按小段模拟流式输出）
  */
 export const chatCompletionStream = async (
   prompt: string,
@@ -296,96 +375,51 @@ export const chatCompletionStream = async (
   temperature: number = 0.7,
   responseFormat: 'json_object' | undefined,
   timeout: number = 600000,
-  onDelta?: (delta: string) => void
+  onDelta?: (delta: string) => void,
+  signal?: AbortSignal
 ): Promise<string> => {
-  const apiKey = checkApiKey('chat', model);
-  const requestModel = resolveRequestModel('chat', model);
-  const requestBody: any = {
-    model: requestModel,
-    messages: [{ role: 'user', content: prompt }],
-    temperature: temperature,
-    stream: true
-  };
-
-  if (responseFormat === 'json_object') {
-    requestBody.response_format = { type: 'json_object' };
+  const isJson = responseFormat === 'json_object';
+  const mockModel = resolveModel('chat', model);
+  if (mockModel && isMockModel(mockModel.id)) {
+    return scheduleRequest(mockModel.id, () => mockChatCompletion(prompt, { json: isJson, onDelta, signal }), signal);
   }
 
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), timeout);
+  const { config, params, scheduleKey } = resolveChatEndpoint(model);
+  const request = buildChatRequest(config, { prompt, json: isJson, stream: true, params: { ...params, temperature } });
 
-  try {
-    const apiBase = getApiBase('chat', model);
-    const resolved = resolveModel('chat', model);
-    const endpoint = resolved?.endpoint || '/v1/chat/completions';
-    const response = await fetch(`${apiBase}${endpoint}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
-      },
-      body: JSON.stringify(requestBody),
-      signal: controller.signal
-    });
-
-    if (!response.ok) {
-      throw await parseHttpError(response);
-    }
-
-    if (!response.body) {
-      throw new Error('响应流为空，无法进行流式处理');
-    }
+  // 流式读取期间持续占用并发名额；超时不包含限流排队的时间
+  return scheduleRequest(scheduleKey, async () => {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    const unfollowSignal = followAbortSignal(controller, signal);
 
-    const reader = response.body.getReader();
-    const decoder = new TextDecoder('utf-8');
-    let buffer = '';
-    let fullText = '';
-
-    while (true) {
-      const { value, done } = await reader.read();
-      if (done) break;
-      buffer += decoder.decode(value, { stream: true });
-
-      let boundaryIndex = buffer.indexOf('\n\n');
-      while (boundaryIndex !== -1) {
-        const chunk = buffer.slice(0, boundaryIndex).trim();
-        buffer = buffer.slice(boundaryIndex + 2);
-
-        if (chunk) {
-          const lines = chunk.split('\n');
-          for (const line of lines) {
-            if (!line.startsWith('data:')) continue;
-            const dataStr = line.replace(/^data:\s*/, '');
-            if (dataStr === '[DONE]') {
-              clearTimeout(timeoutId);
-              return fullText;
-            }
-            try {
-              const payload = JSON.parse(dataStr);
-              const delta = payload?.choices?.[0]?.delta?.content || payload?.choices?.[0]?.message?.content || '';
-              if (delta) {
-                fullText += delta;
-                onDelta?.(delta);
-              }
-            } catch (e) {
-              // 忽略解析失败的行
-            }
-          }
-        }
-
-        boundaryIndex = buffer.indexOf('\n\n');
+    try {
+      const response = await fetch(request.url, {
+        method: 'POST',
+        headers: request.headers,
+        body: request.body,
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        throw await parseHttpError(response);
       }
-    }
 
-    clearTimeout(timeoutId);
-    return fullText;
-  } catch (error: any) {
-    clearTimeout(timeoutId);
-    if (error.name === 'AbortError') {
-      throw new Error(`请求超时（${timeout}ms）`);
+      const content = await readChatStream(response, config.protocol, onDelta);
+      return isJson && config.protocol && config.protocol !== 'openai' ? extractJsonContent(content) : content;
+    } catch (error: any) {
+      if (signal?.aborted) {
+        throw getAbortError(signal);
+      }
+      if (error.name === 'AbortError') {
+        throw new Error(`请求超时（${timeout}ms）`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+      unfollowSignal();
     }
-    throw error;
-  }
+  }, signal);
 };
 
 // ============================================
@@ -0,0 +1,120 @@
+/**
+ * 配音生成服务
+ * 将镜头台词合成为配音，按说话角色分配音色
+ */
+
+import { Character, DialogueAudio, Shot } from "../../types";
+import { AudioModelDefinition } from "../../types/model";
+import { callAudioApi } from '../adapters/audioAdapter';
+import { getActiveAudioModel, getModelById } from '../modelRegistry';
+import { addRenderLog } from '../renderLogService';
+import { scheduleRequest } from './requestScheduler';
+
+/**
+ * 解析后的台词
+ */
+export interface DialogueLine {
+  speaker?: Character;
+  text: string;
+}
+
+/**
+ * 解析镜头台词的说话人
+ * 台词以"角色名：" 开头时按名字匹配，否则取镜头中的第一个角色
+ */
+export const parseDialogueLine = (shot: Shot, characters: Character[]): DialogueLine => {
+  const raw = (shot.dialogue || '').trim();
+  const match = raw.match(/^([^：:\n]{1,20})[：:]\s*([\s\S]+)$/);
+  if (match) {
+    const name = match[1].trim();
+    const named = characters.find(c => c.name === name);
+    if (named) {
+      return { speaker: named, text: match[2].trim() };
+    }
+    if (name === '旁白' || name.toLowerCase() === 'narrator') {
+      return { text: match[2].trim() };
+    }
+  }
+
+  const speaker = characters.find(c => shot.characters.includes(c.id));
+  return { speaker, text: raw };
+};
+
+/**
+ * 读取音频时长（秒），无法解析时返回 undefined
+ */
+export const getAudioDuration = (audioUrl: string): Promise<number | undefined> => {
+  return new Promise((resolve) => {
+    const audio = new Audio();
+    audio.preload = 'metadata';
+    audio.onloadedmetadata = () => {
+      resolve(Number.isFinite(audio.duration) ? audio.duration : undefined);
+    };
+    audio.onerror = () => resolve(undefined);
+    audio.src = audioUrl;
+  });
+};
+
+/**
+ * 为镜头台词生成配音
+ * @param shot - 镜头
+ * @param characters - 剧本角色列表（用于匹配说话人和音色）
+ * @param modelId - 指定配音模型，默认使用当前激活模型
+ */
+export const generateDialogueAudio = async (
+  shot: Shot,
+  characters: Character[],
+  modelId?: string
+): Promise<DialogueAudio> => {
+  const resolved = modelId ? getModelById(modelId) : getActiveAudioModel();
+  if (!resolved || resolved.type !== 'audio') {
+    throw new Error('没有可用的配音模型，请在模型配置中启用配音模型');
+  }
+  const model = resolved as AudioModelDefinition;
+
+  const { speaker, text } = parseDialogueLine(shot, characters);
+  if (!text) {
+    throw new Error('该镜头没有台词');
+  }
+
+  const voice = speaker?.voice || model.params.defaultVoice;
+  const resourceName = `台词配音 - ${speaker?.name || '旁白'}`;
+  const startTime = Date.now();
+
+  try {
+    const audioUrl = await scheduleRequest(model.id, () => callAudioApi({ text, voice }, model));
+    const duration = await getAudioDuration(audioUrl);
+
+    addRenderLog({
+      type: 'audio',
+      resourceId: shot.id,
+      resourceName,
+      status: 'success',
+      model: model.id,
+      prompt: text,
+      duration: Date.now() - startTime,
+    });
+
+    return {
+      audioUrl,
+      text,
+      speakerId: speaker?.id,
+      voice,
+      modelId: model.id,
+      duration,
+      status: 'completed',
+    };
+  } catch (error: any) {
+    addRenderLog({
+      type: 'audio',
+      resourceId: shot.id,
+      resourceName,
+      status: 'failed',
+      model: model.id,
+      prompt: text,
+      error: error.message || String(error),
+      duration: Date.now() - startTime,
+    });
+    throw error;
+  }
+};
@@ -69,8 +69,17 @@ export {
 // 视频生成服务
 export {
   generateVideo,
+  resumeVideoTask,
 } from './videoService';
 
+// 配音生成服务
+export {
+  parseDialogueLine,
+  getAudioDuration,
+  generateDialogueAudio,
+} from './audioService';
+export type { DialogueLine } from './audioService';
+
 // 分镜辅助服务
 export {
   optimizeBothKeyframes,
@@ -0,0 +1,162 @@
+/**
+ * 请求调度器
+ * 所有模型请求按提供商、模型两级限流排队：并发数或每分钟请求数达到上限时等待，
+ * 收到 429 时整个提供商暂停一段时间（优先使用 Retry-After），批量生成不再依赖固定间隔
+ */
+
+import { RateLimitConfig } from '../../types/model';
+import { getRateLimitsForModel } from '../modelRegistry';
+
+/** 请求频率统计窗口 */
+const WINDOW_MS = 60000;
+/** 429 响应未携带 Retry-After 时的暂停时长 */
+const DEFAULT_COOLDOWN_MS = 5000;
+
+interface Bucket {
+  running: number;
+  /** 统计窗口内的请求发起时间 */
+  starts: number[];
+  /** 限流暂停截止时间 */
+  pausedUntil: number;
+}
+
+interface Slot {
+  bucket: Bucket;
+  limit?: RateLimitConfig;
+}
+
+interface Waiter {
+  slots: Slot[];
+  start: () => void;
+}
+
+const buckets = new Map<string, Bucket>();
+const waiting: Waiter[] = [];
+let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+let wakeAt = Infinity;
+
+const getBucket = (key: string): Bucket => {
+  let bucket = buckets.get(key);
+  if (!bucket) {
+    bucket = { running: 0, starts: [], pausedUntil: 0 };
+    buckets.set(key, bucket);
+  }
+  return bucket;
+};
+
+/**
+ * 计算可以发起请求的时间：0 表示立即可发起，Infinity 表示需等待进行中的请求结束
+ */
+const getReadyTime = ({ bucket, limit }: Slot, now: number): number => {
+  if (bucket.pausedUntil > now) return bucket.pausedUntil;
+  if (limit?.maxConcurrent && bucket.running >= limit.maxConcurrent) return Infinity;
+  bucket.starts = bucket.starts.filter(time => time > now - WINDOW_MS);
+  const rpm = limit?.requestsPerMinute;
+  if (rpm && bucket.starts.length >= rpm) return bucket.starts[bucket.starts.length - rpm] + WINDOW_MS;
+  return 0;
+};
+
+const scheduleWake = (time: number) => {
+  if (time === Infinity || (wakeTimer && wakeAt <= time)) return;
+  if (wakeTimer) clearTimeout(wakeTimer);
+  wakeAt = time;
+  wakeTimer = setTimeout(() => {
+    wakeTimer = null;
+    wakeAt = Infinity;
+    drain();
+  }, Math.max(0, time - Date.now()));
+};
+
+const drain = () => {
+  const now = Date.now();
+  // 同一限流桶内先到先得：排在前面的请求未能发起时，后面的请求不能占用该桶
+  const blocked = new Set<Bucket>();
+  let nextWake = Infinity;
+
+  for (let i = 0; i < waiting.length;) {
+    const waiter = waiting[i];
+    let ready = true;
+    waiter.slots.forEach(slot => {
+      const readyAt = blocked.has(slot.bucket) ? Infinity : getReadyTime(slot, now);
+      if (readyAt === 0) return;
+      ready = false;
+      blocked.add(slot.bucket);
+      nextWake = Math.min(nextWake, readyAt);
+    });
+    if (!ready) {
+      i++;
+      continue;
+    }
+    waiting.splice(i, 1);
+    waiter.slots.forEach(({ bucket, limit }) => {
+      bucket.running++;
+      if (limit?.requestsPerMinute) bucket.starts.push(now);
+    });
+    waiter.start();
+  }
+
+  scheduleWake(nextWake);
+};
+
+/**
+ * 请求被取消时抛出的错误，优先使用取消信号携带的原因（如生成任务的 JobCancelledError）
+ */
+export const getAbortError = (signal: AbortSignal): Error =>
+  signal.reason instanceof Error ? signal.reason : new Error('请求已取消');
+
+const pauseBucket = (bucket: Bucket, error: any) => {
+  const retryAfter = Number(error?.retryAfter);
+  const cooldown = retryAfter > 0 ? retryAfter * 1000 : DEFAULT_COOLDOWN_MS;
+  bucket.pausedUntil = Math.max(bucket.pausedUntil, Date.now() + cooldown);
+};
+
+/**
+ * 按模型及其提供商的限流配置调度请求
+ * operation 应包含完整的请求过程（含响应读取），失败时抛出带 status 的错误以便识别 429；
+ * 排队期间 signal 被取消时直接移出队列
+ */
+export const scheduleRequest = <T>(
+  modelId: string,
+  operation: () => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> => {
+  const limits = getRateLimitsForModel(modelId);
+  const providerBucket = getBucket(`provider:${limits.providerId}`);
+  const slots: Slot[] = [
+    { bucket: providerBucket, limit: limits.provider },
+    { bucket: getBucket(`model:${modelId}`), limit: limits.model },
+  ];
+
+  return new Promise<T>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(getAbortError(signal));
+      return;
+    }
+    const onAbort = () => {
+      const index = waiting.indexOf(waiter);
+      if (index === -1) return;
+      waiting.splice(index, 1);
+      reject(getAbortError(signal!));
+      drain();
+    };
+    const waiter: Waiter = {
+      slots,
+      start: () => {
+        signal?.removeEventListener('abort', onAbort);
+        Promise.resolve()
+          .then(operation)
+          .then(resolve, error => {
+            if (error?.status === 429) pauseBucket(providerBucket, error);
+            reject(error);
+          })
+          .finally(() => {
+            slots.forEach(({ bucket }) => bucket.running--);
+            drain();
+          });
+      },
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    waiting.push(waiter);
+    drain();
+  });
+};
@@ -14,6 +14,7 @@ import {
 } from './apiCore';
 import { getStylePrompt } from './promptConstants';
 import { generateArtDirection, generateAllCharacterPrompts, generateVisualPrompts } from './visualService';
+import { parseScreenplay, StructuredScript } from '../screenplayService';
 
 // Re-export 日志回调函数（保持外部 API 兼容）
 export { setScriptLogCallback, clearScriptLogCallback, logScriptProgress } from './apiCore';
@@ -22,23 +23,26 @@ export { setScriptLogCallback, clearScriptLogCallback, logScriptProgress } from
 // 剧本解析
 // ============================================
 
+/** 单次交给 AI 解析的剧本长度上限（字符），超出时分段解析后合并 */
+const SCRIPT_CHUNK_SIZE = 30000;
+
 /**
- * Agent 1 & 2: Script Structuring & Breakdown
- * 解析原始文本为结构化剧本数据
+ * 构建剧本结构解析提示词
+ * 分段解析时附带已识别的角色名，保证同一角色在各段中使用相同名字
  */
-export const parseScriptToData = async (
-  rawText: string,
-  language: string = '中文',
-  model: string = 'gpt-5.1',
-  visualStyle: string = 'live-action'
-): Promise<ScriptData> => {
-  console.log('📝 parseScriptToData 调用 - 使用模型:', model, '视觉风格:', visualStyle);
-  logScriptProgress('正在解析剧本结构...');
-  const startTime = Date.now();
-
-  const prompt = `
+const buildScriptStructurePrompt = (
+  text: string,
+  language: string,
+  part?: { index: number; total: number; knownCharacters: string[] }
+): string => {
+  const partNote = part && part.total > 1 ? `
+    This input is part ${part.index + 1} of ${part.total} of a longer script.
+    ${part.knownCharacters.length > 0 ? `Characters already identified in earlier parts (reuse exactly these names for the same people): ${part.knownCharacters.join(', ')}` : ''}
+    ` : '';
+
+  return `
     Analyze the text and output a JSON object in the language: ${language}.
-    
+    ${partNote}
     Tasks:
     1. Extract title, genre, logline (in ${language}).
     2. Extract characters (id, name, gender, age, personality).
@@ -46,7 +50,7 @@ export const parseScriptToData = async (
     4. Break down the story into paragraphs linked to scenes.
     
     Input:
-    "${rawText.slice(0, 30000)}" // Limit input context if needed
+    "${text}"
     
     Output ONLY valid JSON with this structure:
     {
@@ -58,9 +62,67 @@ export const parseScriptToData = async (
       "storyParagraphs": [{"id": number, "text": "string", "sceneRefId": "string"}]
     }
   `;
+};
 
-  try {
-    const responseText = await retryOperation(() => chatCompletion(prompt, model, 0.7, 8192, 'json_object'));
+/**
+ * 按段落边界拆分长剧本，单段超长时按行拆分，仍超长时硬切
+ */
+const splitScriptIntoChunks = (text: string, maxLength: number = SCRIPT_CHUNK_SIZE): string[] => {
+  if (text.length <= maxLength) return [text];
+
+  const chunks: string[] = [];
+  let current = '';
+  const flush = () => {
+    if (current.trim()) chunks.push(current);
+    current = '';
+  };
+  const append = (piece: string, separator: string) => {
+    if (current && current.length + separator.length + piece.length > maxLength) flush();
+    current = current ? `${current}${separator}${piece}` : piece;
+  };
+
+  for (const paragraph of text.split(/\n{2,}/)) {
+    if (paragraph.length <= maxLength) {
+      append(paragraph, '\n\n');
+      continue;
+    }
+    for (const line of paragraph.split('\n')) {
+      for (let i = 0; i < line.length; i += maxLength) {
+        append(line.slice(i, i + maxLength), '\n');
+      }
+    }
+  }
+  flush();
+  return chunks;
+};
+
+/**
+ * 使用 AI 解析普通文本的剧本结构
+ * 长剧本分段解析，按角色名、场景地点与时间合并，段落重新编号
+ */
+const structureScriptWithAI = async (
+  rawText: string,
+  language: string,
+  model: string,
+  signal?: AbortSignal
+): Promise<{ data: StructuredScript; prompt: string }> => {
+  const chunks = splitScriptIntoChunks(rawText);
+  const data: StructuredScript = { title: '', genre: '', logline: '', characters: [], scenes: [], storyParagraphs: [] };
+  const sceneKeys = new Map<string, string>();
+  let firstPrompt = '';
+
+  for (let index = 0; index < chunks.length; index++) {
+    if (chunks.length > 1) {
+      logScriptProgress(`正在解析剧本结构（第 ${index + 1}/${chunks.length} 段）...`);
+    }
+    const prompt = buildScriptStructurePrompt(chunks[index], language, {
+      index,
+      total: chunks.length,
+      knownCharacters: data.characters.map(c => c.name),
+    });
+    if (index === 0) firstPrompt = prompt;
+
+    const responseText = await retryOperation(() => chatCompletion(prompt, model, 0.7, 8192, 'json_object', 600000, signal), 3, 2000, signal);
 
     let parsed: any = {};
     try {
@@ -71,14 +133,87 @@ export const parseScriptToData = async (
       parsed = {};
     }
 
+    data.title = data.title || parsed.title || '';
+    data.genre = data.genre || parsed.genre || '';
+    data.logline = data.logline || parsed.logline || '';
+
     // Enforce String IDs for consistency and init variations
-    const characters = Array.isArray(parsed.characters) ? parsed.characters.map((c: any) => ({
-      ...c,
-      id: String(c.id),
-      variations: []
-    })) : [];
-    const scenes = Array.isArray(parsed.scenes) ? parsed.scenes.map((s: any) => ({ ...s, id: String(s.id) })) : [];
-    const storyParagraphs = Array.isArray(parsed.storyParagraphs) ? parsed.storyParagraphs.map((p: any) => ({ ...p, sceneRefId: String(p.sceneRefId) })) : [];
+    if (Array.isArray(parsed.characters)) {
+      parsed.characters.forEach((c: any) => {
+        const name = String(c.name || '').trim();
+        if (!name || data.characters.some(existing => existing.name.toLowerCase() === name.toLowerCase())) return;
+        data.characters.push({
+          ...c,
+          id: chunks.length > 1 ? String(data.characters.length + 1) : String(c.id),
+          name,
+          variations: []
+        });
+      });
+    }
+
+    const sceneIdMap = new Map<string, string>();
+    if (Array.isArray(parsed.scenes)) {
+      parsed.scenes.forEach((sc: any) => {
+        const key = `${sc.location || ''}|${sc.time || ''}`.toLowerCase();
+        let id = sceneKeys.get(key);
+        if (!id) {
+          id = chunks.length > 1 ? String(data.scenes.length + 1) : String(sc.id);
+          sceneKeys.set(key, id);
+          data.scenes.push({ ...sc, id });
+        }
+        sceneIdMap.set(String(sc.id), id);
+      });
+    }
+
+    if (Array.isArray(parsed.storyParagraphs)) {
+      parsed.storyParagraphs.forEach((para: any) => {
+        const sceneRefId = sceneIdMap.get(String(para.sceneRefId)) || String(para.sceneRefId);
+        data.storyParagraphs.push(chunks.length > 1
+          ? { ...para, id: data.storyParagraphs.length + 1, sceneRefId }
+          : { ...para, sceneRefId });
+      });
+    }
+  }
+
+  return { data, prompt: firstPrompt };
+};
+
+/**
+ * Agent 1 & 2: Script Structuring & Breakdown
+ * 解析原始文本为结构化剧本数据
+ * Fountain / FDX 格式的剧本直接确定性解析，普通文本交由 AI 解析；两者之后都由 AI 补充视觉提示词
+ * signal 被取消时中止所有请求，不再回退到默认结果
+ */
+export const parseScriptToData = async (
+  rawText: string,
+  language: string = '中文',
+  model: string = 'gpt-5.1',
+  visualStyle: string = 'live-action',
+  signal?: AbortSignal
+): Promise<ScriptData> => {
+  console.log('📝 parseScriptToData 调用 - 使用模型:', model, '视觉风格:', visualStyle);
+  logScriptProgress('正在解析剧本结构...');
+  const startTime = Date.now();
+
+  let prompt = rawText;
+
+  try {
+    let parsed: StructuredScript;
+    const screenplay = parseScreenplay(rawText);
+    if (screenplay) {
+      console.log(`🎞️ 检测到 ${screenplay.format} 格式剧本，直接解析结构`);
+      logScriptProgress(`检测到 ${screenplay.format === 'fdx' ? 'Final Draft' : 'Fountain'} 格式剧本，已直接解析 ${screenplay.data.scenes.length} 个场景、${screenplay.data.characters.length} 个角色`);
+      parsed = screenplay.data;
+      prompt = `[${screenplay.format}] ${rawText}`;
+    } else {
+      const result = await structureScriptWithAI(rawText, language, model, signal);
+      parsed = result.data;
+      prompt = result.prompt;
+    }
+
+    const characters: any[] = parsed.characters;
+    const scenes: any[] = parsed.scenes;
+    const storyParagraphs = parsed.storyParagraphs;
 
     const genre = parsed.genre || "通用";
 
@@ -96,10 +231,13 @@ export const parseScriptToData = async (
         scenes.map((s: any) => ({ location: s.location, time: s.time, atmosphere: s.atmosphere })),
         visualStyle,
         language,
-        model
+        model,
+        signal
       );
+      signal?.throwIfAborted();
       console.log("✅ 全局美术指导文档生成完成，风格关键词:", artDirection.moodKeywords.join(', '));
     } catch (e) {
+      signal?.throwIfAborted();
       console.error("⚠️ 全局美术指导文档生成失败，将使用默认风格:", e);
     }
 
@@ -109,8 +247,9 @@ export const parseScriptToData = async (
         await new Promise(resolve => setTimeout(resolve, 1500));
 
         const batchResults = await generateAllCharacterPrompts(
-          characters, artDirection, genre, visualStyle, language, model
+          characters, artDirection, genre, visualStyle, language, model, signal
         );
+        signal?.throwIfAborted();
 
         for (let i = 0; i < characters.length; i++) {
           if (batchResults[i] && batchResults[i].visualPrompt) {
@@ -129,25 +268,28 @@ export const parseScriptToData = async (
               await new Promise(resolve => setTimeout(resolve, 1500));
               console.log(`  重新生成角色提示词: ${char.name}`);
               logScriptProgress(`重新生成角色视觉提示词：${char.name}`);
-              const prompts = await generateVisualPrompts('character', char, genre, model, visualStyle, language, artDirection);
+              const prompts = await generateVisualPrompts('character', char, genre, model, visualStyle, language, artDirection, signal);
               char.visualPrompt = prompts.visualPrompt;
               char.negativePrompt = prompts.negativePrompt;
             } catch (e) {
+              signal?.throwIfAborted();
               console.error(`Failed to generate visual prompt for character ${char.name}:`, e);
             }
           }
         }
       } catch (e) {
+        signal?.throwIfAborted();
         console.error("批量角色提示词生成失败，回退到逐个生成模式:", e);
         for (let i = 0; i < characters.length; i++) {
           try {
             if (i > 0) await new Promise(resolve => setTimeout(resolve, 1500));
             console.log(`  生成角色提示词: ${characters[i].name}`);
             logScriptProgress(`生成角色视觉提示词：${characters[i].name}`);
-            const prompts = await generateVisualPrompts('character', characters[i], genre, model, visualStyle, language, artDirection);
+            const prompts = await generateVisualPrompts('character', characters[i], genre, model, visualStyle, language, artDirection, signal);
             characters[i].visualPrompt = prompts.visualPrompt;
             characters[i].negativePrompt = prompts.negativePrompt;
           } catch (e2) {
+            signal?.throwIfAborted();
             console.error(`Failed to generate visual prompt for character ${characters[i].name}:`, e2);
           }
         }
@@ -158,10 +300,11 @@ export const parseScriptToData = async (
           if (i > 0) await new Promise(resolve => setTimeout(resolve, 1500));
           console.log(`  生成角色提示词: ${characters[i].name}`);
           logScriptProgress(`生成角色视觉提示词：${characters[i].name}`);
-          const prompts = await generateVisualPrompts('character', characters[i], genre, model, visualStyle, language);
+          const prompts = await generateVisualPrompts('character', characters[i], genre, model, visualStyle, language, undefined, signal);
           characters[i].visualPrompt = prompts.visualPrompt;
           characters[i].negativePrompt = prompts.negativePrompt;
         } catch (e) {
+          signal?.throwIfAborted();
           console.error(`Failed to generate visual prompt for character ${characters[i].name}:`, e);
         }
       }
@@ -173,10 +316,11 @@ export const parseScriptToData = async (
         if (i > 0 || characters.length > 0) await new Promise(resolve => setTimeout(resolve, 1500));
         console.log(`  生成场景提示词: ${scenes[i].location}`);
         logScriptProgress(`生成场景视觉提示词：${scenes[i].location}`);
-        const prompts = await generateVisualPrompts('scene', scenes[i], genre, model, visualStyle, language, artDirection);
+        const prompts = await generateVisualPrompts('scene', scenes[i], genre, model, visualStyle, language, artDirection, signal);
         scenes[i].visualPrompt = prompts.visualPrompt;
         scenes[i].negativePrompt = prompts.negativePrompt;
       } catch (e) {
+        signal?.throwIfAborted();
         console.error(`Failed to generate visual prompt for scene ${scenes[i].location}:`, e);
       }
     }
@@ -230,7 +374,7 @@ export const parseScriptToData = async (
  * 生成分镜列表
  * 根据剧本数据和目标时长，为每个场景生成适量的分镜头
  */
-export const generateShotList = async (scriptData: ScriptData, model: string = 'gpt-5.1'): Promise<Shot[]> => {
+export const generateShotList = async (scriptData: ScriptData, model: string = 'gpt-5.1', signal?: AbortSignal): Promise<Shot[]> => {
   console.log('🎬 generateShotList 调用 - 使用模型:', model, '视觉风格:', scriptData.visualStyle);
   logScriptProgress('正在生成分镜列表...');
   const overallStartTime = Date.now();
@@ -359,7 +503,7 @@ ${artDirectionBlock}
     let responseText = '';
     try {
       console.log(`  📡 场景 ${index + 1} API调用 - 模型:`, model);
-      responseText = await retryOperation(() => chatCompletion(prompt, model, 0.5, 8192, 'json_object'));
+      responseText = await retryOperation(() => chatCompletion(prompt, model, 0.5, 8192, 'json_object', 600000, signal), 3, 2000, signal);
       const text = cleanJsonString(responseText);
       const parsed = JSON.parse(text);
 
@@ -385,6 +529,7 @@ ${artDirectionBlock}
 
       return result;
     } catch (e: any) {
+      signal?.throwIfAborted();
       console.error(`Failed to generate shots for scene ${scene.id}`, e);
       try {
         console.error(`  ↳ sceneId=${scene.id}, sceneIndex=${index}, responseText(snippet)=`, String(responseText || '').slice(0, 500));
@@ -443,7 +588,7 @@ ${artDirectionBlock}
 /**
  * AI续写功能 - 基于已有剧本内容续写后续情节
  */
-export const continueScript = async (existingScript: string, language: string = '中文', model: string = 'gpt-5.1'): Promise<string> => {
+export const continueScript = async (existingScript: string, language: string = '中文', model: string = 'gpt-5.1', signal?: AbortSignal): Promise<string> => {
   console.log('✍️ continueScript 调用 - 使用模型:', model);
   const startTime = Date.now();
 
@@ -466,7 +611,7 @@ ${existingScript}
 `;
 
   try {
-    const result = await retryOperation(() => chatCompletion(prompt, model, 0.8, 4096));
+    const result = await retryOperation(() => chatCompletion(prompt, model, 0.8, 4096, undefined, 600000, signal), 3, 2000, signal);
     const duration = Date.now() - startTime;
 
     await addRenderLogWithTokens({
@@ -493,7 +638,8 @@ export const continueScriptStream = async (
   existingScript: string,
   language: string = '中文',
   model: string = 'gpt-5.1',
-  onDelta?: (delta: string) => void
+  onDelta?: (delta: string) => void,
+  signal?: AbortSignal
 ): Promise<string> => {
   console.log('✍️ continueScriptStream 调用 - 使用模型:', model);
   const startTime = Date.now();
@@ -517,7 +663,7 @@ ${existingScript}
 `;
 
   try {
-    const result = await retryOperation(() => chatCompletionStream(prompt, model, 0.8, undefined, 600000, onDelta));
+    const result = await retryOperation(() => chatCompletionStream(prompt, model, 0.8, undefined, 600000, onDelta, signal), 3, 2000, signal);
     const duration = Date.now() - startTime;
 
     await addRenderLogWithTokens({
@@ -540,7 +686,7 @@ ${existingScript}
 /**
  * AI改写功能 - 对整个剧本进行改写
  */
-export const rewriteScript = async (originalScript: string, language: string = '中文', model: string = 'gpt-5.1'): Promise<string> => {
+export const rewriteScript = async (originalScript: string, language: string = '中文', model: string = 'gpt-5.1', signal?: AbortSignal): Promise<string> => {
   console.log('🔄 rewriteScript 调用 - 使用模型:', model);
   const startTime = Date.now();
 
@@ -567,7 +713,7 @@ ${originalScript}
 `;
 
   try {
-    const result = await retryOperation(() => chatCompletion(prompt, model, 0.7, 8192));
+    const result = await retryOperation(() => chatCompletion(prompt, model, 0.7, 8192, undefined, 600000, signal), 3, 2000, signal);
     const duration = Date.now() - startTime;
 
     await addRenderLogWithTokens({
@@ -594,7 +740,8 @@ export const rewriteScriptStream = async (
   originalScript: string,
   language: string = '中文',
   model: string = 'gpt-5.1',
-  onDelta?: (delta: string) => void
+  onDelta?: (delta: string) => void,
+  signal?: AbortSignal
 ): Promise<string> => {
   console.log('🔄 rewriteScriptStream 调用 - 使用模型:', model);
   const startTime = Date.now();
@@ -622,7 +769,7 @@ ${originalScript}
 `;
 
   try {
-    const result = await retryOperation(() => chatCompletionStream(prompt, model, 0.7, undefined, 600000, onDelta));
+    const result = await retryOperation(() => chatCompletionStream(prompt, model, 0.7, undefined, 600000, onDelta, signal), 3, 2000, signal);
     const duration = Date.now() - startTime;
 
     await addRenderLogWithTokens({
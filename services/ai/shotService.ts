@@ -27,7 +27,8 @@ export const optimizeBothKeyframes = async (
   sceneInfo: { location: string; time: string; atmosphere: string },
   characterInfo: string[],
   visualStyle: string,
-  model: string = 'gpt-5.1'
+  model: string = 'gpt-5.1',
+  signal?: AbortSignal
 ): Promise<{ startPrompt: string; endPrompt: string }> => {
   console.log('🎨 optimizeBothKeyframes 调用 - 同时优化起始帧和结束帧 - 使用模型:', model);
   const startTime = Date.now();
@@ -145,7 +146,7 @@ ${styleDesc}
 `;
 
   try {
-    const result = await retryOperation(() => chatCompletion(prompt, model, 0.7, 2048, 'json_object'));
+    const result = await retryOperation(() => chatCompletion(prompt, model, 0.7, 2048, 'json_object', 600000, signal), 3, 2000, signal);
     const duration = Date.now() - startTime;
 
     const cleaned = cleanJsonString(result);
@@ -177,7 +178,8 @@ export const optimizeKeyframePrompt = async (
   sceneInfo: { location: string; time: string; atmosphere: string },
   characterInfo: string[],
   visualStyle: string,
-  model: string = 'gpt-5.1'
+  model: string = 'gpt-5.1',
+  signal?: AbortSignal
 ): Promise<string> => {
   console.log(`🎨 optimizeKeyframePrompt 调用 - ${frameType === 'start' ? '起始帧' : '结束帧'} - 使用模型:`, model);
   const startTime = Date.now();
@@ -286,7 +288,7 @@ ${frameType === 'start' ? `
 `;
 
   try {
-    const result = await retryOperation(() => chatCompletion(prompt, model, 0.7, 1024));
+    const result = await retryOperation(() => chatCompletion(prompt, model, 0.7, 1024, undefined, 600000, signal), 3, 2000, signal);
     const duration = Date.now() - startTime;
 
     console.log(`✅ AI ${frameLabel}优化成功，耗时:`, duration, 'ms');
@@ -309,7 +311,8 @@ export const generateActionSuggestion = async (
   startFramePrompt: string,
   endFramePrompt: string,
   cameraMovement: string,
-  model: string = 'gpt-5.1'
+  model: string = 'gpt-5.1',
+  signal?: AbortSignal
 ): Promise<string> => {
   console.log('🎬 generateActionSuggestion 调用 - 使用模型:', model);
   const startTime = Date.now();
@@ -378,7 +381,7 @@ ${actionReferenceExamples}
 `;
 
   try {
-    const result = await retryOperation(() => chatCompletion(prompt, model, 0.8, 2048));
+    const result = await retryOperation(() => chatCompletion(prompt, model, 0.8, 2048, undefined, 600000, signal), 3, 2000, signal);
     const duration = Date.now() - startTime;
 
     console.log('✅ AI动作生成成功，耗时:', duration, 'ms');
@@ -402,7 +405,8 @@ export const splitShotIntoSubShots = async (
   sceneInfo: { location: string; time: string; atmosphere: string },
   characterNames: string[],
   visualStyle: string,
-  model: string = 'gpt-5.1'
+  model: string = 'gpt-5.1',
+  signal?: AbortSignal
 ): Promise<{ subShots: any[] }> => {
   console.log('✂️ splitShotIntoSubShots 调用 - 使用模型:', model);
   const startTime = Date.now();
@@ -513,7 +517,7 @@ ${shot.dialogue ? `**对白：** "${shot.dialogue}"
 `;
 
   try {
-    const result = await retryOperation(() => chatCompletion(prompt, model, 0.7, 4096, 'json_object'));
+    const result = await retryOperation(() => chatCompletion(prompt, model, 0.7, 4096, 'json_object', 600000, signal), 3, 2000, signal);
     const duration = Date.now() - startTime;
 
     const cleaned = cleanJsonString(result);
@@ -584,7 +588,8 @@ export const enhanceKeyframePrompt = async (
   visualStyle: string,
   cameraMovement: string,
   frameType: 'start' | 'end',
-  model: string = 'gpt-5.1'
+  model: string = 'gpt-5.1',
+  signal?: AbortSignal
 ): Promise<string> => {
   console.log(`🎨 enhanceKeyframePrompt 调用 - ${frameType === 'start' ? '起始帧' : '结束帧'} - 使用模型:`, model);
   const startTime = Date.now();
@@ -666,7 +671,7 @@ ${frameType === 'start' ? '建立清晰的初始状态、起始姿态、为后
 `;
 
   try {
-    const result = await retryOperation(() => chatCompletion(prompt, model, 0.7, 3072));
+    const result = await retryOperation(() => chatCompletion(prompt, model, 0.7, 3072, undefined, 600000, signal), 3, 2000, signal);
     const duration = Date.now() - startTime;
 
     console.log(`✅ AI ${frameLabel}增强成功，耗时:`, duration, 'ms');
@@ -693,7 +698,8 @@ export const generateNineGridPanels = async (
   cameraMovement: string,
   sceneInfo: { location: string; time: string; atmosphere: string },
   characterNames: string[],
-  visualStyle: string
+  visualStyle: string,
+  signal?: AbortSignal
 ): Promise<NineGridPanel[]> => {
   const startTime = Date.now();
   console.log('🎬 九宫格分镜 - 开始AI拆分视角...');
@@ -740,7 +746,7 @@ export const generateNineGridPanels = async (
   const fullPrompt = `${systemPrompt}\n\n${userPrompt}`;
 
   try {
-    const responseText = await retryOperation(() => chatCompletion(fullPrompt, model, 0.7, 4096, 'json_object'));
+    const responseText = await retryOperation(() => chatCompletion(fullPrompt, model, 0.7, 4096, 'json_object', 600000, signal), 3, 2000, signal);
     const duration = Date.now() - startTime;
 
     const cleaned = cleanJsonString(responseText);
@@ -778,7 +784,8 @@ export const generateNineGridImage = async (
   panels: NineGridPanel[],
   referenceImages: string[] = [],
   visualStyle: string,
-  aspectRatio: AspectRatio = '16:9'
+  aspectRatio: AspectRatio = '16:9',
+  signal?: AbortSignal
 ): Promise<string> => {
   const startTime = Date.now();
   console.log('🎬 九宫格分镜 - 开始生成九宫格图片...');
@@ -814,7 +821,7 @@ CRITICAL REQUIREMENTS:
 - The overall image should read as a professional cinematographer's shot planning board`;
 
   try {
-    const imageUrl = await generateImage(nineGridPrompt, referenceImages, aspectRatio);
+    const imageUrl = await generateImage(nineGridPrompt, referenceImages, aspectRatio, false, false, signal);
     const duration = Date.now() - startTime;
 
     console.log(`✅ 九宫格分镜 - 图片生成完成，耗时: ${duration}ms`);
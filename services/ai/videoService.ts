@@ -1,11 +1,13 @@
 /**
  * 视频生成服务
- * 包含 Veo（同步）和 Sora（异步）模式的视频生成
+ * 包含 Veo（同步）和 Sora（异步）模式的视频生成，以及按任务协议描述驱动的通用异步任务
  */
 
-import { AspectRatio, VideoDuration } from "../../types";
+import { AspectRatio, VideoDuration, RemoteVideoTask } from "../../types";
 import {
   retryOperation,
+  followAbortSignal,
+  delayWithSignal,
   checkApiKey,
   getApiBase,
   resolveModel,
@@ -16,6 +18,11 @@ import {
   getVeoModelName,
   getSoraVideoSize,
 } from './apiCore';
+import { scheduleRequest, getAbortError } from './requestScheduler';
+import { toDataUrl } from '../mediaStoreService';
+import { createAsyncVideoTask, waitForAsyncVideoTask } from '../adapters/asyncVideoTaskAdapter';
+import { mockGenerateVideo } from '../adapters/mockAdapter';
+import { isMockModel } from '../modelRegistry';
 
 // ============================================
 // 异步视频生成
@@ -32,7 +39,9 @@ const generateVideoAsync = async (
   apiKey: string,
   aspectRatio: AspectRatio = '16:9',
   duration: VideoDuration = 8,
-  modelName: string = 'sora-2'
+  modelName: string = 'sora-2',
+  onTaskCreated?: (taskId: string) => void,
+  signal?: AbortSignal
 ): Promise<string> => {
   const references = [startImageBase64, endImageBase64].filter(Boolean) as string[];
   const resolvedModelName = modelName || 'sora-2';
@@ -84,40 +93,83 @@ const generateVideoAsync = async (
     console.log('✅ 参考图片已调整尺寸并添加');
   }
 
-  const createResponse = await fetch(`${apiBase}/v1/videos`, {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`
-    },
-    body: formData
-  });
-
-  if (!createResponse.ok) {
-    if (createResponse.status === 400) {
-      throw new Error('提示词可能包含不安全或违规内容，未能处理。请修改后重试。');
-    }
-    if (createResponse.status === 500) {
-      throw new Error('当前请求较多，暂时未能处理成功，请稍后重试。');
-    }
-    let errorMessage = `创建任务失败: HTTP ${createResponse.status}`;
-    try {
-      const errorData = await createResponse.json();
-      errorMessage = errorData.error?.message || errorMessage;
-    } catch (e) {
-      const errorText = await createResponse.text();
-      if (errorText) errorMessage = errorText;
+  // 限流只作用于创建任务的请求，轮询与下载不计入
+  const createData = await scheduleRequest(resolveModel('video', resolvedModelName)?.id || resolvedModelName, async () => {
+    const createResponse = await fetch(`${apiBase}/v1/videos`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`
+      },
+      body: formData,
+      signal
+    });
+
+    if (!createResponse.ok) {
+      if (createResponse.status === 400) {
+        throw new Error('提示词可能包含不安全或违规内容，未能处理。请修改后重试。');
+      }
+      if (createResponse.status === 500) {
+        throw new Error('当前请求较多，暂时未能处理成功，请稍后重试。');
+      }
+      let errorMessage = `创建任务失败: HTTP ${createResponse.status}`;
+      try {
+        const errorData = await createResponse.json();
+        errorMessage = errorData.error?.message || errorMessage;
+      } catch (e) {
+        const errorText = await createResponse.text();
+        if (errorText) errorMessage = errorText;
+      }
+      const err: any = new Error(errorMessage);
+      err.status = createResponse.status;
+      throw err;
     }
-    throw new Error(errorMessage);
-  }
 
-  const createData = await createResponse.json();
+    return createResponse.json();
+  }, signal);
   const taskId = createData.id || createData.task_id;
   if (!taskId) {
     throw new Error('创建视频任务失败：未返回任务ID');
   }
 
   console.log(`📋 ${resolvedModelName} 任务已创建，任务ID:`, taskId);
+  onTaskCreated?.(taskId);
+
+  return waitForVideoTask(taskId, apiKey, apiBase, resolvedModelName, signal);
+};
 
+/**
+ * 取消远程视频任务
+ * OpenAI 兼容接口通过 DELETE 删除任务；不支持的服务返回错误时忽略，任务在远端自然结束
+ */
+const cancelRemoteVideoTask = async (taskId: string, apiKey: string, apiBase: string): Promise<void> => {
+  try {
+    const response = await fetch(`${apiBase}/v1/videos/${taskId}`, {
+      method: 'DELETE',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`
+      }
+    });
+    if (response.ok) {
+      console.log(`🛑 远程视频任务已取消: ${taskId}`);
+    } else {
+      console.warn(`⚠️ 远程视频任务取消失败: HTTP ${response.status}`);
+    }
+  } catch (e) {
+    console.warn('⚠️ 远程视频任务取消失败', e);
+  }
+};
+
+/**
+ * 轮询异步视频任务直至完成并下载视频
+ * 任务创建后的全部步骤，页面刷新后可凭任务 ID 从这里继续；轮询期间被取消时同时取消远程任务
+ */
+const waitForVideoTask = async (
+  taskId: string,
+  apiKey: string,
+  apiBase: string,
+  resolvedModelName: string,
+  signal?: AbortSignal
+): Promise<string> => {
   // Step 2: 轮询查询任务状态
   const maxPollingTime = 1200000; // 20分钟超时
   const pollingInterval = 5000;
@@ -126,47 +178,56 @@ const generateVideoAsync = async (
   let videoId: string | null = null;
   let videoUrlFromStatus: string | null = null;
 
-  while (Date.now() - startTime < maxPollingTime) {
-    await new Promise(resolve => setTimeout(resolve, pollingInterval));
+  try {
+    while (Date.now() - startTime < maxPollingTime) {
+      await delayWithSignal(pollingInterval, signal);
 
-    const statusResponse = await fetch(`${apiBase}/v1/videos/${taskId}`, {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
-      }
-    });
+      const statusResponse = await fetch(`${apiBase}/v1/videos/${taskId}`, {
+        method: 'GET',
+        headers: {
+          'Accept': 'application/json',
+          'Authorization': `Bearer ${apiKey}`
+        },
+        signal
+      });
 
-    if (!statusResponse.ok) {
-      console.warn('⚠️ 查询任务状态失败，继续重试...');
-      continue;
-    }
+      if (!statusResponse.ok) {
+        console.warn('⚠️ 查询任务状态失败，继续重试...');
+        continue;
+      }
 
-    const statusData = await statusResponse.json();
-    const status = statusData.status;
+      const statusData = await statusResponse.json();
+      const status = statusData.status;
 
-    console.log(`🔄 ${resolvedModelName} 任务状态:`, status, '进度:', statusData.progress);
+      console.log(`🔄 ${resolvedModelName} 任务状态:`, status, '进度:', statusData.progress);
 
-    if (status === 'completed' || status === 'succeeded') {
-      videoUrlFromStatus = statusData.video_url || statusData.videoUrl || null;
-      if (statusData.id && statusData.id.startsWith('video_')) {
-        videoId = statusData.id;
-      } else {
-        videoId = statusData.output_video || statusData.video_id || statusData.outputs?.[0]?.id || statusData.id;
-      }
-      if (!videoId && statusData.outputs && statusData.outputs.length > 0) {
-        videoId = statusData.outputs[0];
+      if (status === 'completed' || status === 'succeeded') {
+        videoUrlFromStatus = statusData.video_url || statusData.videoUrl || null;
+        if (statusData.id && statusData.id.startsWith('video_')) {
+          videoId = statusData.id;
+        } else {
+          videoId = statusData.output_video || statusData.video_id || statusData.outputs?.[0]?.id || statusData.id;
+        }
+        if (!videoId && statusData.outputs && statusData.outputs.length > 0) {
+          videoId = statusData.outputs[0];
+        }
+        console.log('✅ 任务完成，视频ID:', videoId);
+        break;
+      } else if (status === 'failed' || status === 'error') {
+        const errorMessage =
+          statusData?.error?.message ||
+          statusData?.error?.code ||
+          statusData?.message ||
+          '未知错误';
+        throw new Error(`视频生成失败: ${errorMessage}`);
       }
-      console.log('✅ 任务完成，视频ID:', videoId);
-      break;
-    } else if (status === 'failed' || status === 'error') {
-      const errorMessage =
-        statusData?.error?.message ||
-        statusData?.error?.code ||
-        statusData?.message ||
-        '未知错误';
-      throw new Error(`视频生成失败: ${errorMessage}`);
     }
+  } catch (error) {
+    if (signal?.aborted) {
+      cancelRemoteVideoTask(taskId, apiKey, apiBase);
+      throw getAbortError(signal);
+    }
+    throw error;
   }
 
   if (!videoId && !videoUrlFromStatus) {
@@ -191,6 +252,7 @@ const generateVideoAsync = async (
 
       const downloadController = new AbortController();
       const downloadTimeoutId = setTimeout(() => downloadController.abort(), downloadTimeout);
+      followAbortSignal(downloadController, signal);
 
       const downloadResponse = await fetch(`${apiBase}/v1/videos/${videoId}/content`, {
         method: 'GET',
@@ -206,7 +268,7 @@ const generateVideoAsync = async (
       if (!downloadResponse.ok) {
         if (downloadResponse.status >= 500 && attempt < maxDownloadRetries) {
           console.warn(`⚠️ 下载失败 HTTP ${downloadResponse.status}，${5 * attempt}秒后重试...`);
-          await new Promise(resolve => setTimeout(resolve, 5000 * attempt));
+          await delayWithSignal(5000 * attempt, signal);
           continue;
         }
         throw new Error(`下载视频失败: HTTP ${downloadResponse.status}`);
@@ -239,10 +301,11 @@ const generateVideoAsync = async (
         return videoBase64;
       }
     } catch (error: any) {
+      if (signal?.aborted) throw getAbortError(signal);
       if (error.name === 'AbortError') {
         console.warn(`⚠️ 下载超时，${5 * attempt}秒后重试...`);
         if (attempt < maxDownloadRetries) {
-          await new Promise(resolve => setTimeout(resolve, 5000 * attempt));
+          await delayWithSignal(5000 * attempt, signal);
           continue;
         }
         throw new Error('下载视频超时 (10分钟)');
@@ -251,7 +314,7 @@ const generateVideoAsync = async (
         throw error;
       }
       console.warn(`⚠️ 下载出错: ${error.message}，${5 * attempt}秒后重试...`);
-      await new Promise(resolve => setTimeout(resolve, 5000 * attempt));
+      await delayWithSignal(5000 * attempt, signal);
     }
   }
 
@@ -264,7 +327,9 @@ const generateVideoAsync = async (
 
 /**
  * 生成视频
- * 支持 Veo（同步）和 Sora（异步）两种模式
+ * 支持 Veo（同步）、Sora（异步）以及按任务协议配置的通用异步任务
+ * 异步模式创建任务后通过 onTaskCreated 回传远程任务信息，供页面刷新后恢复；
+ * signal 被取消时中止请求，异步任务同时尝试取消远程任务
  */
 export const generateVideo = async (
   prompt: string,
@@ -272,12 +337,47 @@ export const generateVideo = async (
   endImageBase64?: string,
   model: string = 'veo',
   aspectRatio: AspectRatio = '16:9',
-  duration: VideoDuration = 8
+  duration: VideoDuration = 8,
+  onTaskCreated?: (task: RemoteVideoTask) => void,
+  signal?: AbortSignal
 ): Promise<string> => {
   const resolvedVideoModel = resolveModel('video', model);
+  // 模拟提供商：不需要 API Key，在浏览器内录制测试视频
+  if (resolvedVideoModel && isMockModel(resolvedVideoModel.id)) {
+    const [startImage, endImage] = await Promise.all([
+      startImageBase64 ? toDataUrl(startImageBase64) : Promise.resolve(undefined),
+      endImageBase64 ? toDataUrl(endImageBase64) : Promise.resolve(undefined),
+    ]);
+    return retryOperation(() => scheduleRequest(
+      resolvedVideoModel.id,
+      () => mockGenerateVideo({ prompt, startImage, endImage, aspectRatio, duration, signal }),
+      signal
+    ), 3, 2000, signal);
+  }
+
   const requestModel = resolveRequestModel('video', model) || model;
   const apiKey = checkApiKey('video', model);
   const apiBase = getApiBase('video', model);
+  // 首尾帧可能是媒体库的 object URL，统一转为 Base64
+  if (startImageBase64) startImageBase64 = await toDataUrl(startImageBase64);
+  if (endImageBase64) endImageBase64 = await toDataUrl(endImageBase64);
+  // 配置了通用任务协议的模型：创建请求计入限流，轮询与下载不计入
+  const asyncProtocol = resolvedVideoModel?.type === 'video' ? resolvedVideoModel.asyncProtocol : undefined;
+  if (asyncProtocol) {
+    const config = { apiBase, apiKey, apiModel: requestModel };
+    const taskId = await scheduleRequest(resolvedVideoModel?.id || requestModel, () => createAsyncVideoTask(asyncProtocol, config, {
+      prompt,
+      startImage: startImageBase64,
+      endImage: endImageBase64,
+      aspectRatio,
+      duration,
+      signal,
+    }), signal);
+    console.log(`📋 ${requestModel} 任务已创建，任务ID:`, taskId);
+    onTaskCreated?.({ taskId, model });
+    return waitForAsyncVideoTask(asyncProtocol, config, taskId, signal);
+  }
+
   const isAsyncMode =
     (resolvedVideoModel?.params as any)?.mode === 'async' ||
     requestModel === 'sora-2' ||
@@ -292,7 +392,9 @@ export const generateVideo = async (
       apiKey,
       aspectRatio,
       duration,
-      requestModel || 'sora-2'
+      requestModel || 'sora-2',
+      taskId => onTaskCreated?.({ taskId, model }),
+      signal
     );
   }
 
@@ -337,9 +439,10 @@ export const generateVideo = async (
 
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), 1200000);
+  followAbortSignal(controller, signal);
 
   try {
-    const response = await retryOperation(async () => {
+    const response = await retryOperation(() => scheduleRequest(resolvedVideoModel?.id || requestModel, async () => {
       const res = await fetch(`${apiBase}/v1/chat/completions`, {
         method: 'POST',
         headers: {
@@ -371,11 +474,13 @@ export const generateVideo = async (
           const errorText = await res.text();
           if (errorText) errorMessage = errorText;
         }
-        throw new Error(errorMessage);
+        const err: any = new Error(errorMessage);
+        err.status = res.status;
+        throw err;
       }
 
       return res;
-    });
+    }, signal), 3, 2000, signal);
 
     clearTimeout(timeoutId);
 
@@ -401,9 +506,28 @@ export const generateVideo = async (
     }
   } catch (error: any) {
     clearTimeout(timeoutId);
+    if (signal?.aborted) {
+      throw getAbortError(signal);
+    }
     if (error.name === 'AbortError') {
       throw new Error('视频生成超时 (20分钟)');
     }
     throw error;
   }
 };
+
+/**
+ * 恢复异步视频任务：页面刷新后凭远程任务 ID 继续查询并下载结果
+ */
+export const resumeVideoTask = async (task: RemoteVideoTask, signal?: AbortSignal): Promise<string> => {
+  const requestModel = resolveRequestModel('video', task.model) || task.model;
+  const apiKey = checkApiKey('video', task.model);
+  const apiBase = getApiBase('video', requestModel);
+  console.log(`🔁 恢复视频任务 ${task.taskId} (${requestModel})`);
+  const resolvedVideoModel = resolveModel('video', task.model);
+  if (resolvedVideoModel?.type === 'video' && resolvedVideoModel.asyncProtocol) {
+    const config = { apiBase: getApiBase('video', task.model), apiKey, apiModel: requestModel };
+    return waitForAsyncVideoTask(resolvedVideoModel.asyncProtocol, config, task.taskId, signal);
+  }
+  return waitForVideoTask(task.taskId, apiKey, apiBase, requestModel, signal);
+};
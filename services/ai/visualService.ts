@@ -15,6 +15,12 @@ import {
   resolveModel,
   logScriptProgress,
 } from './apiCore';
+import { scheduleRequest } from './requestScheduler';
+import { requestImage } from '../adapters/imageAdapter';
+import { isSelfHostedImageProtocol } from '../adapters/selfHostedImageAdapter';
+import { mockGenerateImage } from '../adapters/mockAdapter';
+import { getApiKeyForModel, isMockModel } from '../modelRegistry';
+import { ImageModelDefinition } from '../../types/model';
 import {
   getStylePrompt,
   getNegativePrompt,
@@ -37,7 +43,8 @@ export const generateArtDirection = async (
   scenes: { location: string; time: string; atmosphere: string }[],
   visualStyle: string,
   language: string = '中文',
-  model: string = 'gpt-5.1'
+  model: string = 'gpt-5.1',
+  signal?: AbortSignal
 ): Promise<ArtDirection> => {
   console.log('🎨 generateArtDirection 调用 - 生成全局美术指导文档');
   logScriptProgress('正在生成全局美术指导文档（Art Direction）...');
@@ -93,7 +100,7 @@ Output ONLY valid JSON with this exact structure:
 }`;
 
   try {
-    const responseText = await retryOperation(() => chatCompletion(prompt, model, 0.4, 4096, 'json_object'));
+    const responseText = await retryOperation(() => chatCompletion(prompt, model, 0.4, 4096, 'json_object', 600000, signal), 3, 2000, signal);
     const text = cleanJsonString(responseText);
     const parsed = JSON.parse(text);
 
@@ -148,7 +155,8 @@ export const generateAllCharacterPrompts = async (
   genre: string,
   visualStyle: string,
   language: string = '中文',
-  model: string = 'gpt-5.1'
+  model: string = 'gpt-5.1',
+  signal?: AbortSignal
 ): Promise<{ visualPrompt: string; negativePrompt: string }[]> => {
   console.log(`🎭 generateAllCharacterPrompts 调用 - 批量生成 ${characters.length} 个角色的视觉提示词`);
   logScriptProgress(`正在批量生成 ${characters.length} 个角色的视觉提示词（风格统一模式）...`);
@@ -231,7 +239,7 @@ The "characters" array MUST have exactly ${characters.length} items, in the SAME
 Output ONLY the JSON, no explanations.`;
 
   try {
-    const responseText = await retryOperation(() => chatCompletion(prompt, model, 0.4, 4096, 'json_object'));
+    const responseText = await retryOperation(() => chatCompletion(prompt, model, 0.4, 4096, 'json_object', 600000, signal), 3, 2000, signal);
     const text = cleanJsonString(responseText);
     const parsed = JSON.parse(text);
 
@@ -279,7 +287,8 @@ export const generateVisualPrompts = async (
   model: string = 'gpt-5.1',
   visualStyle: string = 'live-action',
   language: string = '中文',
-  artDirection?: ArtDirection
+  artDirection?: ArtDirection,
+  signal?: AbortSignal
 ): Promise<{ visualPrompt: string; negativePrompt: string }> => {
   const stylePrompt = getStylePrompt(visualStyle);
   const negativePrompt = type === 'scene'
@@ -370,7 +379,7 @@ CRITICAL RULES:
 Output ONLY the visual prompt text, no explanations.`;
   }
 
-  const visualPrompt = await retryOperation(() => chatCompletion(prompt, model, 0.5, 1024));
+  const visualPrompt = await retryOperation(() => chatCompletion(prompt, model, 0.5, 1024, undefined, 600000, signal), 3, 2000, signal);
 
   return {
     visualPrompt: visualPrompt.trim(),
@@ -384,26 +393,31 @@ Output ONLY the visual prompt text, no explanations.`;
 
 /**
  * 生成图像
- * 使用图像生成API，支持参考图像确保角色和场景一致性
+ * 使用图像生成API，支持参考图像确保角色和场景一致性；signal 被取消时中止请求，negativePrompt 仅自建后端使用
  */
 export const generateImage = async (
   prompt: string,
   referenceImages: string[] = [],
   aspectRatio: AspectRatio = '16:9',
   isVariation: boolean = false,
-  hasTurnaround: boolean = false
+  hasTurnaround: boolean = false,
+  signal?: AbortSignal,
+  negativePrompt?: string
 ): Promise<string> => {
   const startTime = Date.now();
 
-  const activeImageModel = getActiveModel('image');
+  const activeImageModel = getActiveModel('image') as ImageModelDefinition | undefined;
   const imageModelId = activeImageModel?.apiModel || activeImageModel?.id || 'gemini-3-pro-image-preview';
-  const imageModelEndpoint = activeImageModel?.endpoint || `/v1beta/models/${imageModelId}:generateContent`;
-  const apiKey = checkApiKey('image', activeImageModel?.id);
+  // 自建后端（ComfyUI / A1111）可不配置 API Key，模拟提供商不需要 API Key
+  const isSelfHosted = isSelfHostedImageProtocol(activeImageModel?.protocol);
+  const isMock = !!activeImageModel && isMockModel(activeImageModel.id);
+  const apiKey = isMock ? '' : isSelfHosted ? getApiKeyForModel(activeImageModel!.id) || '' : checkApiKey('image', activeImageModel?.id);
   const apiBase = getApiBase('image', activeImageModel?.id);
 
   try {
     let finalPrompt = prompt;
-    if (referenceImages.length > 0) {
+    // 参考图说明面向多模态模型，自建后端的 SD 类模型直接使用原始提示词，模拟图片直接标注原始提示词
+    if (referenceImages.length > 0 && !isSelfHosted && !isMock) {
       if (isVariation) {
         finalPrompt = `
       ⚠️⚠️⚠️ CRITICAL REQUIREMENTS - CHARACTER OUTFIT VARIATION ⚠️⚠️⚠️
@@ -479,91 +493,33 @@ export const generateImage = async (
       }
     }
 
-    const parts: any[] = [{ text: finalPrompt }];
-
-    referenceImages.forEach((imgUrl) => {
-      const match = imgUrl.match(/^data:(image\/[a-zA-Z]+);base64,(.+)$/);
-      if (match) {
-        parts.push({
-          inlineData: {
-            mimeType: match[1],
-            data: match[2]
-          }
-        });
-      }
-    });
-
-    const requestBody: any = {
-      contents: [{
-        role: "user",
-        parts: parts
-      }],
-      generationConfig: {
-        responseModalities: ["TEXT", "IMAGE"]
-      }
-    };
-
-    if (aspectRatio !== '16:9') {
-      requestBody.generationConfig.imageConfig = {
-        aspectRatio: aspectRatio
-      };
-    }
-
-    const response = await retryOperation(async () => {
-      const res = await fetch(`${apiBase}${imageModelEndpoint}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${apiKey}`,
-          'Accept': '*/*'
+    const result = await retryOperation(() => scheduleRequest(
+      activeImageModel?.id || imageModelId,
+      () => isMock ? mockGenerateImage({ prompt: finalPrompt, referenceImages, aspectRatio, signal }) : requestImage(
+        {
+          apiBase,
+          apiKey,
+          apiModel: imageModelId,
+          endpoint: activeImageModel?.endpoint,
+          protocol: activeImageModel?.protocol,
+          template: activeImageModel?.workflowTemplate,
         },
-        body: JSON.stringify(requestBody)
-      });
-
-      if (!res.ok) {
-        if (res.status === 400) {
-          throw new Error('提示词可能包含不安全或违规内容，未能处理。请修改后重试。');
-        }
-        else if (res.status === 500) {
-          throw new Error('当前请求较多，暂时未能处理成功，请稍后重试。');
-        }
-
-        let errorMessage = `HTTP错误: ${res.status}`;
-        try {
-          const errorData = await res.json();
-          errorMessage = errorData.error?.message || errorMessage;
-        } catch (e) {
-          const errorText = await res.text();
-          if (errorText) errorMessage = errorText;
-        }
-        throw new Error(errorMessage);
-      }
+        { prompt: finalPrompt, negativePrompt, referenceImages, aspectRatio, signal }
+      ),
+      signal
+    ), 3, 2000, signal);
 
-      return await res.json();
+    addRenderLogWithTokens({
+      type: 'keyframe',
+      resourceId: 'image-' + Date.now(),
+      resourceName: prompt.substring(0, 50) + '...',
+      status: 'success',
+      model: imageModelId,
+      prompt: prompt,
+      duration: Date.now() - startTime
     });
 
-    const candidates = response.candidates || [];
-    if (candidates.length > 0 && candidates[0].content && candidates[0].content.parts) {
-      for (const part of candidates[0].content.parts) {
-        if (part.inlineData) {
-          const result = `data:image/png;base64,${part.inlineData.data}`;
-
-          addRenderLogWithTokens({
-            type: 'keyframe',
-            resourceId: 'image-' + Date.now(),
-            resourceName: prompt.substring(0, 50) + '...',
-            status: 'success',
-            model: imageModelId,
-            prompt: prompt,
-            duration: Date.now() - startTime
-          });
-
-          return result;
-        }
-      }
-    }
-
-    throw new Error("图片生成失败 (No image data returned)");
+    return result;
   } catch (error: any) {
     addRenderLogWithTokens({
       type: 'keyframe',
@@ -619,7 +575,8 @@ export const generateCharacterTurnaroundPanels = async (
   visualStyle: string,
   artDirection?: ArtDirection,
   language: string = '中文',
-  model: string = 'gpt-5.1'
+  model: string = 'gpt-5.1',
+  signal?: AbortSignal
 ): Promise<CharacterTurnaroundPanel[]> => {
   console.log(`🎭 generateCharacterTurnaroundPanels - 为角色 ${character.name} 生成九宫格造型视角`);
   logScriptProgress(`正在为角色「${character.name}」生成九宫格造型视角描述...`);
@@ -688,7 +645,7 @@ Output ONLY valid JSON:
 The "panels" array MUST have exactly 9 items (index 0-8).`;
 
   try {
-    const responseText = await retryOperation(() => chatCompletion(prompt, model, 0.4, 4096, 'json_object'));
+    const responseText = await retryOperation(() => chatCompletion(prompt, model, 0.4, 4096, 'json_object', 600000, signal), 3, 2000, signal);
     const text = cleanJsonString(responseText);
     const parsed = JSON.parse(text);
 
@@ -731,7 +688,8 @@ export const generateCharacterTurnaroundImage = async (
   panels: CharacterTurnaroundPanel[],
   visualStyle: string,
   referenceImage?: string,
-  artDirection?: ArtDirection
+  artDirection?: ArtDirection,
+  signal?: AbortSignal
 ): Promise<string> => {
   console.log(`🖼️ generateCharacterTurnaroundImage - 为角色 ${character.name} 生成九宫格造型图片`);
   logScriptProgress(`正在为角色「${character.name}」生成九宫格造型图片...`);
@@ -787,7 +745,7 @@ CRITICAL REQUIREMENTS:
 
   try {
     // 使用 1:1 比例生成九宫格（正方形最适合3x3网格）
-    const imageUrl = await generateImage(prompt, referenceImages, '1:1');
+    const imageUrl = await generateImage(prompt, referenceImages, '1:1', false, false, signal);
     console.log(`✅ 角色 ${character.name} 九宫格造型图片生成完成`);
     logScriptProgress(`角色「${character.name}」九宫格造型图片生成完成`);
     return imageUrl;
@@ -10,6 +10,7 @@
  * - ai/scriptService.ts   剧本处理（解析、分镜、续写、改写）
  * - ai/visualService.ts   视觉资产（美术指导、提示词生成、图像生成）
  * - ai/videoService.ts    视频生成（Veo 同步、Sora 异步）
+ * - ai/audioService.ts    配音生成（台词 TTS、角色音色）
  * - ai/shotService.ts     分镜辅助（关键帧优化、动作生成、镜头拆分、九宫格）
  */
 
@@ -0,0 +1,172 @@
+/**
+ * 项目音轨服务
+ * 管理背景音乐与音效：从本地文件导入、按镜头 ID 解析到时间线、计算淡入淡出音量；镜头的台词配音作为锚定音轨一同混音
+ * 预览播放与成片混音均以此为准，保证两者一致
+ */
+
+import { AudioTrack, AudioTrackKind, Shot } from '../types';
+import { getAudioDuration } from './ai/audioService';
+import { buildTimeline, TimelineEntry } from './timelineService';
+
+/** 默认音量：背景音乐压低以免盖过台词与片段原声 */
+export const DEFAULT_MUSIC_VOLUME = 0.4;
+export const DEFAULT_SFX_VOLUME = 0.8;
+
+/** 背景音乐默认淡入淡出时长（秒） */
+export const DEFAULT_MUSIC_FADE = 1;
+
+/**
+ * 解析到时间线上的音轨
+ */
+export interface ResolvedAudioTrack {
+  track: AudioTrack;
+  anchorIndex: number; // 锚点片段在时间线中的位置（未锚定的背景音乐为 0）
+  start: number;       // 在成片中的起始时间（秒）
+  end: number;         // 在成片中的结束时间（秒）
+}
+
+/**
+ * 读取本地文件为 base64 data URL
+ */
+const readFileAsDataUrl = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('读取音频文件失败'));
+    reader.readAsDataURL(file);
+  });
+};
+
+/**
+ * 从本地音频文件创建音轨
+ * @param kind - 音轨类型
+ * @param file - 本地音频文件
+ * @param shotId - 锚定镜头（音效必填）
+ */
+export const createAudioTrackFromFile = async (
+  kind: AudioTrackKind,
+  file: File,
+  shotId?: string
+): Promise<AudioTrack> => {
+  if (!file.type.startsWith('audio/')) {
+    throw new Error('请选择音频文件');
+  }
+  if (kind === 'sfx' && !shotId) {
+    throw new Error('音效需要绑定到镜头');
+  }
+
+  const audioUrl = await readFileAsDataUrl(file);
+  const duration = await getAudioDuration(audioUrl);
+  if (!duration) {
+    throw new Error('无法解析音频文件，请确认格式受浏览器支持');
+  }
+
+  const isMusic = kind === 'music';
+  return {
+    id: `audio-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+    kind,
+    name: file.name.replace(/\.[^.]+$/, ''),
+    audioUrl,
+    duration,
+    shotId,
+    offset: 0,
+    volume: isMusic ? DEFAULT_MUSIC_VOLUME : DEFAULT_SFX_VOLUME,
+    fadeIn: isMusic ? DEFAULT_MUSIC_FADE : 0,
+    fadeOut: isMusic ? DEFAULT_MUSIC_FADE : 0,
+    loop: isMusic,
+  };
+};
+
+/**
+ * 更新音轨参数（校正音量、偏移与淡入淡出范围）
+ */
+export const applyAudioTrackUpdate = (track: AudioTrack, updates: Partial<AudioTrack>): AudioTrack => {
+  const next = { ...track, ...updates };
+  return {
+    ...next,
+    offset: Math.max(0, next.offset || 0),
+    volume: Math.min(Math.max(next.volume ?? 1, 0), 1),
+    fadeIn: Math.max(0, next.fadeIn || 0),
+    fadeOut: Math.max(0, next.fadeOut || 0),
+  };
+};
+
+/**
+ * 将镜头已生成的台词配音转换为锚定在该镜头开头的音轨
+ * 混音时与项目音轨合并传入 resolveAudioTracks
+ */
+export const getDialogueAudioTracks = (shots: Shot[]): AudioTrack[] =>
+  shots.flatMap(shot => {
+    const audio = shot.dialogueAudio;
+    if (audio?.status !== 'completed' || !audio.audioUrl) return [];
+    return [{
+      id: `dialogue-${shot.id}`,
+      kind: 'sfx' as const,
+      name: `台词配音 ${shot.id}`,
+      audioUrl: audio.audioUrl,
+      duration: audio.duration,
+      shotId: shot.id,
+      offset: 0,
+      volume: 1,
+      fadeIn: 0,
+      fadeOut: 0,
+    }];
+  });
+
+/**
+ * 按时间线解析音轨位置
+ * - 锚定镜头不在时间线中（已删除或未生成视频）的音轨会被跳过
+ * - 循环的背景音乐持续到成片结束，其余音轨播放到音频结尾或成片结束
+ */
+export const resolveAudioTracks = (
+  tracks: AudioTrack[] | undefined,
+  shots: Shot[],
+  timeline: TimelineEntry[] = buildTimeline(shots)
+): ResolvedAudioTrack[] => {
+  if (!tracks || tracks.length === 0 || timeline.length === 0) return [];
+  const total = timeline[timeline.length - 1].end;
+
+  return tracks.flatMap(track => {
+    let anchorIndex = 0;
+    let anchorStart = 0;
+    if (track.shotId) {
+      const entry = timeline.find(e => e.shot.id === track.shotId);
+      if (!entry) return [];
+      anchorIndex = timeline.indexOf(entry);
+      anchorStart = entry.start;
+    } else if (track.kind === 'sfx') {
+      return [];
+    }
+
+    const start = anchorStart + Math.max(0, track.offset || 0);
+    if (start >= total) return [];
+    const naturalEnd = track.loop || !track.duration ? total : start + track.duration;
+    return [{ track, anchorIndex, start, end: Math.min(naturalEnd, total) }];
+  });
+};
+
+/**
+ * 计算音轨在成片某一时刻的音量（含淡入淡出），不在播放范围内时为 0
+ */
+export const getAudioTrackGain = (resolved: ResolvedAudioTrack, time: number): number => {
+  const { track, start, end } = resolved;
+  if (time < start || time >= end) return 0;
+
+  let gain = track.volume;
+  if (track.fadeIn > 0) {
+    gain *= Math.min(1, (time - start) / track.fadeIn);
+  }
+  if (track.fadeOut > 0) {
+    gain *= Math.min(1, (end - time) / track.fadeOut);
+  }
+  return Math.max(0, gain);
+};
+
+/**
+ * 计算成片某一时刻对应的音频内播放位置（秒），循环音轨按音频时长取余
+ */
+export const getAudioTrackPosition = (resolved: ResolvedAudioTrack, time: number): number => {
+  const elapsed = Math.max(0, time - resolved.start);
+  const duration = resolved.track.duration;
+  return resolved.track.loop && duration ? elapsed % duration : elapsed;
+};
@@ -0,0 +1,316 @@
+/**
+ * 剪辑交换格式服务
+ * 将成片时间线导出为 CMX3600 EDL、FCPXML 与 OpenTimelineIO，
+ * 供 Premiere / DaVinci Resolve / Final Cut Pro 直接打开后继续精剪
+ *
+ * 时间统一按 TIMELINE_FPS 取整到帧；叠化转场在 EDL 中记为 Dissolve，
+ * 在 FCPXML / OTIO 中以剪辑点为中心、使用前后片段的余量（handles）
+ */
+
+import { AspectRatio, Shot, TransitionType } from '../types';
+import { buildTimeline, formatTimecode, getShotSourceDuration, getTransitionOverlap, TIMELINE_FPS } from './timelineService';
+
+/** EDL 记录时间码起点（行业惯例 01:00:00:00） */
+const EDL_RECORD_START_FRAMES = 3600 * TIMELINE_FPS;
+
+/**
+ * 剪辑序列中的单个片段（时间单位均为帧）
+ */
+export interface EditClip {
+  shot: Shot;
+  name: string;         // 片段名（镜头 ID）
+  fileName: string;     // 打包后的媒体文件名
+  sourceFrames: number; // 素材总时长
+  sourceIn: number;     // 素材入点
+  sourceOut: number;    // 素材出点
+  recordIn: number;     // 在序列中的起点（叠化时为转场开始处）
+  recordOut: number;    // 在序列中的终点
+  transitionOut: { type: TransitionType; frames: number }; // 与下一个片段之间的转场
+}
+
+/**
+ * 剪辑序列
+ */
+export interface EditSequence {
+  title: string;
+  fps: number;
+  width: number;
+  height: number;
+  clips: EditClip[];
+  totalFrames: number;
+}
+
+const toFrames = (seconds: number) => Math.round(seconds * TIMELINE_FPS);
+
+const framesToTimecode = (frames: number) => formatTimecode(frames / TIMELINE_FPS);
+
+/**
+ * 镜头 ID 转为安全的文件名
+ */
+export const getEditClipFileName = (shot: Shot): string => `${shot.id.replace(/[^\w.-]/g, '_')}.mp4`;
+
+const getFrameSize = (aspectRatio: AspectRatio): { width: number; height: number } => {
+  if (aspectRatio === '9:16') return { width: 1080, height: 1920 };
+  if (aspectRatio === '1:1') return { width: 1080, height: 1080 };
+  return { width: 1920, height: 1080 };
+};
+
+/**
+ * 按成片时间线构建剪辑序列（逐帧累加，避免取整误差累积）
+ */
+export const buildEditSequence = (shots: Shot[], title: string, aspectRatio: AspectRatio = '16:9'): EditSequence => {
+  const timeline = buildTimeline(shots);
+  let cursor = 0;
+
+  const clips = timeline.map(entry => {
+    const sourceIn = toFrames(entry.trimIn);
+    const sourceOut = Math.max(sourceIn + 1, toFrames(entry.trimOut));
+    const recordIn = cursor;
+    const recordOut = recordIn + (sourceOut - sourceIn);
+    const overlap = toFrames(getTransitionOverlap(entry.transitionOut));
+    cursor = recordOut - overlap;
+
+    return {
+      shot: entry.shot,
+      name: entry.shot.id,
+      fileName: getEditClipFileName(entry.shot),
+      sourceFrames: Math.max(sourceOut, toFrames(getShotSourceDuration(entry.shot))),
+      sourceIn,
+      sourceOut,
+      recordIn,
+      recordOut,
+      transitionOut: { type: entry.transitionOut.type, frames: toFrames(entry.transitionOut.duration) },
+    };
+  });
+
+  return {
+    title,
+    fps: TIMELINE_FPS,
+    ...getFrameSize(aspectRatio),
+    clips,
+    totalFrames: clips.length > 0 ? clips[clips.length - 1].recordOut : 0,
+  };
+};
+
+/**
+ * 清理写入 EDL 注释的文本（单行、去除控制字符）
+ */
+const toEdlComment = (text: string): string => text.replace(/[\r\n\t]+/g, ' ').trim();
+
+/**
+ * 生成 CMX3600 EDL
+ * 片段统一使用 AX 卷号，通过 FROM CLIP NAME 关联媒体文件；动作描述写为 LOC 标记
+ */
+export const toEdl = (sequence: EditSequence): string => {
+  const lines = [`TITLE: ${toEdlComment(sequence.title)}`, 'FCM: NON-DROP FRAME', ''];
+  let eventNumber = 0;
+  const tc = (frames: number) => framesToTimecode(frames);
+  const rec = (frames: number) => tc(EDL_RECORD_START_FRAMES + frames);
+  const event = () => String(++eventNumber).padStart(3, '0');
+
+  sequence.clips.forEach((clip, index) => {
+    const previous = index > 0 ? sequence.clips[index - 1] : null;
+    const next = sequence.clips[index + 1];
+    // 叠化到下一片段时，本片段在转场开始处结束，转场部分使用素材余量
+    const recordOut = next && clip.transitionOut.type === 'crossfade' ? next.recordIn : clip.recordOut;
+    const sourceOut = clip.sourceIn + (recordOut - clip.recordIn);
+    const dissolveIn = previous?.transitionOut.type === 'crossfade' ? previous.transitionOut.frames : 0;
+    const number = event();
+
+    if (previous && dissolveIn > 0) {
+      const previousSource = previous.sourceIn + (clip.recordIn - previous.recordIn);
+      lines.push(`${number}  AX       V     C        ${tc(previousSource)} ${tc(previousSource)} ${rec(clip.recordIn)} ${rec(clip.recordIn)}`);
+      lines.push(`${number}  AX       V     D    ${String(dissolveIn).padStart(3, '0')} ${tc(clip.sourceIn)} ${tc(sourceOut)} ${rec(clip.recordIn)} ${rec(recordOut)}`);
+      lines.push(`* FROM CLIP NAME: ${previous.fileName}`);
+      lines.push(`* TO CLIP NAME: ${clip.fileName}`);
+    } else {
+      lines.push(`${number}  AX       V     C        ${tc(clip.sourceIn)} ${tc(sourceOut)} ${rec(clip.recordIn)} ${rec(recordOut)}`);
+      lines.push(`* FROM CLIP NAME: ${clip.fileName}`);
+    }
+    if (clip.shot.actionSummary) {
+      lines.push(`* LOC: ${rec(clip.recordIn)} YELLOW  ${toEdlComment(clip.shot.actionSummary)}`);
+    }
+    if (clip.transitionOut.type === 'dip-to-black' && next) {
+      lines.push(`* TRANSITION: DIP TO BLACK ${clip.transitionOut.frames} FRAMES`);
+    } else if (clip.transitionOut.type === 'match-cut' && next) {
+      lines.push('* TRANSITION: MATCH CUT');
+    }
+    lines.push('');
+  });
+
+  return lines.join('\r\n');
+};
+
+/**
+ * 以剪辑点为中心展开叠化：返回每个片段在序列中实际占用的范围与对应的素材入出点
+ */
+const layoutCenteredCuts = (sequence: EditSequence) => {
+  // 转场在剪辑点前占 floor(d/2) 帧，剪辑点后占其余帧；前后两个片段都以同一剪辑点计算
+  const framesBeforeCut = (frames: number) => Math.floor(frames / 2);
+  return sequence.clips.map((clip, index) => {
+    const previous = index > 0 ? sequence.clips[index - 1] : null;
+    const outgoing = clip.transitionOut.type === 'crossfade' && index < sequence.clips.length - 1 ? clip.transitionOut.frames : 0;
+    const incoming = previous?.transitionOut.type === 'crossfade' ? previous.transitionOut.frames : 0;
+    const headTrim = framesBeforeCut(incoming);
+    const tailTrim = outgoing - framesBeforeCut(outgoing);
+    const offset = clip.recordIn + headTrim;
+    const duration = clip.sourceOut - clip.sourceIn - headTrim - tailTrim;
+    return {
+      clip,
+      offset,
+      sourceIn: clip.sourceIn + headTrim,
+      duration,
+      transitionOut: outgoing > 0
+        ? { cut: offset + duration, inOffset: framesBeforeCut(outgoing), outOffset: tailTrim }
+        : null,
+    };
+  });
+};
+
+const escapeXml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+};
+
+/**
+ * 生成 FCPXML 1.9
+ * 媒体使用相对路径 media/<镜头ID>.mp4，导入时如提示离线请重新链接到解压目录
+ */
+export const toFcpxml = (sequence: EditSequence): string => {
+  const fps = sequence.fps;
+  const time = (frames: number) => (frames === 0 ? '0s' : `${frames}/${fps}s`);
+  const layout = layoutCenteredCuts(sequence);
+
+  const assets = sequence.clips.map((clip, index) => `
+    <asset id="r${index + 2}" name="${escapeXml(clip.name)}" start="0s" duration="${time(clip.sourceFrames)}" hasVideo="1" hasAudio="1" format="r1" audioSources="1" audioChannels="2">
+      <media-rep kind="original-media" src="media/${escapeXml(clip.fileName)}"/>
+    </asset>`).join('');
+
+  const spine = layout.map((item, index) => {
+    const marker = item.clip.shot.actionSummary
+      ? `
+              <marker start="${time(item.sourceIn)}" duration="${time(1)}" value="${escapeXml(item.clip.shot.actionSummary)}"/>`
+      : '';
+    const clip = `
+            <asset-clip ref="r${index + 2}" name="${escapeXml(item.clip.name)}" offset="${time(item.offset)}" start="${time(item.sourceIn)}" duration="${time(item.duration)}" format="r1" tcFormat="NDF">${marker}
+            </asset-clip>`;
+    const transition = item.transitionOut
+      ? `
+            <transition name="Cross Dissolve" offset="${time(item.transitionOut.cut - item.transitionOut.inOffset)}" duration="${time(item.transitionOut.inOffset + item.transitionOut.outOffset)}"/>`
+      : '';
+    return clip + transition;
+  }).join('');
+
+  const title = escapeXml(sequence.title);
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE fcpxml>
+<fcpxml version="1.9">
+  <resources>
+    <format id="r1" frameDuration="1/${fps}s" width="${sequence.width}" height="${sequence.height}"/>${assets}
+  </resources>
+  <library>
+    <event name="${title}">
+      <project name="${title}">
+        <sequence format="r1" duration="${time(sequence.totalFrames)}" tcStart="0s" tcFormat="NDF">
+          <spine>${spine}
+          </spine>
+        </sequence>
+      </project>
+    </event>
+  </library>
+</fcpxml>
+`;
+};
+
+/**
+ * 生成 OpenTimelineIO JSON（.otio）
+ */
+export const toOtio = (sequence: EditSequence): string => {
+  const rate = sequence.fps;
+  const rationalTime = (value: number) => ({ OTIO_SCHEMA: 'RationalTime.1', rate, value });
+  const timeRange = (start: number, duration: number) => ({
+    OTIO_SCHEMA: 'TimeRange.1',
+    start_time: rationalTime(start),
+    duration: rationalTime(duration),
+  });
+
+  const children: object[] = [];
+  layoutCenteredCuts(sequence).forEach(item => {
+    const { clip } = item;
+    children.push({
+      OTIO_SCHEMA: 'Clip.2',
+      name: clip.name,
+      source_range: timeRange(item.sourceIn, item.duration),
+      media_references: {
+        DEFAULT_MEDIA: {
+          OTIO_SCHEMA: 'ExternalReference.1',
+          name: clip.fileName,
+          target_url: `media/${clip.fileName}`,
+          available_range: timeRange(0, clip.sourceFrames),
+          metadata: {},
+        },
+      },
+      active_media_reference_key: 'DEFAULT_MEDIA',
+      markers: clip.shot.actionSummary
+        ? [{
+            OTIO_SCHEMA: 'Marker.2',
+            name: clip.shot.actionSummary,
+            color: 'YELLOW',
+            marked_range: timeRange(item.sourceIn, 0),
+            comment: clip.shot.dialogue || '',
+            metadata: {},
+          }]
+        : [],
+      effects: [],
+      metadata: {
+        bigbanana: {
+          shotId: clip.shot.id,
+          sceneId: clip.shot.sceneId,
+          shotSize: clip.shot.shotSize || '',
+          cameraMovement: clip.shot.cameraMovement || '',
+        },
+      },
+    });
+    if (item.transitionOut) {
+      children.push({
+        OTIO_SCHEMA: 'Transition.1',
+        name: 'Cross Dissolve',
+        transition_type: 'SMPTE_Dissolve',
+        in_offset: rationalTime(item.transitionOut.inOffset),
+        out_offset: rationalTime(item.transitionOut.outOffset),
+        metadata: {},
+      });
+    }
+  });
+
+  const timeline = {
+    OTIO_SCHEMA: 'Timeline.1',
+    name: sequence.title,
+    global_start_time: rationalTime(0),
+    tracks: {
+      OTIO_SCHEMA: 'Stack.1',
+      name: 'tracks',
+      source_range: null,
+      effects: [],
+      markers: [],
+      metadata: {},
+      children: [{
+        OTIO_SCHEMA: 'Track.1',
+        name: 'V1',
+        kind: 'Video',
+        source_range: null,
+        effects: [],
+        markers: [],
+        metadata: {},
+        children,
+      }],
+    },
+    metadata: {},
+  };
+
+  return JSON.stringify(timeline, null, 2);
+};
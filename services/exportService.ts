@@ -1,4 +1,13 @@
-import { ProjectState } from '../types';
+import { ProjectState, AspectRatio } from '../types';
+import { getUserAspectRatio } from './modelRegistry';
+import { renderMasterVideo, isMasterRenderSupported, MasterClip, MasterAudioCue } from './masterRenderService';
+import { buildPlaybackTimeline, getTotalDuration } from './timelineService';
+import { resolveAudioTracks, getDialogueAudioTracks } from './audioTrackService';
+import { buildSubtitleCues, formatSubtitles, SubtitleFormat } from './subtitleService';
+import { projectToScreenplay, screenplayToFountain } from './screenplayService';
+import { buildStoryboardHtml } from './storyboardService';
+import { buildEditSequence, toEdl, toFcpxml, toOtio } from './editListService';
+import { toDataUrl } from './mediaStoreService';
 
 /**
  * 下载单个文件并转换为 Blob
@@ -26,9 +35,111 @@ async function downloadFile(urlOrBase64: string): Promise<Blob> {
 }
 
 /**
- * 下载所有视频片段并打包为 ZIP 文件
+ * 触发浏览器下载
+ */
+export function triggerDownload(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * 导出成片
+ * 在浏览器内按镜头顺序将已完成的视频片段合成为单个视频文件，
+ * 浏览器不支持本地合成时回退为片段 ZIP 包
  */
 export async function downloadMasterVideo(
+  project: ProjectState,
+  onProgress?: (phase: string, progress: number) => void,
+  options?: { aspectRatio?: AspectRatio }
+): Promise<void> {
+  if (!isMasterRenderSupported()) {
+    console.warn('当前浏览器不支持本地合成成片，回退为片段 ZIP 导出');
+    return downloadVideoClipsZip(project, onProgress);
+  }
+
+  try {
+    // 1. 构建成片时间线（与时间线面板、预览播放一致）
+    const timeline = buildPlaybackTimeline(project.shots);
+    const completedShots = timeline.map(entry => entry.shot);
+
+    if (completedShots.length === 0) {
+      throw new Error('没有可导出的视频片段');
+    }
+
+    onProgress?.('加载视频片段...', 0);
+
+    // 2. 读取所有片段（任一片段缺失都会导致成片不完整，因此直接中断）
+    const clips: MasterClip[] = [];
+    for (let i = 0; i < completedShots.length; i++) {
+      const shot = completedShots[i];
+      try {
+        const blob = await downloadFile(shot.interval!.videoUrl!);
+        // 未设置出点时播放到片段实际结尾，避免记录时长与实际时长不一致导致截断
+        clips.push({
+          shotId: shot.id,
+          blob,
+          trimIn: shot.interval!.trimIn,
+          trimOut: shot.interval!.trimOut,
+          transitionOut: timeline[i].transitionOut,
+        });
+      } catch (err) {
+        throw new Error(`视频片段 ${i + 1} 加载失败: ${err instanceof Error ? err.message : String(err)}`);
+      }
+      onProgress?.(`加载中 (${i + 1}/${completedShots.length})...`, Math.round((i + 1) / completedShots.length * 10));
+    }
+
+    // 3. 读取背景音乐、音效与台词配音，偏移换算为相对锚定片段的开始时间
+    const audioCues: MasterAudioCue[] = [];
+    const audioTracks = [...(project.audioTracks || []), ...getDialogueAudioTracks(completedShots)];
+    for (const resolved of resolveAudioTracks(audioTracks, completedShots, timeline)) {
+      try {
+        audioCues.push({
+          name: resolved.track.name,
+          blob: await downloadFile(resolved.track.audioUrl),
+          anchorIndex: resolved.anchorIndex,
+          offset: resolved.start - timeline[resolved.anchorIndex].start,
+          length: resolved.end - resolved.start,
+          volume: resolved.track.volume,
+          fadeIn: resolved.track.fadeIn,
+          fadeOut: resolved.track.fadeOut,
+          loop: resolved.track.loop,
+        });
+      } catch (err) {
+        throw new Error(`音轨「${resolved.track.name}」加载失败: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+
+    // 4. 合成成片
+    const result = await renderMasterVideo(clips, {
+      aspectRatio: options?.aspectRatio || getUserAspectRatio(),
+      audioCues,
+      onProgress: (phase, progress) => {
+        onProgress?.(phase, 10 + Math.round(progress * 0.85));
+      }
+    });
+
+    onProgress?.('准备下载...', 95);
+
+    // 5. 触发浏览器下载
+    triggerDownload(result.blob, `${project.scriptData?.title || project.title || 'master'}_master.${result.extension}`);
+
+    onProgress?.('完成！', 100);
+  } catch (error) {
+    console.error('成片导出失败:', error);
+    throw error;
+  }
+}
+
+/**
+ * 下载所有视频片段并打包为 ZIP 文件
+ */
+export async function downloadVideoClipsZip(
   project: ProjectState,
   onProgress?: (phase: string, progress: number) => void
 ): Promise<void> {
@@ -81,14 +192,7 @@ export async function downloadMasterVideo(
     onProgress?.('准备下载...', 95);
 
     // 5. 触发浏览器下载
-    const url = URL.createObjectURL(zipBlob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${project.scriptData?.title || project.title || 'master'}_videos.zip`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    triggerDownload(zipBlob, `${project.scriptData?.title || project.title || 'master'}_videos.zip`);
 
     onProgress?.('完成！', 100);
   } catch (error) {
@@ -97,14 +201,156 @@ export async function downloadMasterVideo(
   }
 }
 
+/**
+ * 导出剪辑工程包
+ * ZIP 内包含 EDL、FCPXML、OTIO 三种时间线描述以及 media/ 目录下以镜头 ID 命名的视频片段，
+ * 可在 Premiere / Resolve / Final Cut Pro 中直接打开继续精剪
+ */
+export async function downloadEditPackage(
+  project: ProjectState,
+  onProgress?: (phase: string, progress: number) => void,
+  options?: { aspectRatio?: AspectRatio }
+): Promise<void> {
+  try {
+    // 1. 按成片时间线构建剪辑序列
+    const completedShots = project.shots.filter(shot => shot.interval?.videoUrl);
+    if (completedShots.length === 0) {
+      throw new Error('没有可导出的视频片段');
+    }
+
+    const title = project.scriptData?.title || project.title || 'master';
+    const sequence = buildEditSequence(completedShots, title, options?.aspectRatio || getUserAspectRatio());
+
+    onProgress?.('正在加载 ZIP 库...', 0);
+    const JSZip = (await import('jszip')).default;
+    const zip = new JSZip();
+
+    // 2. 写入时间线文件
+    const baseName = title.replace(/[\\/:*?"<>|]/g, '_');
+    zip.file(`${baseName}.edl`, toEdl(sequence));
+    zip.file(`${baseName}.fcpxml`, toFcpxml(sequence));
+    zip.file(`${baseName}.otio`, toOtio(sequence));
+
+    // 3. 下载片段（时间线引用了所有片段，任一缺失都直接中断）
+    for (let i = 0; i < sequence.clips.length; i++) {
+      const clip = sequence.clips[i];
+      onProgress?.(`下载中 (${i + 1}/${sequence.clips.length})...`, 5 + Math.round(i / sequence.clips.length * 80));
+      try {
+        zip.file(`media/${clip.fileName}`, await downloadFile(clip.shot.interval!.videoUrl!));
+      } catch (err) {
+        throw new Error(`镜头 ${clip.name} 的视频下载失败: ${err instanceof Error ? err.message : '未知错误'}`);
+      }
+    }
+
+    // 4. 打包下载
+    const zipBlob = await zip.generateAsync(
+      { type: 'blob' },
+      (metadata) => {
+        onProgress?.('正在压缩...', 85 + Math.round(metadata.percent / 10));
+      }
+    );
+    triggerDownload(zipBlob, `${baseName}_edit_package.zip`);
+
+    onProgress?.('完成！', 100);
+  } catch (error) {
+    console.error('剪辑工程包导出失败:', error);
+    throw error;
+  }
+}
+
 /**
  * 估算合并后的视频总时长（秒）
- * 每个镜头默认10秒
+ * 按各镜头入出点计算，未记录时长的镜头默认10秒
  */
 export function estimateTotalDuration(project: ProjectState): number {
-  return project.shots.reduce((acc, shot) => {
-    return acc + (shot.interval?.duration || 10);
-  }, 0);
+  return getTotalDuration(project.shots);
+}
+
+/**
+ * 导出字幕文件
+ * 按成片时间线（已完成的视频片段、入出点与转场）为镜头台词生成字幕
+ */
+export function downloadSubtitles(
+  project: ProjectState,
+  format: SubtitleFormat,
+  options?: { aspectRatio?: AspectRatio }
+): void {
+  const completedShots = project.shots.filter(shot => shot.interval?.videoUrl);
+  const cues = buildSubtitleCues(completedShots, project.scriptData?.characters || []);
+
+  if (cues.length === 0) {
+    throw new Error('已完成的镜头中没有台词，无法生成字幕');
+  }
+
+  const title = project.scriptData?.title || project.title || 'master';
+  const content = formatSubtitles(cues, format, {
+    aspectRatio: options?.aspectRatio || getUserAspectRatio(),
+    title,
+  });
+  const mimeType = format === 'vtt' ? 'text/vtt' : format === 'ass' ? 'text/x-ssa' : 'application/x-subrip';
+
+  triggerDownload(new Blob([content], { type: `${mimeType};charset=utf-8` }), `${title}_subtitles.${format}`);
+}
+
+/**
+ * 导出 Fountain 剧本
+ * 有分镜时按镜头输出动作与台词，否则按故事段落输出
+ */
+export function downloadFountainScript(project: ProjectState): void {
+  if (!project.scriptData) {
+    throw new Error('请先完成剧本解析');
+  }
+
+  const content = screenplayToFountain(projectToScreenplay(project.scriptData, project.shots));
+  const title = project.scriptData.title || project.title || 'script';
+  triggerDownload(new Blob([content], { type: 'text/plain;charset=utf-8' }), `${title}.fountain`);
+}
+
+/**
+ * 导出分镜表
+ * - html: 下载独立的 HTML 文件（图片内嵌）
+ * - pdf: 在新窗口中打开分镜表并调起浏览器打印，由用户另存为 PDF
+ */
+export async function exportStoryboard(
+  project: ProjectState,
+  format: 'html' | 'pdf',
+  options?: { aspectRatio?: AspectRatio }
+): Promise<void> {
+  if (project.shots.length === 0) {
+    throw new Error('没有可导出的分镜，请先生成分镜');
+  }
+
+  const aspectRatio = options?.aspectRatio || getUserAspectRatio();
+  const title = project.scriptData?.title || project.title || 'storyboard';
+
+  if (format === 'html') {
+    // 下载的 HTML 脱离当前页面使用，媒体库中的首帧图需内联为 Base64
+    const shots = await Promise.all(project.shots.map(async shot => ({
+      ...shot,
+      keyframes: await Promise.all(shot.keyframes.map(async kf => ({
+        ...kf,
+        imageUrl: kf.imageUrl ? await toDataUrl(kf.imageUrl) : kf.imageUrl,
+      }))),
+    })));
+    const html = buildStoryboardHtml({ ...project, shots }, aspectRatio);
+    triggerDownload(new Blob([html], { type: 'text/html;charset=utf-8' }), `${title}_storyboard.html`);
+    return;
+  }
+
+  // 打印窗口必须在用户操作的同步阶段打开，否则会被浏览器拦截
+  const html = buildStoryboardHtml(project, aspectRatio);
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    throw new Error('浏览器阻止了弹出窗口，请允许弹窗后重试');
+  }
+  printWindow.document.open();
+  printWindow.document.write(html);
+  printWindow.document.close();
+  // 等待缩略图加载完成后再打印，避免 PDF 中缺图
+  printWindow.addEventListener('load', () => {
+    printWindow.focus();
+    printWindow.print();
+  }, { once: true });
 }
 
 /**
@@ -218,14 +464,7 @@ export async function downloadSourceAssets(
     );
 
     // 触发下载
-    const url = URL.createObjectURL(zipBlob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${project.scriptData?.title || project.title || 'project'}_source_assets.zip`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    triggerDownload(zipBlob, `${project.scriptData?.title || project.title || 'project'}_source_assets.zip`);
 
     onProgress?.('完成！', 100);
   } catch (error) {
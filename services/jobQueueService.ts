@@ -0,0 +1,332 @@
+/**
+ * 生成任务队列
+ * 图片、视频与文本生成统一以任务形式排队执行，任务状态写入 IndexedDB，页面刷新或关闭后仍可查看。
+ * 任务由发起的标签页执行；重新打开项目时，执行方已关闭的任务视为中断，
+ * 其中带远程任务 ID 的异步视频任务（Sora 等）继续查询结果，其余标记为失败。
+ * 取消任务会中止其请求（异步视频同时尝试取消远程任务）；暂停队列后排队中的任务不再开始
+ */
+
+import { GenerationJob, GenerationJobKind, GenerationJobTarget, RemoteVideoTask } from '../types';
+import { saveGenerationJob, getProjectGenerationJobs, deleteGenerationJobs } from './storageService';
+import { TAB_ID, broadcastTabMessage, getLiveTabIds, holdTabPresence, subscribeTabMessages } from './tabSyncService';
+
+/**
+ * 各类任务同时执行的数量上限，超出的任务排队等待
+ * 这里只是单个标签页的总量保护，各提供商、模型的并发与频率由请求调度器按限流配置控制
+ */
+const MAX_CONCURRENT: Record<GenerationJobKind, number> = {
+  image: 8,
+  video: 4,
+  chat: 4,
+};
+
+/** 每个项目保留的已结束任务数量上限 */
+const MAX_FINISHED_JOBS = 50;
+
+const INTERRUPTED_MESSAGE = '页面关闭或刷新，任务已中断';
+
+/**
+ * 任务被用户取消
+ */
+export class JobCancelledError extends Error {
+  constructor() {
+    super('任务已取消');
+    this.name = 'JobCancelledError';
+  }
+}
+
+export interface JobRequest {
+  projectId: string;
+  kind: GenerationJobKind;
+  label: string;
+  target?: GenerationJobTarget;
+  /** 外部取消信号（如批量生成的取消），触发时取消该任务 */
+  signal?: AbortSignal;
+}
+
+export interface JobContext {
+  /** 记录远程任务信息，页面刷新后据此恢复 */
+  setRemoteTask: (task: RemoteVideoTask) => void;
+  /** 任务被取消时触发，应传给实际发出的请求 */
+  signal: AbortSignal;
+}
+
+/** 恢复中断的任务：可继续执行时返回结果 Promise，否则返回 undefined */
+export type JobResumer = (job: GenerationJob, signal: AbortSignal) => Promise<unknown> | undefined;
+
+export interface ResumedJob {
+  job: GenerationJob;
+  result: Promise<unknown>;
+}
+
+interface ActiveJob {
+  job: GenerationJob;
+  controller: AbortController;
+  run: (context: JobContext) => Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+}
+
+/** 当前标签页排队中与执行中的任务 */
+const activeJobs = new Map<string, ActiveJob>();
+const listeners = new Set<(projectId: string) => void>();
+/** 各项目的中断任务恢复完成信号 */
+const recoveries = new Map<string, { promise: Promise<void>; resolve: () => void }>();
+// 任务记录按顺序写入，避免后发生的状态被先前较慢的写入覆盖
+let writeChain: Promise<void> = Promise.resolve();
+let queuePaused = false;
+
+export const isActiveJobStatus = (status: GenerationJob['status']): boolean =>
+  status === 'queued' || status === 'running';
+
+const notify = (projectId: string) => {
+  listeners.forEach(listener => listener(projectId));
+};
+
+const persistJob = (job: GenerationJob): void => {
+  const snapshot = { ...job };
+  writeChain = writeChain
+    .then(() => saveGenerationJob(snapshot))
+    .catch(e => console.error('生成任务保存失败', e))
+    .then(() => {
+      notify(snapshot.projectId);
+      broadcastTabMessage({ type: 'jobs-changed', projectId: snapshot.projectId });
+    });
+};
+
+const updateJob = (job: GenerationJob, updates: Partial<GenerationJob>): void => {
+  Object.assign(job, updates);
+  persistJob(job);
+};
+
+const startJob = (entry: ActiveJob) => {
+  const { job } = entry;
+  updateJob(job, { status: 'running', startedAt: Date.now() });
+  entry
+    .run({
+      setRemoteTask: task => {
+        if (job.status === 'running') updateJob(job, { remoteTask: task });
+      },
+      signal: entry.controller.signal,
+    })
+    .then(
+      result => finishJob(entry, true, result),
+      error => finishJob(entry, false, error)
+    );
+};
+
+const finishJob = (entry: ActiveJob, succeeded: boolean, value: unknown) => {
+  const { job } = entry;
+  // 已取消的任务在取消时已结束，忽略迟到的结果
+  if (!activeJobs.has(job.id)) return;
+  activeJobs.delete(job.id);
+  if (succeeded) {
+    updateJob(job, { status: 'succeeded', finishedAt: Date.now() });
+    entry.resolve(value);
+  } else {
+    updateJob(job, {
+      status: 'failed',
+      finishedAt: Date.now(),
+      error: value instanceof Error ? value.message : String(value),
+    });
+    entry.reject(value);
+  }
+  pumpQueue();
+};
+
+const pumpQueue = () => {
+  if (queuePaused) return;
+  (Object.keys(MAX_CONCURRENT) as GenerationJobKind[]).forEach(kind => {
+    const entries = Array.from(activeJobs.values()).filter(entry => entry.job.kind === kind);
+    let running = entries.filter(entry => entry.job.status === 'running').length;
+    for (const entry of entries) {
+      if (running >= MAX_CONCURRENT[kind]) break;
+      if (entry.job.status !== 'queued') continue;
+      startJob(entry);
+      running++;
+    }
+  });
+};
+
+const createJob = (request: JobRequest, status: GenerationJob['status']): GenerationJob => ({
+  id: `job_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`,
+  projectId: request.projectId,
+  kind: request.kind,
+  label: request.label,
+  target: request.target,
+  status,
+  tabId: TAB_ID,
+  createdAt: Date.now(),
+});
+
+/**
+ * 提交生成任务，返回任务完成时的结果
+ * 超出并发上限时先排队；任务被取消时以 JobCancelledError 结束
+ */
+export const runGenerationJob = <T>(request: JobRequest, run: (context: JobContext) => Promise<T>): Promise<T> => {
+  holdTabPresence();
+  return new Promise<T>((resolve, reject) => {
+    if (request.signal?.aborted) {
+      reject(new JobCancelledError());
+      return;
+    }
+    const job = createJob(request, 'queued');
+    const controller = new AbortController();
+    activeJobs.set(job.id, { job, controller, run, resolve: resolve as (value: unknown) => void, reject });
+    request.signal?.addEventListener('abort', () => cancelGenerationJob(job.id), { once: true });
+    persistJob(job);
+    pumpQueue();
+  });
+};
+
+/**
+ * 取消当前标签页中排队或执行中的任务
+ * 执行中的请求随之中止；无法中止的部分完成后结果会被丢弃
+ */
+export const cancelGenerationJob = (id: string): boolean => {
+  const entry = activeJobs.get(id);
+  if (!entry) return false;
+  activeJobs.delete(id);
+  updateJob(entry.job, { status: 'cancelled', finishedAt: Date.now() });
+  const error = new JobCancelledError();
+  entry.controller.abort(error);
+  entry.reject(error);
+  pumpQueue();
+  return true;
+};
+
+/** 任务是否由当前标签页执行（只有执行方可以取消） */
+export const isLocalGenerationJob = (id: string): boolean => activeJobs.has(id);
+
+const isSameTarget = (a: GenerationJobTarget, b: GenerationJobTarget): boolean =>
+  a.type === b.type && a.id === b.id && (a.subId || '') === (b.subId || '');
+
+/**
+ * 取消当前标签页中作用于该对象的全部任务，返回取消的数量
+ */
+export const cancelJobsForTarget = (projectId: string, target: GenerationJobTarget): number => {
+  const ids = Array.from(activeJobs.values())
+    .filter(({ job }) => job.projectId === projectId && !!job.target && isSameTarget(job.target, target))
+    .map(({ job }) => job.id);
+  ids.forEach(cancelGenerationJob);
+  return ids.length;
+};
+
+/**
+ * 暂停或继续当前标签页的任务队列：暂停期间执行中的任务照常完成，排队中的任务不再开始
+ */
+export const setGenerationQueuePaused = (paused: boolean): void => {
+  queuePaused = paused;
+  pumpQueue();
+  new Set(Array.from(activeJobs.values()).map(({ job }) => job.projectId)).forEach(notify);
+};
+
+export const isGenerationQueuePaused = (): boolean => queuePaused;
+
+/**
+ * 当前标签页中是否有作用于该对象的未结束任务
+ */
+export const isJobTargetActive = (projectId: string, target: GenerationJobTarget): boolean =>
+  Array.from(activeJobs.values()).some(
+    ({ job }) => job.projectId === projectId && !!job.target && isSameTarget(job.target, target)
+  );
+
+/**
+ * 获取项目的生成任务（按创建时间倒序），当前标签页中的任务以内存中的最新状态为准
+ */
+export const listGenerationJobs = async (projectId: string): Promise<GenerationJob[]> => {
+  const stored = await getProjectGenerationJobs(projectId);
+  const jobs = stored.map(job => {
+    const active = activeJobs.get(job.id);
+    return active ? { ...active.job } : job;
+  });
+  activeJobs.forEach(({ job }) => {
+    if (job.projectId === projectId && !jobs.some(item => item.id === job.id)) jobs.push({ ...job });
+  });
+  return jobs.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+/**
+ * 订阅项目任务变化（包括其他标签页中的任务），返回取消订阅函数
+ */
+export const subscribeGenerationJobs = (projectId: string, listener: () => void): (() => void) => {
+  const handleLocal = (changed: string) => {
+    if (changed === projectId) listener();
+  };
+  listeners.add(handleLocal);
+  const unsubscribeTabs = subscribeTabMessages(message => {
+    if (message.type === 'jobs-changed' && message.projectId === projectId) listener();
+  });
+  return () => {
+    listeners.delete(handleLocal);
+    unsubscribeTabs();
+  };
+};
+
+/**
+ * 清除项目中已结束的任务记录
+ */
+export const clearFinishedGenerationJobs = async (projectId: string): Promise<void> => {
+  const jobs = await getProjectGenerationJobs(projectId);
+  await deleteGenerationJobs(jobs.filter(job => !isActiveJobStatus(job.status)).map(job => job.id));
+  notify(projectId);
+  broadcastTabMessage({ type: 'jobs-changed', projectId });
+};
+
+const getRecovery = (projectId: string) => {
+  let recovery = recoveries.get(projectId);
+  if (!recovery) {
+    let resolve: () => void = () => {};
+    const promise = new Promise<void>(r => {
+      resolve = r;
+    });
+    recovery = { promise, resolve };
+    recoveries.set(projectId, recovery);
+  }
+  return recovery;
+};
+
+/**
+ * 等待项目的中断任务恢复完成
+ * 各阶段据此在恢复后重置已无任务对应的"生成中"状态；只读标签页不执行恢复，等待不会结束
+ */
+export const waitForJobRecovery = (projectId: string): Promise<void> => getRecovery(projectId).promise;
+
+/**
+ * 恢复执行方已关闭的任务（由项目的编辑方在打开项目时调用）
+ * resume 能继续执行的任务转由当前标签页执行，其余标记为失败；同时裁剪过多的已结束任务
+ */
+export const recoverProjectJobs = async (projectId: string, resume: JobResumer): Promise<ResumedJob[]> => {
+  const resumed: ResumedJob[] = [];
+  try {
+    holdTabPresence();
+    const [jobs, liveTabs] = await Promise.all([getProjectGenerationJobs(projectId), getLiveTabIds()]);
+    for (const job of jobs) {
+      if (!isActiveJobStatus(job.status) || activeJobs.has(job.id)) continue;
+      // 不支持 Web Locks 时无法判断其他标签页是否存活，一律视为中断
+      if (job.tabId !== TAB_ID && liveTabs?.has(job.tabId)) continue;
+
+      const controller = new AbortController();
+      const pending = job.remoteTask ? resume(job, controller.signal) : undefined;
+      if (!pending) {
+        updateJob(job, { status: 'failed', finishedAt: Date.now(), error: INTERRUPTED_MESSAGE });
+        continue;
+      }
+      const result = new Promise<unknown>((resolve, reject) => {
+        const entry: ActiveJob = { job, controller, run: () => pending, resolve, reject };
+        activeJobs.set(job.id, entry);
+        job.tabId = TAB_ID;
+        startJob(entry);
+      });
+      resumed.push({ job, result });
+    }
+
+    const finished = jobs.filter(job => !isActiveJobStatus(job.status)).slice(MAX_FINISHED_JOBS);
+    await deleteGenerationJobs(finished.map(job => job.id));
+  } catch (e) {
+    console.error('恢复生成任务失败', e);
+  } finally {
+    getRecovery(projectId).resolve();
+  }
+  return resumed;
+};
@@ -0,0 +1,497 @@
+/**
+ * 成片渲染服务
+ * 在浏览器内将各镜头视频片段按顺序拼接为单个视频文件（Canvas + MediaRecorder）
+ * 所有片段会按项目横竖屏比例统一输出分辨率（等比缩放居中，留黑边）
+ * 每个片段只输出入点到出点之间的部分，片段之间按转场设置叠化或黑场过渡
+ * 背景音乐与音效在锚定片段实际开始播放时按偏移排程，与片段原声一起混入成片
+ */
+
+import { AspectRatio, ShotTransition } from '../types';
+import { CUT_TRANSITION } from './timelineService';
+
+/**
+ * 待拼接的单个片段
+ */
+export interface MasterClip {
+  shotId: string;
+  blob: Blob;
+  trimIn?: number;   // 入点（秒），默认从片段开头
+  trimOut?: number;  // 出点（秒），默认到片段结尾
+  transitionOut?: ShotTransition; // 切到下一个片段的转场，默认硬切
+}
+
+/**
+ * 混入成片的音轨（背景音乐 / 音效）
+ */
+export interface MasterAudioCue {
+  name: string;
+  blob: Blob;
+  anchorIndex: number; // 锚定片段在 clips 中的位置
+  offset: number;      // 相对锚定片段开始播放的偏移（秒）
+  length: number;      // 播放时长（秒）
+  volume: number;
+  fadeIn: number;
+  fadeOut: number;
+  loop?: boolean;
+}
+
+/**
+ * 成片渲染参数
+ */
+export interface MasterRenderOptions {
+  aspectRatio: AspectRatio;
+  frameRate?: number;
+  audioCues?: MasterAudioCue[];
+  onProgress?: (phase: string, progress: number) => void;
+}
+
+/**
+ * 成片渲染结果
+ */
+export interface MasterRenderResult {
+  blob: Blob;
+  mimeType: string;
+  extension: 'mp4' | 'webm';
+}
+
+/**
+ * 各比例对应的成片输出分辨率
+ */
+const OUTPUT_SIZE_MAP: Record<AspectRatio, { width: number; height: number }> = {
+  '16:9': { width: 1280, height: 720 },
+  '9:16': { width: 720, height: 1280 },
+  '1:1': { width: 720, height: 720 },
+};
+
+/**
+ * MediaRecorder 容器格式候选，优先 MP4，浏览器不支持时回退 WebM
+ */
+const MIME_CANDIDATES = [
+  'video/mp4;codecs=avc1.42E01E,mp4a.40.2',
+  'video/mp4',
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm',
+];
+
+/**
+ * 选择当前浏览器支持的录制格式
+ */
+const pickRecorderMimeType = (): string | null => {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return MIME_CANDIDATES.find(type => MediaRecorder.isTypeSupported(type)) || null;
+};
+
+/**
+ * 检查当前浏览器是否支持在本地合成成片
+ */
+export const isMasterRenderSupported = (): boolean => {
+  return (
+    typeof document !== 'undefined' &&
+    typeof HTMLCanvasElement.prototype.captureStream === 'function' &&
+    typeof AudioContext !== 'undefined' &&
+    !!pickRecorderMimeType()
+  );
+};
+
+/**
+ * 清空画布为黑场
+ */
+const clearFrame = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
+  ctx.globalAlpha = 1;
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, width, height);
+};
+
+/**
+ * 按 contain 模式将视频帧绘制到画布（保持比例居中），alpha 用于淡入淡出与叠化
+ */
+const drawVideoFrame = (
+  ctx: CanvasRenderingContext2D,
+  video: HTMLVideoElement,
+  width: number,
+  height: number,
+  alpha: number = 1
+) => {
+  if (!video.videoWidth || !video.videoHeight || alpha <= 0) return;
+
+  const scale = Math.min(width / video.videoWidth, height / video.videoHeight);
+  const drawWidth = video.videoWidth * scale;
+  const drawHeight = video.videoHeight * scale;
+  ctx.globalAlpha = Math.min(alpha, 1);
+  ctx.drawImage(video, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+  ctx.globalAlpha = 1;
+};
+
+/**
+ * 加载视频元素并等待元数据就绪
+ */
+const loadVideoElement = (src: string): Promise<HTMLVideoElement> => {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.preload = 'auto';
+    video.playsInline = true;
+    video.crossOrigin = 'anonymous';
+    video.onloadedmetadata = () => resolve(video);
+    video.onerror = () => reject(new Error('视频片段加载失败'));
+    video.src = src;
+  });
+};
+
+/**
+ * 跳转到指定时间并等待画面就绪
+ */
+const seekVideo = (video: HTMLVideoElement, time: number): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (time <= 0 || Math.abs(video.currentTime - time) < 0.01) {
+      resolve();
+      return;
+    }
+    video.onseeked = () => {
+      video.onseeked = null;
+      resolve();
+    };
+    video.onerror = () => reject(new Error('视频片段定位失败'));
+    video.currentTime = time;
+  });
+};
+
+/**
+ * 已加载、已定位到入点并接入混音的片段
+ */
+interface PreparedClip {
+  video: HTMLVideoElement;
+  source: MediaElementAudioSourceNode;
+  gain: GainNode;
+  trimIn: number;
+  trimOut: number;
+}
+
+/**
+ * 加载片段、接入音频并定位到入点
+ */
+const prepareClip = async (
+  clip: MasterClip,
+  audioContext: AudioContext,
+  destination: AudioNode,
+  objectUrls: string[]
+): Promise<PreparedClip> => {
+  const url = URL.createObjectURL(clip.blob);
+  objectUrls.push(url);
+
+  const video = await loadVideoElement(url);
+  const source = audioContext.createMediaElementSource(video);
+  const gain = audioContext.createGain();
+  source.connect(gain);
+  gain.connect(destination);
+
+  const sourceDuration = Number.isFinite(video.duration) ? video.duration : Infinity;
+  const trimIn = Math.max(0, Math.min(clip.trimIn ?? 0, sourceDuration));
+  const trimOut = Math.max(trimIn, Math.min(clip.trimOut ?? sourceDuration, sourceDuration));
+
+  await seekVideo(video, trimIn);
+  return { video, source, gain, trimIn, trimOut };
+};
+
+/**
+ * 释放片段占用的播放与音频资源
+ */
+const releaseClip = (prepared: PreparedClip) => {
+  prepared.video.pause();
+  prepared.source.disconnect();
+  prepared.gain.disconnect();
+  prepared.video.removeAttribute('src');
+  prepared.video.load();
+};
+
+/**
+ * 已解码的音轨
+ */
+interface DecodedAudioCue {
+  cue: MasterAudioCue;
+  buffer: AudioBuffer;
+}
+
+/**
+ * 解码所有音轨（任一音轨无法解码时中断，避免成片缺少声音却不提示）
+ */
+const decodeAudioCues = async (
+  cues: MasterAudioCue[],
+  audioContext: AudioContext
+): Promise<DecodedAudioCue[]> => {
+  const decoded: DecodedAudioCue[] = [];
+  for (const cue of cues) {
+    try {
+      const buffer = await audioContext.decodeAudioData(await cue.blob.arrayBuffer());
+      decoded.push({ cue, buffer });
+    } catch {
+      throw new Error(`音轨「${cue.name}」解码失败`);
+    }
+  }
+  return decoded;
+};
+
+/**
+ * 从当前时刻起排程播放音轨，按淡入淡出设置音量包络
+ */
+const scheduleAudioCue = (
+  decoded: DecodedAudioCue,
+  audioContext: AudioContext,
+  destination: AudioNode
+): AudioBufferSourceNode => {
+  const { cue, buffer } = decoded;
+  const source = audioContext.createBufferSource();
+  const gain = audioContext.createGain();
+  source.buffer = buffer;
+  source.loop = !!cue.loop;
+  source.connect(gain);
+  gain.connect(destination);
+
+  const startAt = audioContext.currentTime + Math.max(0, cue.offset);
+  const stopAt = startAt + Math.max(0, cue.length);
+  const fadeIn = Math.min(cue.fadeIn, cue.length);
+  const fadeOut = Math.min(cue.fadeOut, cue.length - fadeIn);
+
+  gain.gain.setValueAtTime(fadeIn > 0 ? 0 : cue.volume, startAt);
+  if (fadeIn > 0) {
+    gain.gain.linearRampToValueAtTime(cue.volume, startAt + fadeIn);
+  }
+  if (fadeOut > 0) {
+    gain.gain.setValueAtTime(cue.volume, stopAt - fadeOut);
+    gain.gain.linearRampToValueAtTime(0, stopAt);
+  }
+
+  source.start(startAt);
+  source.stop(stopAt);
+  return source;
+};
+
+/**
+ * 实时播放当前片段并绘制到画布，处理进入/离开时的转场
+ * 叠化时会提前启动下一个片段并与当前片段混合；返回下一个片段（可能已在播放）
+ */
+const playClipOntoCanvas = (
+  current: PreparedClip,
+  nextPromise: Promise<PreparedClip> | null,
+  transitionIn: ShotTransition,
+  transitionOut: ShotTransition,
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  onTick: (ratio: number) => void
+): Promise<PreparedClip | null> => {
+  return new Promise((resolve, reject) => {
+    let frameHandle = 0;
+    let settled = false;
+    let next: PreparedClip | null = null;
+    let nextError: unknown = null;
+    let nextStarted = false;
+
+    nextPromise?.then(prepared => { next = prepared; }).catch(err => { nextError = err; });
+
+    const overlap = transitionOut.type === 'crossfade' ? transitionOut.duration : 0;
+    const fadeInLength = transitionIn.type === 'dip-to-black' ? transitionIn.duration / 2 : 0;
+    const fadeOutLength = transitionOut.type === 'dip-to-black' ? transitionOut.duration / 2 : 0;
+    const length = current.trimOut - current.trimIn;
+
+    const fail = (err: unknown) => {
+      if (settled) return;
+      settled = true;
+      cancelAnimationFrame(frameHandle);
+      reject(err instanceof Error ? err : new Error('视频片段播放失败'));
+    };
+
+    const finish = async () => {
+      if (settled) return;
+      settled = true;
+      cancelAnimationFrame(frameHandle);
+      releaseClip(current);
+      try {
+        resolve(nextPromise ? (next || await nextPromise) : null);
+      } catch (err) {
+        reject(err);
+      }
+    };
+
+    const render = () => {
+      if (settled) return;
+      if (nextError) {
+        fail(nextError);
+        return;
+      }
+
+      const elapsed = current.video.currentTime - current.trimIn;
+      const remaining = current.trimOut - current.video.currentTime;
+      if (remaining <= 0 || current.video.ended) {
+        finish();
+        return;
+      }
+
+      // 叠化：进入重叠区后启动下一个片段
+      if (overlap > 0 && remaining <= overlap && next && !nextStarted) {
+        nextStarted = true;
+        next.video.play().catch(fail);
+      }
+
+      let alpha = 1;
+      if (fadeInLength > 0 && elapsed < fadeInLength) {
+        alpha = Math.min(alpha, Math.max(elapsed, 0) / fadeInLength);
+      }
+      if (fadeOutLength > 0 && remaining < fadeOutLength) {
+        alpha = Math.min(alpha, remaining / fadeOutLength);
+      }
+
+      clearFrame(ctx, width, height);
+      drawVideoFrame(ctx, current.video, width, height, alpha);
+      current.gain.gain.value = alpha;
+
+      if (nextStarted && next) {
+        const mix = Math.min(Math.max(1 - remaining / overlap, 0), 1);
+        drawVideoFrame(ctx, next.video, width, height, mix);
+        next.gain.gain.value = mix;
+        current.gain.gain.value = 1 - mix;
+      }
+
+      if (Number.isFinite(length) && length > 0) {
+        onTick(Math.min(1, Math.max(elapsed, 0) / length));
+      }
+      frameHandle = requestAnimationFrame(render);
+    };
+
+    current.video.onended = () => { finish(); };
+    current.video.onerror = () => fail(new Error('视频片段播放失败'));
+
+    if (current.video.paused) {
+      current.video.play().then(render).catch(fail);
+    } else {
+      render();
+    }
+  });
+};
+
+/**
+ * 将多个片段按顺序合成为一个成片
+ * 合成以实时速度进行（录制时长约等于成片时长）
+ */
+export async function renderMasterVideo(
+  clips: MasterClip[],
+  options: MasterRenderOptions
+): Promise<MasterRenderResult> {
+  if (clips.length === 0) {
+    throw new Error('没有可合成的视频片段');
+  }
+
+  const mimeType = pickRecorderMimeType();
+  if (!mimeType || !isMasterRenderSupported()) {
+    throw new Error('当前浏览器不支持本地合成成片');
+  }
+
+  const { onProgress } = options;
+  const frameRate = options.frameRate || 30;
+  const { width, height } = OUTPUT_SIZE_MAP[options.aspectRatio] || OUTPUT_SIZE_MAP['16:9'];
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('无法创建 canvas 上下文');
+  }
+
+  // 画面轨来自画布，音频轨来自 WebAudio 混音节点
+  const audioContext = new AudioContext();
+  const audioDestination = audioContext.createMediaStreamDestination();
+  const outputStream = new MediaStream([
+    ...canvas.captureStream(frameRate).getVideoTracks(),
+    ...audioDestination.stream.getAudioTracks(),
+  ]);
+
+  const recorder = new MediaRecorder(outputStream, { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data && event.data.size > 0) {
+      chunks.push(event.data);
+    }
+  };
+  const stopped = new Promise<void>((resolve) => {
+    recorder.onstop = () => resolve();
+  });
+
+  const objectUrls: string[] = [];
+  const preparedClips: PreparedClip[] = [];
+  const audioSources: AudioBufferSourceNode[] = [];
+  let decodedCues: DecodedAudioCue[] = [];
+
+  // 片段开始播放时排程锚定在该片段上的音轨，避免片段加载耗时导致音画错位
+  const prepare = (clip: MasterClip, index: number) => prepareClip(clip, audioContext, audioDestination, objectUrls).then(prepared => {
+    preparedClips.push(prepared);
+    const anchored = decodedCues.filter(decoded => decoded.cue.anchorIndex === index);
+    if (anchored.length > 0) {
+      prepared.video.addEventListener('playing', () => {
+        anchored.forEach(decoded => audioSources.push(scheduleAudioCue(decoded, audioContext, audioDestination)));
+      }, { once: true });
+    }
+    return prepared;
+  });
+
+  try {
+    await audioContext.resume();
+    clearFrame(ctx, width, height);
+
+    if (options.audioCues && options.audioCues.length > 0) {
+      onProgress?.('解码音轨...', 0);
+      decodedCues = await decodeAudioCues(options.audioCues, audioContext);
+    }
+
+    let current: PreparedClip | null = await prepare(clips[0], 0);
+    recorder.start(1000);
+
+    for (let i = 0; i < clips.length && current; i++) {
+      // 当前片段播放期间预加载下一个片段
+      const nextPromise = i + 1 < clips.length ? prepare(clips[i + 1], i + 1) : null;
+      nextPromise?.catch(() => { /* 错误在播放循环中处理 */ });
+
+      const transitionIn = i > 0 ? clips[i - 1].transitionOut || CUT_TRANSITION : CUT_TRANSITION;
+      const transitionOut = i + 1 < clips.length ? clips[i].transitionOut || CUT_TRANSITION : CUT_TRANSITION;
+
+      current = await playClipOntoCanvas(current, nextPromise, transitionIn, transitionOut, ctx, width, height, (ratio) => {
+        const progress = Math.round(((i + ratio) / clips.length) * 100);
+        onProgress?.(`合成中 (${i + 1}/${clips.length})...`, progress);
+      });
+    }
+
+    recorder.stop();
+    await stopped;
+  } catch (error) {
+    if (recorder.state !== 'inactive') {
+      recorder.stop();
+    }
+    throw error;
+  } finally {
+    audioSources.forEach(source => {
+      try {
+        source.stop();
+      } catch {
+        /* 已停止 */
+      }
+      source.disconnect();
+    });
+    preparedClips.forEach(prepared => {
+      try {
+        releaseClip(prepared);
+      } catch {
+        /* 已释放 */
+      }
+    });
+    outputStream.getTracks().forEach(track => track.stop());
+    objectUrls.forEach(url => URL.revokeObjectURL(url));
+    audioContext.close().catch(() => { /* 关闭失败不影响结果 */ });
+  }
+
+  const containerType = mimeType.split(';')[0];
+  return {
+    blob: new Blob(chunks, { type: containerType }),
+    mimeType: containerType,
+    extension: containerType === 'video/mp4' ? 'mp4' : 'webm',
+  };
+}
@@ -0,0 +1,308 @@
+/**
+ * 媒体内容寻址存储
+ * 图片、视频、音频按内容的 SHA-256 存放在 IndexedDB 的独立 media 表中，
+ * 项目与资产库只保存引用（media:sha256:<hash>），相同内容跨项目、跨资产库只存一份。
+ * 运行时引用解析为 object URL，由浏览器在渲染时按需读取，媒体字节不再常驻内存
+ */
+
+import { AssetLibraryItem, Character, ProjectState, Prop, Scene } from '../types';
+
+export const MEDIA_STORE_NAME = 'media';
+export const MEDIA_REF_PREFIX = 'media:sha256:';
+
+export interface MediaRecord {
+  hash: string;
+  blob: Blob;
+  type: string;
+  size: number;
+  createdAt: number;
+}
+
+/** 媒体字段映射函数：输入当前值，返回替换后的值 */
+export type MediaMapper = (url: string) => Promise<string>;
+
+// 运行时缓存：hash -> object URL，以及反向的 object URL -> hash
+// 只缓存 resolveMedia 创建的 object URL，媒体被本页清理时通过 releaseMediaUrl 同步移除
+const objectUrlByHash = new Map<string, string>();
+const hashByUrl = new Map<string, string>();
+
+// 已写入媒体库的 data URL -> hash，避免自动保存时反复读取与计算 hash
+// 键与内存中的项目共用同一字符串，按条数限制大小，超出时淘汰最早的条目
+const MAX_DATA_URL_CACHE_SIZE = 200;
+const hashByDataUrl = new Map<string, string>();
+
+const rememberDataUrlHash = (url: string, hash: string): void => {
+  hashByDataUrl.delete(url);
+  hashByDataUrl.set(url, hash);
+  if (hashByDataUrl.size > MAX_DATA_URL_CACHE_SIZE) {
+    hashByDataUrl.delete(hashByDataUrl.keys().next().value as string);
+  }
+};
+
+export const isMediaRef = (value?: string): boolean => !!value && value.startsWith(MEDIA_REF_PREFIX);
+
+export const getMediaRefHash = (ref: string): string => ref.slice(MEDIA_REF_PREFIX.length);
+
+export const toMediaRef = (hash: string): string => `${MEDIA_REF_PREFIX}${hash}`;
+
+/**
+ * 是否为需要写入媒体库的内联数据（data URL 或本地 object URL）
+ * http(s) 链接保持原样，不做下载
+ */
+const isInlineMedia = (value: string): boolean => value.startsWith('data:') || value.startsWith('blob:');
+
+/**
+ * 计算 Blob 内容的 SHA-256（十六进制）
+ */
+export const hashBlob = async (blob: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+/**
+ * 读取 Blob 为 data URL
+ */
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('媒体读取失败'));
+    reader.readAsDataURL(blob);
+  });
+};
+
+/**
+ * 将运行时媒体地址转换为 data URL
+ * 供需要内联 Base64 的场景使用（模型 API 参考图、JSON 导出、离线 HTML）
+ */
+export const toDataUrl = async (url: string): Promise<string> => {
+  if (!url || !url.startsWith('blob:')) return url;
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error('媒体读取失败');
+  }
+  return blobToDataUrl(await response.blob());
+};
+
+export const readMediaRecord = (db: IDBDatabase, hash: string): Promise<MediaRecord | undefined> => {
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(MEDIA_STORE_NAME, 'readonly');
+    const request = tx.objectStore(MEDIA_STORE_NAME).get(hash);
+    request.onsuccess = () => resolve(request.result as MediaRecord | undefined);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const hasMediaRecord = (db: IDBDatabase, hash: string): Promise<boolean> => {
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(MEDIA_STORE_NAME, 'readonly');
+    const request = tx.objectStore(MEDIA_STORE_NAME).getKey(hash);
+    request.onsuccess = () => resolve(request.result !== undefined);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const writeMediaRecord = (db: IDBDatabase, record: MediaRecord): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(MEDIA_STORE_NAME, 'readwrite');
+    const store = tx.objectStore(MEDIA_STORE_NAME);
+    // 相同 hash 已存在时不重复写入字节
+    const keyRequest = store.getKey(record.hash);
+    keyRequest.onsuccess = () => {
+      if (keyRequest.result === undefined) {
+        store.put(record);
+      }
+    };
+    keyRequest.onerror = () => reject(keyRequest.error);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+/**
+ * 将单个媒体值写入媒体库并返回引用
+ * 由 resolveMedia 解析出的 object URL 与已写入过的 data URL 直接映射回引用；引用与远程链接原样返回
+ */
+export const storeMedia = async (db: IDBDatabase, value: string): Promise<string> => {
+  if (!value || isMediaRef(value) || !isInlineMedia(value)) return value;
+
+  // 媒体可能已被孤立媒体清理删除（如撤销了删除操作），确认记录仍在后再复用，否则重新写入
+  const isDataUrl = value.startsWith('data:');
+  const cachedHash = isDataUrl ? hashByDataUrl.get(value) : hashByUrl.get(value);
+  if (cachedHash && await hasMediaRecord(db, cachedHash)) {
+    return toMediaRef(cachedHash);
+  }
+
+  const response = await fetch(value);
+  if (!response.ok) {
+    throw new Error('媒体读取失败');
+  }
+  const hash = await storeMediaBlob(db, await response.blob());
+  if (isDataUrl) rememberDataUrlHash(value, hash);
+  return toMediaRef(hash);
+};
+
+/**
+ * 将媒体字节写入媒体库，返回内容 hash
+ */
+export const storeMediaBlob = async (db: IDBDatabase, blob: Blob): Promise<string> => {
+  const hash = await hashBlob(blob);
+  await writeMediaRecord(db, {
+    hash,
+    blob,
+    type: blob.type,
+    size: blob.size,
+    createdAt: Date.now(),
+  });
+  return hash;
+};
+
+/**
+ * 将媒体引用解析为 object URL
+ * 媒体库中缺失的引用原样返回，避免保存时丢失引用
+ */
+export const resolveMedia = async (db: IDBDatabase, value: string): Promise<string> => {
+  if (!isMediaRef(value)) return value;
+
+  const hash = getMediaRefHash(value);
+  const cachedUrl = objectUrlByHash.get(hash);
+  if (cachedUrl) return cachedUrl;
+
+  const record = await readMediaRecord(db, hash);
+  if (!record) {
+    console.warn(`⚠️ 媒体库中缺少资源: ${hash}`);
+    return value;
+  }
+  const url = URL.createObjectURL(record.blob);
+  objectUrlByHash.set(hash, url);
+  hashByUrl.set(url, hash);
+  return url;
+};
+
+/**
+ * 将媒体引用直接解析为 data URL（导出 JSON 时使用）
+ */
+export const resolveMediaToDataUrl = async (db: IDBDatabase, value: string): Promise<string> => {
+  if (isMediaRef(value)) {
+    const record = await readMediaRecord(db, getMediaRefHash(value));
+    return record ? blobToDataUrl(record.blob) : value;
+  }
+  return toDataUrl(value);
+};
+
+/**
+ * 释放已解析的 object URL 并移除缓存（对应的媒体被删除时调用）
+ */
+export const releaseMediaUrl = (hash: string): void => {
+  const url = objectUrlByHash.get(hash);
+  if (url) {
+    URL.revokeObjectURL(url);
+    hashByUrl.delete(url);
+    objectUrlByHash.delete(hash);
+  }
+};
+
+const mapValue = async (value: string | undefined, mapper: MediaMapper): Promise<string | undefined> => {
+  return value ? mapper(value) : value;
+};
+
+const mapCharacterMedia = async (character: Character, mapper: MediaMapper): Promise<Character> => ({
+  ...character,
+  referenceImage: await mapValue(character.referenceImage, mapper),
+  turnaround: character.turnaround
+    ? { ...character.turnaround, imageUrl: await mapValue(character.turnaround.imageUrl, mapper) }
+    : character.turnaround,
+  variations: character.variations
+    ? await Promise.all(character.variations.map(async variation => ({
+        ...variation,
+        referenceImage: await mapValue(variation.referenceImage, mapper),
+      })))
+    : character.variations,
+});
+
+const mapReferenceImage = async <T extends Scene | Prop>(item: T, mapper: MediaMapper): Promise<T> => ({
+  ...item,
+  referenceImage: await mapValue(item.referenceImage, mapper),
+});
+
+/**
+ * 对项目中的全部媒体字段应用映射，返回新的项目对象
+ * 覆盖：角色/变体/九宫格造型、场景、道具参考图，关键帧、视频片段、九宫格分镜、台词配音与音轨
+ */
+export const mapProjectMedia = async (project: ProjectState, mapper: MediaMapper): Promise<ProjectState> => {
+  const scriptData = project.scriptData
+    ? {
+        ...project.scriptData,
+        characters: await Promise.all(project.scriptData.characters.map(c => mapCharacterMedia(c, mapper))),
+        scenes: await Promise.all(project.scriptData.scenes.map(s => mapReferenceImage(s, mapper))),
+        props: project.scriptData.props
+          ? await Promise.all(project.scriptData.props.map(p => mapReferenceImage(p, mapper)))
+          : project.scriptData.props,
+      }
+    : project.scriptData;
+
+  const shots = await Promise.all((project.shots || []).map(async shot => ({
+    ...shot,
+    keyframes: shot.keyframes
+      ? await Promise.all(shot.keyframes.map(async kf => ({ ...kf, imageUrl: await mapValue(kf.imageUrl, mapper) })))
+      : shot.keyframes,
+    interval: shot.interval
+      ? { ...shot.interval, videoUrl: await mapValue(shot.interval.videoUrl, mapper) }
+      : shot.interval,
+    nineGrid: shot.nineGrid
+      ? { ...shot.nineGrid, imageUrl: await mapValue(shot.nineGrid.imageUrl, mapper) }
+      : shot.nineGrid,
+    dialogueAudio: shot.dialogueAudio
+      ? { ...shot.dialogueAudio, audioUrl: await mapValue(shot.dialogueAudio.audioUrl, mapper) }
+      : shot.dialogueAudio,
+  })));
+
+  const audioTracks = project.audioTracks
+    ? await Promise.all(project.audioTracks.map(async track => ({ ...track, audioUrl: await mapper(track.audioUrl) })))
+    : project.audioTracks;
+
+  return { ...project, scriptData, shots, audioTracks };
+};
+
+/**
+ * 对资产库条目中的媒体字段应用映射
+ */
+export const mapAssetMedia = async (item: AssetLibraryItem, mapper: MediaMapper): Promise<AssetLibraryItem> => {
+  const data = item.type === 'character'
+    ? await mapCharacterMedia(item.data as Character, mapper)
+    : await mapReferenceImage(item.data as Scene | Prop, mapper);
+  return { ...item, data };
+};
+
+/**
+ * 收集项目或资产库条目引用的媒体 hash
+ */
+export const collectMediaHashes = async (
+  target: { project?: ProjectState; asset?: AssetLibraryItem },
+  hashes: Set<string> = new Set()
+): Promise<Set<string>> => {
+  const collect: MediaMapper = async value => {
+    if (isMediaRef(value)) {
+      hashes.add(getMediaRefHash(value));
+    } else {
+      const cachedHash = hashByUrl.get(value);
+      if (cachedHash) hashes.add(cachedHash);
+    }
+    return value;
+  };
+  if (target.project) await mapProjectMedia(target.project, collect);
+  if (target.asset) await mapAssetMedia(target.asset, collect);
+  return hashes;
+};
+
+/**
+ * 获取媒体值的内容标识，用于比较两个媒体字段是否为同一内容
+ * 已写入媒体库的内容返回 hash，未知内容返回原值
+ */
+export const getMediaIdentity = (value?: string): string => {
+  if (!value) return '';
+  if (isMediaRef(value)) return getMediaRefHash(value);
+  return hashByUrl.get(value) || value;
+};
@@ -12,11 +12,18 @@ import {
   ChatModelDefinition,
   ImageModelDefinition,
   VideoModelDefinition,
+  AudioModelDefinition,
   BUILTIN_PROVIDERS,
   ALL_BUILTIN_MODELS,
   DEFAULT_ACTIVE_MODELS,
+  LOCAL_PROVIDER_ID,
+  MOCK_PROVIDER_ID,
+  DEFAULT_PROVIDER_RATE_LIMIT,
+  MockProviderSettings,
+  DEFAULT_MOCK_SETTINGS,
   AspectRatio,
   VideoDuration,
+  RateLimitConfig,
 } from '../types/model';
 
 // localStorage 键名
@@ -74,7 +81,12 @@ export const loadRegistry = (): ModelRegistryState => {
       const existingProviderIds = parsed.providers.map(p => p.id);
       BUILTIN_PROVIDERS.forEach(bp => {
         if (!existingProviderIds.includes(bp.id)) {
-          parsed.providers.unshift(bp);
+          // 默认提供商放在最前，其余内置提供商（如本地离线）追加到末尾
+          if (bp.isDefault) {
+            parsed.providers.unshift(bp);
+          } else {
+            parsed.providers.push(bp);
+          }
         }
       });
 
@@ -99,7 +111,7 @@ export const loadRegistry = (): ModelRegistryState => {
           const existing = parsed.models[existingIndex];
           // 用户可调整的偏好参数（defaultAspectRatio, temperature, maxTokens, defaultDuration 等）
           // 结构性参数（supportedAspectRatios, supportedDurations, mode 等）始终从代码同步
-          const USER_PREF_KEYS = ['defaultAspectRatio', 'temperature', 'maxTokens', 'defaultDuration'];
+          const USER_PREF_KEYS = ['defaultAspectRatio', 'temperature', 'maxTokens', 'defaultDuration', 'defaultVoice', 'speed'];
           const mergedParams = { ...(bm as any).params };
           const existingParams = (existing as any).params;
           if (existingParams) {
@@ -112,6 +124,7 @@ export const loadRegistry = (): ModelRegistryState => {
           parsed.models[existingIndex] = {
             ...bm,
             isEnabled: existing.isEnabled,
+            rateLimit: existing.rateLimit,
             params: mergedParams as any,
           };
         }
@@ -143,6 +156,14 @@ export const loadRegistry = (): ModelRegistryState => {
         parsed.activeModels.video = 'veo';
         activeModelMigrated = true;
       }
+
+      // 补齐新增模型类型的激活配置（如 audio）
+      (Object.keys(DEFAULT_ACTIVE_MODELS) as ModelType[]).forEach(type => {
+        if (!parsed.activeModels[type]) {
+          parsed.activeModels[type] = DEFAULT_ACTIVE_MODELS[type];
+          activeModelMigrated = true;
+        }
+      });
       
       // 同步全局 API Key
       parsed.globalApiKey = localStorage.getItem(API_KEY_STORAGE_KEY) || parsed.globalApiKey;
@@ -314,6 +335,13 @@ export const getVideoModels = (): VideoModelDefinition[] => {
   return getModels('video') as VideoModelDefinition[];
 };
 
+/**
+ * 获取配音模型列表
+ */
+export const getAudioModels = (): AudioModelDefinition[] => {
+  return getModels('audio') as AudioModelDefinition[];
+};
+
 /**
  * 根据 ID 获取模型
  */
@@ -351,6 +379,13 @@ export const getActiveVideoModel = (): VideoModelDefinition | undefined => {
   return getActiveModel('video') as VideoModelDefinition | undefined;
 };
 
+/**
+ * 获取当前激活的配音模型
+ */
+export const getActiveAudioModel = (): AudioModelDefinition | undefined => {
+  return getActiveModel('audio') as AudioModelDefinition | undefined;
+};
+
 /**
  * 设置激活的模型
  */
@@ -408,11 +443,12 @@ export const updateModel = (id: string, updates: Partial<ModelDefinition>): bool
   const index = state.models.findIndex(m => m.id === id);
   if (index === -1) return false;
 
-  // 内置模型只能修改 isEnabled 和 params
+  // 内置模型只能修改 isEnabled、params 和 rateLimit
   if (state.models[index].isBuiltIn) {
     const allowedUpdates: Partial<ModelDefinition> = {};
     if (updates.isEnabled !== undefined) allowedUpdates.isEnabled = updates.isEnabled;
     if (updates.params) allowedUpdates.params = updates.params as any;
+    if ('rateLimit' in updates) allowedUpdates.rateLimit = updates.rateLimit;
     state.models[index] = { ...state.models[index], ...allowedUpdates } as ModelDefinition;
   } else {
     state.models[index] = { ...state.models[index], ...updates } as ModelDefinition;
@@ -508,6 +544,36 @@ export const getApiBaseUrlForModel = (modelId: string): string => {
   return baseUrl.replace(/\/+$/, '');
 };
 
+/**
+ * 提供商未配置限流时使用的默认值
+ * 本地部署与模拟提供商不经过远程接口，没有默认限流
+ */
+export const getDefaultRateLimitForProvider = (providerId: string): RateLimitConfig | undefined =>
+  providerId === LOCAL_PROVIDER_ID || providerId === MOCK_PROVIDER_ID ? undefined : DEFAULT_PROVIDER_RATE_LIMIT;
+
+/**
+ * 获取模型请求需要遵守的限流配置（提供商级与模型级同时生效）
+ * 提供商未配置的限流项使用默认值，配置为 0 的项不限制
+ */
+export const getRateLimitsForModel = (modelId: string): {
+  providerId: string;
+  provider?: RateLimitConfig;
+  model?: RateLimitConfig;
+} => {
+  const model = getModelById(modelId);
+  const providerId = model?.providerId || BUILTIN_PROVIDERS[0].id;
+  const providerLimit = getProviderById(providerId)?.rateLimit;
+  const defaults = getDefaultRateLimitForProvider(providerId);
+  return {
+    providerId,
+    provider: {
+      maxConcurrent: providerLimit?.maxConcurrent ?? defaults?.maxConcurrent,
+      requestsPerMinute: providerLimit?.requestsPerMinute ?? defaults?.requestsPerMinute,
+    },
+    model: model?.rateLimit,
+  };
+};
+
 // ============================================
 // 辅助函数
 // ============================================
@@ -519,12 +585,34 @@ export const getActiveModelsConfig = (): ActiveModels => {
   return loadRegistry().activeModels;
 };
 
+/**
+ * 是否为本地离线模型（无需 API Key、不发起网络请求）
+ */
+export const isLocalModel = (modelId: string): boolean => {
+  return getModelById(modelId)?.providerId === LOCAL_PROVIDER_ID;
+};
+
+/**
+ * 是否为模拟提供商的模型（返回固定的模拟结果，无需 API Key、不发起网络请求）
+ */
+export const isMockModel = (modelId: string): boolean => {
+  return getModelById(modelId)?.providerId === MOCK_PROVIDER_ID;
+};
+
+/**
+ * 获取模拟提供商的延迟与失败注入配置
+ */
+export const getMockSettings = (): MockProviderSettings => {
+  return { ...DEFAULT_MOCK_SETTINGS, ...getProviderById(MOCK_PROVIDER_ID)?.mockSettings };
+};
+
 /**
  * 检查模型是否可用（已启用且有 API Key）
  */
 export const isModelAvailable = (modelId: string): boolean => {
   const model = getModelById(modelId);
   if (!model || !model.isEnabled) return false;
+  if (model.providerId === LOCAL_PROVIDER_ID || model.providerId === MOCK_PROVIDER_ID) return true;
   
   const apiKey = getApiKeyForModel(modelId);
   return !!apiKey;
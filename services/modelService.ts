@@ -7,6 +7,7 @@ import {
   ChatOptions,
   ImageGenerateOptions,
   VideoGenerateOptions,
+  AudioGenerateOptions,
   AspectRatio,
   VideoDuration,
 } from '../types/model';
@@ -14,6 +15,7 @@ import {
 import { callChatApi, verifyApiKey as verifyChatApiKey, ApiKeyError } from './adapters/chatAdapter';
 import { callImageApi } from './adapters/imageAdapter';
 import { callVideoApi } from './adapters/videoAdapter';
+import { callAudioApi } from './adapters/audioAdapter';
 import {
   getGlobalApiKey,
   setGlobalApiKey as setRegistryApiKey,
@@ -63,6 +65,15 @@ export const generateVideo = async (options: VideoGenerateOptions): Promise<stri
   return callVideoApi(options);
 };
 
+/**
+ * 生成配音
+ * @param options 生成参数
+ * @returns Base64 格式的音频数据
+ */
+export const generateSpeech = async (options: AudioGenerateOptions): Promise<string> => {
+  return callAudioApi(options);
+};
+
 // ============================================
 // 高级业务函数
 // ============================================
@@ -0,0 +1,217 @@
+/**
+ * 项目包（.bbproj）
+ * ZIP 格式的自包含项目文件，可脱离本地媒体库在设备间迁移：
+ *   manifest.json       格式标识、数据版本与媒体清单
+ *   project.json        项目记录（媒体以 media:sha256:<hash> 引用）
+ *   asset-library.json  项目使用的资产库条目
+ *   media/<hash>.<ext>  媒体文件，按内容 hash 命名
+ */
+
+import { ProjectState } from '../types';
+import {
+  EXPORT_SCHEMA_VERSION,
+  ImportOptions,
+  ImportResult,
+  PreparedImport,
+  getProjectPackageData,
+  importProjectRecords,
+  prepareImportPayload,
+  prepareImportRecords,
+  resolveExportSchemaVersion,
+  saveMediaBlob,
+} from './storageService';
+import { collectMediaHashes, hashBlob } from './mediaStoreService';
+
+export const PROJECT_PACKAGE_FORMAT = 'bbproj';
+export const PROJECT_PACKAGE_EXTENSION = '.bbproj';
+
+export interface ProjectPackageMediaEntry {
+  hash: string;
+  path: string;
+  type: string;
+  size: number;
+}
+
+export interface ProjectPackageManifest {
+  format: typeof PROJECT_PACKAGE_FORMAT;
+  schemaVersion: number;
+  exportedAt: number;
+  generator: string;
+  project: { id: string; title: string; shotCount: number };
+  assetCount: number;
+  media: ProjectPackageMediaEntry[];
+}
+
+/**
+ * 待导入的数据：JSON 备份与项目包统一解析为该结构，导入前用于展示冲突与警告
+ */
+export interface ImportBundle {
+  format: 'json' | 'bbproj';
+  prepared: PreparedImport;
+  /** 项目包中校验通过的媒体，hash -> 内容 */
+  media: Map<string, Blob>;
+  /** 被跳过的记录、缺失或损坏的媒体 */
+  warnings: string[];
+}
+
+const MEDIA_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+  'audio/ogg': 'ogg',
+};
+
+const getMediaExtension = (type: string): string => MEDIA_EXTENSIONS[type] || 'bin';
+
+const packageError = (issues: string[]): Error => new Error(`项目包校验失败：\n- ${issues.join('\n- ')}`);
+
+/**
+ * 打包单个项目，返回 .bbproj 文件内容
+ */
+export const exportProjectPackage = async (project: ProjectState): Promise<Blob> => {
+  const JSZip = (await import('jszip')).default;
+  const data = await getProjectPackageData(project);
+
+  const zip = new JSZip();
+  const media: ProjectPackageMediaEntry[] = data.media.map(record => {
+    const path = `media/${record.hash}.${getMediaExtension(record.type)}`;
+    // 媒体已是压缩格式，不再二次压缩
+    zip.file(path, record.blob, { compression: 'STORE' });
+    return { hash: record.hash, path, type: record.type, size: record.size };
+  });
+
+  const manifest: ProjectPackageManifest = {
+    format: PROJECT_PACKAGE_FORMAT,
+    schemaVersion: EXPORT_SCHEMA_VERSION,
+    exportedAt: Date.now(),
+    generator: 'BigBanana AI Director',
+    project: { id: data.project.id, title: data.project.title, shotCount: data.project.shots.length },
+    assetCount: data.assets.length,
+    media,
+  };
+
+  zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+  zip.file('project.json', JSON.stringify(data.project, null, 2));
+  zip.file('asset-library.json', JSON.stringify(data.assets, null, 2));
+
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+};
+
+const readJsonEntry = async (zip: any, path: string, issues: string[]): Promise<unknown> => {
+  const entry = zip.file(path);
+  if (!entry) {
+    issues.push(`缺少 ${path}`);
+    return undefined;
+  }
+  try {
+    return JSON.parse(await entry.async('string'));
+  } catch {
+    issues.push(`${path} 不是有效的 JSON`);
+    return undefined;
+  }
+};
+
+/**
+ * 读取并校验项目包
+ * 结构性问题（非 ZIP、缺少清单或项目记录、版本过高）直接报错；缺失或校验值不符的媒体记为警告
+ */
+export const readProjectPackage = async (file: Blob): Promise<ImportBundle> => {
+  const JSZip = (await import('jszip')).default;
+  let zip: any;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    throw packageError(['文件不是有效的 ZIP 压缩包']);
+  }
+
+  const issues: string[] = [];
+  const manifest = (await readJsonEntry(zip, 'manifest.json', issues)) as ProjectPackageManifest | undefined;
+  const rawProject = await readJsonEntry(zip, 'project.json', issues);
+  if (manifest) {
+    if (manifest.format !== PROJECT_PACKAGE_FORMAT) issues.push(`manifest.json 中的格式标识不是 ${PROJECT_PACKAGE_FORMAT}`);
+    if (!Array.isArray(manifest.media)) issues.push('manifest.json 缺少媒体清单');
+  }
+  if (issues.length > 0 || !manifest) {
+    throw packageError(issues);
+  }
+
+  const warnings: string[] = [];
+  let rawAssets: unknown[] = [];
+  if (zip.file('asset-library.json')) {
+    const assetIssues: string[] = [];
+    const parsed = await readJsonEntry(zip, 'asset-library.json', assetIssues);
+    if (Array.isArray(parsed)) {
+      rawAssets = parsed;
+    } else {
+      warnings.push(assetIssues[0] || 'asset-library.json 不是数组，已忽略资产库条目');
+    }
+  }
+
+  const prepared = prepareImportRecords([rawProject], rawAssets, resolveExportSchemaVersion(manifest.schemaVersion));
+  if (prepared.projects.length === 0) {
+    throw packageError(prepared.warnings);
+  }
+  warnings.push(...prepared.warnings);
+
+  const media = new Map<string, Blob>();
+  for (const entry of manifest.media) {
+    const mediaFile = entry?.path ? zip.file(entry.path) : null;
+    if (!mediaFile) {
+      warnings.push(`媒体文件缺失：${entry?.path || entry?.hash || '未知'}`);
+      continue;
+    }
+    const blob = new Blob([await mediaFile.async('arraybuffer')], { type: entry.type || '' });
+    if ((await hashBlob(blob)) !== entry.hash) {
+      warnings.push(`媒体文件已损坏（校验值不匹配）：${entry.path}`);
+      continue;
+    }
+    media.set(entry.hash, blob);
+  }
+
+  const referenced = await collectMediaHashes({ project: prepared.projects[0] });
+  for (const asset of prepared.assets) {
+    await collectMediaHashes({ asset }, referenced);
+  }
+  const missingCount = Array.from(referenced).filter(hash => !media.has(hash)).length;
+  if (missingCount > 0) {
+    warnings.push(`${missingCount} 个媒体引用在包内没有可用文件，若本机媒体库中也不存在将显示为缺失`);
+  }
+
+  return { format: 'bbproj', prepared, media, warnings };
+};
+
+/**
+ * 读取导入文件：.bbproj 项目包或 .json 备份
+ */
+export const readImportFile = async (file: File): Promise<ImportBundle> => {
+  if (file.name.endsWith(PROJECT_PACKAGE_EXTENSION)) {
+    return readProjectPackage(file);
+  }
+  if (!file.name.endsWith('.json')) {
+    throw new Error('请选择 .bbproj 项目包或 .json 备份文件');
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(await file.text());
+  } catch {
+    throw new Error('导入文件格式不正确：\n- 不是有效的 JSON 文件');
+  }
+  const prepared = prepareImportPayload(payload);
+  return { format: 'json', prepared, media: new Map(), warnings: prepared.warnings };
+};
+
+/**
+ * 写入导入数据：先将项目包中的媒体写入媒体库，再写入项目与资产记录
+ */
+export const importBundle = async (bundle: ImportBundle, options?: ImportOptions): Promise<ImportResult> => {
+  for (const blob of bundle.media.values()) {
+    await saveMediaBlob(blob);
+  }
+  return importProjectRecords(bundle.prepared, options);
+};
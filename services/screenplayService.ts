@@ -0,0 +1,542 @@
+/**
+ * 剧本格式服务
+ * 确定性解析 Fountain 与 Final Draft (.fdx) 格式的剧本，映射为 ScriptData 结构：
+ * - 场景标题（INT./EXT.、时间）→ Scene
+ * - 角色提示行 → Character
+ * - 动作与对白段落 → storyParagraphs
+ * 解析结果不经过 AI，长剧本也不会被截断
+ * 同时支持将项目剧本与分镜导出为 Fountain 文本
+ */
+
+import { Character, Scene, ScriptData, Shot } from '../types';
+import { parseDialogueLine } from './ai/audioService';
+
+export type ScreenplayFormat = 'fountain' | 'fdx';
+
+export type ScreenplayElementType =
+  | 'scene-heading'
+  | 'action'
+  | 'character'
+  | 'parenthetical'
+  | 'dialogue'
+  | 'transition';
+
+/**
+ * 剧本中的单个元素（按出现顺序排列）
+ */
+export interface ScreenplayElement {
+  type: ScreenplayElementType;
+  text: string;
+}
+
+/**
+ * 解析后的剧本
+ */
+export interface ParsedScreenplay {
+  format: ScreenplayFormat;
+  metadata: Record<string, string>; // 标题页信息（key 为小写，如 title / author / genre / logline）
+  synopses: string[];               // Fountain 梗概行（= 开头）
+  elements: ScreenplayElement[];
+}
+
+/**
+ * 结构化后的剧本数据（与 AI 解析结果的结构一致，视觉提示词由后续步骤补充）
+ */
+export type StructuredScript = Pick<ScriptData, 'title' | 'genre' | 'logline' | 'characters' | 'scenes' | 'storyParagraphs'>;
+
+/** 场景标题前缀：INT. / EXT. / EST. / INT./EXT. / I/E */
+const SCENE_HEADING_PREFIX = /^(INT\.?\/EXT|EXT\.?\/INT|I\/E|INT|EXT|EST)[.\s]/i;
+
+/** 场景编号（如 #12A#） */
+const SCENE_NUMBER = /\s*#[\w.\-]+#\s*$/;
+
+/**
+ * 去除 Fountain 强调标记（*斜体*、**粗体**、_下划线_）
+ */
+const stripEmphasis = (text: string): string => {
+  return text
+    .replace(/(\*{1,3})(?=\S)([\s\S]*?\S)\1/g, '$2')
+    .replace(/_(?=\S)([\s\S]*?\S)_/g, '$1')
+    .replace(/\\([*_])/g, '$1');
+};
+
+/**
+ * 判断是否为角色提示行（全大写，可带 (V.O.) 等扩展）
+ */
+const isCharacterCue = (line: string): boolean => {
+  const name = line.replace(/\^$/, '').replace(/\(.*\)\s*$/, '').trim();
+  return !!name && /[A-Z]/.test(name) && name === name.toUpperCase() && !/[.!?:]$/.test(name);
+};
+
+// ============================================
+// Fountain
+// ============================================
+
+/**
+ * 解析 Fountain 标题页（文件开头的 Key: Value 块，值可缩进续行）
+ */
+const parseFountainTitlePage = (lines: string[]): { metadata: Record<string, string>; bodyStart: number } => {
+  const metadata: Record<string, string> = {};
+  const firstLine = lines.findIndex(l => l.trim());
+  if (firstLine < 0 || !/^[A-Za-z][A-Za-z ]*:/.test(lines[firstLine])) {
+    return { metadata, bodyStart: 0 };
+  }
+
+  let key = '';
+  let i = firstLine;
+  for (; i < lines.length && lines[i].trim(); i++) {
+    const line = lines[i];
+    const match = line.match(/^([A-Za-z][A-Za-z ]*):\s*(.*)$/);
+    if (match && !/^\s/.test(line)) {
+      key = match[1].trim().toLowerCase();
+      metadata[key] = match[2].trim();
+    } else if (key) {
+      metadata[key] = [metadata[key], line.trim()].filter(Boolean).join('\n');
+    }
+  }
+  return { metadata, bodyStart: i };
+};
+
+/**
+ * 解析 Fountain 格式剧本
+ */
+export const parseFountain = (text: string): ParsedScreenplay => {
+  const cleaned = text
+    .replace(/\r\n?/g, '\n')
+    .replace(/\/\*[\s\S]*?\*\//g, '')
+    .replace(/\[\[[\s\S]*?\]\]/g, '');
+  const lines = cleaned.split('\n');
+  const { metadata, bodyStart } = parseFountainTitlePage(lines);
+
+  const elements: ScreenplayElement[] = [];
+  const synopses: string[] = [];
+  let inDialogue = false;
+  let currentIndex = bodyStart;
+
+  const isBlank = (index: number) => index < bodyStart || index >= lines.length || !lines[index].trim();
+  const push = (type: ScreenplayElementType, value: string) => {
+    const last = elements[elements.length - 1];
+    // 同一段落内的连续行合并为一个元素
+    if (last && last.type === type && (type === 'action' || type === 'dialogue') && !isBlank(currentIndex - 1)) {
+      last.text += `\n${value}`;
+    } else {
+      elements.push({ type, text: value });
+    }
+  };
+
+  for (; currentIndex < lines.length; currentIndex++) {
+    const raw = lines[currentIndex];
+    const line = raw.trim();
+
+    if (!line) {
+      inDialogue = false;
+      continue;
+    }
+
+    const prevBlank = isBlank(currentIndex - 1);
+    const nextBlank = isBlank(currentIndex + 1);
+
+    if (inDialogue) {
+      if (/^\(.*\)$/.test(line)) {
+        elements.push({ type: 'parenthetical', text: line });
+      } else {
+        push('dialogue', stripEmphasis(line.replace(/^~/, '')));
+      }
+      continue;
+    }
+
+    // 分页符、章节、梗概
+    if (/^={3,}$/.test(line) || /^#/.test(line)) continue;
+    if (/^=/.test(line)) {
+      synopses.push(stripEmphasis(line.slice(1).trim()));
+      continue;
+    }
+
+    // 场景标题（强制 . 开头，或 INT./EXT. 等前缀）
+    if (/^\.[^.]/.test(line) || (prevBlank && SCENE_HEADING_PREFIX.test(line))) {
+      const heading = (line.startsWith('.') ? line.slice(1) : line).replace(SCENE_NUMBER, '').trim();
+      elements.push({ type: 'scene-heading', text: stripEmphasis(heading) });
+      continue;
+    }
+
+    // 居中文本视为动作
+    if (/^>.*<$/.test(line)) {
+      push('action', stripEmphasis(line.slice(1, -1).trim()));
+      continue;
+    }
+
+    // 转场（强制 > 开头，或全大写并以 TO: 结尾）
+    if (/^>/.test(line) || (prevBlank && nextBlank && /^[A-Z\s]+TO:$/.test(line))) {
+      elements.push({ type: 'transition', text: line.replace(/^>/, '').trim() });
+      continue;
+    }
+
+    // 强制动作
+    if (/^!/.test(line)) {
+      push('action', stripEmphasis(line.slice(1)));
+      continue;
+    }
+
+    // 角色提示行（强制 @ 开头，或全大写且下一行为对白）
+    if (prevBlank && !nextBlank && (/^@/.test(line) || isCharacterCue(line))) {
+      elements.push({ type: 'character', text: line.replace(/^@/, '').replace(/\s*\^$/, '').trim() });
+      inDialogue = true;
+      continue;
+    }
+
+    push('action', stripEmphasis(line.replace(/^~/, '')));
+  }
+
+  return { format: 'fountain', metadata, synopses, elements };
+};
+
+// ============================================
+// Final Draft (.fdx)
+// ============================================
+
+/** FDX 段落类型映射 */
+const FDX_TYPE_MAP: Record<string, ScreenplayElementType> = {
+  'Scene Heading': 'scene-heading',
+  'Action': 'action',
+  'General': 'action',
+  'Shot': 'action',
+  'Character': 'character',
+  'Parenthetical': 'parenthetical',
+  'Dialogue': 'dialogue',
+  'Transition': 'transition',
+};
+
+/**
+ * 读取 FDX 段落的文本（仅直接子节点 Text，跳过双人对白容器）
+ */
+const getFdxParagraphText = (paragraph: Element): string => {
+  return Array.from(paragraph.children)
+    .filter(child => child.tagName === 'Text')
+    .map(child => child.textContent || '')
+    .join('')
+    .trim();
+};
+
+/**
+ * 解析 Final Draft (.fdx) 格式剧本
+ */
+export const parseFdx = (xml: string): ParsedScreenplay => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('FDX 文件格式错误，无法解析');
+  }
+
+  const root = doc.documentElement;
+  if (!root || root.tagName !== 'FinalDraft') {
+    throw new Error('不是有效的 Final Draft 文件');
+  }
+
+  const content = Array.from(root.children).find(el => el.tagName === 'Content');
+  const elements: ScreenplayElement[] = [];
+  if (content) {
+    Array.from(content.getElementsByTagName('Paragraph')).forEach(paragraph => {
+      const text = getFdxParagraphText(paragraph);
+      if (!text) return;
+      const type = FDX_TYPE_MAP[paragraph.getAttribute('Type') || ''] || 'action';
+      elements.push({
+        type,
+        text: type === 'scene-heading' ? text.replace(SCENE_NUMBER, '').trim() : text,
+      });
+    });
+  }
+
+  // 标题页：取第一个非空段落作为标题
+  const metadata: Record<string, string> = {};
+  const titlePage = Array.from(root.children).find(el => el.tagName === 'TitlePage');
+  if (titlePage) {
+    const title = Array.from(titlePage.getElementsByTagName('Paragraph'))
+      .map(getFdxParagraphText)
+      .find(Boolean);
+    if (title) metadata.title = title;
+  }
+
+  return { format: 'fdx', metadata, synopses: [], elements };
+};
+
+// ============================================
+// 格式识别与转换
+// ============================================
+
+/**
+ * 识别剧本格式，普通文本（故事大纲、散文等）返回 null
+ * Fountain 需要至少一个场景标题，并且包含角色对白或标题页
+ */
+export const detectScreenplayFormat = (text: string): ScreenplayFormat | null => {
+  const trimmed = text.trim();
+  if (/^(<\?xml[^>]*>\s*)?<FinalDraft[\s>]/.test(trimmed)) {
+    return 'fdx';
+  }
+
+  const parsed = parseFountain(trimmed);
+  const hasSceneHeading = parsed.elements.some(e => e.type === 'scene-heading');
+  const hasDialogue = parsed.elements.some(e => e.type === 'character');
+  return hasSceneHeading && (hasDialogue || !!parsed.metadata.title) ? 'fountain' : null;
+};
+
+/**
+ * 拆分场景标题为地点与时间
+ * 如 "INT. COFFEE SHOP - NIGHT" → { location: "COFFEE SHOP", time: "NIGHT" }
+ */
+export const splitSceneHeading = (heading: string): { location: string; time: string } => {
+  const body = heading
+    .replace(SCENE_HEADING_PREFIX, '')
+    .replace(/^(内外景|内景|外景)[。.\s:：]*/, '')
+    .replace(/^[.\s]+/, '')
+    .trim();
+  const separator = body.lastIndexOf(' - ');
+  if (separator < 0) {
+    return { location: body || heading, time: '' };
+  }
+  return {
+    location: body.slice(0, separator).trim(),
+    time: body.slice(separator + 3).trim(),
+  };
+};
+
+/**
+ * 获取角色提示行中的角色名（去除 (V.O.)、(CONT'D) 等扩展）
+ */
+export const getCharacterCueName = (cue: string): string => {
+  return cue.replace(/\^$/, '').replace(/\(.*\)\s*$/, '').trim();
+};
+
+/**
+ * 从动作描述中提取角色首次出场的括号描述，如 "JOHN (30s, weary)"
+ */
+const findCharacterIntro = (name: string, actions: string[]): string => {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pattern = new RegExp(`${escaped}\\s*[（(]([^()（）]{1,80})[)）]`, 'i');
+  for (const action of actions) {
+    const match = action.match(pattern);
+    if (match) return match[1].trim();
+  }
+  return '';
+};
+
+/**
+ * 将解析后的剧本映射为 ScriptData 结构
+ */
+export const screenplayToScriptData = (parsed: ParsedScreenplay): StructuredScript => {
+  const scenes: Scene[] = [];
+  const characters: Character[] = [];
+  const storyParagraphs: StructuredScript['storyParagraphs'] = [];
+  const sceneKeys = new Map<string, string>();
+  const actions = parsed.elements.filter(e => e.type === 'action').map(e => e.text);
+
+  let currentSceneId: string | null = null;
+  const ensureScene = (location: string, time: string): string => {
+    const key = `${location}|${time}`.toUpperCase();
+    const existing = sceneKeys.get(key);
+    if (existing) return existing;
+    const id = String(scenes.length + 1);
+    scenes.push({ id, location, time, atmosphere: '' });
+    sceneKeys.set(key, id);
+    return id;
+  };
+  const currentScene = () => {
+    if (!currentSceneId) currentSceneId = ensureScene('未标注场景', '');
+    return currentSceneId;
+  };
+
+  const ensureCharacter = (cue: string) => {
+    const name = getCharacterCueName(cue);
+    if (!name || characters.some(c => c.name.toUpperCase() === name.toUpperCase())) return;
+    const intro = findCharacterIntro(name, actions);
+    const age = intro.match(/\d{1,3}\s*(?:s\b|岁|years? old)/i)?.[0] || '未知';
+    characters.push({
+      id: String(characters.length + 1),
+      name,
+      gender: '未知',
+      age,
+      personality: intro,
+      variations: [],
+    });
+  };
+
+  const addParagraph = (text: string) => {
+    if (!text.trim()) return;
+    storyParagraphs.push({ id: storyParagraphs.length + 1, text: text.trim(), sceneRefId: currentScene() });
+  };
+
+  for (let i = 0; i < parsed.elements.length; i++) {
+    const element = parsed.elements[i];
+    switch (element.type) {
+      case 'scene-heading': {
+        const { location, time } = splitSceneHeading(element.text);
+        currentSceneId = ensureScene(location, time);
+        break;
+      }
+      case 'action': {
+        addParagraph(element.text);
+        // 场景氛围取该场景的第一段动作描述
+        const scene = scenes.find(s => s.id === currentScene());
+        if (scene && !scene.atmosphere) {
+          scene.atmosphere = element.text.replace(/\s+/g, ' ').slice(0, 120);
+        }
+        break;
+      }
+      case 'character': {
+        ensureCharacter(element.text);
+        // 角色提示行与其后的括号说明、对白合并为一段 "角色名：台词"
+        const name = getCharacterCueName(element.text);
+        const parts: string[] = [];
+        while (i + 1 < parsed.elements.length && ['parenthetical', 'dialogue'].includes(parsed.elements[i + 1].type)) {
+          parts.push(parsed.elements[++i].text.replace(/\n/g, ' '));
+        }
+        const line = parts.join(' ');
+        const colon = /[\u3400-\u9fff]/.test(line) ? '：' : ': ';
+        addParagraph(`${name}${colon}${line}`);
+        break;
+      }
+      default:
+        // 转场、游离的对白不计入故事段落
+        break;
+    }
+  }
+
+  const metadata = parsed.metadata;
+  return {
+    title: stripEmphasis((metadata.title || '').split('\n')[0]).trim(),
+    genre: metadata.genre || '',
+    logline: metadata.logline || parsed.synopses[0] || '',
+    characters,
+    scenes,
+    storyParagraphs,
+  };
+};
+
+/**
+ * 识别并解析剧本文本，普通文本返回 null（交由 AI 解析）
+ */
+export const parseScreenplay = (text: string): { format: ScreenplayFormat; data: StructuredScript } | null => {
+  const format = detectScreenplayFormat(text);
+  if (!format) return null;
+
+  const parsed = format === 'fdx' ? parseFdx(text) : parseFountain(text);
+  const data = screenplayToScriptData(parsed);
+  if (data.scenes.length === 0 || data.storyParagraphs.length === 0) return null;
+  return { format, data };
+};
+
+/**
+ * 将解析后的剧本序列化为 Fountain 文本
+ * 用于导入 .fdx 文件后在剧本编辑器中以可读形式展示
+ */
+export const screenplayToFountain = (parsed: ParsedScreenplay): string => {
+  const blocks: string[] = [];
+
+  const titleKeys = Object.keys(parsed.metadata);
+  if (titleKeys.length > 0) {
+    blocks.push(titleKeys.map(key => {
+      const label = key.replace(/\b\w/g, ch => ch.toUpperCase());
+      const [first, ...rest] = parsed.metadata[key].split('\n');
+      return [`${label}: ${first}`, ...rest.map(line => `   ${line}`)].join('\n');
+    }).join('\n'));
+  }
+  parsed.synopses.forEach(synopsis => blocks.push(`= ${synopsis}`));
+
+  for (let i = 0; i < parsed.elements.length; i++) {
+    const element = parsed.elements[i];
+    switch (element.type) {
+      case 'scene-heading':
+        blocks.push(SCENE_HEADING_PREFIX.test(element.text) ? element.text.toUpperCase() : `.${element.text}`);
+        break;
+      case 'character': {
+        const lines = [isCharacterCue(element.text) ? element.text : `@${element.text}`];
+        while (i + 1 < parsed.elements.length && ['parenthetical', 'dialogue'].includes(parsed.elements[i + 1].type)) {
+          const next = parsed.elements[++i];
+          lines.push(next.type === 'parenthetical' && !/^\(.*\)$/.test(next.text) ? `(${next.text})` : next.text);
+        }
+        blocks.push(lines.join('\n'));
+        break;
+      }
+      case 'transition':
+        blocks.push(/^[A-Z\s]+TO:$/.test(element.text) ? element.text : `> ${element.text}`);
+        break;
+      case 'action': {
+        // 可能被误判为其他元素的动作行加 ! 强制为动作
+        const needsForce = SCENE_HEADING_PREFIX.test(element.text) || isCharacterCue(element.text.split('\n')[0]);
+        blocks.push(needsForce ? `!${element.text}` : element.text);
+        break;
+      }
+      default:
+        blocks.push(element.text);
+        break;
+    }
+  }
+
+  return blocks.join('\n\n') + '\n';
+};
+
+/**
+ * 拆分台词开头的括号提示，如 "(低声) 快走" → { parenthetical: "低声", line: "快走" }
+ */
+const splitParenthetical = (text: string): { parenthetical?: string; line: string } => {
+  const match = text.match(/^[（(]([^()（）]+)[)）]\s*([\s\S]*)$/);
+  return match ? { parenthetical: match[1].trim(), line: match[2].trim() } : { line: text };
+};
+
+/**
+ * 生成一段对白元素（角色提示行、括号提示、台词）
+ */
+const buildDialogueElements = (name: string, text: string): ScreenplayElement[] => {
+  const { parenthetical, line } = splitParenthetical(text);
+  const elements: ScreenplayElement[] = [{ type: 'character', text: name }];
+  if (parenthetical) elements.push({ type: 'parenthetical', text: parenthetical });
+  elements.push({ type: 'dialogue', text: line || text });
+  return elements;
+};
+
+/**
+ * 将项目的剧本与分镜整理为剧本元素，用于导出 Fountain
+ * - 有分镜时按镜头顺序输出：场景切换处插入场景标题，镜头动作为动作段落，台词为对白
+ * - 尚未生成分镜时按故事段落输出
+ */
+export const projectToScreenplay = (scriptData: ScriptData, shots: Shot[]): ParsedScreenplay => {
+  const metadata: Record<string, string> = {};
+  if (scriptData.title) metadata.title = scriptData.title;
+  if (scriptData.genre) metadata.genre = scriptData.genre;
+  if (scriptData.logline) metadata.logline = scriptData.logline;
+
+  const elements: ScreenplayElement[] = [];
+  const sceneMap = new Map(scriptData.scenes.map(scene => [scene.id, scene]));
+  let currentSceneId: string | null = null;
+  const enterScene = (sceneId: string) => {
+    if (sceneId === currentSceneId) return;
+    currentSceneId = sceneId;
+    const scene = sceneMap.get(sceneId);
+    if (!scene) return;
+    elements.push({ type: 'scene-heading', text: scene.time ? `${scene.location} - ${scene.time}` : scene.location });
+  };
+
+  if (shots.length > 0) {
+    shots.forEach(shot => {
+      enterScene(String(shot.sceneId));
+      if (shot.actionSummary.trim()) {
+        elements.push({ type: 'action', text: shot.actionSummary.trim() });
+      }
+      if (shot.dialogue?.trim()) {
+        const { speaker, text } = parseDialogueLine(shot, scriptData.characters);
+        elements.push(...buildDialogueElements(speaker?.name || '旁白', text));
+      }
+    });
+  } else {
+    scriptData.storyParagraphs.forEach(paragraph => {
+      enterScene(String(paragraph.sceneRefId));
+      const match = paragraph.text.match(/^([^：:\n]{1,20})[：:]\s*([\s\S]+)$/);
+      const speaker = match && scriptData.characters.find(c => c.name === match[1].trim());
+      if (match && speaker) {
+        elements.push(...buildDialogueElements(speaker.name, match[2].trim()));
+      } else if (paragraph.text.trim()) {
+        elements.push({ type: 'action', text: paragraph.text.trim() });
+      }
+    });
+  }
+
+  return { format: 'fountain', metadata, synopses: [], elements };
+};
@@ -0,0 +1,386 @@
+/**
+ * 分镜表（Shot List）服务
+ * 将镜头导出为 CSV / XLSX 表格，供外部表格软件编辑后再导入
+ * XLSX 读写基于 JSZip 直接处理 OOXML，只读取第一个工作表
+ */
+
+import { ProjectState, ScriptData, Shot } from '../types';
+import { getShotEffectiveDuration } from './timelineService';
+import { triggerDownload } from './exportService';
+
+export type ShotListFormat = 'csv' | 'xlsx';
+
+/**
+ * 分镜表的一行（所有值均为文本，导入时再解析）
+ */
+export interface ShotListRow {
+  id: string;
+  scene: string;
+  shotNumber: string;
+  shotSize: string;
+  cameraMovement: string;
+  characters: string;
+  props: string;
+  action: string;
+  dialogue: string;
+  duration: string;
+  startPrompt: string;
+  endPrompt: string;
+}
+
+/**
+ * 表格列定义：header 为导出时的表头，aliases 为导入时额外识别的表头
+ */
+export const SHOT_LIST_COLUMNS: { key: keyof ShotListRow; header: string; aliases: string[] }[] = [
+  { key: 'id', header: '镜头ID', aliases: ['id', 'shot id'] },
+  { key: 'scene', header: '场景', aliases: ['scene'] },
+  { key: 'shotNumber', header: '镜号', aliases: ['shot', 'shot number', 'no.', '#'] },
+  { key: 'shotSize', header: '景别', aliases: ['shot size', 'size'] },
+  { key: 'cameraMovement', header: '运镜', aliases: ['camera', 'camera movement', 'movement'] },
+  { key: 'characters', header: '角色', aliases: ['characters', 'cast'] },
+  { key: 'props', header: '道具', aliases: ['props'] },
+  { key: 'action', header: '动作', aliases: ['action', 'action summary', '画面'] },
+  { key: 'dialogue', header: '台词', aliases: ['dialogue', '对白'] },
+  { key: 'duration', header: '时长(秒)', aliases: ['duration', '时长'] },
+  { key: 'startPrompt', header: '首帧提示词', aliases: ['start prompt', 'start keyframe'] },
+  { key: 'endPrompt', header: '尾帧提示词', aliases: ['end prompt', 'end keyframe'] },
+];
+
+/** 多个名字之间的分隔符（导入时同时识别中英文逗号、顿号与分号） */
+export const SHOT_LIST_NAME_SEPARATOR = ', ';
+
+/**
+ * 拆分名字列表单元格
+ */
+export const splitShotListNames = (value: string): string[] => {
+  return value.split(/[,，、;；\n]/).map(name => name.trim()).filter(Boolean);
+};
+
+/**
+ * 场景在表格中的显示名，如 "咖啡馆 - 夜"
+ */
+export const getSceneLabel = (scene: { location: string; time: string }): string => {
+  return scene.time ? `${scene.location} - ${scene.time}` : scene.location;
+};
+
+/**
+ * 将镜头转换为表格行
+ */
+export const shotsToShotListRows = (shots: Shot[], scriptData?: ScriptData): ShotListRow[] => {
+  const scenes = scriptData?.scenes || [];
+  const characters = scriptData?.characters || [];
+  const props = scriptData?.props || [];
+
+  return shots.map((shot, index) => {
+    const scene = scenes.find(s => String(s.id) === String(shot.sceneId));
+    const names = (ids: string[] | undefined, list: { id: string; name: string }[]) =>
+      (ids || [])
+        .map(id => list.find(item => String(item.id) === String(id))?.name)
+        .filter(Boolean)
+        .join(SHOT_LIST_NAME_SEPARATOR);
+
+    return {
+      id: shot.id,
+      scene: scene ? getSceneLabel(scene) : String(shot.sceneId),
+      shotNumber: String(index + 1),
+      shotSize: shot.shotSize || '',
+      cameraMovement: shot.cameraMovement || '',
+      characters: names(shot.characters, characters),
+      props: names(shot.props, props),
+      action: shot.actionSummary || '',
+      dialogue: shot.dialogue || '',
+      duration: shot.interval ? getShotEffectiveDuration(shot).toFixed(1) : '',
+      startPrompt: shot.keyframes?.find(k => k.type === 'start')?.visualPrompt || '',
+      endPrompt: shot.keyframes?.find(k => k.type === 'end')?.visualPrompt || '',
+    };
+  });
+};
+
+// ============================================
+// CSV
+// ============================================
+
+const escapeCsvCell = (value: string): string => {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/**
+ * 生成 CSV 文本（带 BOM，保证 Excel 正确识别 UTF-8 中文）
+ */
+export const toShotListCsv = (rows: ShotListRow[]): string => {
+  const lines = [
+    SHOT_LIST_COLUMNS.map(col => escapeCsvCell(col.header)).join(','),
+    ...rows.map(row => SHOT_LIST_COLUMNS.map(col => escapeCsvCell(row[col.key])).join(',')),
+  ];
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+};
+
+/**
+ * 解析 CSV 文本为二维表，自动识别逗号、分号或制表符分隔
+ */
+export const parseCsv = (text: string): string[][] => {
+  const source = text.replace(/^\uFEFF/, '');
+  const firstLine = source.split(/\r?\n/, 1)[0] || '';
+  const delimiter = [',', ';', '\t']
+    .map(d => ({ d, count: firstLine.split(d).length }))
+    .sort((a, b) => b.count - a.count)[0].d;
+
+  const table: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (inQuotes) {
+      if (ch === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        cell += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && source[i + 1] === '\n') i++;
+      row.push(cell);
+      table.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    table.push(row);
+  }
+
+  return table.filter(r => r.some(value => value.trim()));
+};
+
+// ============================================
+// XLSX
+// ============================================
+
+const escapeXml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // 去除 XML 1.0 不允许的控制字符
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+};
+
+/**
+ * 列序号转列名（0 → A，26 → AA）
+ */
+const toColumnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+/**
+ * 列名转列序号（A → 0，AA → 26）
+ */
+const fromColumnName = (name: string): number => {
+  return name.split('').reduce((acc, ch) => acc * 26 + ch.charCodeAt(0) - 64, 0) - 1;
+};
+
+const XLSX_CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/></Types>`;
+
+const XLSX_ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`;
+
+const XLSX_WORKBOOK = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="Shot List" sheetId="1" r:id="rId1"/></sheets></workbook>`;
+
+const XLSX_WORKBOOK_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/></Relationships>`;
+
+/**
+ * 生成 XLSX 文件（单工作表，单元格使用内联字符串）
+ */
+export const toShotListXlsx = async (rows: ShotListRow[]): Promise<Blob> => {
+  const JSZip = (await import('jszip')).default;
+  const table = [
+    SHOT_LIST_COLUMNS.map(col => col.header),
+    ...rows.map(row => SHOT_LIST_COLUMNS.map(col => row[col.key])),
+  ];
+
+  const sheetRows = table.map((values, r) => {
+    const cells = values.map((value, c) => {
+      const ref = `${toColumnName(c)}${r + 1}`;
+      return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+    }).join('');
+    return `<row r="${r + 1}">${cells}</row>`;
+  }).join('');
+
+  const sheet = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${sheetRows}</sheetData></worksheet>`;
+
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', XLSX_CONTENT_TYPES);
+  zip.file('_rels/.rels', XLSX_ROOT_RELS);
+  zip.file('xl/workbook.xml', XLSX_WORKBOOK);
+  zip.file('xl/_rels/workbook.xml.rels', XLSX_WORKBOOK_RELS);
+  zip.file('xl/worksheets/sheet1.xml', sheet);
+
+  return zip.generateAsync({
+    type: 'blob',
+    mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  });
+};
+
+/**
+ * 读取 XLSX 第一个工作表为二维表
+ * 支持共享字符串、内联字符串、公式结果与数值单元格
+ */
+export const parseXlsx = async (data: Blob | ArrayBuffer): Promise<string[][]> => {
+  const JSZip = (await import('jszip')).default;
+  const zip = await JSZip.loadAsync(data);
+  const parser = new DOMParser();
+  const readXml = async (path: string): Promise<Document | null> => {
+    const file = zip.file(path);
+    return file ? parser.parseFromString(await file.async('string'), 'application/xml') : null;
+  };
+  const textOf = (node: Element): string => {
+    return Array.from(node.getElementsByTagName('t')).map(t => t.textContent || '').join('');
+  };
+
+  // 定位第一个工作表
+  let sheetPath = 'xl/worksheets/sheet1.xml';
+  const workbook = await readXml('xl/workbook.xml');
+  const rels = await readXml('xl/_rels/workbook.xml.rels');
+  const firstSheet = workbook?.getElementsByTagName('sheet')[0];
+  const relId = firstSheet?.getAttribute('r:id');
+  if (relId && rels) {
+    const rel = Array.from(rels.getElementsByTagName('Relationship')).find(r => r.getAttribute('Id') === relId);
+    const target = rel?.getAttribute('Target');
+    if (target) {
+      sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target.replace(/^\.\//, '')}`;
+    }
+  }
+
+  const sheet = await readXml(sheetPath);
+  if (!sheet) {
+    throw new Error('XLSX 文件中没有找到工作表');
+  }
+
+  const sharedStringsDoc = await readXml('xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsDoc
+    ? Array.from(sharedStringsDoc.getElementsByTagName('si')).map(textOf)
+    : [];
+
+  const table: string[][] = [];
+  Array.from(sheet.getElementsByTagName('row')).forEach((rowNode, rowIndex) => {
+    const rowNumber = parseInt(rowNode.getAttribute('r') || '', 10) || rowIndex + 1;
+    const values: string[] = [];
+    Array.from(rowNode.getElementsByTagName('c')).forEach((cell, cellIndex) => {
+      const ref = cell.getAttribute('r') || '';
+      const column = /^[A-Z]+/.test(ref) ? fromColumnName(ref.match(/^[A-Z]+/)![0]) : cellIndex;
+      const type = cell.getAttribute('t');
+      const raw = cell.getElementsByTagName('v')[0]?.textContent || '';
+      let value: string;
+      if (type === 's') {
+        value = sharedStrings[parseInt(raw, 10)] || '';
+      } else if (type === 'inlineStr') {
+        value = textOf(cell);
+      } else if (type === 'b') {
+        value = raw === '1' ? 'TRUE' : 'FALSE';
+      } else {
+        value = raw;
+      }
+      values[column] = value;
+    });
+    table[rowNumber - 1] = Array.from(values, value => value || '');
+  });
+
+  return Array.from(table, row => row || []).filter(r => r.some(value => value.trim()));
+};
+
+// ============================================
+// 导入导出
+// ============================================
+
+/**
+ * 导入的分镜表：columns 为表格中实际存在的列，缺失的列导入时不做修改
+ */
+export interface ShotListSheet {
+  columns: (keyof ShotListRow)[];
+  rows: ShotListRow[];
+}
+
+/**
+ * 将二维表映射为分镜表（按表头识别列，缺失的列为空字符串）
+ */
+export const tableToShotListSheet = (table: string[][]): ShotListSheet => {
+  if (table.length === 0) {
+    throw new Error('表格为空');
+  }
+
+  const normalize = (value: string) => value.trim().toLowerCase();
+  const header = table[0].map(normalize);
+  const columnIndex = new Map<keyof ShotListRow, number>();
+  SHOT_LIST_COLUMNS.forEach(col => {
+    const candidates = [col.header, col.key, ...col.aliases].map(normalize);
+    const index = header.findIndex(h => candidates.includes(h));
+    if (index >= 0) columnIndex.set(col.key, index);
+  });
+
+  if (!columnIndex.has('id') && !columnIndex.has('action')) {
+    throw new Error('无法识别表头，请保留导出时的 "镜头ID" 与 "动作" 列');
+  }
+
+  const rows = table.slice(1).map(values => {
+    const row = {} as ShotListRow;
+    SHOT_LIST_COLUMNS.forEach(col => {
+      const index = columnIndex.get(col.key);
+      row[col.key] = index !== undefined ? (values[index] || '').trim() : '';
+    });
+    return row;
+  });
+
+  return { columns: Array.from(columnIndex.keys()), rows };
+};
+
+/**
+ * 读取分镜表文件（.csv / .xlsx）
+ */
+export const readShotListFile = async (file: File): Promise<ShotListSheet> => {
+  const isXlsx = /\.xlsx$/i.test(file.name);
+  if (!isXlsx && !/\.(csv|tsv|txt)$/i.test(file.name)) {
+    throw new Error('仅支持 .csv 或 .xlsx 文件');
+  }
+  const table = isXlsx ? await parseXlsx(file) : parseCsv(await file.text());
+  return tableToShotListSheet(table);
+};
+
+/**
+ * 导出分镜表
+ */
+export const downloadShotList = async (project: ProjectState, format: ShotListFormat): Promise<void> => {
+  if (project.shots.length === 0) {
+    throw new Error('没有可导出的镜头');
+  }
+
+  const rows = shotsToShotListRows(project.shots, project.scriptData);
+  const blob = format === 'xlsx'
+    ? await toShotListXlsx(rows)
+    : new Blob([toShotListCsv(rows)], { type: 'text/csv;charset=utf-8' });
+  const title = project.scriptData?.title || project.title || 'project';
+  triggerDownload(blob, `${title}_shot_list.${format}`);
+};
@@ -0,0 +1,187 @@
+/**
+ * 项目快照对比服务
+ * 比较两个项目版本的剧本结构（ScriptData）与分镜（shots），供版本历史浏览与恢复前确认
+ */
+
+import { Character, Prop, ProjectState, Scene, Shot } from '../types';
+import { getMediaIdentity } from './mediaStoreService';
+
+export interface SnapshotFieldChange {
+  field: string;
+  label: string;
+  before: string;
+  after: string;
+}
+
+export interface SnapshotEntityChange {
+  id: string;
+  name: string;
+  status: 'added' | 'removed' | 'changed';
+  changes: SnapshotFieldChange[];
+}
+
+export interface ProjectSnapshotDiff {
+  project: SnapshotFieldChange[];
+  characters: SnapshotEntityChange[];
+  scenes: SnapshotEntityChange[];
+  props: SnapshotEntityChange[];
+  shots: SnapshotEntityChange[];
+  storyParagraphs: { added: number; removed: number; changed: number };
+  isEmpty: boolean;
+}
+
+interface FieldSpec<T> {
+  field: string;
+  label: string;
+  get: (item: T) => string;
+  /** 比较用的值，未提供时使用 get 的结果 */
+  key?: (item: T) => string;
+}
+
+/** 媒体字段：展示是否存在，按内容标识比较 */
+const mediaField = <T>(field: string, label: string, pick: (item: T) => string | undefined): FieldSpec<T> => ({
+  field,
+  label,
+  get: item => (pick(item) ? '已生成' : ''),
+  key: item => getMediaIdentity(pick(item)),
+});
+
+const PROJECT_FIELDS: FieldSpec<ProjectState>[] = [
+  { field: 'title', label: '标题', get: p => p.title || '' },
+  { field: 'rawScript', label: '剧本原文', get: p => p.rawScript || '' },
+  { field: 'targetDuration', label: '目标时长', get: p => p.targetDuration || '' },
+  { field: 'visualStyle', label: '视觉风格', get: p => p.visualStyle || '' },
+  { field: 'genre', label: '类型', get: p => p.scriptData?.genre || '' },
+  { field: 'logline', label: '一句话梗概', get: p => p.scriptData?.logline || '' },
+];
+
+const CHARACTER_FIELDS: FieldSpec<Character>[] = [
+  { field: 'name', label: '名称', get: c => c.name },
+  { field: 'gender', label: '性别', get: c => c.gender || '' },
+  { field: 'age', label: '年龄', get: c => c.age || '' },
+  { field: 'personality', label: '性格', get: c => c.personality || '' },
+  { field: 'visualPrompt', label: '视觉提示词', get: c => c.visualPrompt || '' },
+  mediaField<Character>('referenceImage', '参考图', c => c.referenceImage),
+  { field: 'variations', label: '造型变体', get: c => (c.variations || []).map(v => v.name).join('、') },
+];
+
+const SCENE_FIELDS: FieldSpec<Scene>[] = [
+  { field: 'location', label: '地点', get: s => s.location },
+  { field: 'time', label: '时间', get: s => s.time || '' },
+  { field: 'atmosphere', label: '氛围', get: s => s.atmosphere || '' },
+  { field: 'visualPrompt', label: '视觉提示词', get: s => s.visualPrompt || '' },
+  mediaField<Scene>('referenceImage', '参考图', s => s.referenceImage),
+];
+
+const PROP_FIELDS: FieldSpec<Prop>[] = [
+  { field: 'name', label: '名称', get: p => p.name },
+  { field: 'category', label: '分类', get: p => p.category || '' },
+  { field: 'description', label: '描述', get: p => p.description || '' },
+  { field: 'visualPrompt', label: '视觉提示词', get: p => p.visualPrompt || '' },
+  mediaField<Prop>('referenceImage', '参考图', p => p.referenceImage),
+];
+
+const getKeyframe = (shot: Shot, type: 'start' | 'end') => shot.keyframes?.find(k => k.type === type);
+
+const SHOT_FIELDS: FieldSpec<Shot>[] = [
+  { field: 'sceneId', label: '场景', get: s => String(s.sceneId) },
+  { field: 'actionSummary', label: '动作', get: s => s.actionSummary || '' },
+  { field: 'dialogue', label: '台词', get: s => s.dialogue || '' },
+  { field: 'shotSize', label: '景别', get: s => s.shotSize || '' },
+  { field: 'cameraMovement', label: '运镜', get: s => s.cameraMovement || '' },
+  { field: 'characters', label: '角色', get: s => (s.characters || []).join('、') },
+  { field: 'props', label: '道具', get: s => (s.props || []).join('、') },
+  { field: 'startPrompt', label: '首帧提示词', get: s => getKeyframe(s, 'start')?.visualPrompt || '' },
+  { field: 'endPrompt', label: '尾帧提示词', get: s => getKeyframe(s, 'end')?.visualPrompt || '' },
+  mediaField<Shot>('startImage', '首帧图', s => getKeyframe(s, 'start')?.imageUrl),
+  mediaField<Shot>('endImage', '尾帧图', s => getKeyframe(s, 'end')?.imageUrl),
+  mediaField<Shot>('video', '视频', s => s.interval?.videoUrl),
+  mediaField<Shot>('dialogueAudio', '配音', s => s.dialogueAudio?.audioUrl),
+];
+
+const diffFields = <T>(before: T, after: T, specs: FieldSpec<T>[]): SnapshotFieldChange[] => {
+  return specs
+    .filter(spec => (spec.key || spec.get)(before) !== (spec.key || spec.get)(after))
+    .map(spec => {
+      const beforeText = spec.get(before);
+      const afterText = spec.get(after);
+      // 媒体内容不同但展示文本相同（均已生成）时，标记为已更换
+      return {
+        field: spec.field,
+        label: spec.label,
+        before: beforeText,
+        after: afterText === beforeText ? '已更换' : afterText,
+      };
+    });
+};
+
+/**
+ * 按 ID 对比两组实体
+ */
+const diffEntities = <T extends { id: string }>(
+  before: T[],
+  after: T[],
+  specs: FieldSpec<T>[],
+  getName: (item: T, index: number) => string
+): SnapshotEntityChange[] => {
+  const beforeMap = new Map(before.map(item => [String(item.id), item]));
+  const afterIds = new Set(after.map(item => String(item.id)));
+  const changes: SnapshotEntityChange[] = [];
+
+  after.forEach((item, index) => {
+    const previous = beforeMap.get(String(item.id));
+    if (!previous) {
+      changes.push({ id: String(item.id), name: getName(item, index), status: 'added', changes: [] });
+      return;
+    }
+    const fieldChanges = diffFields(previous, item, specs);
+    if (fieldChanges.length > 0) {
+      changes.push({ id: String(item.id), name: getName(item, index), status: 'changed', changes: fieldChanges });
+    }
+  });
+
+  before.forEach((item, index) => {
+    if (!afterIds.has(String(item.id))) {
+      changes.push({ id: String(item.id), name: getName(item, index), status: 'removed', changes: [] });
+    }
+  });
+
+  return changes;
+};
+
+/**
+ * 对比两个项目版本（before 为较早版本，after 为较新版本）
+ */
+export const diffProjectSnapshots = (before: ProjectState, after: ProjectState): ProjectSnapshotDiff => {
+  const beforeScript = before.scriptData;
+  const afterScript = after.scriptData;
+
+  const beforeParagraphs = new Map((beforeScript?.storyParagraphs || []).map(p => [p.id, p.text]));
+  const afterParagraphs = afterScript?.storyParagraphs || [];
+  const afterParagraphIds = new Set(afterParagraphs.map(p => p.id));
+  const storyParagraphs = {
+    added: afterParagraphs.filter(p => !beforeParagraphs.has(p.id)).length,
+    removed: Array.from(beforeParagraphs.keys()).filter(id => !afterParagraphIds.has(id)).length,
+    changed: afterParagraphs.filter(p => beforeParagraphs.has(p.id) && beforeParagraphs.get(p.id) !== p.text).length,
+  };
+
+  const diff: ProjectSnapshotDiff = {
+    project: diffFields(before, after, PROJECT_FIELDS),
+    characters: diffEntities(beforeScript?.characters || [], afterScript?.characters || [], CHARACTER_FIELDS, c => c.name),
+    scenes: diffEntities(beforeScript?.scenes || [], afterScript?.scenes || [], SCENE_FIELDS, s => s.location),
+    props: diffEntities(beforeScript?.props || [], afterScript?.props || [], PROP_FIELDS, p => p.name),
+    shots: diffEntities(before.shots || [], after.shots || [], SHOT_FIELDS, (s, index) => `#${String(index + 1).padStart(2, '0')} ${s.id}`),
+    storyParagraphs,
+    isEmpty: false,
+  };
+
+  diff.isEmpty =
+    diff.project.length === 0 &&
+    diff.characters.length === 0 &&
+    diff.scenes.length === 0 &&
+    diff.props.length === 0 &&
+    diff.shots.length === 0 &&
+    storyParagraphs.added + storyParagraphs.removed + storyParagraphs.changed === 0;
+
+  return diff;
+};
@@ -1,10 +1,40 @@
-import { ProjectState, AssetLibraryItem } from '../types';
+import { ProjectState, AssetLibraryItem, ProjectSnapshot, GenerationJob } from '../types';
+import {
+  MEDIA_STORE_NAME,
+  mapProjectMedia,
+  mapAssetMedia,
+  storeMedia,
+  resolveMedia,
+  resolveMediaToDataUrl,
+  toDataUrl,
+  collectMediaHashes,
+  releaseMediaUrl,
+  readMediaRecord,
+  storeMediaBlob,
+  MediaRecord,
+} from './mediaStoreService';
+import {
+  isSyncEnabled,
+  fetchRemoteProjects,
+  fetchRemoteProject,
+  pushRemoteProject,
+  deleteRemoteProject,
+  fetchRemoteAssets,
+  pushRemoteAsset,
+  deleteRemoteAsset,
+  markProjectUnsynced,
+  SyncConflictError,
+  SyncUnavailableError,
+} from './syncService';
+import { broadcastTabMessage, hasOpenProjects } from './tabSyncService';
 
 const DB_NAME = 'BigBananaDB';
-const DB_VERSION = 2;
+const DB_VERSION = 5;
 const STORE_NAME = 'projects';
 const ASSET_STORE_NAME = 'assetLibrary';
-const EXPORT_SCHEMA_VERSION = 1;
+const SNAPSHOT_STORE_NAME = 'snapshots';
+const JOB_STORE_NAME = 'jobs';
+export const EXPORT_SCHEMA_VERSION = 2;
 
 export interface IndexedDBExportPayload {
   schemaVersion: number;
@@ -18,11 +48,29 @@ export interface IndexedDBExportPayload {
   };
 }
 
+// v3 之前的数据库中媒体以 Base64 内联在项目里，升级后需要迁移到媒体库；
+// 迁移期间其他 openDB 调用会等待迁移完成
+let mediaMigration: Promise<void> | null = null;
+
 const openDB = (): Promise<IDBDatabase> => {
   return new Promise((resolve, reject) => {
     const request = indexedDB.open(DB_NAME, DB_VERSION);
+    let needsMediaMigration = false;
     request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve(request.result);
+    request.onsuccess = () => {
+      const db = request.result;
+      if (needsMediaMigration) {
+        mediaMigration = migrateInlineMedia(db).catch(error => {
+          // 迁移失败不影响使用：内联数据仍可读取，下次保存时会写入媒体库
+          console.error('❌ 媒体迁移失败:', error);
+        });
+      }
+      if (mediaMigration) {
+        mediaMigration.then(() => resolve(db));
+      } else {
+        resolve(db);
+      }
+    };
     request.onupgradeneeded = (event) => {
       const db = (event.target as IDBOpenDBRequest).result;
       if (!db.objectStoreNames.contains(STORE_NAME)) {
@@ -31,24 +79,241 @@ const openDB = (): Promise<IDBDatabase> => {
       if (!db.objectStoreNames.contains(ASSET_STORE_NAME)) {
         db.createObjectStore(ASSET_STORE_NAME, { keyPath: 'id' });
       }
+      if (!db.objectStoreNames.contains(MEDIA_STORE_NAME)) {
+        db.createObjectStore(MEDIA_STORE_NAME, { keyPath: 'hash' });
+      }
+      if (!db.objectStoreNames.contains(SNAPSHOT_STORE_NAME)) {
+        const snapshotStore = db.createObjectStore(SNAPSHOT_STORE_NAME, { keyPath: 'id' });
+        snapshotStore.createIndex('projectId', 'projectId', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(JOB_STORE_NAME)) {
+        const jobStore = db.createObjectStore(JOB_STORE_NAME, { keyPath: 'id' });
+        jobStore.createIndex('projectId', 'projectId', { unique: false });
+      }
+      needsMediaMigration = event.oldVersion > 0 && event.oldVersion < 3;
     };
   });
 };
 
-const isValidExportPayload = (data: unknown): data is IndexedDBExportPayload => {
-  const payload = data as IndexedDBExportPayload;
-  return !!(
-    payload &&
-    payload.stores &&
-    Array.isArray(payload.stores.projects) &&
-    Array.isArray(payload.stores.assetLibrary)
-  );
+const getAllKeys = (db: IDBDatabase, storeName: string): Promise<IDBValidKey[]> => {
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(storeName, 'readonly').objectStore(storeName).getAllKeys();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const getRecord = <T>(db: IDBDatabase, storeName: string, key: IDBValidKey): Promise<T | undefined> => {
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(storeName, 'readonly').objectStore(storeName).get(key);
+    request.onsuccess = () => resolve(request.result as T | undefined);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const putRecord = (db: IDBDatabase, storeName: string, value: unknown): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(storeName, 'readwrite').objectStore(storeName).put(value);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * 将项目与资产库中内联的 Base64 媒体迁移到媒体库
+ * 逐条读取与回写，避免一次性把所有项目的媒体载入内存
+ */
+const migrateInlineMedia = async (db: IDBDatabase): Promise<void> => {
+  const store = (value: string) => storeMedia(db, value);
+
+  const projectIds = await getAllKeys(db, STORE_NAME);
+  for (const id of projectIds) {
+    const project = await getRecord<ProjectState>(db, STORE_NAME, id);
+    if (project) {
+      await putRecord(db, STORE_NAME, await mapProjectMedia(project, store));
+    }
+  }
+
+  const assetIds = await getAllKeys(db, ASSET_STORE_NAME);
+  for (const id of assetIds) {
+    const item = await getRecord<AssetLibraryItem>(db, ASSET_STORE_NAME, id);
+    if (item) {
+      await putRecord(db, ASSET_STORE_NAME, await mapAssetMedia(item, store));
+    }
+  }
+
+  console.log(`🔄 已将 ${projectIds.length} 个项目、${assetIds.length} 个资产的媒体迁移到媒体库`);
+};
+
+/**
+ * 导出数据迁移管道：键为源版本号，函数将该版本的项目记录升级到下一版本
+ * 导入时从文件声明的版本逐级执行到 EXPORT_SCHEMA_VERSION
+ */
+const EXPORT_MIGRATIONS: Record<number, (project: any) => any> = {
+  // v1 -> v2：veo-r2v 模型已下线，迁移为 veo；补齐早期版本缺失的渲染日志
+  1: project => ({
+    ...project,
+    renderLogs: Array.isArray(project.renderLogs) ? project.renderLogs : [],
+    shots: Array.isArray(project.shots)
+      ? project.shots.map((shot: any) => (shot?.videoModel === 'veo-r2v' ? { ...shot, videoModel: 'veo' } : shot))
+      : project.shots,
+  }),
+};
+
+/**
+ * 解析导出文件声明的版本号，缺省视为 v1；高于当前版本时无法导入
+ */
+export const resolveExportSchemaVersion = (value: unknown): number => {
+  if (value === undefined || value === null) return 1;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+    throw new Error(`导入文件版本号无效：${String(value)}`);
+  }
+  if (value > EXPORT_SCHEMA_VERSION) {
+    throw new Error(`导入文件版本（v${value}）高于当前应用支持的版本（v${EXPORT_SCHEMA_VERSION}），请升级应用后再导入`);
+  }
+  return value;
+};
+
+const migrateExportedProject = (project: any, fromVersion: number): any => {
+  let migrated = project;
+  for (let version = fromVersion; version < EXPORT_SCHEMA_VERSION; version++) {
+    const migrate = EXPORT_MIGRATIONS[version];
+    if (migrate) migrated = migrate(migrated);
+  }
+  return migrated;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * 校验项目记录结构，返回问题列表（为空表示通过）
+ */
+const validateProjectRecord = (project: unknown, label: string): string[] => {
+  if (!isPlainObject(project)) return [`${label}：不是有效的项目对象`];
+
+  const issues: string[] = [];
+  if (typeof project.id !== 'string' || !project.id) issues.push(`${label}：缺少项目 ID`);
+  if (typeof project.title !== 'string') issues.push(`${label}：缺少项目标题`);
+  if (!Array.isArray(project.shots)) {
+    issues.push(`${label}：shots 不是数组`);
+  } else {
+    project.shots.forEach((shot: any, index: number) => {
+      if (!isPlainObject(shot) || !shot.id) {
+        issues.push(`${label}：第 ${index + 1} 个镜头缺少 ID`);
+      } else if (!Array.isArray(shot.keyframes)) {
+        issues.push(`${label}：镜头 ${shot.id} 的 keyframes 不是数组`);
+      }
+    });
+  }
+  if (project.scriptData !== null && project.scriptData !== undefined) {
+    if (!isPlainObject(project.scriptData)) {
+      issues.push(`${label}：scriptData 不是对象`);
+    } else {
+      if (!Array.isArray(project.scriptData.characters)) issues.push(`${label}：scriptData.characters 不是数组`);
+      if (!Array.isArray(project.scriptData.scenes)) issues.push(`${label}：scriptData.scenes 不是数组`);
+    }
+  }
+  return issues;
+};
+
+const validateAssetRecord = (item: unknown, label: string): string[] => {
+  if (!isPlainObject(item)) return [`${label}：不是有效的资产对象`];
+
+  const issues: string[] = [];
+  if (typeof item.id !== 'string' || !item.id) issues.push(`${label}：缺少资产 ID`);
+  if (!['character', 'scene', 'prop'].includes(item.type)) issues.push(`${label}：未知的资产类型 ${String(item.type)}`);
+  if (!isPlainObject(item.data)) issues.push(`${label}：缺少资产数据`);
+  return issues;
+};
+
+export interface PreparedImport {
+  schemaVersion: number;
+  projects: ProjectState[];
+  assets: AssetLibraryItem[];
+  /** 被跳过的记录及原因，导入前展示给用户 */
+  warnings: string[];
+}
+
+/**
+ * 迁移并校验待导入的项目与资产记录
+ * 结构损坏的单条记录跳过并记入 warnings；没有任何可导入的记录时抛出包含全部问题的错误
+ */
+export const prepareImportRecords = (
+  rawProjects: unknown[],
+  rawAssets: unknown[],
+  schemaVersion: number
+): PreparedImport => {
+  const warnings: string[] = [];
+  const projects: ProjectState[] = [];
+  const assets: AssetLibraryItem[] = [];
+  const seenProjectIds = new Set<string>();
+
+  rawProjects.forEach((raw, index) => {
+    const title = isPlainObject(raw) && typeof raw.title === 'string' ? raw.title : '';
+    const label = title ? `项目「${title}」` : `第 ${index + 1} 个项目`;
+    const project = isPlainObject(raw) ? migrateExportedProject(raw, schemaVersion) : raw;
+    const issues = validateProjectRecord(project, label);
+    if (issues.length > 0) {
+      warnings.push(...issues.map(issue => `${issue}（已跳过）`));
+      return;
+    }
+    if (seenProjectIds.has(project.id)) {
+      warnings.push(`${label}：项目 ID ${project.id} 重复（已跳过）`);
+      return;
+    }
+    seenProjectIds.add(project.id);
+    projects.push(project as ProjectState);
+  });
+
+  rawAssets.forEach((raw, index) => {
+    const name = isPlainObject(raw) && typeof raw.name === 'string' ? raw.name : '';
+    const issues = validateAssetRecord(raw, name ? `资产「${name}」` : `第 ${index + 1} 个资产`);
+    if (issues.length > 0) {
+      warnings.push(...issues.map(issue => `${issue}（已跳过）`));
+      return;
+    }
+    assets.push(raw as AssetLibraryItem);
+  });
+
+  if (projects.length === 0 && assets.length === 0) {
+    const reasons = warnings.length > 0 ? warnings : ['文件中没有项目或资产'];
+    throw new Error(`导入文件格式不正确：\n- ${reasons.join('\n- ')}`);
+  }
+
+  return { schemaVersion, projects, assets, warnings };
+};
+
+/**
+ * 解析 JSON 备份文件内容，逐项说明结构问题
+ */
+export const prepareImportPayload = (payload: unknown): PreparedImport => {
+  if (!isPlainObject(payload)) {
+    throw new Error('导入文件格式不正确：\n- 文件内容不是 JSON 对象');
+  }
+
+  const issues: string[] = [];
+  if (!isPlainObject(payload.stores)) {
+    issues.push('缺少 stores 字段，可能不是本应用导出的备份文件');
+  } else {
+    if (!Array.isArray(payload.stores.projects)) issues.push('stores.projects 不是数组');
+    if (!Array.isArray(payload.stores.assetLibrary)) issues.push('stores.assetLibrary 不是数组');
+  }
+  if (issues.length > 0) {
+    throw new Error(`导入文件格式不正确：\n- ${issues.join('\n- ')}`);
+  }
+
+  const stores = payload.stores as IndexedDBExportPayload['stores'];
+  return prepareImportRecords(stores.projects, stores.assetLibrary, resolveExportSchemaVersion(payload.schemaVersion));
 };
 
+/**
+ * 导出全部数据，媒体引用还原为 Base64，导出文件可脱离本地媒体库独立使用
+ */
 export const exportIndexedDBData = async (): Promise<IndexedDBExportPayload> => {
   const db = await openDB();
 
-  return new Promise((resolve, reject) => {
+  const { projects, assets } = await new Promise<{ projects: ProjectState[]; assets: AssetLibraryItem[] }>((resolve, reject) => {
     const tx = db.transaction([STORE_NAME, ASSET_STORE_NAME], 'readonly');
     const projectStore = tx.objectStore(STORE_NAME);
     const assetStore = tx.objectStore(ASSET_STORE_NAME);
@@ -61,20 +326,26 @@ export const exportIndexedDBData = async (): Promise<IndexedDBExportPayload> =>
 
     tx.oncomplete = () => {
       resolve({
-        schemaVersion: EXPORT_SCHEMA_VERSION,
-        exportedAt: Date.now(),
-        scope: 'all',
-        dbName: DB_NAME,
-        dbVersion: DB_VERSION,
-        stores: {
-          projects: (projectsRequest.result as ProjectState[]) || [],
-          assetLibrary: (assetsRequest.result as AssetLibraryItem[]) || []
-        }
+        projects: (projectsRequest.result as ProjectState[]) || [],
+        assets: (assetsRequest.result as AssetLibraryItem[]) || []
       });
     };
 
     tx.onerror = () => reject(tx.error);
   });
+
+  const inline = (value: string) => resolveMediaToDataUrl(db, value);
+  return {
+    schemaVersion: EXPORT_SCHEMA_VERSION,
+    exportedAt: Date.now(),
+    scope: 'all',
+    dbName: DB_NAME,
+    dbVersion: DB_VERSION,
+    stores: {
+      projects: await Promise.all(projects.map(project => mapProjectMedia(project, inline))),
+      assetLibrary: await Promise.all(assets.map(item => mapAssetMedia(item, inline)))
+    }
+  };
 };
 
 export const exportProjectData = async (project: ProjectState): Promise<IndexedDBExportPayload> => {
@@ -85,24 +356,157 @@ export const exportProjectData = async (project: ProjectState): Promise<IndexedD
     dbName: DB_NAME,
     dbVersion: DB_VERSION,
     stores: {
-      projects: [project],
+      projects: [await mapProjectMedia(project, toDataUrl)],
       assetLibrary: []
     }
   };
 };
 
-export const importIndexedDBData = async (
-  payload: unknown,
-  options?: { mode?: 'merge' | 'replace' }
-): Promise<{ projects: number; assets: number }> => {
-  if (!isValidExportPayload(payload)) {
-    throw new Error('导入文件格式不正确');
+/**
+ * 收集打包单个项目所需的数据：引用形式的项目记录、项目使用的资产库条目及其媒体
+ * 资产范围：归属该项目的资产，以及与项目共用同一媒体的资产（从资产库导入到项目的角色、场景、道具）
+ */
+export const getProjectPackageData = async (
+  project: ProjectState
+): Promise<{ project: ProjectState; assets: AssetLibraryItem[]; media: MediaRecord[] }> => {
+  const db = await openDB();
+  const stored = await mapProjectMedia(project, value => storeMedia(db, value));
+  const projectHashes = await collectMediaHashes({ project: stored });
+
+  const allAssets = await new Promise<AssetLibraryItem[]>((resolve, reject) => {
+    const tx = db.transaction(ASSET_STORE_NAME, 'readonly');
+    const request = tx.objectStore(ASSET_STORE_NAME).getAll();
+    request.onsuccess = () => resolve((request.result as AssetLibraryItem[]) || []);
+    request.onerror = () => reject(request.error);
+  });
+
+  const assets: AssetLibraryItem[] = [];
+  const hashes = new Set(projectHashes);
+  for (const item of allAssets) {
+    const assetHashes = await collectMediaHashes({ asset: item });
+    const sharesMedia = Array.from(assetHashes).some(hash => projectHashes.has(hash));
+    if (item.projectId === project.id || sharesMedia) {
+      assets.push(item);
+      assetHashes.forEach(hash => hashes.add(hash));
+    }
+  }
+
+  const media: MediaRecord[] = [];
+  for (const hash of hashes) {
+    const record = await readMediaRecord(db, hash);
+    if (record) media.push(record);
+  }
+  return { project: stored, assets, media };
+};
+
+/**
+ * 将媒体字节写入媒体库（项目包导入时使用），返回内容 hash
+ */
+export const saveMediaBlob = async (blob: Blob): Promise<string> => {
+  const db = await openDB();
+  return storeMediaBlob(db, blob);
+};
+
+/**
+ * 导入项目 ID 与本地已有项目冲突时的处理方式
+ * rename：以新 ID 导入为副本；overwrite：覆盖本地项目（覆盖前自动保存快照）；skip：保留本地项目
+ */
+export type ProjectConflictMode = 'rename' | 'overwrite' | 'skip';
+
+export interface ImportOptions {
+  /** replace 会先清空本地全部项目与资产 */
+  mode?: 'merge' | 'replace';
+  /** 按项目 ID 指定冲突处理方式 */
+  conflicts?: Record<string, ProjectConflictMode>;
+  /** 未在 conflicts 中指定时的处理方式，默认覆盖 */
+  defaultConflict?: ProjectConflictMode;
+}
+
+export interface ImportResult {
+  projects: number;
+  assets: number;
+  renamed: number;
+  skipped: number;
+}
+
+/**
+ * 返回给定项目 ID 中本地已存在的部分，用于导入前提示冲突
+ */
+export const findExistingProjectIds = async (ids: string[]): Promise<string[]> => {
+  const existing = await getExistingProjectIds(await openDB());
+  return ids.filter(id => existing.has(id));
+};
+
+/** 已有项目 ID：启用团队同步时以服务器上的项目为准 */
+const getExistingProjectIds = async (db: IDBDatabase): Promise<Set<string>> => {
+  if (isSyncEnabled()) {
+    return new Set((await fetchRemoteProjects()).map(project => project.id));
   }
+  return new Set((await getAllKeys(db, STORE_NAME)).map(String));
+};
 
+/**
+ * 写入已校验的项目与资产记录
+ * 记录中的 Base64 媒体写入媒体库，已是引用的媒体保持不变（项目包导入时已预先写入）
+ */
+export const importProjectRecords = async (
+  records: { projects: ProjectState[]; assets: AssetLibraryItem[] },
+  options?: ImportOptions
+): Promise<ImportResult> => {
   const mode = options?.mode || 'merge';
   const db = await openDB();
+  const existingIds = await getExistingProjectIds(db);
 
-  return new Promise((resolve, reject) => {
+  // 先处理冲突并将媒体写入媒体库，再在单个事务中写入记录
+  const store = (value: string) => storeMedia(db, value);
+  const projects: ProjectState[] = [];
+  const renamedIds = new Map<string, ProjectState>();
+  const skippedIds = new Set<string>();
+
+  for (const project of records.projects) {
+    const conflict: ProjectConflictMode | null = existingIds.has(project.id)
+      ? mode === 'replace'
+        ? 'overwrite'
+        : options?.conflicts?.[project.id] || options?.defaultConflict || 'overwrite'
+      : null;
+
+    if (conflict === 'skip') {
+      skippedIds.add(project.id);
+      continue;
+    }
+
+    let target = project;
+    if (conflict === 'rename') {
+      target = {
+        ...project,
+        id: `proj_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`,
+        title: `${project.title}（导入副本）`,
+      };
+      renamedIds.set(project.id, target);
+    } else if (conflict === 'overwrite') {
+      // 同 ID 的项目将被覆盖，先保存快照以便恢复；启用团队同步时获取服务器版本，并以其为推送基准
+      const local = await getRecord<ProjectState>(db, STORE_NAME, project.id);
+      const remote = isSyncEnabled() ? await fetchRemoteProject(db, project.id) : undefined;
+      if (remote) {
+        await writeSnapshot(db, remote, '导入覆盖前', 'auto');
+      }
+      if (local && local.lastModified !== remote?.lastModified) {
+        await writeSnapshot(db, local, remote ? '导入覆盖前（本机版本）' : '导入覆盖前', 'auto');
+      }
+    }
+    projects.push(await mapProjectMedia(target, store));
+  }
+
+  const assets: AssetLibraryItem[] = [];
+  for (const item of records.assets) {
+    // 跟随项目：项目被跳过时不覆盖其资产，项目以副本导入时资产归属到副本
+    if (item.projectId && skippedIds.has(item.projectId)) continue;
+    const renamed = item.projectId ? renamedIds.get(item.projectId) : undefined;
+    const target = renamed ? { ...item, projectId: renamed.id, projectName: renamed.title } : item;
+    assets.push(await mapAssetMedia(target, store));
+  }
+
+  const result = await new Promise<ImportResult>((resolve, reject) => {
     const tx = db.transaction([STORE_NAME, ASSET_STORE_NAME], 'readwrite');
     const projectStore = tx.objectStore(STORE_NAME);
     const assetStore = tx.objectStore(ASSET_STORE_NAME);
@@ -115,15 +519,7 @@ export const importIndexedDBData = async (
     let projectsWritten = 0;
     let assetsWritten = 0;
 
-    payload.stores.projects.forEach(project => {
-      // Migration: veo-r2v 模型已下线，迁移为 veo
-      if (project.shots) {
-        project.shots.forEach((shot: any) => {
-          if (shot.videoModel === 'veo-r2v') {
-            shot.videoModel = 'veo';
-          }
-        });
-      }
+    projects.forEach(project => {
       const request = projectStore.put(project);
       request.onsuccess = () => {
         projectsWritten += 1;
@@ -131,7 +527,7 @@ export const importIndexedDBData = async (
       request.onerror = () => reject(request.error);
     });
 
-    payload.stores.assetLibrary.forEach(item => {
+    assets.forEach(item => {
       const request = assetStore.put(item);
       request.onsuccess = () => {
         assetsWritten += 1;
@@ -139,127 +535,601 @@ export const importIndexedDBData = async (
       request.onerror = () => reject(request.error);
     });
 
-    tx.oncomplete = () => resolve({ projects: projectsWritten, assets: assetsWritten });
+    tx.oncomplete = () =>
+      resolve({
+        projects: projectsWritten,
+        assets: assetsWritten,
+        renamed: renamedIds.size,
+        skipped: skippedIds.size,
+      });
     tx.onerror = () => reject(tx.error);
   });
+  broadcastTabMessage({ type: 'projects-changed' });
+  broadcastTabMessage({ type: 'assets-changed' });
+
+  // 团队同步：冲突已按服务器上的项目处理；快照之后服务器版本又被修改的项目不覆盖，保留在本机并提示
+  if (isSyncEnabled()) {
+    const conflicted: string[] = [];
+    for (const project of projects) {
+      try {
+        await pushRemoteProject(db, project);
+      } catch (e) {
+        if (!(e instanceof SyncConflictError)) throw e;
+        markProjectUnsynced(project.id);
+        conflicted.push(project.title);
+      }
+    }
+    for (const item of assets) {
+      await pushRemoteAsset(db, item);
+    }
+    if (conflicted.length > 0) {
+      throw new Error(`以下项目在导入期间已被其他成员修改，已导入本机但未同步到服务器：${conflicted.join('、')}。请重新导入以覆盖服务器版本`);
+    }
+  }
+  return result;
 };
 
-export const saveProjectToDB = async (project: ProjectState): Promise<void> => {
+/**
+ * 导入 JSON 备份：校验、迁移后写入
+ */
+export const importIndexedDBData = async (payload: unknown, options?: ImportOptions): Promise<ImportResult> => {
+  return importProjectRecords(prepareImportPayload(payload), options);
+};
+
+/**
+ * 保存项目：媒体写入媒体库，项目记录只保存引用
+ * 启用团队同步时，本机保存后再推送到同步服务器；服务器版本已被他人修改时抛出 SyncConflictError，
+ * force 为 true 时直接覆盖服务器版本
+ */
+export const saveProjectToDB = async (project: ProjectState, options?: { force?: boolean }): Promise<void> => {
   const db = await openDB();
-  return new Promise((resolve, reject) => {
-    const tx = db.transaction(STORE_NAME, 'readwrite');
-    const store = tx.objectStore(STORE_NAME);
-    const p = { ...project, lastModified: Date.now() };
-    const request = store.put(p);
-    request.onsuccess = () => resolve();
-    request.onerror = () => reject(request.error);
-  });
+  const stored = await mapProjectMedia(project, value => storeMedia(db, value));
+  const p = { ...stored, lastModified: Date.now() };
+  await putRecord(db, STORE_NAME, p);
+  broadcastTabMessage({ type: 'project-saved', projectId: p.id, lastModified: p.lastModified });
+  if (isSyncEnabled()) {
+    try {
+      await pushRemoteProject(db, p, options);
+    } catch (error) {
+      // 服务器不可用时已保存到本机，待服务器恢复后随下次保存同步
+      if (!(error instanceof SyncUnavailableError)) throw error;
+      console.warn(`⚠️ ${error.message}，项目仅保存到本机`);
+      markProjectUnsynced(p.id);
+    }
+  }
 };
 
+/**
+ * 加载项目：媒体引用解析为 object URL，由浏览器按需读取
+ */
 export const loadProjectFromDB = async (id: string): Promise<ProjectState> => {
   const db = await openDB();
-  return new Promise((resolve, reject) => {
-    const tx = db.transaction(STORE_NAME, 'readonly');
-    const store = tx.objectStore(STORE_NAME);
-    const request = store.get(id);
-    request.onsuccess = () => {
-      if (request.result) {
-        const project = request.result;
-        // Migration: ensure renderLogs exists for old projects
-        if (!project.renderLogs) {
-          project.renderLogs = [];
-        }
-        // Migration: ensure scriptData.props exists for old projects
-        if (project.scriptData && !project.scriptData.props) {
-          project.scriptData.props = [];
-        }
-        // Migration: veo-r2v 模型已下线，迁移为 veo
-        let migrated = false;
-        if (project.shots) {
-          project.shots.forEach((shot: any) => {
-            if (shot.videoModel === 'veo-r2v') {
-              shot.videoModel = 'veo';
-              migrated = true;
-            }
-          });
-        }
-        // 如果发生了迁移，异步回写 IndexedDB，避免每次加载都重复执行
-        if (migrated) {
-          openDB().then(writeDb => {
-            const writeTx = writeDb.transaction(STORE_NAME, 'readwrite');
-            writeTx.objectStore(STORE_NAME).put(project);
-            console.log(`🔄 项目 "${project.title}" 已迁移废弃的视频模型`);
-          }).catch(() => { /* 回写失败不影响运行 */ });
-        }
-        resolve(project);
+  let project: any;
+  if (isSyncEnabled()) {
+    // 团队同步：以服务器版本为准，并缓存到本机；服务器不可用时回退到本机缓存
+    try {
+      project = await fetchRemoteProject(db, id);
+      if (!project) {
+        throw new Error('项目不存在，可能已被其他成员删除');
       }
-      else reject(new Error("Project not found"));
-    };
-    request.onerror = () => reject(request.error);
-  });
+      await putRecord(db, STORE_NAME, project);
+    } catch (error) {
+      if (!(error instanceof SyncUnavailableError)) throw error;
+      project = await getRecord<any>(db, STORE_NAME, id);
+      if (!project) throw error;
+      console.warn(`⚠️ ${error.message}，使用本机缓存打开项目`);
+      markProjectUnsynced(id);
+    }
+  } else {
+    project = await getRecord<any>(db, STORE_NAME, id);
+  }
+  if (!project) {
+    throw new Error("Project not found");
+  }
+
+  // Migration: ensure renderLogs exists for old projects
+  if (!project.renderLogs) {
+    project.renderLogs = [];
+  }
+  // Migration: ensure scriptData.props exists for old projects
+  if (project.scriptData && !project.scriptData.props) {
+    project.scriptData.props = [];
+  }
+  // Migration: veo-r2v 模型已下线，迁移为 veo
+  let migrated = false;
+  if (project.shots) {
+    project.shots.forEach((shot: any) => {
+      if (shot.videoModel === 'veo-r2v') {
+        shot.videoModel = 'veo';
+        migrated = true;
+      }
+    });
+  }
+  // 如果发生了迁移，异步回写 IndexedDB，避免每次加载都重复执行
+  if (migrated) {
+    putRecord(db, STORE_NAME, project).then(() => {
+      console.log(`🔄 项目 "${project.title}" 已迁移废弃的视频模型`);
+    }).catch(() => { /* 回写失败不影响运行 */ });
+  }
+
+  return mapProjectMedia(project as ProjectState, value => resolveMedia(db, value));
+};
+
+/**
+ * 项目列表条目：仅包含列表展示所需的字段
+ */
+export type ProjectMetadata = Pick<ProjectState, 'id' | 'title' | 'stage' | 'createdAt' | 'lastModified'> & {
+  scriptData?: { logline?: string };
 };
 
-export const getAllProjectsMetadata = async (): Promise<ProjectState[]> => {
+const toProjectMetadata = (project: ProjectState): ProjectMetadata => ({
+  id: project.id,
+  title: project.title,
+  stage: project.stage,
+  createdAt: project.createdAt,
+  lastModified: project.lastModified,
+  scriptData: project.scriptData ? { logline: project.scriptData.logline } : undefined,
+});
+
+const sortByLastModified = (projects: ProjectMetadata[]): ProjectMetadata[] =>
+  projects.sort((a, b) => b.lastModified - a.lastModified);
+
+/**
+ * 本机 IndexedDB 中的项目列表
+ * 逐条读取并只保留列表字段，避免一次性加载全部项目记录
+ */
+const getLocalProjects = async (): Promise<ProjectMetadata[]> => {
   const db = await openDB();
   return new Promise((resolve, reject) => {
-    const tx = db.transaction(STORE_NAME, 'readonly');
-    const store = tx.objectStore(STORE_NAME);
-    const request = store.getAll(); 
+    const projects: ProjectMetadata[] = [];
+    const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).openCursor();
     request.onsuccess = () => {
-       const projects = request.result as ProjectState[];
-       // Sort by last modified descending
-       projects.sort((a, b) => b.lastModified - a.lastModified);
-       resolve(projects);
+      const cursor = request.result;
+      if (!cursor) {
+        resolve(sortByLastModified(projects));
+        return;
+      }
+      projects.push(toProjectMetadata(cursor.value as ProjectState));
+      cursor.continue();
     };
     request.onerror = () => reject(request.error);
   });
 };
 
+/**
+ * 获取项目列表（仅用于列表展示）
+ */
+export const getAllProjectsMetadata = async (): Promise<ProjectMetadata[]> => {
+  if (isSyncEnabled()) {
+    try {
+      return sortByLastModified((await fetchRemoteProjects()).map(toProjectMetadata));
+    } catch (error) {
+      // 服务器不可用时列出本机缓存的项目，均视为未同步
+      if (!(error instanceof SyncUnavailableError)) throw error;
+      console.warn(`⚠️ ${error.message}，显示本机缓存的项目`);
+      const projects = await getLocalProjects();
+      projects.forEach(project => markProjectUnsynced(project.id));
+      return projects;
+    }
+  }
+  return getLocalProjects();
+};
+
 // =========================
 // Asset Library Operations
 // =========================
 
 export const saveAssetToLibrary = async (item: AssetLibraryItem): Promise<void> => {
   const db = await openDB();
-  return new Promise((resolve, reject) => {
-    const tx = db.transaction(ASSET_STORE_NAME, 'readwrite');
-    const store = tx.objectStore(ASSET_STORE_NAME);
-    const request = store.put(item);
-    request.onsuccess = () => resolve();
-    request.onerror = () => reject(request.error);
-  });
+  const stored = await mapAssetMedia(item, value => storeMedia(db, value));
+  await putRecord(db, ASSET_STORE_NAME, stored);
+  broadcastTabMessage({ type: 'assets-changed' });
+  if (isSyncEnabled()) {
+    await pushRemoteAsset(db, stored);
+  }
 };
 
 export const getAllAssetLibraryItems = async (): Promise<AssetLibraryItem[]> => {
   const db = await openDB();
-  return new Promise((resolve, reject) => {
+  const getLocalItems = () => new Promise<AssetLibraryItem[]>((resolve, reject) => {
     const tx = db.transaction(ASSET_STORE_NAME, 'readonly');
     const store = tx.objectStore(ASSET_STORE_NAME);
     const request = store.getAll();
-    request.onsuccess = () => {
-      const items = (request.result as AssetLibraryItem[]) || [];
-      items.sort((a, b) => b.updatedAt - a.updatedAt);
-      resolve(items);
-    };
+    request.onsuccess = () => resolve((request.result as AssetLibraryItem[]) || []);
     request.onerror = () => reject(request.error);
   });
+  let items: AssetLibraryItem[];
+  if (isSyncEnabled()) {
+    try {
+      items = await fetchRemoteAssets(db);
+    } catch (error) {
+      // 服务器不可用时使用本机缓存的资产库
+      if (!(error instanceof SyncUnavailableError)) throw error;
+      console.warn(`⚠️ ${error.message}，显示本机缓存的资产库`);
+      items = await getLocalItems();
+    }
+  } else {
+    items = await getLocalItems();
+  }
+  items.sort((a, b) => b.updatedAt - a.updatedAt);
+  return Promise.all(items.map(item => mapAssetMedia(item, value => resolveMedia(db, value))));
 };
 
 export const deleteAssetFromLibrary = async (id: string): Promise<void> => {
   const db = await openDB();
-  return new Promise((resolve, reject) => {
+  await new Promise<void>((resolve, reject) => {
     const tx = db.transaction(ASSET_STORE_NAME, 'readwrite');
     const store = tx.objectStore(ASSET_STORE_NAME);
     const request = store.delete(id);
     request.onsuccess = () => resolve();
     request.onerror = () => reject(request.error);
   });
+  broadcastTabMessage({ type: 'assets-changed' });
+  if (isSyncEnabled()) {
+    await deleteRemoteAsset(id);
+  }
 };
 
 /**
- * 从IndexedDB中删除项目及其所有关联资源
- * 由于所有媒体资源（图片、视频）都以Base64格式存储在项目对象内部，
- * 删除项目记录时会自动清理所有相关资源：
+ * 将本机的项目与资产库上传到同步服务器（启用团队同步后迁移本地数据）
+ * 服务器上已有且版本不同的项目不覆盖，计入 conflicts
+ */
+export const uploadLocalDataToServer = async (): Promise<{ projects: number; assets: number; conflicts: number }> => {
+  const db = await openDB();
+  const [projectIds, assetIds] = await Promise.all([getAllKeys(db, STORE_NAME), getAllKeys(db, ASSET_STORE_NAME)]);
+
+  let projects = 0;
+  let conflicts = 0;
+  for (const id of projectIds) {
+    const project = await getRecord<ProjectState>(db, STORE_NAME, id);
+    if (!project) continue;
+    try {
+      await pushRemoteProject(db, project);
+      projects += 1;
+    } catch (error) {
+      if (!(error instanceof SyncConflictError)) throw error;
+      conflicts += 1;
+    }
+  }
+
+  let assets = 0;
+  for (const id of assetIds) {
+    const item = await getRecord<AssetLibraryItem>(db, ASSET_STORE_NAME, id);
+    if (!item) continue;
+    await pushRemoteAsset(db, item);
+    assets += 1;
+  }
+  return { projects, assets, conflicts };
+};
+
+// =========================
+// Project Snapshots
+// =========================
+
+/** 每个项目保留的自动快照数量上限，手动快照不受限制 */
+export const MAX_AUTO_SNAPSHOTS = 20;
+
+const getRecordsByProject = <T>(db: IDBDatabase, storeName: string, projectId: string): Promise<T[]> => {
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(storeName, 'readonly')
+      .objectStore(storeName)
+      .index('projectId')
+      .getAll(projectId);
+    request.onsuccess = () => resolve((request.result as T[]) || []);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const deleteRecords = (db: IDBDatabase, storeName: string, ids: string[]): Promise<void> => {
+  if (ids.length === 0) return Promise.resolve();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, 'readwrite');
+    const store = tx.objectStore(storeName);
+    ids.forEach(id => store.delete(id));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+const getSnapshotsByProject = (db: IDBDatabase, projectId: string): Promise<ProjectSnapshot[]> =>
+  getRecordsByProject<ProjectSnapshot>(db, SNAPSHOT_STORE_NAME, projectId);
+
+const deleteSnapshots = (db: IDBDatabase, ids: string[]): Promise<void> =>
+  deleteRecords(db, SNAPSHOT_STORE_NAME, ids);
+
+/**
+ * 写入快照记录（项目媒体须已是引用形式），并裁剪超出上限的自动快照
+ */
+const writeSnapshot = async (
+  db: IDBDatabase,
+  project: ProjectState,
+  name: string,
+  kind: ProjectSnapshot['kind']
+): Promise<ProjectSnapshot> => {
+  const snapshot: ProjectSnapshot = {
+    id: `snap_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`,
+    projectId: project.id,
+    name,
+    kind,
+    createdAt: Date.now(),
+    project,
+  };
+  await putRecord(db, SNAPSHOT_STORE_NAME, snapshot);
+
+  if (kind === 'auto') {
+    const autoSnapshots = (await getSnapshotsByProject(db, project.id))
+      .filter(s => s.kind === 'auto')
+      .sort((a, b) => b.createdAt - a.createdAt);
+    await deleteSnapshots(db, autoSnapshots.slice(MAX_AUTO_SNAPSHOTS).map(s => s.id));
+  }
+  return snapshot;
+};
+
+/**
+ * 创建项目快照
+ * 媒体写入媒体库后以引用保存，已存在的媒体不会重复占用空间
+ */
+export const createProjectSnapshot = async (
+  project: ProjectState,
+  name: string,
+  kind: ProjectSnapshot['kind'] = 'auto'
+): Promise<ProjectSnapshot> => {
+  const db = await openDB();
+  const stored = await mapProjectMedia(project, value => storeMedia(db, value));
+  const snapshot = await writeSnapshot(db, stored, name, kind);
+  console.log(`📸 已创建项目快照: ${name}`);
+  return snapshot;
+};
+
+/**
+ * 获取项目的全部快照（按创建时间倒序，媒体保持引用形式）
+ */
+export const getProjectSnapshots = async (projectId: string): Promise<ProjectSnapshot[]> => {
+  const db = await openDB();
+  const snapshots = await getSnapshotsByProject(db, projectId);
+  return snapshots.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+/**
+ * 加载快照中的项目，媒体引用解析为 object URL
+ */
+export const loadProjectSnapshot = async (snapshotId: string): Promise<ProjectState> => {
+  const db = await openDB();
+  const snapshot = await getRecord<ProjectSnapshot>(db, SNAPSHOT_STORE_NAME, snapshotId);
+  if (!snapshot) {
+    throw new Error('快照不存在或已被删除');
+  }
+  return mapProjectMedia(snapshot.project, value => resolveMedia(db, value));
+};
+
+export const deleteProjectSnapshot = async (snapshotId: string): Promise<void> => {
+  const db = await openDB();
+  await deleteSnapshots(db, [snapshotId]);
+};
+
+// =========================
+// Generation Jobs
+// =========================
+
+/**
+ * 写入生成任务记录（仅保存在本机，不参与团队同步）
+ */
+export const saveGenerationJob = async (job: GenerationJob): Promise<void> => {
+  const db = await openDB();
+  await putRecord(db, JOB_STORE_NAME, job);
+};
+
+/**
+ * 获取项目的全部生成任务（按创建时间倒序）
+ */
+export const getProjectGenerationJobs = async (projectId: string): Promise<GenerationJob[]> => {
+  const db = await openDB();
+  const jobs = await getRecordsByProject<GenerationJob>(db, JOB_STORE_NAME, projectId);
+  return jobs.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteGenerationJobs = async (ids: string[]): Promise<void> => {
+  const db = await openDB();
+  await deleteRecords(db, JOB_STORE_NAME, ids);
+};
+
+// =========================
+// Storage Usage & Media GC
+// =========================
+
+/** 单个项目占用超过浏览器配额的该比例时标记为接近配额 */
+export const PROJECT_QUOTA_WARNING_RATIO = 0.2;
+/** 总占用超过浏览器配额的该比例时提示存储空间不足 */
+export const STORAGE_QUOTA_WARNING_RATIO = 0.8;
+
+export interface StorageUsageEntry {
+  id: string;
+  title: string;
+  bytes: number;        // 项目记录、快照 + 引用的媒体（共享媒体在每个引用方都计入）
+  mediaCount: number;
+  snapshotCount: number;
+  nearQuota: boolean;
+}
+
+export interface StorageUsageReport {
+  usage?: number;        // navigator.storage.estimate() 返回的整个站点占用
+  quota?: number;
+  nearQuota: boolean;
+  mediaBytes: number;    // 媒体库实际占用（去重后）
+  mediaCount: number;
+  orphanBytes: number;   // 未被任何项目或资产引用的媒体
+  orphanCount: number;
+  projects: StorageUsageEntry[];
+  assetLibrary: { bytes: number; count: number; mediaCount: number };
+}
+
+/**
+ * 读取媒体库中每条媒体的大小（游标遍历，不读取媒体字节）
+ */
+interface MediaInfo {
+  size: number;
+  createdAt: number;
+}
+
+/** 写入时间在该时长内的媒体不清理：可能属于正在保存、尚未写入项目记录的内容 */
+const MEDIA_GC_GRACE_MS = 10 * 60 * 1000;
+
+const isCollectableMedia = (info: MediaInfo, now: number): boolean => now - info.createdAt >= MEDIA_GC_GRACE_MS;
+
+const getMediaInfo = (db: IDBDatabase): Promise<Map<string, MediaInfo>> => {
+  return new Promise((resolve, reject) => {
+    const infos = new Map<string, MediaInfo>();
+    const request = db.transaction(MEDIA_STORE_NAME, 'readonly').objectStore(MEDIA_STORE_NAME).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve(infos);
+        return;
+      }
+      const record = cursor.value as Partial<MediaRecord>;
+      infos.set(cursor.key as string, { size: record.size || 0, createdAt: record.createdAt || 0 });
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const getRecordBytes = (record: unknown): number => new Blob([JSON.stringify(record)]).size;
+
+const sumMediaBytes = (hashes: Set<string>, media: Map<string, MediaInfo>): number => {
+  let total = 0;
+  hashes.forEach(hash => {
+    total += media.get(hash)?.size || 0;
+  });
+  return total;
+};
+
+/**
+ * 统计存储占用：浏览器配额、各项目与资产库的占用，以及可回收的孤立媒体
+ */
+export const getStorageUsageReport = async (): Promise<StorageUsageReport> => {
+  const db = await openDB();
+  const estimate = navigator.storage?.estimate ? await navigator.storage.estimate() : undefined;
+  const quota = estimate?.quota;
+  const media = await getMediaInfo(db);
+  const referenced = new Set<string>();
+
+  const projects: StorageUsageEntry[] = [];
+  for (const id of await getAllKeys(db, STORE_NAME)) {
+    const project = await getRecord<ProjectState>(db, STORE_NAME, id);
+    if (!project) continue;
+    const hashes = await collectMediaHashes({ project });
+    let recordBytes = getRecordBytes(project);
+    // 快照与项目共用媒体，同一媒体只计一次
+    const snapshots = await getSnapshotsByProject(db, project.id);
+    for (const snapshot of snapshots) {
+      await collectMediaHashes({ project: snapshot.project }, hashes);
+      recordBytes += getRecordBytes(snapshot);
+    }
+    hashes.forEach(hash => referenced.add(hash));
+    const bytes = recordBytes + sumMediaBytes(hashes, media);
+    projects.push({
+      id: project.id,
+      title: project.title,
+      bytes,
+      mediaCount: hashes.size,
+      snapshotCount: snapshots.length,
+      nearQuota: !!quota && bytes >= quota * PROJECT_QUOTA_WARNING_RATIO,
+    });
+  }
+  projects.sort((a, b) => b.bytes - a.bytes);
+
+  const assetHashes = new Set<string>();
+  let assetRecordBytes = 0;
+  const assetIds = await getAllKeys(db, ASSET_STORE_NAME);
+  for (const id of assetIds) {
+    const item = await getRecord<AssetLibraryItem>(db, ASSET_STORE_NAME, id);
+    if (!item) continue;
+    await collectMediaHashes({ asset: item }, assetHashes);
+    assetRecordBytes += getRecordBytes(item);
+  }
+  assetHashes.forEach(hash => referenced.add(hash));
+
+  let mediaBytes = 0;
+  let orphanBytes = 0;
+  let orphanCount = 0;
+  const now = Date.now();
+  media.forEach((info, hash) => {
+    mediaBytes += info.size;
+    if (!referenced.has(hash) && isCollectableMedia(info, now)) {
+      orphanBytes += info.size;
+      orphanCount += 1;
+    }
+  });
+
+  return {
+    usage: estimate?.usage,
+    quota,
+    nearQuota: !!quota && (estimate?.usage || 0) >= quota * STORAGE_QUOTA_WARNING_RATIO,
+    mediaBytes,
+    mediaCount: media.size,
+    orphanBytes,
+    orphanCount,
+    projects,
+    assetLibrary: {
+      bytes: assetRecordBytes + sumMediaBytes(assetHashes, media),
+      count: assetIds.length,
+      mediaCount: assetHashes.size,
+    },
+  };
+};
+
+/**
+ * 清理孤立媒体：删除媒体库中未被任何 Shot、Character、Scene、Prop、资产库条目或项目快照引用的媒体
+ * 有标签页正在编辑项目时拒绝执行，最近写入的媒体也不清理，避免删除尚未保存的项目刚写入的媒体
+ */
+export const collectOrphanedMedia = async (): Promise<{ removedCount: number; freedBytes: number }> => {
+  if (await hasOpenProjects()) {
+    throw new Error('有项目正在编辑（可能在其他标签页中），请关闭所有项目后再清理');
+  }
+  const db = await openDB();
+  const referenced = new Set<string>();
+
+  for (const id of await getAllKeys(db, STORE_NAME)) {
+    const project = await getRecord<ProjectState>(db, STORE_NAME, id);
+    if (project) await collectMediaHashes({ project }, referenced);
+  }
+  for (const id of await getAllKeys(db, ASSET_STORE_NAME)) {
+    const item = await getRecord<AssetLibraryItem>(db, ASSET_STORE_NAME, id);
+    if (item) await collectMediaHashes({ asset: item }, referenced);
+  }
+  for (const id of await getAllKeys(db, SNAPSHOT_STORE_NAME)) {
+    const snapshot = await getRecord<ProjectSnapshot>(db, SNAPSHOT_STORE_NAME, id);
+    if (snapshot) await collectMediaHashes({ project: snapshot.project }, referenced);
+  }
+
+  const media = await getMediaInfo(db);
+  const now = Date.now();
+  const orphans = Array.from(media.entries())
+    .filter(([hash, info]) => !referenced.has(hash) && isCollectableMedia(info, now))
+    .map(([hash]) => hash);
+  if (orphans.length === 0) {
+    return { removedCount: 0, freedBytes: 0 };
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(MEDIA_STORE_NAME, 'readwrite');
+    const store = tx.objectStore(MEDIA_STORE_NAME);
+    orphans.forEach(hash => store.delete(hash));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+  orphans.forEach(releaseMediaUrl);
+
+  const freedBytes = orphans.reduce((sum, hash) => sum + (media.get(hash)?.size || 0), 0);
+  console.log(`🧹 已清理 ${orphans.length} 个孤立媒体，释放 ${freedBytes} 字节`);
+  return { removedCount: orphans.length, freedBytes };
+};
+
+/**
+ * 从IndexedDB中删除项目记录
+ * 媒体资源以内容寻址方式存放在媒体库中，可能被其他项目或资产库共用，
+ * 删除项目时同时删除其快照，媒体字节保留在媒体库，可通过 collectOrphanedMedia 清理：
  * - 角色参考图 (Character.referenceImage)
  * - 角色变体参考图 (CharacterVariation.referenceImage)
  * - 场景参考图 (Scene.referenceImage)
@@ -274,13 +1144,32 @@ export const deleteProjectFromDB = async (id: string): Promise<void> => {
   const db = await openDB();
   
   // 先获取项目信息以便记录删除的资源统计
-  let project: ProjectState | null = null;
+  let project: ProjectState | undefined;
   try {
-    project = await loadProjectFromDB(id);
+    project = await getRecord<ProjectState>(db, STORE_NAME, id);
   } catch (e) {
     console.warn('无法加载项目信息，直接删除');
   }
   
+  // 团队同步：先删除服务器上的项目，失败时保留本机记录
+  if (isSyncEnabled()) {
+    await deleteRemoteProject(id, project?.lastModified);
+  }
+
+  try {
+    const snapshots = await getSnapshotsByProject(db, id);
+    await deleteSnapshots(db, snapshots.map(s => s.id));
+  } catch (e) {
+    console.warn('删除项目快照失败', e);
+  }
+
+  try {
+    const jobs = await getRecordsByProject<GenerationJob>(db, JOB_STORE_NAME, id);
+    await deleteRecords(db, JOB_STORE_NAME, jobs.map(job => job.id));
+  } catch (e) {
+    console.warn('删除项目生成任务失败', e);
+  }
+
   return new Promise((resolve, reject) => {
     const tx = db.transaction(STORE_NAME, 'readwrite');
     const store = tx.objectStore(STORE_NAME);
@@ -324,7 +1213,7 @@ export const deleteProjectFromDB = async (id: string): Promise<void> => {
         }
         
         console.log(`✅ 项目已删除: ${project.title}`);
-        console.log(`📊 清理的资源统计:`, resourceCount);
+        console.log(`📊 移除的媒体引用统计:`, resourceCount);
         console.log(`   - 角色参考图: ${resourceCount.characters}个`);
         console.log(`   - 角色变体图: ${resourceCount.characterVariations}个`);
         console.log(`   - 场景参考图: ${resourceCount.scenes}个`);
@@ -336,6 +1225,7 @@ export const deleteProjectFromDB = async (id: string): Promise<void> => {
         console.log(`✅ 项目已删除: ${id}`);
       }
       
+      broadcastTabMessage({ type: 'projects-changed' });
       resolve();
     };
     
@@ -0,0 +1,141 @@
+/**
+ * 分镜表服务
+ * 将剧本与分镜渲染为可打印的 HTML 分镜表（每个镜头包含首帧缩略图、景别、运镜、动作与台词），
+ * 可直接下载为 HTML 或通过浏览器打印另存为 PDF
+ */
+
+import { AspectRatio, ProjectState, Shot } from '../types';
+import { parseDialogueLine } from './ai/audioService';
+import { getShotEffectiveDuration } from './timelineService';
+
+/**
+ * 转义 HTML 特殊字符
+ */
+const escapeHtml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
+const STORYBOARD_CSS = `
+  @page { size: A4 landscape; margin: 12mm; }
+  * { box-sizing: border-box; }
+  body { margin: 0; padding: 24px; font-family: -apple-system, "PingFang SC", "Microsoft YaHei", sans-serif; color: #1a1a1a; background: #fff; }
+  header { border-bottom: 2px solid #1a1a1a; padding-bottom: 12px; margin-bottom: 20px; }
+  h1 { margin: 0 0 6px; font-size: 22px; }
+  .logline { margin: 0 0 8px; font-size: 13px; color: #444; }
+  .meta { font-size: 11px; color: #777; display: flex; gap: 16px; flex-wrap: wrap; }
+  section { margin-bottom: 24px; }
+  h2 { font-size: 14px; margin: 0 0 10px; padding: 6px 10px; background: #f1f1f1; border-left: 4px solid #1a1a1a; break-after: avoid; }
+  .grid { display: grid; grid-template-columns: repeat(3, 1fr); gap: 12px; }
+  .shot { border: 1px solid #ccc; border-radius: 4px; overflow: hidden; break-inside: avoid; page-break-inside: avoid; font-size: 11px; }
+  .frame { aspect-ratio: var(--frame-ratio); background: #e6e6e6; display: flex; align-items: center; justify-content: center; color: #999; }
+  .frame img { width: 100%; height: 100%; object-fit: cover; display: block; }
+  .info { padding: 8px 10px; }
+  .head { display: flex; justify-content: space-between; font-weight: bold; margin-bottom: 4px; }
+  .tags { color: #555; margin-bottom: 6px; }
+  .action { margin: 0 0 6px; line-height: 1.5; }
+  .dialogue { margin: 0; padding: 6px 8px; background: #f7f7f7; border-radius: 3px; line-height: 1.5; }
+  .dialogue b { margin-right: 4px; }
+  @media print { body { padding: 0; } }
+`;
+
+/**
+ * 渲染单个镜头卡片
+ */
+const renderShotCard = (shot: Shot, index: number, project: ProjectState): string => {
+  const characters = project.scriptData?.characters || [];
+  const startFrame = shot.keyframes?.find(k => k.type === 'start');
+  const frame = startFrame?.imageUrl
+    ? `<img src="${escapeHtml(startFrame.imageUrl)}" alt="镜头 ${index + 1}" />`
+    : '未生成首帧';
+
+  const tags = [shot.shotSize, shot.cameraMovement].filter(Boolean).map(tag => escapeHtml(tag!)).join(' · ');
+  const castNames = characters
+    .filter(c => shot.characters.includes(c.id))
+    .map(c => escapeHtml(c.name))
+    .join('、');
+
+  let dialogue = '';
+  if (shot.dialogue?.trim()) {
+    const { speaker, text } = parseDialogueLine(shot, characters);
+    dialogue = `<p class="dialogue"><b>${escapeHtml(speaker?.name || '旁白')}</b>${escapeHtml(text)}</p>`;
+  }
+
+  return `
+    <div class="shot">
+      <div class="frame">${frame}</div>
+      <div class="info">
+        <div class="head"><span>#${String(index + 1).padStart(2, '0')}</span><span>${getShotEffectiveDuration(shot).toFixed(1)}s</span></div>
+        <div class="tags">${tags || '&nbsp;'}${castNames ? ` | ${castNames}` : ''}</div>
+        <p class="action">${escapeHtml(shot.actionSummary)}</p>
+        ${dialogue}
+      </div>
+    </div>`;
+};
+
+/**
+ * 生成分镜表 HTML 文档
+ * 连续属于同一场景的镜头归为一组，镜头编号与 StageDirector 中的顺序一致
+ */
+export const buildStoryboardHtml = (project: ProjectState, aspectRatio: AspectRatio = '16:9'): string => {
+  const scriptData = project.scriptData;
+  const title = scriptData?.title || project.title || '未命名项目';
+  const sceneMap = new Map((scriptData?.scenes || []).map(scene => [scene.id, scene]));
+
+  const groups: { sceneId: string; cards: string[] }[] = [];
+  project.shots.forEach((shot, index) => {
+    const sceneId = String(shot.sceneId);
+    let group = groups[groups.length - 1];
+    if (!group || group.sceneId !== sceneId) {
+      group = { sceneId, cards: [] };
+      groups.push(group);
+    }
+    group.cards.push(renderShotCard(shot, index, project));
+  });
+
+  const sections = groups.map(group => {
+    const scene = sceneMap.get(group.sceneId);
+    const heading = scene
+      ? [scene.location, scene.time].filter(Boolean).map(escapeHtml).join(' · ')
+      : '未关联场景';
+    return `
+  <section>
+    <h2>${heading}</h2>
+    <div class="grid">${group.cards.join('')}
+    </div>
+  </section>`;
+  }).join('');
+
+  const totalDuration = project.shots.reduce((sum, shot) => sum + getShotEffectiveDuration(shot), 0);
+  const meta = [
+    scriptData?.genre,
+    `${project.shots.length} 个镜头`,
+    `约 ${Math.round(totalDuration)} 秒`,
+    aspectRatio,
+    new Date().toLocaleDateString(),
+  ].filter(Boolean).map(item => `<span>${escapeHtml(item!)}</span>`).join('');
+
+  const [ratioW, ratioH] = aspectRatio.split(':');
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(title)} - 分镜表</title>
+<style>${STORYBOARD_CSS}  :root { --frame-ratio: ${Number(ratioW) || 16} / ${Number(ratioH) || 9}; }
+</style>
+</head>
+<body>
+  <header>
+    <h1>${escapeHtml(title)}</h1>
+    ${scriptData?.logline ? `<p class="logline">${escapeHtml(scriptData.logline)}</p>` : ''}
+    <div class="meta">${meta}</div>
+  </header>${sections}
+</body>
+</html>
+`;
+};
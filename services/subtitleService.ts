@@ -0,0 +1,187 @@
+/**
+ * 字幕服务
+ * 根据镜头台词与时间线生成字幕轨（SRT / WebVTT / ASS）
+ * 字幕时间与预览播放、成片导出使用同一条时间线，保证对齐
+ */
+
+import { AspectRatio, Character, Shot } from '../types';
+import { parseDialogueLine } from './ai/audioService';
+import { buildTimeline, getTransitionOverlap } from './timelineService';
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass';
+
+/**
+ * 单条字幕
+ */
+export interface SubtitleCue {
+  index: number;    // 字幕序号（从 1 开始）
+  shotId: string;
+  start: number;    // 在成片中的起始时间（秒）
+  end: number;      // 在成片中的结束时间（秒）
+  speaker?: string; // 说话人名称，旁白为空
+  text: string;     // 台词（已去除说话人前缀）
+}
+
+export interface SubtitleOptions {
+  includeSpeaker?: boolean;   // 是否在字幕文本前加"角色名："，默认 true
+  aspectRatio?: AspectRatio;  // ASS 画布比例，默认 16:9
+  title?: string;             // ASS 标题
+}
+
+/**
+ * 规范化台词文本：去掉空行与行首尾空白
+ * SRT / WebVTT 以空行分隔字幕块，台词中的空行会让字幕提前结束
+ */
+const normalizeCueText = (text: string): string => {
+  return text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(Boolean)
+    .join('\n');
+};
+
+/**
+ * 按时间线生成字幕列表
+ * 每个有台词的镜头生成一条字幕；叠化转场在重叠部分的中点切换字幕，避免两条字幕同时出现
+ */
+export const buildSubtitleCues = (shots: Shot[], characters: Character[]): SubtitleCue[] => {
+  const timeline = buildTimeline(shots);
+  const cues: SubtitleCue[] = [];
+
+  timeline.forEach((entry, i) => {
+    if (!entry.shot.dialogue?.trim()) return;
+    const { speaker, text: rawText } = parseDialogueLine(entry.shot, characters);
+    const text = normalizeCueText(rawText);
+    if (!text) return;
+
+    const overlapIn = i > 0 ? getTransitionOverlap(timeline[i - 1].transitionOut) : 0;
+    const overlapOut = getTransitionOverlap(entry.transitionOut);
+    cues.push({
+      index: cues.length + 1,
+      shotId: entry.shot.id,
+      start: entry.start + overlapIn / 2,
+      end: entry.end - overlapOut / 2,
+      speaker: speaker?.name,
+      text,
+    });
+  });
+
+  return cues;
+};
+
+/**
+ * 获取字幕显示文本
+ */
+export const getCueText = (cue: SubtitleCue, includeSpeaker: boolean = true): string => {
+  return includeSpeaker && cue.speaker ? `${cue.speaker}：${cue.text}` : cue.text;
+};
+
+/**
+ * 格式化字幕时间
+ * - srt: HH:MM:SS,mmm
+ * - vtt: HH:MM:SS.mmm
+ * - ass: H:MM:SS.cc
+ */
+const formatCueTime = (seconds: number, format: SubtitleFormat): string => {
+  const safe = Math.max(0, seconds);
+  const hours = Math.floor(safe / 3600);
+  const minutes = Math.floor((safe % 3600) / 60);
+  const secs = Math.floor(safe % 60);
+  const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+
+  if (format === 'ass') {
+    const centis = Math.min(Math.round((safe % 1) * 100), 99);
+    return `${hours}:${pad(minutes)}:${pad(secs)}.${pad(centis)}`;
+  }
+  const millis = Math.min(Math.round((safe % 1) * 1000), 999);
+  const separator = format === 'srt' ? ',' : '.';
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(millis, 3)}`;
+};
+
+/**
+ * 生成 SRT 字幕
+ */
+export const toSrt = (cues: SubtitleCue[], options: SubtitleOptions = {}): string => {
+  const includeSpeaker = options.includeSpeaker ?? true;
+  return cues.map(cue => [
+    String(cue.index),
+    `${formatCueTime(cue.start, 'srt')} --> ${formatCueTime(cue.end, 'srt')}`,
+    getCueText(cue, includeSpeaker),
+  ].join('\n')).join('\n\n') + '\n';
+};
+
+/**
+ * 生成 WebVTT 字幕
+ * 说话人以文本前缀形式显示（与 SRT 一致）
+ */
+export const toVtt = (cues: SubtitleCue[], options: SubtitleOptions = {}): string => {
+  const includeSpeaker = options.includeSpeaker ?? true;
+  const escape = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  const body = cues.map(cue => [
+    String(cue.index),
+    `${formatCueTime(cue.start, 'vtt')} --> ${formatCueTime(cue.end, 'vtt')}`,
+    escape(getCueText(cue, includeSpeaker)),
+  ].join('\n'));
+  return ['WEBVTT', ...body].join('\n\n') + '\n';
+};
+
+/**
+ * 生成 ASS 字幕
+ * 说话人写入 Name 字段，画布尺寸按成片比例设置
+ */
+export const toAss = (cues: SubtitleCue[], options: SubtitleOptions = {}): string => {
+  const includeSpeaker = options.includeSpeaker ?? true;
+  const [playResX, playResY] = options.aspectRatio === '9:16'
+    ? [1080, 1920]
+    : options.aspectRatio === '1:1'
+      ? [1080, 1080]
+      : [1920, 1080];
+  const fontSize = Math.round(Math.min(playResX, playResY) * 0.05);
+  const escape = (value: string) => value.replace(/\r?\n/g, '\\N').replace(/[{}]/g, '');
+
+  const header = [
+    '[Script Info]',
+    `Title: ${escape(options.title || 'Subtitles')}`,
+    'ScriptType: v4.00+',
+    'WrapStyle: 0',
+    'ScaledBorderAndShadow: yes',
+    `PlayResX: ${playResX}`,
+    `PlayResY: ${playResY}`,
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    `Style: Default,Arial,${fontSize},&H00FFFFFF,&H000000FF,&H00000000,&H80000000,0,0,0,0,100,100,0,0,1,2,1,2,40,40,${Math.round(playResY * 0.06)},1`,
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+  ];
+
+  const events = cues.map(cue => [
+    '0',
+    formatCueTime(cue.start, 'ass'),
+    formatCueTime(cue.end, 'ass'),
+    'Default',
+    (cue.speaker || '').replace(/,/g, '，'),
+    '0',
+    '0',
+    '0',
+    '',
+    escape(getCueText(cue, includeSpeaker)),
+  ].join(','));
+
+  return [...header, ...events.map(e => `Dialogue: ${e}`)].join('\n') + '\n';
+};
+
+/**
+ * 按格式生成字幕文件内容
+ */
+export const formatSubtitles = (cues: SubtitleCue[], format: SubtitleFormat, options: SubtitleOptions = {}): string => {
+  switch (format) {
+    case 'vtt':
+      return toVtt(cues, options);
+    case 'ass':
+      return toAss(cues, options);
+    default:
+      return toSrt(cues, options);
+  }
+};
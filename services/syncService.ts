@@ -0,0 +1,289 @@
+/**
+ * 团队同步服务
+ * 连接自托管的同步服务器（sync-server/server.mjs），在服务器上共享项目、资产库与媒体。
+ * 默认关闭，此时所有数据仅保存在本机 IndexedDB；启用后由 storageService 在读写时调用本模块。
+ * 项目保存基于 lastModified 做乐观并发控制：保存时携带本地编辑所基于的服务器版本，
+ * 服务器上的版本已被他人更新时返回冲突，由用户决定加载服务器版本或覆盖
+ */
+
+import { AssetLibraryItem, ProjectState } from '../types';
+import {
+  collectMediaHashes,
+  hasMediaRecord,
+  hashBlob,
+  readMediaRecord,
+  storeMediaBlob,
+} from './mediaStoreService';
+
+const STORAGE_KEY = 'bigbanana_sync_config';
+
+export interface SyncConfig {
+  enabled: boolean;
+  /** 同步服务器地址，如 http://192.168.1.10:3006 */
+  serverUrl: string;
+  /** 服务器设置了 SYNC_TOKEN 时填写 */
+  token?: string;
+}
+
+const DEFAULT_CONFIG: SyncConfig = { enabled: false, serverUrl: '' };
+
+/**
+ * 同步冲突：服务器上的项目已被其他人修改
+ */
+export class SyncConflictError extends Error {
+  projectId: string;
+  serverLastModified?: number;
+
+  constructor(projectId: string, serverLastModified?: number) {
+    super('项目已被其他成员修改并保存到服务器');
+    this.name = 'SyncConflictError';
+    this.projectId = projectId;
+    this.serverLastModified = serverLastModified;
+  }
+}
+
+/**
+ * 无法连接同步服务器（网络不通或服务器未启动），可回退到本机缓存
+ */
+export class SyncUnavailableError extends Error {
+  constructor(serverUrl: string) {
+    super(`无法连接同步服务器 ${serverUrl}`);
+    this.name = 'SyncUnavailableError';
+  }
+}
+
+/** 本地编辑所基于的服务器版本：项目 ID -> 服务器上的 lastModified */
+const baseVersions = new Map<string, number>();
+/** 已确认存在于服务器的媒体 hash，避免重复检查 */
+const remoteMediaHashes = new Set<string>();
+/** 使用本机缓存打开或仅保存到本机、尚未与服务器同步的项目 */
+const unsyncedProjectIds = new Set<string>();
+
+export const loadSyncConfig = (): SyncConfig => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_CONFIG, ...JSON.parse(stored) } : DEFAULT_CONFIG;
+  } catch (e) {
+    console.error('加载同步配置失败:', e);
+    return DEFAULT_CONFIG;
+  }
+};
+
+export const saveSyncConfig = (config: SyncConfig): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...config, serverUrl: config.serverUrl.trim().replace(/\/+$/, '') }));
+  // 切换服务器后，之前记录的版本与媒体状态不再适用
+  baseVersions.clear();
+  remoteMediaHashes.clear();
+  unsyncedProjectIds.clear();
+};
+
+export const isSyncEnabled = (): boolean => {
+  const config = loadSyncConfig();
+  return config.enabled && !!config.serverUrl;
+};
+
+const request = async (
+  path: string,
+  init: RequestInit = {},
+  config: SyncConfig = loadSyncConfig()
+): Promise<Response> => {
+  const headers = new Headers(init.headers);
+  if (config.token) headers.set('Authorization', `Bearer ${config.token}`);
+
+  let response: Response;
+  try {
+    response = await fetch(`${config.serverUrl.replace(/\/+$/, '')}${path}`, { ...init, headers });
+  } catch {
+    throw new SyncUnavailableError(config.serverUrl);
+  }
+  if (response.status === 401) {
+    throw new Error('同步服务器拒绝访问，请检查访问令牌');
+  }
+  return response;
+};
+
+const readError = async (response: Response): Promise<string> => {
+  try {
+    const body = await response.json();
+    return body.error || `HTTP ${response.status}`;
+  } catch {
+    return `HTTP ${response.status}`;
+  }
+};
+
+const requestJson = async <T>(path: string, init?: RequestInit): Promise<T> => {
+  const response = await request(path, init);
+  if (!response.ok) {
+    throw new Error(`同步服务器错误：${await readError(response)}`);
+  }
+  return response.json() as Promise<T>;
+};
+
+/**
+ * 测试服务器连接与访问令牌
+ */
+export const testSyncConnection = async (config: SyncConfig): Promise<void> => {
+  const health = await request('/api/health', {}, config);
+  if (!health.ok) {
+    throw new Error(`同步服务器错误：${await readError(health)}`);
+  }
+  // 健康检查无需令牌，再请求一次受保护的接口以验证令牌
+  const projects = await request('/api/projects', {}, config);
+  if (!projects.ok) {
+    throw new Error(`同步服务器错误：${await readError(projects)}`);
+  }
+};
+
+// ---------- 媒体 ----------
+
+/**
+ * 将记录引用的媒体上传到服务器（服务器已有的跳过）
+ */
+const pushMedia = async (db: IDBDatabase, hashes: Set<string>): Promise<void> => {
+  for (const hash of hashes) {
+    if (remoteMediaHashes.has(hash)) continue;
+    const head = await request(`/api/media/${hash}`, { method: 'HEAD' });
+    if (!head.ok) {
+      const record = await readMediaRecord(db, hash);
+      if (!record) continue;
+      const response = await request(`/api/media/${hash}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': record.type || 'application/octet-stream' },
+        body: record.blob,
+      });
+      if (!response.ok) {
+        throw new Error(`媒体上传失败：${await readError(response)}`);
+      }
+    }
+    remoteMediaHashes.add(hash);
+  }
+};
+
+/**
+ * 下载本机媒体库中缺少的媒体
+ */
+const pullMedia = async (db: IDBDatabase, hashes: Set<string>): Promise<void> => {
+  for (const hash of hashes) {
+    if (await hasMediaRecord(db, hash)) continue;
+    const response = await request(`/api/media/${hash}`);
+    if (!response.ok) {
+      console.warn(`⚠️ 同步服务器缺少媒体: ${hash}`);
+      continue;
+    }
+    const blob = await response.blob();
+    if ((await hashBlob(blob)) !== hash) {
+      console.warn(`⚠️ 同步服务器返回的媒体校验失败: ${hash}`);
+      continue;
+    }
+    await storeMediaBlob(db, blob);
+    remoteMediaHashes.add(hash);
+  }
+};
+
+// ---------- 项目 ----------
+
+/**
+ * 标记项目尚未与服务器同步（服务器不可用时回退到本机缓存）
+ */
+export const markProjectUnsynced = (id: string): void => {
+  unsyncedProjectIds.add(id);
+};
+
+export const isProjectUnsynced = (id: string): boolean => unsyncedProjectIds.has(id);
+
+/**
+ * 获取服务器上的全部项目（媒体保持引用形式）
+ */
+export const fetchRemoteProjects = (): Promise<ProjectState[]> => requestJson<ProjectState[]>('/api/projects');
+
+/**
+ * 获取服务器上的项目并下载缺少的媒体，记录其版本作为后续保存的基准
+ * 项目不存在时返回 undefined
+ */
+export const fetchRemoteProject = async (db: IDBDatabase, id: string): Promise<ProjectState | undefined> => {
+  const response = await request(`/api/projects/${encodeURIComponent(id)}`);
+  if (response.status === 404) return undefined;
+  if (!response.ok) {
+    throw new Error(`同步服务器错误：${await readError(response)}`);
+  }
+  const project = (await response.json()) as ProjectState;
+  await pullMedia(db, await collectMediaHashes({ project }));
+  baseVersions.set(project.id, project.lastModified);
+  unsyncedProjectIds.delete(project.id);
+  return project;
+};
+
+/**
+ * 保存项目到服务器（媒体须已是引用形式）
+ * force 为 true 时忽略版本冲突，直接覆盖服务器上的项目
+ */
+export const pushRemoteProject = async (
+  db: IDBDatabase,
+  project: ProjectState,
+  options?: { force?: boolean }
+): Promise<void> => {
+  await pushMedia(db, await collectMediaHashes({ project }));
+  const response = await request(`/api/projects/${encodeURIComponent(project.id)}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ project, baseLastModified: baseVersions.get(project.id), force: options?.force }),
+  });
+  if (response.status === 409) {
+    const body = await response.json().catch(() => ({}));
+    throw new SyncConflictError(project.id, body.serverLastModified);
+  }
+  if (!response.ok) {
+    throw new Error(`同步服务器错误：${await readError(response)}`);
+  }
+  baseVersions.set(project.id, project.lastModified);
+  unsyncedProjectIds.delete(project.id);
+};
+
+/**
+ * 删除服务器上的项目
+ * 以最近同步的版本（没有时用调用方提供的本机版本）为基准，服务器版本已变化时抛出 SyncConflictError
+ */
+export const deleteRemoteProject = async (id: string, baseLastModified?: number): Promise<void> => {
+  const response = await request(`/api/projects/${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ baseLastModified: baseVersions.get(id) ?? baseLastModified }),
+  });
+  if (response.status === 409) {
+    const body = await response.json().catch(() => ({}));
+    throw new SyncConflictError(id, body.serverLastModified);
+  }
+  if (!response.ok) {
+    throw new Error(`同步服务器错误：${await readError(response)}`);
+  }
+  baseVersions.delete(id);
+  unsyncedProjectIds.delete(id);
+};
+
+// ---------- 资产库 ----------
+
+/**
+ * 获取服务器上的资产库并下载缺少的媒体
+ */
+export const fetchRemoteAssets = async (db: IDBDatabase): Promise<AssetLibraryItem[]> => {
+  const items = await requestJson<AssetLibraryItem[]>('/api/assets');
+  const hashes = new Set<string>();
+  for (const asset of items) {
+    await collectMediaHashes({ asset }, hashes);
+  }
+  await pullMedia(db, hashes);
+  return items;
+};
+
+export const pushRemoteAsset = async (db: IDBDatabase, item: AssetLibraryItem): Promise<void> => {
+  await pushMedia(db, await collectMediaHashes({ asset: item }));
+  await requestJson(`/api/assets/${encodeURIComponent(item.id)}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(item),
+  });
+};
+
+export const deleteRemoteAsset = async (id: string): Promise<void> => {
+  await requestJson(`/api/assets/${encodeURIComponent(id)}`, { method: 'DELETE' });
+};
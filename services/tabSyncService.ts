@@ -0,0 +1,212 @@
+/**
+ * 多标签页协同
+ * 同一项目同时只允许一个标签页编辑：编辑方通过 Web Locks 持有项目锁，其余标签页进入只读并可请求接管。
+ * 数据写入后通过 BroadcastChannel 通知其他标签页，用于刷新只读项目、项目列表与资产库；
+ * 每个标签页还持有一把存在锁，供生成任务队列判断任务的执行方是否已关闭
+ */
+
+const CHANNEL_NAME = 'bigbanana-tabs';
+const LOCK_PREFIX = 'bigbanana-project-';
+const TAB_LOCK_PREFIX = 'bigbanana-tab-';
+/** 接管请求发出后等待编辑方交出锁的时间，超时（如编辑方页面已冻结）则强制接管 */
+const TAKEOVER_TIMEOUT_MS = 3000;
+
+export type TabMessage =
+  | { type: 'project-saved'; projectId: string; lastModified: number }
+  | { type: 'projects-changed' }
+  | { type: 'assets-changed' }
+  | { type: 'takeover'; projectId: string }
+  | { type: 'jobs-changed'; projectId: string };
+
+type TabMessageListener = (message: TabMessage) => void;
+
+/** 当前标签页的标识，用于区分生成任务由哪个标签页执行 */
+export const TAB_ID = `tab_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+let tabPresenceHeld = false;
+
+const listeners = new Set<TabMessageListener>();
+let channel: BroadcastChannel | null = null;
+
+const getChannel = (): BroadcastChannel | null => {
+  if (channel || typeof BroadcastChannel === 'undefined') return channel;
+  channel = new BroadcastChannel(CHANNEL_NAME);
+  // 同一 BroadcastChannel 实例不会收到自己发出的消息，因此监听者只会收到其他标签页的通知
+  channel.onmessage = (event: MessageEvent<TabMessage>) => {
+    listeners.forEach(listener => listener(event.data));
+  };
+  return channel;
+};
+
+/**
+ * 通知其他标签页
+ */
+export const broadcastTabMessage = (message: TabMessage): void => {
+  try {
+    getChannel()?.postMessage(message);
+  } catch (e) {
+    console.warn('标签页通知发送失败', e);
+  }
+};
+
+/**
+ * 订阅其他标签页的通知，返回取消订阅函数
+ */
+export const subscribeTabMessages = (listener: TabMessageListener): (() => void) => {
+  getChannel();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * 浏览器是否支持项目编辑锁
+ */
+export const supportsProjectLocks = (): boolean => typeof navigator !== 'undefined' && !!navigator.locks;
+
+/**
+ * 在页面存续期间持有当前标签页的存在锁，其他标签页据此判断本页是否仍在运行
+ */
+export const holdTabPresence = (): void => {
+  if (tabPresenceHeld || !supportsProjectLocks()) return;
+  tabPresenceHeld = true;
+  navigator.locks.request(`${TAB_LOCK_PREFIX}${TAB_ID}`, () => new Promise<void>(() => {})).catch(e => {
+    console.warn('标签页存在锁获取失败', e);
+  });
+};
+
+/**
+ * 获取仍在运行的标签页标识（仅包含调用过 holdTabPresence 的标签页）
+ * 浏览器不支持 Web Locks 时返回 null，表示无法判断
+ */
+export const getLiveTabIds = async (): Promise<Set<string> | null> => {
+  if (!supportsProjectLocks()) return null;
+  const snapshot = await navigator.locks.query();
+  const ids = new Set<string>();
+  (snapshot.held || []).forEach(lock => {
+    if (lock.name?.startsWith(TAB_LOCK_PREFIX)) ids.add(lock.name.slice(TAB_LOCK_PREFIX.length));
+  });
+  return ids;
+};
+
+/**
+ * 是否有标签页正在编辑项目（持有任一项目编辑锁）
+ * 浏览器不支持 Web Locks 时返回 null，表示无法判断
+ */
+export const hasOpenProjects = async (): Promise<boolean | null> => {
+  if (!supportsProjectLocks()) return null;
+  const snapshot = await navigator.locks.query();
+  return (snapshot.held || []).some(lock => lock.name?.startsWith(LOCK_PREFIX));
+};
+
+export interface ProjectLockCallbacks {
+  /** 当前标签页成为编辑方 */
+  onAcquired: () => void;
+  /** 项目已在其他标签页编辑，或编辑权被接管 */
+  onReadOnly: () => void;
+  /** 其他标签页请求接管：保存未写入的修改后调用 handOver */
+  onTakeoverRequested: () => void;
+}
+
+export interface ProjectLock {
+  /** 请求接管编辑权 */
+  takeOver: () => void;
+  /** 交出编辑权，当前标签页转为只读 */
+  handOver: () => void;
+  /** 离开项目时释放 */
+  release: () => void;
+}
+
+/**
+ * 请求项目编辑锁
+ * 浏览器不支持 Web Locks 时直接视为编辑方，仅保留跨标签页通知
+ */
+export const requestProjectLock = (projectId: string, callbacks: ProjectLockCallbacks): ProjectLock => {
+  const locks = supportsProjectLocks() ? navigator.locks : undefined;
+  const lockName = `${LOCK_PREFIX}${projectId}`;
+  let released = false;
+  let isOwner = false;
+  let releaseHold: (() => void) | null = null;
+  let takeoverTimer: ReturnType<typeof setTimeout> | null = null;
+  // 接管时可能同时存在排队请求与强制请求，只有最新的请求有效，过期请求拿到锁后立即放弃
+  let requestSeq = 0;
+  let activeRequest = 0;
+
+  const clearTakeoverTimer = () => {
+    if (takeoverTimer) clearTimeout(takeoverTimer);
+    takeoverTimer = null;
+  };
+
+  // 持有锁直到交出或释放
+  const hold = async (lock: Lock | null, id: number): Promise<void> => {
+    if (released || id !== activeRequest) return;
+    if (!lock) {
+      callbacks.onReadOnly();
+      return;
+    }
+    clearTakeoverTimer();
+    isOwner = true;
+    callbacks.onAcquired();
+    await new Promise<void>(resolve => {
+      releaseHold = resolve;
+    });
+  };
+
+  // 锁被其他标签页强制接管时，request 的 Promise 以 AbortError 结束
+  const handleLost = (id: number) => {
+    if (id !== activeRequest || !isOwner || released) return;
+    isOwner = false;
+    releaseHold = null;
+    callbacks.onReadOnly();
+  };
+
+  const request = (options: LockOptions) => {
+    const id = ++requestSeq;
+    activeRequest = id;
+    locks?.request(lockName, options, lock => hold(lock, id)).then(() => handleLost(id), () => handleLost(id));
+  };
+
+  const unsubscribe = subscribeTabMessages(message => {
+    if (message.type === 'takeover' && message.projectId === projectId && isOwner) {
+      callbacks.onTakeoverRequested();
+    }
+  });
+
+  if (locks) {
+    request({ ifAvailable: true });
+  } else {
+    isOwner = true;
+    callbacks.onAcquired();
+  }
+
+  const handOver = () => {
+    if (!isOwner) return;
+    isOwner = false;
+    activeRequest = 0;
+    callbacks.onReadOnly();
+    releaseHold?.();
+  };
+
+  return {
+    takeOver: () => {
+      if (!locks || isOwner || released) return;
+      broadcastTabMessage({ type: 'takeover', projectId });
+      // 排队等待编辑方交出锁；超时则强制接管
+      request({});
+      clearTakeoverTimer();
+      takeoverTimer = setTimeout(() => {
+        if (!isOwner && !released) request({ steal: true });
+      }, TAKEOVER_TIMEOUT_MS);
+    },
+    handOver,
+    release: () => {
+      released = true;
+      isOwner = false;
+      activeRequest = 0;
+      clearTakeoverTimer();
+      unsubscribe();
+      releaseHold?.();
+    },
+  };
+};
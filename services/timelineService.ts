@@ -0,0 +1,208 @@
+/**
+ * 时间线服务
+ * 统一计算镜头的入出点（trim）、转场、有效时长、时间线位置与时间码
+ * 预览播放、时长估算和成片导出均以此为准，保证三者一致
+ */
+
+import { Shot, ShotTransition, TransitionType } from '../types';
+
+/** 未记录时长的镜头默认按 10 秒计算 */
+export const DEFAULT_SHOT_DURATION = 10;
+
+/** 时间码帧率 */
+export const TIMELINE_FPS = 30;
+
+/** 入出点之间至少保留的时长（秒） */
+export const MIN_TRIM_LENGTH = 0.5;
+
+/** 硬切（默认转场） */
+export const CUT_TRANSITION: ShotTransition = { type: 'cut', duration: 0 };
+
+/** 叠化/黑场转场的默认时长与上限（秒） */
+export const DEFAULT_TRANSITION_DURATION = 0.5;
+export const MAX_TRANSITION_DURATION = 2;
+
+/**
+ * 时间线上的单个片段
+ */
+export interface TimelineEntry {
+  shot: Shot;
+  index: number;      // 在传入镜头列表中的位置
+  start: number;      // 在成片中的起始时间（秒）
+  end: number;        // 在成片中的结束时间（秒）
+  trimIn: number;     // 片段内入点（秒）
+  trimOut: number;    // 片段内出点（秒）
+  duration: number;   // 有效时长（秒）
+  transitionOut: ShotTransition; // 与下一个片段之间的转场（已校正）
+}
+
+/**
+ * 获取镜头素材原始时长（秒）
+ */
+export const getShotSourceDuration = (shot: Shot): number => {
+  return shot.interval?.duration || DEFAULT_SHOT_DURATION;
+};
+
+/**
+ * 获取镜头入出点（已按素材时长校正）
+ */
+export const getShotTrimRange = (shot: Shot): { trimIn: number; trimOut: number } => {
+  const sourceDuration = getShotSourceDuration(shot);
+  const trimIn = Math.min(Math.max(shot.interval?.trimIn ?? 0, 0), sourceDuration);
+  const trimOut = Math.min(Math.max(shot.interval?.trimOut ?? sourceDuration, trimIn), sourceDuration);
+  return { trimIn, trimOut };
+};
+
+/**
+ * 获取镜头在成片中的有效时长（秒）
+ */
+export const getShotEffectiveDuration = (shot: Shot): number => {
+  const { trimIn, trimOut } = getShotTrimRange(shot);
+  return trimOut - trimIn;
+};
+
+/**
+ * 是否为需要时长的转场（叠化、黑场）
+ */
+export const isTimedTransition = (type: TransitionType): boolean => {
+  return type === 'crossfade' || type === 'dip-to-black';
+};
+
+/**
+ * 获取 shots[index] 切到 shots[index + 1] 的转场
+ * 最后一个镜头恒为硬切；转场时长不会超过前后任一镜头的有效时长
+ */
+export const getShotTransition = (shots: Shot[], index: number): ShotTransition => {
+  const shot = shots[index];
+  const next = shots[index + 1];
+  const transition = shot?.transitionOut;
+  if (!shot || !next || !transition) return CUT_TRANSITION;
+  if (transition.type === 'match-cut') return { type: 'match-cut', duration: 0 };
+  if (!isTimedTransition(transition.type)) return CUT_TRANSITION;
+
+  const maxDuration = Math.min(
+    MAX_TRANSITION_DURATION,
+    getShotEffectiveDuration(shot),
+    getShotEffectiveDuration(next)
+  );
+  const duration = Math.min(Math.max(transition.duration || 0, 0), maxDuration);
+  return duration > 0 ? { type: transition.type, duration } : CUT_TRANSITION;
+};
+
+/**
+ * 转场造成的前后镜头重叠时长（仅叠化会重叠）
+ */
+export const getTransitionOverlap = (transition: ShotTransition): number => {
+  return transition.type === 'crossfade' ? transition.duration : 0;
+};
+
+/**
+ * 按镜头顺序构建时间线
+ * 叠化转场会让下一个镜头提前开始，与当前镜头重叠
+ */
+export const buildTimeline = (shots: Shot[]): TimelineEntry[] => {
+  let cursor = 0;
+  return shots.map((shot, index) => {
+    const { trimIn, trimOut } = getShotTrimRange(shot);
+    const duration = trimOut - trimIn;
+    const transitionOut = getShotTransition(shots, index);
+    const entry: TimelineEntry = {
+      shot,
+      index,
+      start: cursor,
+      end: cursor + duration,
+      trimIn,
+      trimOut,
+      duration,
+      transitionOut,
+    };
+    cursor += duration - getTransitionOverlap(transitionOut);
+    return entry;
+  });
+};
+
+/**
+ * 构建成片时间线：只包含已生成视频的镜头，转场与时间码按实际播放的相邻片段计算
+ * 时间线面板、预览播放与成片导出共用，index 为镜头在传入列表（通常是 project.shots）中的位置
+ */
+export const buildPlaybackTimeline = (shots: Shot[]): TimelineEntry[] => {
+  const indexes = shots.flatMap((shot, index) => (shot.interval?.videoUrl ? [index] : []));
+  return buildTimeline(indexes.map(index => shots[index]))
+    .map((entry, position) => ({ ...entry, index: indexes[position] }));
+};
+
+/**
+ * 计算镜头列表的总时长（秒），已扣除叠化重叠部分
+ */
+export const getTotalDuration = (shots: Shot[]): number => {
+  const timeline = buildTimeline(shots);
+  return timeline.length > 0 ? timeline[timeline.length - 1].end : 0;
+};
+
+/**
+ * 更新镜头入出点
+ * 会把入出点限制在素材范围内并保留最小时长；入出点恢复为完整素材时清除字段
+ */
+export const applyShotTrim = (shot: Shot, trimIn: number, trimOut: number): Shot => {
+  if (!shot.interval) return shot;
+
+  const sourceDuration = getShotSourceDuration(shot);
+  const minLength = Math.min(MIN_TRIM_LENGTH, sourceDuration);
+  const nextIn = Math.min(Math.max(trimIn, 0), sourceDuration - minLength);
+  const nextOut = Math.min(Math.max(trimOut, nextIn + minLength), sourceDuration);
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  return {
+    ...shot,
+    interval: {
+      ...shot.interval,
+      trimIn: nextIn > 0 ? round(nextIn) : undefined,
+      trimOut: nextOut < sourceDuration ? round(nextOut) : undefined,
+    },
+  };
+};
+
+/**
+ * 更新镜头转场
+ * 硬切时清除字段；叠化/黑场未给时长时使用默认时长
+ */
+export const applyShotTransition = (shot: Shot, type: TransitionType, duration?: number): Shot => {
+  if (type === 'cut') {
+    const { transitionOut, ...rest } = shot;
+    return rest;
+  }
+  const nextDuration = isTimedTransition(type)
+    ? Math.min(Math.max(duration ?? shot.transitionOut?.duration ?? DEFAULT_TRANSITION_DURATION, 0.1), MAX_TRANSITION_DURATION)
+    : 0;
+  return {
+    ...shot,
+    transitionOut: { type, duration: Math.round(nextDuration * 100) / 100 },
+  };
+};
+
+/**
+ * 移动镜头位置（拖拽排序）
+ */
+export const moveShot = (shots: Shot[], fromIndex: number, toIndex: number): Shot[] => {
+  if (fromIndex === toIndex || fromIndex < 0 || fromIndex >= shots.length) return shots;
+  const next = [...shots];
+  const [moved] = next.splice(fromIndex, 1);
+  next.splice(Math.min(Math.max(toIndex, 0), next.length), 0, moved);
+  return next;
+};
+
+/**
+ * 将秒数格式化为 SMPTE 时间码 HH:MM:SS:FF
+ */
+export const formatTimecode = (seconds: number, fps: number = TIMELINE_FPS): string => {
+  const totalFrames = Math.max(0, Math.round(seconds * fps));
+  const frames = totalFrames % fps;
+  const totalSeconds = Math.floor(totalFrames / fps);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return [
+    pad(Math.floor(totalSeconds / 3600)),
+    pad(Math.floor((totalSeconds % 3600) / 60)),
+    pad(totalSeconds % 60),
+    pad(frames),
+  ].join(':');
+};
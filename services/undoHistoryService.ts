@@ -0,0 +1,165 @@
+/**
+ * 撤销/重做历史
+ * 以项目状态为单位记录内容变更；一次操作内的多次更新通过撤销分组显式合并为一步，
+ * 仅导航、渲染日志等非内容字段变化时不记录
+ */
+
+import { ProjectState } from '../types';
+
+/** 最多保留的撤销步数 */
+export const UNDO_HISTORY_LIMIT = 50;
+
+/** 非内容字段：撤销/重做时保留当前值，且仅这些字段变化时不记录历史 */
+const TRANSIENT_FIELDS: (keyof ProjectState)[] = ['stage', 'renderLogs', 'isParsingScript', 'lastModified'];
+
+export interface UndoHistory {
+  past: ProjectState[];
+  future: ProjectState[];
+  lastGroupId: number | null;    // 最近一步所属的撤销分组，同组的后续变更并入该步
+}
+
+export const createUndoHistory = (): UndoHistory => ({ past: [], future: [], lastGroupId: null });
+
+// 当前打开的撤销分组（支持嵌套，最外层分组决定分组 ID）
+let activeGroupId: number | null = null;
+let groupDepth = 0;
+let nextGroupId = 1;
+
+/**
+ * 开始撤销分组：到对应的 endUndoGroup 为止发起的项目更新合并为同一撤销步骤
+ */
+export const beginUndoGroup = (): void => {
+  if (groupDepth === 0) {
+    activeGroupId = nextGroupId++;
+  }
+  groupDepth++;
+};
+
+/**
+ * 结束撤销分组
+ */
+export const endUndoGroup = (): void => {
+  if (groupDepth === 0) return;
+  groupDepth--;
+  if (groupDepth === 0) {
+    activeGroupId = null;
+  }
+};
+
+/**
+ * 在撤销分组中执行操作，返回 Promise 时在其结束后关闭分组
+ */
+export const runInUndoGroup = <T>(operation: () => T): T => {
+  beginUndoGroup();
+  let result: T;
+  try {
+    result = operation();
+  } catch (e) {
+    endUndoGroup();
+    throw e;
+  }
+  if (result instanceof Promise) {
+    return result.finally(endUndoGroup) as T;
+  }
+  endUndoGroup();
+  return result;
+};
+
+/**
+ * 获取当前打开的撤销分组 ID，未在分组中时返回 null
+ */
+export const getActiveUndoGroup = (): number | null => activeGroupId;
+
+/**
+ * 判断两次状态之间是否存在可撤销的内容变更
+ */
+export const isUndoableChange = (prev: ProjectState, next: ProjectState): boolean => {
+  const keys = new Set([...Object.keys(prev), ...Object.keys(next)] as (keyof ProjectState)[]);
+  for (const key of keys) {
+    if (TRANSIENT_FIELDS.includes(key)) continue;
+    if (prev[key] !== next[key]) return true;
+  }
+  return false;
+};
+
+/**
+ * 记录一次变更：prev 为变更前的状态，groupId 为发起变更时打开的撤销分组
+ * 与上一步属于同一分组时不新增步骤，撤销时直接回到这一组变更之前
+ */
+export const recordUndoStep = (history: UndoHistory, prev: ProjectState, groupId: number | null = null): UndoHistory => {
+  const shouldMerge = history.past.length > 0 && groupId !== null && groupId === history.lastGroupId;
+  return {
+    past: shouldMerge ? history.past : [...history.past, prev].slice(-UNDO_HISTORY_LIMIT),
+    future: [],
+    lastGroupId: groupId,
+  };
+};
+
+/**
+ * 将恢复出的历史状态中遗留的“生成中”状态结算为完成或待生成，
+ * 避免撤销到生成过程中的某一步后界面一直显示加载
+ */
+const settleGeneratingStatus = (project: ProjectState): ProjectState => {
+  const settle = <T extends { status?: string }>(item: T, hasResult: boolean): T =>
+    item.status === 'generating' ? ({ ...item, status: hasResult ? 'completed' : 'pending' } as T) : item;
+
+  return {
+    ...project,
+    scriptData: project.scriptData
+      ? {
+          ...project.scriptData,
+          characters: project.scriptData.characters.map(c => settle(c, !!c.referenceImage)),
+          scenes: project.scriptData.scenes.map(s => settle(s, !!s.referenceImage)),
+          props: (project.scriptData.props || []).map(p => settle(p, !!p.referenceImage)),
+        }
+      : project.scriptData,
+    shots: project.shots.map(shot => ({
+      ...shot,
+      keyframes: shot.keyframes.map(kf => settle(kf, !!kf.imageUrl)),
+      interval: shot.interval ? settle(shot.interval, !!shot.interval.videoUrl) : shot.interval,
+    })),
+  };
+};
+
+/**
+ * 用历史状态替换当前状态，保留当前的非内容字段
+ */
+const restoreFrom = (target: ProjectState, current: ProjectState): ProjectState => {
+  const restored = { ...settleGeneratingStatus(target) } as ProjectState;
+  TRANSIENT_FIELDS.forEach(key => {
+    (restored as any)[key] = current[key];
+  });
+  return restored;
+};
+
+export const undoProject = (
+  history: UndoHistory,
+  current: ProjectState
+): { history: UndoHistory; project: ProjectState } | null => {
+  const previous = history.past[history.past.length - 1];
+  if (!previous) return null;
+  return {
+    history: {
+      past: history.past.slice(0, -1),
+      future: [current, ...history.future],
+      lastGroupId: null,
+    },
+    project: restoreFrom(previous, current),
+  };
+};
+
+export const redoProject = (
+  history: UndoHistory,
+  current: ProjectState
+): { history: UndoHistory; project: ProjectState } | null => {
+  const next = history.future[0];
+  if (!next) return null;
+  return {
+    history: {
+      past: [...history.past, current].slice(-UNDO_HISTORY_LIMIT),
+      future: history.future.slice(1),
+      lastGroupId: null,
+    },
+    project: restoreFrom(next, current),
+  };
+};
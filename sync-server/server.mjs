@@ -0,0 +1,301 @@
+/**
+ * BigBanana 团队同步服务器
+ * 可选的自托管存储后端：项目、资产库以 JSON 文件保存，媒体按内容 SHA-256 保存为文件。
+ * 仅依赖 Node.js 内置模块，直接 `node sync-server/server.mjs` 即可运行。
+ *
+ * 环境变量：
+ *   PORT          监听端口，默认 3006
+ *   HOST          监听地址，默认 127.0.0.1（仅本机可访问）
+ *   DATA_DIR      数据目录，默认 ./sync-data
+ *   SYNC_TOKEN    访问令牌，请求须携带 Authorization: Bearer <token>；监听非本机地址时必须设置
+ *   ALLOW_ANONYMOUS  设为 1 时允许在非本机地址上不设令牌运行（仅限可信内网）
+ *   CORS_ORIGIN   允许的前端来源，多个用逗号分隔，默认 http://localhost:3000（前端开发服务器）；* 表示任意来源
+ *   MAX_MEDIA_MB  单个媒体文件大小上限（MB），默认 512
+ *
+ * 接口：
+ *   GET    /api/health
+ *   GET    /api/projects                 全部项目记录
+ *   GET    /api/projects/:id
+ *   PUT    /api/projects/:id             { project, baseLastModified, force? }，基于 lastModified 的乐观并发控制
+ *   DELETE /api/projects/:id             { baseLastModified, force? }，与 PUT 相同的乐观并发控制
+ *   GET    /api/assets
+ *   PUT    /api/assets/:id
+ *   DELETE /api/assets/:id
+ *   HEAD   /api/media/:hash
+ *   GET    /api/media/:hash
+ *   PUT    /api/media/:hash              请求体为媒体字节，服务器校验内容 hash
+ */
+
+import http from 'node:http';
+import fs from 'node:fs';
+import path from 'node:path';
+import crypto from 'node:crypto';
+
+const PORT = Number(process.env.PORT) || 3006;
+const HOST = process.env.HOST || '127.0.0.1';
+const DATA_DIR = path.resolve(process.env.DATA_DIR || './sync-data');
+const SYNC_TOKEN = process.env.SYNC_TOKEN || '';
+const ALLOW_ANONYMOUS = process.env.ALLOW_ANONYMOUS === '1';
+const CORS_ORIGINS = (process.env.CORS_ORIGIN || 'http://localhost:3000')
+  .split(',')
+  .map(origin => origin.trim().replace(/\/+$/, ''))
+  .filter(Boolean);
+const MAX_MEDIA_BYTES = (Number(process.env.MAX_MEDIA_MB) || 512) * 1024 * 1024;
+const MAX_JSON_BYTES = 32 * 1024 * 1024;
+
+const DIRS = {
+  projects: path.join(DATA_DIR, 'projects'),
+  assets: path.join(DATA_DIR, 'assets'),
+  media: path.join(DATA_DIR, 'media'),
+  tmp: path.join(DATA_DIR, 'tmp'),
+};
+
+const isLoopbackHost = host => host === 'localhost' || host === '::1' || /^127\./.test(host);
+
+// 没有令牌时任何能访问端口的人都可以读写全部项目，只允许在本机或显式确认后运行
+if (!SYNC_TOKEN && !ALLOW_ANONYMOUS && !isLoopbackHost(HOST)) {
+  console.error(`未设置 SYNC_TOKEN，拒绝在 ${HOST} 上启动。请设置访问令牌，或设置 ALLOW_ANONYMOUS=1 明确允许匿名访问。`);
+  process.exit(1);
+}
+
+Object.values(DIRS).forEach(dir => fs.mkdirSync(dir, { recursive: true }));
+
+const ID_PATTERN = /^[\w.-]{1,128}$/;
+const HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+class HttpError extends Error {
+  constructor(status, message, extra) {
+    super(message);
+    this.status = status;
+    this.extra = extra;
+  }
+}
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body));
+};
+
+const readJsonFile = filePath => {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    if (error.code === 'ENOENT') return undefined;
+    throw error;
+  }
+};
+
+/** 先写临时文件再重命名，避免写入中断留下损坏的记录 */
+const writeJsonFile = (filePath, value) => {
+  const tmpPath = path.join(DIRS.tmp, `${crypto.randomUUID()}.json`);
+  fs.writeFileSync(tmpPath, JSON.stringify(value));
+  fs.renameSync(tmpPath, filePath);
+};
+
+const listJsonFiles = dir =>
+  fs.readdirSync(dir)
+    .filter(name => name.endsWith('.json'))
+    .map(name => readJsonFile(path.join(dir, name)))
+    .filter(Boolean);
+
+const readBody = (req, limit) => new Promise((resolve, reject) => {
+  const chunks = [];
+  let size = 0;
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size > limit) {
+      reject(new HttpError(413, '请求体过大'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+const readJsonBody = async req => {
+  const body = await readBody(req, MAX_JSON_BYTES);
+  try {
+    return JSON.parse(body.toString('utf8'));
+  } catch {
+    throw new HttpError(400, '请求体不是有效的 JSON');
+  }
+};
+
+const recordPath = (dir, id) => {
+  if (!ID_PATTERN.test(id)) throw new HttpError(400, `无效的 ID：${id}`);
+  return path.join(dir, `${id}.json`);
+};
+
+const mediaPath = hash => {
+  if (!HASH_PATTERN.test(hash)) throw new HttpError(400, `无效的媒体 hash：${hash}`);
+  return path.join(DIRS.media, hash);
+};
+
+// ---------- 项目 ----------
+
+/** 服务器上的项目版本与客户端的基准版本不一致时拒绝写入 */
+const assertBaseVersion = (filePath, baseLastModified, force) => {
+  const current = readJsonFile(filePath);
+  if (current && !force && current.lastModified !== baseLastModified) {
+    throw new HttpError(409, '项目已被其他人修改', { serverLastModified: current.lastModified });
+  }
+};
+
+const handleProjects = async (req, res, id) => {
+  if (!id) {
+    if (req.method !== 'GET') throw new HttpError(405, '不支持的请求方法');
+    const projects = listJsonFiles(DIRS.projects).sort((a, b) => b.lastModified - a.lastModified);
+    return sendJson(res, 200, projects);
+  }
+
+  const filePath = recordPath(DIRS.projects, id);
+  if (req.method === 'GET') {
+    const project = readJsonFile(filePath);
+    if (!project) throw new HttpError(404, '项目不存在');
+    return sendJson(res, 200, project);
+  }
+
+  if (req.method === 'PUT') {
+    const { project, baseLastModified, force } = await readJsonBody(req);
+    if (!project || project.id !== id || typeof project.lastModified !== 'number') {
+      throw new HttpError(400, '项目记录无效');
+    }
+    // 读取、比较与写入之间没有异步等待，同一进程内不会交错
+    assertBaseVersion(filePath, baseLastModified, force);
+    writeJsonFile(filePath, project);
+    return sendJson(res, 200, { lastModified: project.lastModified });
+  }
+
+  if (req.method === 'DELETE') {
+    const { baseLastModified, force } = await readJsonBody(req);
+    assertBaseVersion(filePath, baseLastModified, force);
+    fs.rmSync(filePath, { force: true });
+    return sendJson(res, 200, { ok: true });
+  }
+
+  throw new HttpError(405, '不支持的请求方法');
+};
+
+// ---------- 资产库 ----------
+
+const handleAssets = async (req, res, id) => {
+  if (!id) {
+    if (req.method !== 'GET') throw new HttpError(405, '不支持的请求方法');
+    const assets = listJsonFiles(DIRS.assets).sort((a, b) => b.updatedAt - a.updatedAt);
+    return sendJson(res, 200, assets);
+  }
+
+  const filePath = recordPath(DIRS.assets, id);
+  if (req.method === 'PUT') {
+    const item = await readJsonBody(req);
+    if (!item || item.id !== id) throw new HttpError(400, '资产记录无效');
+    writeJsonFile(filePath, item);
+    return sendJson(res, 200, { ok: true });
+  }
+
+  if (req.method === 'DELETE') {
+    fs.rmSync(filePath, { force: true });
+    return sendJson(res, 200, { ok: true });
+  }
+
+  throw new HttpError(405, '不支持的请求方法');
+};
+
+// ---------- 媒体 ----------
+
+const handleMedia = async (req, res, hash) => {
+  const filePath = mediaPath(hash);
+  const typePath = `${filePath}.type`;
+
+  if (req.method === 'HEAD' || req.method === 'GET') {
+    if (!fs.existsSync(filePath)) {
+      res.writeHead(404);
+      return res.end();
+    }
+    const type = fs.existsSync(typePath) ? fs.readFileSync(typePath, 'utf8') : 'application/octet-stream';
+    res.writeHead(200, {
+      'Content-Type': type,
+      'Content-Length': fs.statSync(filePath).size,
+      'Cache-Control': 'public, max-age=31536000, immutable',
+    });
+    if (req.method === 'HEAD') return res.end();
+    return fs.createReadStream(filePath).pipe(res);
+  }
+
+  if (req.method === 'PUT') {
+    // 内容寻址：已存在的媒体无需重复写入
+    if (fs.existsSync(filePath)) {
+      await readBody(req, MAX_MEDIA_BYTES);
+      return sendJson(res, 200, { ok: true });
+    }
+    const body = await readBody(req, MAX_MEDIA_BYTES);
+    const actual = crypto.createHash('sha256').update(body).digest('hex');
+    if (actual !== hash) throw new HttpError(400, '媒体内容与 hash 不一致');
+    const tmpPath = path.join(DIRS.tmp, crypto.randomUUID());
+    fs.writeFileSync(tmpPath, body);
+    fs.renameSync(tmpPath, filePath);
+    fs.writeFileSync(typePath, req.headers['content-type'] || 'application/octet-stream');
+    return sendJson(res, 200, { ok: true });
+  }
+
+  throw new HttpError(405, '不支持的请求方法');
+};
+
+// ---------- 路由 ----------
+
+const isAuthorized = req => !SYNC_TOKEN || req.headers.authorization === `Bearer ${SYNC_TOKEN}`;
+
+const getAllowedOrigin = req => {
+  if (CORS_ORIGINS.includes('*')) return '*';
+  const origin = req.headers.origin;
+  return origin && CORS_ORIGINS.includes(origin) ? origin : CORS_ORIGINS[0];
+};
+
+const server = http.createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', getAllowedOrigin(req));
+  res.setHeader('Vary', 'Origin');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, HEAD, PUT, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    return res.end();
+  }
+
+  try {
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+    const [, api, resource, id] = pathname.split('/').map(decodeURIComponent);
+    if (api !== 'api') throw new HttpError(404, '接口不存在');
+
+    if (resource === 'health') {
+      return sendJson(res, 200, { ok: true, auth: !!SYNC_TOKEN });
+    }
+    if (!isAuthorized(req)) throw new HttpError(401, '访问令牌无效');
+
+    switch (resource) {
+      case 'projects':
+        return await handleProjects(req, res, id);
+      case 'assets':
+        return await handleAssets(req, res, id);
+      case 'media':
+        return await handleMedia(req, res, id);
+      default:
+        throw new HttpError(404, '接口不存在');
+    }
+  } catch (error) {
+    const status = error instanceof HttpError ? error.status : 500;
+    if (status === 500) console.error(error);
+    if (!res.headersSent) {
+      sendJson(res, status, { error: error.message || '服务器内部错误', ...(error.extra || {}) });
+    } else {
+      res.end();
+    }
+  }
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`BigBanana sync server listening on ${HOST}:${PORT}, data dir ${DATA_DIR}${SYNC_TOKEN ? ' (token required)' : ''}`);
+  console.log(`Allowed origins: ${CORS_ORIGINS.join(', ')}`);
+});
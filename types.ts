@@ -44,6 +44,7 @@ export interface Character {
   referenceImage?: string; // 角色基础参考图，存储为base64格式（data:image/png;base64,...）
   turnaround?: CharacterTurnaroundData; // 角色九宫格造型设计，多视角参考图
   variations: CharacterVariation[]; // Added: List of alternative looks
+  voice?: string; // 配音音色（TTS voice），未设置时使用配音模型的默认音色
   status?: 'pending' | 'generating' | 'completed' | 'failed'; // 生成状态，用于loading状态持久化
 }
 
@@ -103,6 +104,8 @@ export interface VideoInterval {
   videoUrl?: string; // 视频数据，存储为base64格式（data:video/mp4;base64,...），避免URL过期问题
   videoPrompt?: string; // 视频生成时使用的提示词
   status: 'pending' | 'generating' | 'completed' | 'failed';
+  trimIn?: number; // 成片入点（秒，相对片段开头），未设置时从 0 开始
+  trimOut?: number; // 成片出点（秒，相对片段开头），未设置时到片段结尾
 }
 
 /**
@@ -142,6 +145,63 @@ export interface Shot {
   interval?: VideoInterval;
   videoModel?: 'veo' | 'sora-2' | 'veo_3_1-fast' | 'veo_3_1-fast-4K' | 'veo_3_1_t2v_fast_landscape' | 'veo_3_1_t2v_fast_portrait' | 'veo_3_1_i2v_s_fast_fl_landscape' | 'veo_3_1_i2v_s_fast_fl_portrait'; // Video generation model selection
   nineGrid?: NineGridData; // 可选的九宫格分镜预览数据（高级功能）
+  transitionOut?: ShotTransition; // 切换到下一个镜头时的转场，未设置时为硬切
+  dialogueAudio?: DialogueAudio; // 台词配音
+}
+
+/**
+ * 镜头台词配音
+ */
+export interface DialogueAudio {
+  audioUrl?: string; // 配音音频，存储为base64格式（data:audio/mpeg;base64,...）
+  text: string; // 生成时使用的台词（已去除说话人前缀）
+  speakerId?: string; // 说话角色 ID，旁白为空
+  voice: string; // 使用的音色
+  modelId: string; // 使用的配音模型
+  duration?: number; // 音频时长（秒）
+  status: 'pending' | 'generating' | 'completed' | 'failed';
+}
+
+/**
+ * 镜头转场类型
+ * - cut: 硬切
+ * - crossfade: 叠化（前后镜头重叠）
+ * - dip-to-black: 黑场过渡（淡出到黑再淡入）
+ * - match-cut: 匹配剪辑（渲染上等同硬切，标记动作/构图衔接点）
+ */
+export type TransitionType = 'cut' | 'crossfade' | 'dip-to-black' | 'match-cut';
+
+/**
+ * 镜头之间的转场
+ */
+export interface ShotTransition {
+  type: TransitionType;
+  duration: number; // 转场时长（秒），硬切与匹配剪辑为 0
+}
+
+/**
+ * 项目音轨类型
+ * - music: 背景音乐（可不绑定镜头，从成片开头开始）
+ * - sfx: 音效（绑定到镜头，从镜头开始处偏移）
+ */
+export type AudioTrackKind = 'music' | 'sfx';
+
+/**
+ * 项目音轨（背景音乐 / 音效）
+ * 通过镜头 ID 而非时间码定位，镜头重新排序后音效仍跟随对应镜头
+ */
+export interface AudioTrack {
+  id: string;
+  kind: AudioTrackKind;
+  name: string; // 显示名称（默认为导入的文件名）
+  audioUrl: string; // 音频数据，存储为base64格式（data:audio/...;base64,...）
+  duration?: number; // 音频原始时长（秒）
+  shotId?: string; // 锚定镜头 ID；背景音乐为空时从成片开头开始
+  offset: number; // 相对锚点的起始偏移（秒）
+  volume: number; // 音量 0-1
+  fadeIn: number; // 淡入时长（秒）
+  fadeOut: number; // 淡出时长（秒）
+  loop?: boolean; // 循环播放直到成片结束（背景音乐）
 }
 
 /**
@@ -194,7 +254,7 @@ export interface ScriptData {
 export interface RenderLog {
   id: string;
   timestamp: number; // Unix timestamp when API was called
-  type: 'character' | 'character-variation' | 'scene' | 'prop' | 'keyframe' | 'video' | 'script-parsing';
+  type: 'character' | 'character-variation' | 'scene' | 'prop' | 'keyframe' | 'video' | 'audio' | 'script-parsing';
   resourceId: string; // ID of the resource being generated
   resourceName: string; // Human-readable name
   status: 'success' | 'failed';
@@ -225,6 +285,58 @@ export interface ProjectState {
   shots: Shot[];
   isParsingScript: boolean;
   renderLogs: RenderLog[]; // History of all API calls for this project
+  audioTracks?: AudioTrack[]; // 背景音乐与音效
+}
+
+/**
+ * 项目快照（版本历史）
+ * 媒体以引用形式保存，与项目共用媒体库，不重复存储未变化的图片和视频
+ */
+export interface ProjectSnapshot {
+  id: string;
+  projectId: string;
+  name: string;
+  kind: 'auto' | 'manual'; // auto: 重大操作前自动创建；manual: 用户手动命名创建
+  createdAt: number;
+  project: ProjectState;
+}
+
+/**
+ * 生成任务类型与状态
+ */
+export type GenerationJobKind = 'image' | 'video' | 'chat';
+export type GenerationJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+/**
+ * 生成任务的作用对象，用于在任务面板中定位以及刷新后写回结果
+ */
+export interface GenerationJobTarget {
+  type: 'keyframe' | 'video' | 'character' | 'variation' | 'scene' | 'prop' | 'script';
+  id: string; // 镜头 / 角色 / 场景 / 道具 / 项目 ID
+  subId?: string; // 关键帧类型（start/end）或角色变体 ID
+}
+
+/**
+ * 异步视频任务（Sora 等）的远程信息，页面刷新后据此继续查询结果
+ */
+export interface RemoteVideoTask {
+  taskId: string;
+  model: string; // 发起任务时选择的视频模型
+}
+
+export interface GenerationJob {
+  id: string;
+  projectId: string;
+  kind: GenerationJobKind;
+  label: string;
+  target?: GenerationJobTarget;
+  status: GenerationJobStatus;
+  error?: string;
+  remoteTask?: RemoteVideoTask;
+  tabId: string; // 执行任务的标签页
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
 }
 
 // ============================================
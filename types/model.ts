@@ -10,7 +10,7 @@
 /**
  * 模型类型
  */
-export type ModelType = 'chat' | 'image' | 'video';
+export type ModelType = 'chat' | 'image' | 'video' | 'audio';
 
 /**
  * 横竖屏比例类型
@@ -27,6 +27,54 @@ export type VideoDuration = 4 | 8 | 12;
  */
 export type VideoMode = 'sync' | 'async';
 
+/**
+ * 对话接口协议
+ * openai: /v1/chat/completions
+ * anthropic: /v1/messages（Anthropic Messages API 原生格式）
+ * ollama: /api/chat（Ollama 原生接口，API Key 可选）
+ * llamacpp: llama.cpp server 的 /v1/chat/completions（OpenAI 兼容格式，API Key 可选）
+ */
+export type ChatApiProtocol = 'openai' | 'anthropic' | 'ollama' | 'llamacpp';
+
+/**
+ * 图片接口协议
+ * gemini: /v1beta/models/{model}:generateContent（参考图以 inlineData 传入）
+ * openai: /v1/images/generations，有参考图时改用 /v1/images/edits（multipart 上传）
+ * comfyui: 自建 ComfyUI，按工作流模板提交并轮询 /history
+ * a1111: 自建 Automatic1111 WebUI，/sdapi/v1/txt2img 与 img2img
+ */
+export type ImageApiProtocol = 'gemini' | 'openai' | 'comfyui' | 'a1111';
+
+/**
+ * 通用异步视频任务协议
+ * 以声明方式描述"创建任务 -> 轮询状态 -> 下载结果"的接口，Kling、Runway、海螺、万相等服务无需单独适配；
+ * 字段路径以点号分隔（如 data.task_result.videos.0.url），地址、请求头与请求体中可使用 {{占位符}}
+ */
+export interface AsyncVideoTaskProtocol {
+  createEndpoint: string;              // 创建任务地址（相对基础 URL，也可填写完整 URL）
+  bodyFormat: 'json' | 'multipart';    // 请求体格式，multipart 时图片字段以文件上传
+  body: Record<string, any>;           // 请求体模板，渲染后为空字符串的字段不发送
+  headers?: Record<string, string>;    // 额外请求头（默认已带 Authorization: Bearer {{api_key}}）
+  taskIdPath: string;                  // 创建响应中任务 ID 的路径
+  statusEndpoint: string;              // 状态查询地址，可使用 {{task_id}}
+  statusPath: string;                  // 查询响应中任务状态的路径
+  successValues: string[];             // 表示成功的状态值
+  failureValues: string[];             // 表示失败的状态值
+  errorPath?: string;                  // 失败原因的路径
+  resultUrlPath: string;               // 成功时视频地址的路径
+  resultEndpoint?: string;             // 结果需二次查询时的地址，{{result}} 为 resultUrlPath 取到的值
+  resultEndpointUrlPath?: string;      // 二次查询响应中视频地址的路径
+  cancelEndpoint?: string;             // 取消任务地址，可使用 {{task_id}}
+  cancelMethod?: 'POST' | 'DELETE';    // 取消请求方法，默认 POST
+  pollIntervalMs?: number;             // 轮询间隔，默认 5 秒
+  timeoutMs?: number;                  // 最长等待时间，默认 20 分钟
+}
+
+/**
+ * 配音音频格式
+ */
+export type AudioFormat = 'mp3' | 'wav';
+
 // ============================================
 // 模型参数配置
 // ============================================
@@ -61,10 +109,33 @@ export interface VideoModelParams {
   supportedDurations: VideoDuration[];
 }
 
+/**
+ * 配音（TTS）模型参数
+ */
+export interface AudioModelParams {
+  defaultVoice: string;          // 默认音色
+  voices: string[];              // 可选音色列表
+  format: AudioFormat;           // 输出格式
+  speed: number;                 // 语速 0.25-4，默认 1
+}
+
 /**
  * 模型参数联合类型
  */
-export type ModelParams = ChatModelParams | ImageModelParams | VideoModelParams;
+export type ModelParams = ChatModelParams | ImageModelParams | VideoModelParams | AudioModelParams;
+
+// ============================================
+// 限流配置
+// ============================================
+
+/**
+ * 请求限流配置，未设置或为 0 的项不限制
+ * 提供商级限流未设置的项使用默认值，需显式填 0 才不限制
+ */
+export interface RateLimitConfig {
+  maxConcurrent?: number;        // 同时进行的请求数上限
+  requestsPerMinute?: number;    // 每分钟发起的请求数上限
+}
 
 // ============================================
 // 模型定义
@@ -84,6 +155,7 @@ export interface ModelDefinitionBase {
   isBuiltIn: boolean;            // 是否内置（内置模型不可删除）
   isEnabled: boolean;            // 是否启用
   apiKey?: string;               // 模型专属 API Key（可选，为空时使用全局 Key）
+  rateLimit?: RateLimitConfig;   // 模型级限流（可选，与提供商限流同时生效）
 }
 
 /**
@@ -91,6 +163,7 @@ export interface ModelDefinitionBase {
  */
 export interface ChatModelDefinition extends ModelDefinitionBase {
   type: 'chat';
+  protocol?: ChatApiProtocol;    // 请求协议，默认 openai
   params: ChatModelParams;
 }
 
@@ -99,6 +172,8 @@ export interface ChatModelDefinition extends ModelDefinitionBase {
  */
 export interface ImageModelDefinition extends ModelDefinitionBase {
   type: 'image';
+  protocol?: ImageApiProtocol;   // 请求协议，默认 gemini
+  workflowTemplate?: string;     // ComfyUI 工作流 / A1111 请求体模板（JSON，留空使用默认模板）
   params: ImageModelParams;
 }
 
@@ -107,13 +182,22 @@ export interface ImageModelDefinition extends ModelDefinitionBase {
  */
 export interface VideoModelDefinition extends ModelDefinitionBase {
   type: 'video';
+  asyncProtocol?: AsyncVideoTaskProtocol;  // 通用异步任务协议，设置后按协议创建并轮询任务
   params: VideoModelParams;
 }
 
+/**
+ * 配音（TTS）模型定义
+ */
+export interface AudioModelDefinition extends ModelDefinitionBase {
+  type: 'audio';
+  params: AudioModelParams;
+}
+
 /**
  * 模型定义联合类型
  */
-export type ModelDefinition = ChatModelDefinition | ImageModelDefinition | VideoModelDefinition;
+export type ModelDefinition = ChatModelDefinition | ImageModelDefinition | VideoModelDefinition | AudioModelDefinition;
 
 // ============================================
 // 提供商定义
@@ -129,6 +213,17 @@ export interface ModelProvider {
   apiKey?: string;               // 独立 API Key（可选）
   isBuiltIn: boolean;            // 是否内置
   isDefault: boolean;            // 是否为默认提供商
+  rateLimit?: RateLimitConfig;   // 提供商级限流（可选，该提供商下所有模型共享）
+  mockSettings?: MockProviderSettings;  // 模拟提供商的延迟与失败注入配置
+}
+
+/**
+ * 模拟提供商配置
+ */
+export interface MockProviderSettings {
+  latencyMs: number;             // 每次请求的模拟延迟（毫秒）
+  failureRate: number;           // 失败注入概率 0-1
+  failureStatus: number;         // 注入失败时的 HTTP 状态码（429、5xx 会触发重试，4xx 直接失败）
 }
 
 // ============================================
@@ -142,6 +237,7 @@ export interface ActiveModels {
   chat: string;                  // 当前激活的对话模型 ID
   image: string;                 // 当前激活的图片模型 ID
   video: string;                 // 当前激活的视频模型 ID
+  audio: string;                 // 当前激活的配音模型 ID
 }
 
 /**
@@ -168,6 +264,7 @@ export interface ChatOptions {
   timeout?: number;
   // 可选覆盖模型参数
   overrideParams?: Partial<ChatModelParams>;
+  signal?: AbortSignal;          // 取消信号
 }
 
 /**
@@ -175,8 +272,10 @@ export interface ChatOptions {
  */
 export interface ImageGenerateOptions {
   prompt: string;
+  negativePrompt?: string;       // 负面提示词（仅自建后端使用）
   referenceImages?: string[];
   aspectRatio?: AspectRatio;
+  signal?: AbortSignal;          // 取消信号
 }
 
 /**
@@ -188,6 +287,17 @@ export interface VideoGenerateOptions {
   endImage?: string;
   aspectRatio?: AspectRatio;
   duration?: VideoDuration;
+  signal?: AbortSignal;          // 取消信号
+}
+
+/**
+ * 配音生成调用参数
+ */
+export interface AudioGenerateOptions {
+  text: string;
+  voice?: string;
+  speed?: number;
+  signal?: AbortSignal;          // 取消信号
 }
 
 // ============================================
@@ -244,6 +354,26 @@ export const DEFAULT_VIDEO_PARAMS_VEO_FAST: VideoModelParams = {
   supportedDurations: [8],
 };
 
+/**
+ * 默认配音模型参数（OpenAI Audio Speech 兼容接口）
+ */
+export const DEFAULT_AUDIO_PARAMS: AudioModelParams = {
+  defaultVoice: 'alloy',
+  voices: ['alloy', 'echo', 'fable', 'onyx', 'nova', 'shimmer'],
+  format: 'mp3',
+  speed: 1,
+};
+
+/**
+ * 本地离线配音参数（不发起网络请求，生成占位音频）
+ */
+export const DEFAULT_AUDIO_PARAMS_LOCAL: AudioModelParams = {
+  defaultVoice: 'neutral',
+  voices: ['neutral', 'male', 'female', 'child', 'elder'],
+  format: 'wav',
+  speed: 1,
+};
+
 // ============================================
 // 内置模型定义
 // ============================================
@@ -350,6 +480,96 @@ export const BUILTIN_VIDEO_MODELS: VideoModelDefinition[] = [
   },
 ];
 
+/**
+ * 本地离线提供商 ID（该提供商下的模型在浏览器内直接生成结果，无需 API Key）
+ */
+export const LOCAL_PROVIDER_ID = 'local';
+
+/**
+ * 模拟提供商 ID（该提供商下的模型返回固定的模拟结果，不联网、无需 API Key，用于离线开发与演示）
+ */
+export const MOCK_PROVIDER_ID = 'mock';
+
+/**
+ * 提供商未配置限流时使用的默认限流，避免批量生成瞬间打满接口触发 429（本地部署与模拟提供商除外）
+ */
+export const DEFAULT_PROVIDER_RATE_LIMIT: RateLimitConfig = {
+  maxConcurrent: 3,
+  requestsPerMinute: 20,
+};
+
+/**
+ * 默认模拟提供商配置
+ */
+export const DEFAULT_MOCK_SETTINGS: MockProviderSettings = {
+  latencyMs: 800,
+  failureRate: 0,
+  failureStatus: 500,
+};
+
+/**
+ * 模拟模型列表
+ */
+export const BUILTIN_MOCK_MODELS: ModelDefinition[] = [
+  {
+    id: 'mock-chat',
+    name: '模拟对话（离线）',
+    type: 'chat',
+    providerId: MOCK_PROVIDER_ID,
+    description: '返回与剧本解析、分镜生成等结构一致的固定 JSON，用于离线开发与演示',
+    isBuiltIn: true,
+    isEnabled: true,
+    params: { ...DEFAULT_CHAT_PARAMS },
+  },
+  {
+    id: 'mock-image',
+    name: '模拟图片（离线）',
+    type: 'image',
+    providerId: MOCK_PROVIDER_ID,
+    description: '生成标注提示词的占位关键帧图片',
+    isBuiltIn: true,
+    isEnabled: true,
+    params: { ...DEFAULT_IMAGE_PARAMS },
+  },
+  {
+    id: 'mock-video',
+    name: '模拟视频（离线）',
+    type: 'video',
+    providerId: MOCK_PROVIDER_ID,
+    description: '在浏览器内录制测试图案短视频，有首尾帧时以首尾帧为画面',
+    isBuiltIn: true,
+    isEnabled: true,
+    params: { ...DEFAULT_VIDEO_PARAMS_SORA },
+  },
+];
+
+/**
+ * 内置配音模型列表
+ */
+export const BUILTIN_AUDIO_MODELS: AudioModelDefinition[] = [
+  {
+    id: 'tts-1',
+    name: 'TTS-1',
+    type: 'audio',
+    providerId: 'antsk',
+    endpoint: '/v1/audio/speech',
+    description: 'OpenAI 兼容语音合成，用于镜头台词配音',
+    isBuiltIn: true,
+    isEnabled: true,
+    params: { ...DEFAULT_AUDIO_PARAMS },
+  },
+  {
+    id: 'local-tts',
+    name: '本地占位配音（离线）',
+    type: 'audio',
+    providerId: LOCAL_PROVIDER_ID,
+    description: '不联网、不消耗额度，按台词长度生成占位音频，便于离线剪辑与对时',
+    isBuiltIn: true,
+    isEnabled: true,
+    params: { ...DEFAULT_AUDIO_PARAMS_LOCAL },
+  },
+];
+
 /**
  * 内置提供商列表
  */
@@ -361,6 +581,21 @@ export const BUILTIN_PROVIDERS: ModelProvider[] = [
     isBuiltIn: true,
     isDefault: true,
   },
+  {
+    id: LOCAL_PROVIDER_ID,
+    name: '本地离线 (Local)',
+    baseUrl: 'local://',
+    isBuiltIn: true,
+    isDefault: false,
+  },
+  {
+    id: MOCK_PROVIDER_ID,
+    name: '模拟 (Mock)',
+    baseUrl: 'mock://',
+    isBuiltIn: true,
+    isDefault: false,
+    mockSettings: { ...DEFAULT_MOCK_SETTINGS },
+  },
 ];
 
 /**
@@ -370,6 +605,8 @@ export const ALL_BUILTIN_MODELS: ModelDefinition[] = [
   ...BUILTIN_CHAT_MODELS,
   ...BUILTIN_IMAGE_MODELS,
   ...BUILTIN_VIDEO_MODELS,
+  ...BUILTIN_AUDIO_MODELS,
+  ...BUILTIN_MOCK_MODELS,
 ];
 
 /**
@@ -379,4 +616,5 @@ export const DEFAULT_ACTIVE_MODELS: ActiveModels = {
   chat: 'gpt-5.1',
   image: 'gemini-3-pro-image-preview',
   video: 'sora-2',
+  audio: 'tts-1',
 };